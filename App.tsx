@@ -3,7 +3,7 @@
  * Manages global state for authentication, treasures, user progress,
  * geolocation, leaderboard, and AI-generated content.
  */
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Header } from './components/Header';
 import { MapComponent } from './components/MapComponent';
 import { Scanner } from './components/Scanner';
@@ -12,30 +12,38 @@ import { ToastContainer, ToastData } from './components/Toast';
 import { LeaderboardTab } from './components/LeaderboardTab';
 import { ProfileTab } from './components/ProfileTab';
 import { FeedbackTab } from './components/FeedbackTab';
-import { BADGES } from './constants';
+import { HuntPicker } from './components/HuntPicker';
+import { QuizModal } from './components/QuizModal';
+import { PhotoChallenge } from './components/PhotoChallenge';
+import { UNLOCK_ERROR_MESSAGES } from './constants';
 import { Treasure, UserProgress } from './types';
 import { generateCampusTrivia, generateMissionBriefing, generateProximityHint } from './services/geminiService';
-import { authAPI, treasuresAPI, progressAPI, leaderboardAPI, convertTreasure, LeaderboardEntry } from './services/api';
+import { authAPI, huntsAPI, badgesAPI, treasuresAPI, progressAPI, leaderboardAPI, convertTreasure, LeaderboardEntry, LeaderboardPeriod, ApiError, HuntFromAPI, QuizChallenge, PhotoSubmissionFromAPI, ProgressFromAPI, TreasureFromAPI, BadgeFromAPI } from './services/api';
+import { offlineCache, unlockQueue, QueuedUnlock, UnlockProof } from './services/offlineStore';
 import { 
   Trophy, MapPin, Lock, Unlock, AlertCircle, 
   User, Award, Zap, Compass, Info, CheckCircle2, X, Settings, Camera, HelpCircle, ChevronRight,
   Navigation, MousePointer2, AlertTriangle, BookOpen, Target, Sparkles, Activity, ShieldCheck,
-  Star, Map as MapIcon, Flag, GraduationCap
+  Star, Map as MapIcon, Flag, GraduationCap, Link2, WifiOff, CloudUpload
 } from 'lucide-react';
 
-/** Maps badge icon names (from BADGES constant) to their Lucide components */
-const BADGE_ICONS: Record<string, React.FC<{ className?: string }>> = {
-  Compass,
-  GraduationCap,
-  Star,
-  Trophy
-};
+/** A scan the server accepted that's waiting on the treasure's quiz — the proof is resent with the answer */
+interface QuizPrompt {
+  treasureId: string;
+  proof: UnlockProof;
+  quiz: QuizChallenge;
+  wrongAnswers: number;
+}
+
+/** How often the player's position is reported for the admin activity heatmap */
+const LOCATION_PING_MS = 2 * 60 * 1000;
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'map' | 'leaderboard' | 'profile' | 'admin'>('map');
   const [username, setUsername] = useState<string>(localStorage.getItem('geohunt_user') || '');
   const [treasures, setTreasures] = useState<Treasure[]>([]);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>('hunt');
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isAdmin, setIsAdmin] = useState<boolean>(localStorage.getItem('geohunt_admin') === 'true');
   const [userProgress, setUserProgress] = useState<UserProgress>({
@@ -48,6 +56,8 @@ const App: React.FC = () => {
 
   const [selectedTreasure, setSelectedTreasure] = useState<Treasure | null>(null);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [quizPrompt, setQuizPrompt] = useState<QuizPrompt | null>(null);
+  const [photoSubmissions, setPhotoSubmissions] = useState<PhotoSubmissionFromAPI[]>([]);
   const [triviaCache, setTriviaCache] = useState<Record<string, string>>({});
   const [aiHint, setAiHint] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<GeolocationCoordinates | null>(null);
@@ -55,7 +65,13 @@ const App: React.FC = () => {
   const [isLoadingBriefing, setIsLoadingBriefing] = useState(false);
   const [toasts, setToasts] = useState<ToastData[]>([]);
   const [showCompletion, setShowCompletion] = useState(false);
-
+  const [hunts, setHunts] = useState<HuntFromAPI[]>([]);
+  const [badges, setBadges] = useState<BadgeFromAPI[]>([]);
+  const [huntId, setHuntId] = useState<string>(localStorage.getItem('geohunt_hunt') || '');
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [queuedUnlocks, setQueuedUnlocks] = useState<QueuedUnlock[]>([]);
+  const isSyncing = useRef(false);
+  const lastPingAt = useRef(0);
 
   /**
    * Add a toast notification to the screen.
@@ -75,57 +91,126 @@ const App: React.FC = () => {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
-  /** Fetch all treasures from the API on initial mount */
+  /**
+   * Load the list of hunts on mount and settle on which one we're playing.
+   * Keeps the player's last choice if it still exists, otherwise uses the server's default.
+   * Offline, the last list we saw is shown and the stored choice is kept as-is.
+   */
   useEffect(() => {
+    const fetchHunts = async () => {
+      try {
+        const response = await huntsAPI.getAll();
+        setHunts(response.data);
+        offlineCache.set('hunts', response.data);
+        const stored = localStorage.getItem('geohunt_hunt');
+        const resolved = response.data.some(h => h._id === stored)
+          ? stored!
+          : response.defaultHunt || response.data[0]?._id || '';
+        setHuntId(resolved);
+        if (!resolved) setIsLoading(false);
+      } catch (error) {
+        console.error('Failed to fetch hunts:', error);
+        const cached = await offlineCache.get<HuntFromAPI[]>('hunts');
+        if (cached) setHunts(cached);
+        if (!localStorage.getItem('geohunt_hunt')) setIsLoading(false);
+      }
+    };
+    fetchHunts();
+  }, []);
+
+  /**
+   * Fetch the selected hunt's treasures from the API whenever the hunt or player changes.
+   * Hidden trail treasures depend on who's asking, so logging in or out reloads the list.
+   * Each successful fetch is cached so the map still works without a signal.
+   */
+  useEffect(() => {
+    if (!huntId) return;
     const fetchTreasures = async () => {
+      const cacheKey = `treasures:${huntId}`;
+      const unlockedIds = userProgress?.unlockedTreasureIds || [];
       try {
-        const response = await treasuresAPI.getAll();
-        const unlockedIds = userProgress?.unlockedTreasureIds || [];
+        const response = await treasuresAPI.getAll(huntId);
         setTreasures(response.data.map(t => convertTreasure(t, unlockedIds)));
+        offlineCache.set(cacheKey, response.data);
       } catch (error) {
         console.error('Failed to fetch treasures:', error);
+        const cached = await offlineCache.get<TreasureFromAPI[]>(cacheKey);
+        if (cached) setTreasures(cached.map(t => convertTreasure(t, unlockedIds)));
       } finally {
         setIsLoading(false);
       }
     };
     fetchTreasures();
-  }, []);
+  }, [huntId, username]);
 
-  /** Refresh the leaderboard whenever the player's score changes */
+  /** Load the badges the selected hunt awards (kept for offline play like the treasure list) */
   useEffect(() => {
-    const fetchLeaderboard = async () => {
+    if (!huntId) return;
+    const fetchBadges = async () => {
+      const cacheKey = `badges:${huntId}`;
       try {
-        const response = await leaderboardAPI.get(10);
-        setLeaderboard(response.data);
+        const response = await badgesAPI.getAll(huntId);
+        setBadges(response.data);
+        offlineCache.set(cacheKey, response.data);
       } catch (error) {
-        console.error('Failed to fetch leaderboard:', error);
+        console.error('Failed to fetch badges:', error);
+        setBadges(await offlineCache.get<BadgeFromAPI[]>(cacheKey) || []);
       }
     };
-    fetchLeaderboard();
-  }, [userProgress.totalPoints]);
+    fetchBadges();
+  }, [huntId]);
 
-  /** Restore the player's progress from the API if they have a valid session */
+  /** Follow the selected hunt's leaderboard live — the server pushes new rankings as treasures are unlocked */
+  useEffect(() => {
+    if (!huntId) return;
+    return leaderboardAPI.subscribe(setLeaderboard, 10, huntId, leaderboardPeriod);
+  }, [huntId, leaderboardPeriod]);
+
+  /**
+   * Restore the player's progress (and photo challenge uploads) in the selected hunt if they have a valid session.
+   * Falls back to the last copy we saved when the server can't be reached.
+   */
   useEffect(() => {
     const loadProgress = async () => {
-      if (authAPI.isLoggedIn() && username) {
-        try {
-          const response = await progressAPI.get();
-          const prog = response.data;
-          setUserProgress({
+      if (authAPI.isLoggedIn() && username && huntId) {
+        const cacheKey = `progress:${username}:${huntId}`;
+        const apply = (prog: ProgressFromAPI, photos: PhotoSubmissionFromAPI[]) => {
+          setPhotoSubmissions(photos);
+          setUserProgress(prev => ({
             username,
             unlockedTreasureIds: prog.unlockedTreasures.map(t => t._id),
             totalPoints: prog.totalPoints,
             badges: prog.badges,
             level: prog.level,
-            missionBriefing: prog.missionBriefing
-          });
+            levelInfo: prog.levelInfo,
+            // Briefings are saved per hunt — keep showing the last one until this hunt has its own
+            missionBriefing: prog.missionBriefing || prev.missionBriefing
+          }));
+        };
+        try {
+          const [response, photosResponse] = await Promise.all([progressAPI.get(huntId), progressAPI.getPhotos(huntId)]);
+          apply(response.data, photosResponse.data);
+          offlineCache.set(cacheKey, { progress: response.data, photos: photosResponse.data });
         } catch (error) {
           console.error('Failed to load progress:', error);
+          const cached = await offlineCache.get<{ progress: ProgressFromAPI; photos: PhotoSubmissionFromAPI[] }>(cacheKey);
+          if (cached) apply(cached.progress, cached.photos);
         }
       }
     };
     loadProgress();
-  }, [username]);
+  }, [username, huntId]);
+
+  /**
+   * Switch to a different hunt — the effects above reload its treasures, progress and leaderboard.
+   * @param {string} id - The hunt the player picked
+   */
+  const handleSelectHunt = (id: string) => {
+    setHuntId(id);
+    localStorage.setItem('geohunt_hunt', id);
+    setSelectedTreasure(null);
+    setShowCompletion(false);
+  };
 
   /** Watch the user's GPS position for live tracking on the map */
   useEffect(() => {
@@ -149,6 +234,18 @@ const App: React.FC = () => {
     return () => navigator.geolocation.clearWatch(watchId);
   }, []); // Empty dependency to only run once
 
+  /** Every couple of minutes while the map is open, tell the server where the player is (feeds the admin heatmap) */
+  useEffect(() => {
+    if (activeTab !== 'map' || !userLocation || !username || !huntId || !isOnline) return;
+    if (Date.now() - lastPingAt.current < LOCATION_PING_MS) return;
+    lastPingAt.current = Date.now();
+    progressAPI.ping({
+      latitude: userLocation.latitude,
+      longitude: userLocation.longitude,
+      accuracy: userLocation.accuracy
+    }, huntId).catch(() => { /* best effort — a missed ping doesn't matter */ });
+  }, [activeTab, userLocation, username, huntId, isOnline]);
+
   /**
    * Calculate distance between two GPS points using the Haversine formula.
    * @returns {number} Distance in meters
@@ -169,11 +266,22 @@ const App: React.FC = () => {
     return calculateDistance(userLocation.latitude, userLocation.longitude, treasure.latitude, treasure.longitude);
   }, [userLocation]);
 
-  /** Check if the user is within scanning range (50m) of a treasure */
+  /** Check if the user is within a treasure's unlock radius (the server enforces the same geofence) */
   const isNear = useCallback((treasure: Treasure) => {
-    return getDistanceTo(treasure) < 50;
+    return getDistanceTo(treasure) < treasure.unlockRadius;
   }, [getDistanceTo]);
 
+  /**
+   * Names of the treasures the player still has to find before this one can be unlocked.
+   * Prerequisites the player can't see yet (hidden further along a trail) are listed generically.
+   */
+  const getMissingPrerequisites = useCallback((treasure: Treasure): string[] => {
+    const found = userProgress?.unlockedTreasureIds || [];
+    return treasure.prerequisites
+      .filter(id => !found.includes(id))
+      .map(id => treasures.find(t => t.id === id)?.name || 'a hidden treasure');
+  }, [treasures, userProgress]);
+
   const [newPlayerId, setNewPlayerId] = useState<string | null>(null);
   
   /**
@@ -207,10 +315,10 @@ const App: React.FC = () => {
         const briefing = await generateMissionBriefing(name);
         
         // Update briefing in backend
-        await progressAPI.updateBriefing(briefing);
+        await progressAPI.updateBriefing(briefing, huntId);
         
         // Load progress from backend
-        const progressRes = await progressAPI.get();
+        const progressRes = await progressAPI.get(huntId);
         const prog = progressRes.data;
         
         setUserProgress({
@@ -219,6 +327,7 @@ const App: React.FC = () => {
           totalPoints: prog.totalPoints,
           badges: prog.badges,
           level: prog.level,
+          levelInfo: prog.levelInfo,
           missionBriefing: briefing
         });
         setUsername(name);
@@ -245,7 +354,7 @@ const App: React.FC = () => {
       try {
         await authAPI.loginWithPlayerId(playerId);
         
-        const meRes = await authAPI.getMe();
+        const meRes = await authAPI.getMe(huntId);
         const userIsAdmin = meRes.data.user?.role === 'admin';
         setIsAdmin(userIsAdmin);
         localStorage.setItem('geohunt_admin', userIsAdmin.toString());
@@ -259,6 +368,7 @@ const App: React.FC = () => {
           totalPoints: prog?.totalPoints || 0,
           badges: prog?.badges || [],
           level: prog?.level || 1,
+          levelInfo: prog?.levelInfo,
           missionBriefing: prog?.missionBriefing || ''
         });
         setUsername(name);
@@ -275,10 +385,12 @@ const App: React.FC = () => {
   /**
    * When a treasure marker is tapped, open its detail modal and fetch AI trivia.
    * Caches trivia to avoid re-generating for the same treasure.
+   * The view is reported for the admin analytics; a failed report is just dropped.
    */
   const handleTreasureClick = async (treasure: Treasure) => {
     setSelectedTreasure(treasure);
     setAiHint(null);
+    if (username) progressAPI.recordView(treasure.id).catch(() => {});
     if (!triviaCache[treasure.id]) {
       const trivia = await generateCampusTrivia(treasure.name, treasure.category);
       setTriviaCache(prev => ({ ...prev, [treasure.id]: trivia }));
@@ -286,16 +398,39 @@ const App: React.FC = () => {
   };
 
   /**
-   * Unlock a treasure after successful QR scan.
+   * Unlock a treasure after a successful QR scan or typed sticker code.
    * Awards points, checks for badges, and triggers completion if all found.
-   * @param {string} id - The treasure ID from the scanned QR code
+   * Quiz treasures come back asking for an answer first — the quiz modal then
+   * calls this again with the same proof and the player's answer.
+   * @param   {string}      id       - The treasure being unlocked
+   * @param   {UnlockProof} proof    - The signed QR payload or the typed manual code, verified by the server
+   * @param   {string}      [answer] - The player's answer to the treasure's quiz
+   * @returns {Promise<boolean>} True if the server accepted the unlock (or the scan, pending its quiz)
    */
-  const unlockTreasure = async (id: string) => {
+  const unlockTreasure = async (id: string, proof: UnlockProof, answer?: string): Promise<boolean> => {
     const treasure = treasures.find(t => t.id === id);
     if (treasure && !userProgress.unlockedTreasureIds.includes(id)) {
+      if (!userLocation) {
+        setIsScannerOpen(false);
+        addToast(UNLOCK_ERROR_MESSAGES.LOCATION_REQUIRED, 'error');
+        return false;
+      }
+      if (queuedUnlocks.some(q => q.treasureId === id)) {
+        setIsScannerOpen(false);
+        addToast(UNLOCK_ERROR_MESSAGES.ALREADY_QUEUED, 'info');
+        return false;
+      }
+      // The server re-checks our position against the treasure's geofence
+      const location = {
+        latitude: userLocation.latitude,
+        longitude: userLocation.longitude,
+        accuracy: userLocation.accuracy
+      };
       try {
         // Unlock via API
-        const response = await progressAPI.unlockTreasure(id);
+        const response = proof.method === 'qr'
+          ? await progressAPI.unlockTreasure(id, proof.qrPayload, location, answer)
+          : await progressAPI.unlockWithCode(id, proof.code, location, answer);
         const prog = response.data;
         
         const newUnlockedIds = prog.unlockedTreasures.map(t => t._id);
@@ -304,26 +439,198 @@ const App: React.FC = () => {
           unlockedTreasureIds: newUnlockedIds,
           totalPoints: prog.totalPoints,
           badges: prog.badges,
-          level: prog.level
+          level: prog.level,
+          levelInfo: prog.levelInfo
         }));
         
-        // Update treasures list to mark as unlocked
-        setTreasures(prev => prev.map(t => 
+        // Update treasures list to mark as unlocked, then reload it — finding this one
+        // may reveal hidden treasures further along its trail
+        let huntTreasures = treasures.map(t =>
           t.id === id ? { ...t, isUnlocked: true } : t
-        ));
+        );
+        try {
+          const refreshed = await treasuresAPI.getAll(huntId);
+          huntTreasures = refreshed.data.map(t => convertTreasure(t, newUnlockedIds));
+        } catch (err) {
+          console.error('Failed to refresh treasures:', err);
+        }
+        setTreasures(huntTreasures);
         
         setIsScannerOpen(false);
+        setQuizPrompt(null);
         setSelectedTreasure({ ...treasure, isUnlocked: true });
-        addToast(`🎉 Unlocked "${treasure.name}" for +${treasure.points} pts!`, 'success');
+        addToast(`🎉 Unlocked "${treasure.name}" for +${response.pointsAwarded ?? treasure.points} pts!`, 'success');
 
         // Check game completion
-        if (newUnlockedIds.length === treasures.length && treasures.length > 0) {
+        if (newUnlockedIds.length === huntTreasures.length && huntTreasures.length > 0) {
           setTimeout(() => setShowCompletion(true), 1200);
         }
+        return true;
       } catch (error: any) {
         console.error('Failed to unlock treasure:', error);
-        addToast(error.message || 'Failed to unlock treasure', 'error');
+        if (error instanceof ApiError && error.code === 'NETWORK_ERROR') {
+          return queueOfflineUnlock(treasure, proof, location, answer);
+        }
+        if (error instanceof ApiError && error.code === 'CODE_INVALID') {
+          // Leave the scanner open so the player can fix a mistyped code
+          return false;
+        }
+        if (error instanceof ApiError && error.code === 'QUIZ_ANSWER_REQUIRED') {
+          // The scan checked out — swap the scanner for the treasure's question
+          setIsScannerOpen(false);
+          setQuizPrompt({ treasureId: id, proof, quiz: error.details.quiz, wrongAnswers: error.details.wrongAnswers || 0 });
+          return true;
+        }
+        if (error instanceof ApiError && error.code === 'QUIZ_WRONG') {
+          // Keep the question up so the player can try again for reduced points
+          setQuizPrompt(prev => prev && { ...prev, wrongAnswers: prev.wrongAnswers + 1 });
+          return false;
+        }
+        setQuizPrompt(null);
+        if (error instanceof ApiError && error.code && UNLOCK_ERROR_MESSAGES[error.code]) {
+          // Geofence rejections close the scanner so the player can see the map and move closer
+          setIsScannerOpen(false);
+          const distance = error.details.distance;
+          addToast(`${UNLOCK_ERROR_MESSAGES[error.code]}${distance != null ? ` (${distance}m away)` : ''}`, 'error');
+        } else {
+          addToast(error.message || 'Failed to unlock treasure', 'error');
+        }
+      }
+    }
+    return false;
+  };
+
+  /**
+   * Save a scan made without a signal so it can be sent once we're back online.
+   * Quiz treasures ask their question first (from the cached list) so the answer travels with the scan.
+   * @param   {Treasure}       treasure - The treasure that was scanned
+   * @param   {UnlockProof}    proof    - The QR payload or typed code
+   * @param   {PlayerLocation} location - Where the player was standing
+   * @param   {string}         [answer] - The quiz answer, once given
+   * @returns {Promise<boolean>} True if the scan was queued (or is waiting on the quiz)
+   */
+  const queueOfflineUnlock = async (
+    treasure: Treasure,
+    proof: UnlockProof,
+    location: QueuedUnlock['location'],
+    answer?: string
+  ): Promise<boolean> => {
+    setIsScannerOpen(false);
+    if (treasure.quiz && !answer) {
+      setQuizPrompt({ treasureId: treasure.id, proof, quiz: treasure.quiz, wrongAnswers: 0 });
+      return true;
+    }
+    setQuizPrompt(null);
+    try {
+      const queued = await unlockQueue.add({
+        treasureId: treasure.id,
+        treasureName: treasure.name,
+        huntId,
+        proof,
+        answer,
+        location,
+        scannedAt: new Date().toISOString()
+      });
+      setQueuedUnlocks(prev => [...prev, queued]);
+      addToast(`📶 No signal — "${treasure.name}" is saved and will sync when you're back online`, 'info');
+      return true;
+    } catch (err) {
+      console.error('Failed to queue unlock:', err);
+      addToast(UNLOCK_ERROR_MESSAGES.NETWORK_ERROR, 'error');
+      return false;
+    }
+  };
+
+  /**
+   * Replay queued offline scans to the server, oldest first.
+   * Stops at the first network failure (still offline) and leaves the rest queued;
+   * anything the server answers — accepted or rejected — is dropped from the queue.
+   */
+  const syncQueuedUnlocks = async () => {
+    if (isSyncing.current || !authAPI.isLoggedIn()) return;
+    isSyncing.current = true;
+    try {
+      for (const entry of await unlockQueue.getAll()) {
+        try {
+          const response = entry.proof.method === 'qr'
+            ? await progressAPI.unlockTreasure(entry.treasureId, entry.proof.qrPayload, entry.location, entry.answer, entry.scannedAt)
+            : await progressAPI.unlockWithCode(entry.treasureId, entry.proof.code, entry.location, entry.answer, entry.scannedAt);
+          if (entry.huntId === huntId) {
+            const prog = response.data;
+            const newUnlockedIds = prog.unlockedTreasures.map(t => t._id);
+            setUserProgress(prev => ({
+              ...prev,
+              unlockedTreasureIds: newUnlockedIds,
+              totalPoints: prog.totalPoints,
+              badges: prog.badges,
+              level: prog.level,
+              levelInfo: prog.levelInfo
+            }));
+            setTreasures(prev => prev.map(t => newUnlockedIds.includes(t.id) ? { ...t, isUnlocked: true } : t));
+          }
+          addToast(`☁️ Synced "${entry.treasureName}" for +${response.pointsAwarded} pts!`, 'success');
+        } catch (error: any) {
+          if (error instanceof ApiError && error.code === 'NETWORK_ERROR') break;
+          console.error('Failed to sync queued unlock:', error);
+          const reason = error instanceof ApiError && error.code && UNLOCK_ERROR_MESSAGES[error.code]
+            ? UNLOCK_ERROR_MESSAGES[error.code]
+            : error.message;
+          addToast(`Couldn't sync "${entry.treasureName}": ${reason}`, 'error');
+        }
+        await unlockQueue.remove(entry.id!);
+      }
+    } finally {
+      isSyncing.current = false;
+      setQueuedUnlocks(await unlockQueue.getAll());
+    }
+  };
+
+  /** Track the connection and replay queued scans whenever it comes back (and on login) */
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueuedUnlocks();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (navigator.onLine) syncQueuedUnlocks();
+    else unlockQueue.getAll().then(setQueuedUnlocks);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [username, huntId]);
+
+  /**
+   * Upload a photo for a photo challenge treasure. It's queued for an admin,
+   * so the treasure stays locked (and pointless) until they approve it.
+   * @param   {string} id    - The photo challenge treasure
+   * @param   {string} photo - The shrunk photo as a data URL
+   * @returns {Promise<boolean>} True if the server accepted the upload
+   */
+  const submitPhoto = async (id: string, photo: string): Promise<boolean> => {
+    if (!userLocation) {
+      addToast(UNLOCK_ERROR_MESSAGES.LOCATION_REQUIRED, 'error');
+      return false;
+    }
+    try {
+      const response = await progressAPI.submitPhoto(id, photo, {
+        latitude: userLocation.latitude,
+        longitude: userLocation.longitude,
+        accuracy: userLocation.accuracy
+      });
+      setPhotoSubmissions(prev => [response.data, ...prev]);
+      addToast(`📸 ${response.message}`, 'success');
+      return true;
+    } catch (error: any) {
+      console.error('Failed to submit photo:', error);
+      if (error instanceof ApiError && error.code && UNLOCK_ERROR_MESSAGES[error.code]) {
+        addToast(UNLOCK_ERROR_MESSAGES[error.code], 'error');
+      } else {
+        addToast(error.message || 'Failed to upload photo', 'error');
       }
+      return false;
     }
   };
 
@@ -343,7 +650,7 @@ const App: React.FC = () => {
     setLoginError('');
     try {
       await authAPI.login(adminEmail, adminPassword);
-      const meRes = await authAPI.getMe();
+      const meRes = await authAPI.getMe(huntId);
       const userIsAdmin = meRes.data.user.role === 'admin';
       setIsAdmin(userIsAdmin);
       localStorage.setItem('geohunt_admin', userIsAdmin.toString());
@@ -357,6 +664,7 @@ const App: React.FC = () => {
         totalPoints: prog?.totalPoints || 0,
         badges: prog?.badges || [],
         level: prog?.level || 1,
+        levelInfo: prog?.levelInfo,
         missionBriefing: prog?.missionBriefing || 'Welcome, Admin!'
       });
       setUsername(name);
@@ -568,7 +876,10 @@ const App: React.FC = () => {
     );
   }
 
-  /** Log the user out — clear all auth tokens and reset state */
+  /**
+   * Log the user out — clear all auth tokens and reset state.
+   * Cached data and unsynced scans go too: they belong to this player, not whoever logs in next.
+   */
   const handleLogout = () => {
     authAPI.logout();
     setUsername('');
@@ -576,17 +887,23 @@ const App: React.FC = () => {
     setUserProgress({ username: '', unlockedTreasureIds: [], totalPoints: 0, badges: [], level: 1 });
     setActiveTab('map');
     setSelectedTreasure(null);
+    setPhotoSubmissions([]);
+    setQuizPrompt(null);
+    setQueuedUnlocks([]);
+    offlineCache.clear();
+    unlockQueue.clear().catch(err => console.error('Failed to clear unlock queue:', err));
     localStorage.removeItem('geohunt_admin');
   };
 
   // Defensive guards for rendering
   const unlockedIds = userProgress?.unlockedTreasureIds || [];
-  const nearbyCount = treasures.filter(t => isNear(t) && !unlockedIds.includes(t.id)).length;
-  const xpProgress = ((userProgress?.totalPoints || 0) % 250) / 2.5;
+  const nearbyCount = treasures.filter(t => isNear(t) && !unlockedIds.includes(t.id) && getMissingPrerequisites(t).length === 0).length;
+  const levelInfo = userProgress?.levelInfo;
+  const xpProgress = levelInfo ? (levelInfo.xpIntoLevel / levelInfo.xpForLevel) * 100 : 0;
 
   return (
     <div className="flex flex-col min-h-screen bg-[var(--bg-main)] font-sans text-[var(--text-dark)]">
-      <Header activeTab={activeTab} setActiveTab={setActiveTab} username={username} isAdmin={isAdmin} onLogout={handleLogout} />
+      <Header activeTab={activeTab} setActiveTab={setActiveTab} username={username} isAdmin={isAdmin} onLogout={handleLogout} addToast={addToast} />
 
       {locationError && (
         <div className="bg-amber-100 border-b border-amber-200 text-amber-800 px-6 py-3 flex items-center gap-2 text-xs font-black uppercase tracking-wide">
@@ -595,6 +912,14 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {(!isOnline || queuedUnlocks.length > 0) && (
+        <div className="bg-[var(--duo-polar)] border-b border-[var(--duo-swan)] text-[var(--duo-wolf)] px-6 py-3 flex items-center gap-2 text-xs font-black uppercase tracking-wide">
+          {isOnline ? <CloudUpload className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+          {isOnline ? 'Syncing saved scans...' : 'Offline — showing your saved map'}
+          {queuedUnlocks.length > 0 && ` · ${queuedUnlocks.length} scan${queuedUnlocks.length === 1 ? '' : 's'} waiting to sync`}
+        </div>
+      )}
+
       <main className="flex-1 max-w-6xl w-full mx-auto mobile-content sm:px-6 sm:py-4">
         {activeTab === 'map' && (
           <div className="space-y-3 sm:space-y-4 animate-in fade-in duration-300">
@@ -621,7 +946,7 @@ const App: React.FC = () => {
                   </div>
                   <div className="text-center">
                     <span className="badge badge-gold text-[10px]">Lvl {userProgress.level}</span>
-                    <p className="text-[9px] font-bold text-[var(--text-light)] mt-1">{userProgress.totalPoints % 250}/250 XP</p>
+                    {levelInfo && <p className="text-[9px] font-bold text-[var(--text-light)] mt-1">{levelInfo.xpIntoLevel}/{levelInfo.xpForLevel} XP</p>}
                   </div>
                   {nearbyCount > 0 && (
                     <div className="badge badge-green text-[10px] flex items-center gap-1 animate-pulse">
@@ -643,6 +968,9 @@ const App: React.FC = () => {
               </h2>
             </div>
 
+            {/* Hunt Picker — each hunt has its own treasures and leaderboard */}
+            <HuntPicker hunts={hunts} selectedHuntId={huntId} onSelect={handleSelectHunt} />
+
             <div className="rounded-xl sm:rounded-2xl overflow-hidden mobile-full">
               <MapComponent 
                 treasures={treasures} 
@@ -655,7 +983,10 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 sm:gap-4 stagger-in">
               {treasures.map((treasure) => {
                 const isUnlocked = unlockedIds.includes(treasure.id);
-                const near = isNear(treasure);
+                const chainLocked = !isUnlocked && getMissingPrerequisites(treasure).length > 0;
+                const near = !chainLocked && isNear(treasure);
+                const inReview = photoSubmissions.some(p => p.treasure === treasure.id && p.status === 'pending');
+                const queued = queuedUnlocks.some(q => q.treasureId === treasure.id);
                 const dist = getDistanceTo(treasure);
                 const catEmoji = treasure.category === 'academic' ? '📚' : treasure.category === 'social' ? '🎭' : treasure.category === 'sports' ? '⚽' : '🏛️';
                 const catClass = `cat-${treasure.category}`;
@@ -681,7 +1012,7 @@ const App: React.FC = () => {
                               ? catClass + ' text-white' 
                               : 'bg-[var(--duo-swan)] text-[var(--duo-hare)]'
                         }`} style={{ boxShadow: isUnlocked ? '0 4px 0 var(--duo-green-dark)' : near ? '0 4px 0 rgba(0,0,0,0.15)' : 'none' }}>
-                          {isUnlocked ? <CheckCircle2 className="w-6 h-6" /> : <span>{catEmoji}</span>}
+                          {isUnlocked ? <CheckCircle2 className="w-6 h-6" /> : chainLocked ? <Link2 className="w-5 h-5" /> : <span>{catEmoji}</span>}
                         </div>
                         <div>
                           <h4 className="font-black text-[var(--duo-eel)] text-base mb-1">{treasure.name}</h4>
@@ -691,7 +1022,7 @@ const App: React.FC = () => {
                             }`}>{treasure.category}</span>
                             {!isUnlocked && (
                               <span className={`text-[10px] font-bold ${near ? 'text-[var(--duo-green)]' : 'text-[var(--duo-hare)]'}`}>
-                                {near ? '✓ Ready!' : dist === Infinity ? '...' : `${(dist / 1000).toFixed(1)}km`}
+                                {chainLocked ? '🔗 Locked' : queued ? '☁️ Waiting to sync' : inReview ? '⏳ In review' : near ? '✓ Ready!' : dist === Infinity ? '...' : `${(dist / 1000).toFixed(1)}km`}
                               </span>
                             )}
                           </div>
@@ -710,11 +1041,17 @@ const App: React.FC = () => {
         )}
 
         {activeTab === 'leaderboard' && (
-          <LeaderboardTab leaderboard={leaderboard} currentUsername={userProgress.username} />
+          <LeaderboardTab
+            leaderboard={leaderboard}
+            currentUsername={userProgress.username}
+            huntId={huntId}
+            period={leaderboardPeriod}
+            onPeriodChange={setLeaderboardPeriod}
+          />
         )}
 
         {activeTab === 'profile' && (
-          <ProfileTab username={username} userProgress={userProgress} onLogout={handleLogout} />
+          <ProfileTab username={username} userProgress={userProgress} badges={badges} onLogout={handleLogout} addToast={addToast} huntId={huntId} treasures={treasures} huntName={hunts.find(h => h._id === huntId)?.name || 'GeoHunt'} />
         )}
 
         {activeTab === 'feedback' && (
@@ -769,6 +1106,7 @@ const App: React.FC = () => {
                   <button 
                     onClick={async () => {
                       setAiHint("Thinking...");
+                      progressAPI.recordView(selectedTreasure.id, true).catch(() => {});
                       const hint = await generateProximityHint(selectedTreasure.name, selectedTreasure.clue);
                       setAiHint(hint);
                     }}
@@ -854,6 +1192,28 @@ const App: React.FC = () => {
 
             {/* Action Button */}
             {!userProgress.unlockedTreasureIds.includes(selectedTreasure.id) && (
+              getMissingPrerequisites(selectedTreasure).length > 0 ? (
+              <div className="p-5 pt-0">
+                <div className="w-full py-4 px-4 rounded-xl bg-[var(--duo-swan)] text-[var(--duo-hare)] font-black text-xs uppercase tracking-widest flex items-center justify-center gap-3 text-center">
+                  <Link2 className="w-5 h-5 shrink-0" />
+                  Find {getMissingPrerequisites(selectedTreasure).join(', ')} first
+                </div>
+              </div>
+              ) : queuedUnlocks.some(q => q.treasureId === selectedTreasure.id) ? (
+              <div className="p-5 pt-0">
+                <div className="w-full py-4 px-4 rounded-xl bg-[var(--duo-polar)] text-[var(--duo-blue)] font-black text-xs uppercase tracking-widest flex items-center justify-center gap-3 text-center">
+                  <CloudUpload className="w-5 h-5 shrink-0" />
+                  Scan saved — it will sync when you're back online
+                </div>
+              </div>
+              ) : selectedTreasure.unlockType === 'photo' ? (
+              <PhotoChallenge
+                prompt={selectedTreasure.photoPrompt}
+                submission={photoSubmissions.find(p => p.treasure === selectedTreasure.id)}
+                canSubmit={isNear(selectedTreasure)}
+                onSubmit={(photo) => submitPhoto(selectedTreasure.id, photo)}
+              />
+              ) : (
               <div className="p-5 pt-0">
                 <button 
                   onClick={() => setIsScannerOpen(true)}
@@ -868,13 +1228,31 @@ const App: React.FC = () => {
                   {isNear(selectedTreasure) ? 'Scan & Collect' : 'Get Closer to Scan'}
                 </button>
               </div>
+              )
             )}
           </div>
         </div>
       )}
 
       {isScannerOpen && selectedTreasure && (
-        <Scanner targetId={selectedTreasure.id} onScan={unlockTreasure} onClose={() => setIsScannerOpen(false)} />
+        <Scanner 
+          targetId={selectedTreasure.id} 
+          manualCodeEnabled={hunts.find(h => h._id === huntId)?.manualCodeEnabled ?? false}
+          onScan={(qrPayload) => unlockTreasure(selectedTreasure.id, { method: 'qr', qrPayload })} 
+          onManualCode={(code) => unlockTreasure(selectedTreasure.id, { method: 'code', code })}
+          onClose={() => setIsScannerOpen(false)} 
+        />
+      )}
+
+      {quizPrompt && selectedTreasure?.id === quizPrompt.treasureId && (
+        <QuizModal
+          treasureName={selectedTreasure.name}
+          points={selectedTreasure.points}
+          quiz={quizPrompt.quiz}
+          wrongAnswers={quizPrompt.wrongAnswers}
+          onSubmit={(answer) => unlockTreasure(quizPrompt.treasureId, quizPrompt.proof, answer)}
+          onClose={() => setQuizPrompt(null)}
+        />
       )}
 
       <ToastContainer toasts={toasts} onRemove={removeToast} />
@@ -901,7 +1279,7 @@ const App: React.FC = () => {
             {userProgress.badges.length > 0 && (
               <div className="flex flex-wrap gap-2 justify-center">
                 {userProgress.badges.map(b => {
-                  const badge = BADGES.find(bb => bb.id === b);
+                  const badge = badges.find(bb => bb.key === b);
                   return badge ? (
                     <span key={b} className="badge badge-gold text-[10px]">
                       {badge.name}
@@ -5,7 +5,7 @@
  *   - MongoDB connection
  *   - Security headers (helmet) and rate limiting (optional, gracefully skipped if not installed)
  *   - CORS configuration (open in dev, whitelist in production)
- *   - API route mounting for auth, treasures, progress, leaderboard, and admin
+ *   - API route mounting for auth, hunts, treasures, progress, leaderboard, teams, badges, and admin
  *   - Global error handling
  */
 
@@ -27,6 +27,9 @@ const progressRoutes = require('./routes/progress');
 const leaderboardRoutes = require('./routes/leaderboard');
 const adminRoutes = require('./routes/admin');
 const feedbackRoutes = require('./routes/feedback');
+const teamRoutes = require('./routes/teams');
+const huntRoutes = require('./routes/hunts');
+const badgeRoutes = require('./routes/badges');
 
 // Connect to MongoDB
 connectDB();
@@ -38,7 +41,11 @@ if (helmet) {
     app.use(helmet({ contentSecurityPolicy: false }));
 }
 
-// Parse JSON request bodies
+// Parse JSON request bodies — photo challenge uploads arrive as base64 data URLs and
+// treasure imports carry a whole hunt, so those routes get a bigger limit than everything else
+// (the photo limit fits a PHOTO_MAX_BYTES image as base64 and stays under Netlify's 6MB request cap)
+app.use('/api/progress/photo', express.json({ limit: process.env.PHOTO_UPLOAD_LIMIT || '4.5mb' }));
+app.use('/api/admin/treasures/import', express.json({ limit: process.env.IMPORT_UPLOAD_LIMIT || '2mb' }));
 app.use(express.json());
 
 // Apply rate limiting if express-rate-limit is available
@@ -58,6 +65,8 @@ if (rateLimit) {
         message: { success: false, error: 'Too many login attempts, please try again later' }
     });
     app.use('/api/auth', authLimiter);
+
+    // Manual code entry has its own per-player limiter in routes/progress.js, after login is checked
 }
 
 // Configure CORS — allow everything in dev, use whitelist in production
@@ -78,6 +87,9 @@ app.use('/api/progress', progressRoutes);
 app.use('/api/leaderboard', leaderboardRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/feedback', feedbackRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/hunts', huntRoutes);
+app.use('/api/badges', badgeRoutes);
 
 /** Quick health check endpoint — useful for deployment monitoring */
 app.get('/api/health', (req, res) => {
@@ -1,6 +1,39 @@
+const mongoose = require('mongoose');
 const User = require('../models/User');
 const UserProgress = require('../models/UserProgress');
 const Treasure = require('../models/Treasure');
+const Team = require('../models/Team');
+const UnlockEvent = require('../models/UnlockEvent');
+const TreasureView = require('../models/TreasureView');
+const LocationPing = require('../models/LocationPing');
+const { buildQrPayload, buildManualCode } = require('../utils/qrSigner');
+const { findPrerequisiteProblem } = require('../utils/treasureChains');
+const { findQuizProblem } = require('../utils/quiz');
+const { recordAudit } = require('../utils/audit');
+const { removePhotoSubmissions } = require('./photoController');
+
+/**
+ * Attach the signed QR payload and manual fallback code to a treasure for the admin's eyes only.
+ * Neither is stored — both are derived from the ID, qrVersion and server secret.
+ * @param   {Object} treasure - A treasure document
+ * @returns {Object} Plain treasure object with `qrPayload` and `manualCode` fields
+ */
+const withUnlockCodes = (treasure) => ({
+    ...treasure.toObject(),
+    qrPayload: buildQrPayload(treasure),
+    manualCode: buildManualCode(treasure)
+});
+
+/**
+ * Check a treasure's lifecycle fields — a scheduled treasure needs a valid time to go live.
+ * @param   {Object} body - The treasure fields from the request
+ * @returns {string|null} What's wrong, or null if they're fine
+ */
+const findScheduleProblem = ({ status, publishAt }) => {
+    if (status !== 'scheduled') return null;
+    if (!publishAt || Number.isNaN(new Date(publishAt).getTime())) return 'Please choose when the treasure goes live';
+    return null;
+};
 
 /**
  * Fetch all registered users.
@@ -39,8 +72,10 @@ exports.getUser = async (req, res, next) => {
             });
         }
 
-        const progress = await UserProgress.findOne({ user: req.params.id })
-            .populate('unlockedTreasures');
+        // One progress record per hunt they've played
+        const progress = await UserProgress.find({ user: req.params.id })
+            .populate('unlockedTreasures')
+            .populate('hunt', 'name startsAt endsAt');
 
         res.status(200).json({
             success: true,
@@ -70,6 +105,7 @@ exports.updateUserRole = async (req, res, next) => {
             });
         }
 
+        const previous = await User.findById(req.params.id).select('role').lean();
         const user = await User.findByIdAndUpdate(
             req.params.id,
             { role },
@@ -83,6 +119,14 @@ exports.updateUserRole = async (req, res, next) => {
             });
         }
 
+        await recordAudit(req, {
+            action: 'user.role',
+            targetType: 'user',
+            target: user,
+            before: { role: previous.role },
+            after: { role: user.role }
+        });
+
         res.status(200).json({
             success: true,
             data: user
@@ -93,7 +137,7 @@ exports.updateUserRole = async (req, res, next) => {
 };
 
 /**
- * Permanently delete a user and their progress from the system.
+ * Permanently delete a user, their progress and their uploaded photos from the system.
  * Has a safety check to prevent admins from accidentally deleting themselves.
  * @route   DELETE /api/admin/users/:id
  * @param   {string} req.params.id - The user's MongoDB ObjectId
@@ -118,9 +162,22 @@ exports.deleteUser = async (req, res, next) => {
             });
         }
 
-        await UserProgress.deleteOne({ user: req.params.id });
+        // Hand over captaincy (or disband the team) before the player disappears
+        await Team.removeMember(user);
+        await UserProgress.deleteMany({ user: req.params.id });
+        await UnlockEvent.deleteMany({ user: req.params.id });
+        await TreasureView.deleteMany({ user: req.params.id });
+        await LocationPing.deleteMany({ user: req.params.id });
+        await removePhotoSubmissions({ user: user._id });
         await User.findByIdAndDelete(req.params.id);
 
+        await recordAudit(req, {
+            action: 'user.delete',
+            targetType: 'user',
+            target: user,
+            before: { username: user.username, email: user.email, role: user.role }
+        });
+
         res.status(200).json({
             success: true,
             data: {}
@@ -209,20 +266,134 @@ exports.getStats = async (req, res, next) => {
     }
 };
 
+/**
+ * List every treasure along with its signed QR payload and manual code.
+ * The admin panel uses this instead of the public endpoint so it can print stickers
+ * and manage drafts, scheduled and archived treasures alongside the live ones.
+ * @route   GET /api/admin/treasures
+ * @param   {string} [req.query.hunt]   - Only list treasures in this hunt
+ * @param   {string} [req.query.status] - Only list treasures in this lifecycle state right now
+ *                                        (a scheduled treasure past its publish time counts as live)
+ * @access  Admin only
+ */
+exports.getTreasures = async (req, res, next) => {
+    try {
+        const { status } = req.query;
+        if (status && !Treasure.STATUSES.includes(status)) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_STATUS',
+                error: `Status must be one of: ${Treasure.STATUSES.join(', ')}`
+            });
+        }
+
+        const filter = req.query.hunt ? { hunt: req.query.hunt } : {};
+        if (status === 'live') Object.assign(filter, Treasure.liveFilter());
+        else if (status === 'scheduled') Object.assign(filter, { status, publishAt: { $gt: new Date() } });
+        else if (status) filter.status = status;
+
+        const treasures = await Treasure.find(filter).select('+quiz.answers').sort({ createdAt: 1 });
+        res.status(200).json({
+            success: true,
+            count: treasures.length,
+            data: treasures.map(withUnlockCodes)
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Rotate a treasure's QR code by bumping its qrVersion.
+ * Every sticker printed before the rotation (and its manual code) stops working immediately,
+ * so reprint the new code before (or right after) doing this.
+ * @route   POST /api/admin/treasures/:id/rotate-qr
+ * @param   {string} req.params.id - The treasure's MongoDB ObjectId
+ * @access  Admin only
+ * @returns {Object} The treasure with its new QR payload
+ */
+exports.rotateTreasureQr = async (req, res, next) => {
+    try {
+        const treasure = await Treasure.findByIdAndUpdate(
+            req.params.id,
+            { $inc: { qrVersion: 1 } },
+            { new: true }
+        ).select('+quiz.answers');
+
+        if (!treasure) {
+            return res.status(404).json({
+                success: false,
+                error: 'Treasure not found'
+            });
+        }
+
+        await recordAudit(req, {
+            action: 'treasure.rotate-qr',
+            targetType: 'treasure',
+            target: treasure,
+            before: { qrVersion: treasure.qrVersion - 1 },
+            after: { qrVersion: treasure.qrVersion }
+        });
+
+        res.status(200).json({
+            success: true,
+            data: withUnlockCodes(treasure),
+            message: `QR code for "${treasure.name}" rotated — old stickers no longer work`
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
 /**
  * Add a new treasure location to the map.
- * The request body should contain the treasure's name, description, clue,
- * coordinates (lat/lng), points value, and category.
+ * The request body should contain the hunt it belongs to, the treasure's name,
+ * description, clue, coordinates (lat/lng), points value, and category.
+ * Optional prerequisites must be other treasures in the same hunt, and an optional
+ * quiz needs an accepted answer (one of its options, for multiple choice).
+ * The treasure only reaches players once its status is live — or, when scheduled, once publishAt passes.
  * @route   POST /api/admin/treasures
- * @param   {Object} req.body - The treasure data (name, description, clue, latitude, longitude, points, category)
+ * @param   {Object} req.body - The treasure data (hunt, name, description, clue, latitude, longitude, points, category, prerequisites, prerequisiteMode, quiz, status, publishAt)
  * @access  Admin only
  */
 exports.createTreasure = async (req, res, next) => {
     try {
+        const quizError = findQuizProblem(req.body.quiz);
+        if (quizError) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_QUIZ',
+                error: quizError
+            });
+        }
+
+        const scheduleError = findScheduleProblem(req.body);
+        if (scheduleError) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_SCHEDULE',
+                error: scheduleError
+            });
+        }
+
+        const chainError = await findPrerequisiteProblem(Treasure, {
+            huntId: req.body.hunt,
+            prerequisites: req.body.prerequisites
+        });
+        if (chainError) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_PREREQUISITES',
+                error: chainError
+            });
+        }
+
         const treasure = await Treasure.create(req.body);
+        await recordAudit(req, { action: 'treasure.create', targetType: 'treasure', target: treasure, after: treasure });
+
         res.status(201).json({
             success: true,
-            data: treasure
+            data: withUnlockCodes(treasure)
         });
     } catch (err) {
         next(err);
@@ -232,6 +403,11 @@ exports.createTreasure = async (req, res, next) => {
 /**
  * Edit an existing treasure's details (name, location, points, etc.).
  * Accepts partial updates — you only need to send the fields you want to change.
+ * A treasure can only move to another hunt while nobody has found it yet,
+ * otherwise its points would be stuck in the old hunt's progress.
+ * Prerequisite changes are checked for loops and must stay within the hunt,
+ * and a quiz is checked the same way as on create. Archiving takes the treasure off the
+ * map but leaves it in the progress of everyone who already found it.
  * @route   PUT /api/admin/treasures/:id
  * @param   {string} req.params.id - The treasure's MongoDB ObjectId
  * @param   {Object} req.body - Fields to update
@@ -239,11 +415,59 @@ exports.createTreasure = async (req, res, next) => {
  */
 exports.updateTreasure = async (req, res, next) => {
     try {
+        const quizError = findQuizProblem(req.body.quiz);
+        if (quizError) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_QUIZ',
+                error: quizError
+            });
+        }
+
+        const scheduleError = findScheduleProblem(req.body);
+        if (scheduleError) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_SCHEDULE',
+                error: scheduleError
+            });
+        }
+
+        let movingHunts = false;
+        if (req.body.hunt || req.body.prerequisites) {
+            const existing = await Treasure.findById(req.params.id);
+            if (existing) {
+                const huntId = req.body.hunt || existing.hunt;
+                movingHunts = existing.hunt.toString() !== String(huntId);
+                if (movingHunts && await UserProgress.exists({ unlockedTreasures: existing._id })) {
+                    return res.status(400).json({
+                        success: false,
+                        code: 'TREASURE_IN_USE',
+                        error: 'Players have already found this treasure, so it cannot move to another hunt'
+                    });
+                }
+
+                const chainError = await findPrerequisiteProblem(Treasure, {
+                    treasureId: existing._id,
+                    huntId,
+                    prerequisites: req.body.prerequisites || existing.prerequisites
+                });
+                if (chainError) {
+                    return res.status(400).json({
+                        success: false,
+                        code: 'INVALID_PREREQUISITES',
+                        error: chainError
+                    });
+                }
+            }
+        }
+
+        const previous = await Treasure.findById(req.params.id).select('+quiz.answers');
         const treasure = await Treasure.findByIdAndUpdate(
             req.params.id,
             req.body,
             { new: true, runValidators: true }
-        );
+        ).select('+quiz.answers');
 
         if (!treasure) {
             return res.status(404).json({
@@ -252,9 +476,20 @@ exports.updateTreasure = async (req, res, next) => {
             });
         }
 
+        await recordAudit(req, { action: 'treasure.update', targetType: 'treasure', target: treasure, before: previous, after: treasure });
+
+        // Treasures left behind in the old hunt can no longer depend on this one
+        if (movingHunts) {
+            await Treasure.updateMany(
+                { prerequisites: treasure._id },
+                { $pull: { prerequisites: treasure._id } }
+            );
+            await TreasureView.updateMany({ treasure: treasure._id }, { hunt: treasure.hunt });
+        }
+
         res.status(200).json({
             success: true,
-            data: treasure
+            data: withUnlockCodes(treasure)
         });
     } catch (err) {
         next(err);
@@ -263,8 +498,8 @@ exports.updateTreasure = async (req, res, next) => {
 
 /**
  * Remove a treasure from the game entirely.
- * Also cleans up any player progress that references this treasure
- * so we don't leave orphaned data behind.
+ * Also cleans up any player progress, photo uploads and treasure chains that
+ * reference this treasure so we don't leave orphaned data behind.
  * @route   DELETE /api/admin/treasures/:id
  * @param   {string} req.params.id - The treasure's MongoDB ObjectId
  * @access  Admin only
@@ -280,13 +515,25 @@ exports.deleteTreasure = async (req, res, next) => {
             });
         }
 
-        // Remove this treasure from every player's unlocked list
+        // Remove this treasure from every player's unlocked list and quiz attempts
         await UserProgress.updateMany(
             {},
-            { $pull: { unlockedTreasures: treasure._id } }
+            { $pull: { unlockedTreasures: treasure._id, quizAttempts: { treasure: treasure._id } } }
+        );
+
+        await TreasureView.deleteMany({ treasure: treasure._id });
+
+        // Photo challenge uploads for this treasure have nothing left to count towards
+        await removePhotoSubmissions({ treasure: treasure._id });
+
+        // Treasures that required this one now only need the rest of their chain
+        await Treasure.updateMany(
+            { prerequisites: treasure._id },
+            { $pull: { prerequisites: treasure._id } }
         );
 
         await Treasure.findByIdAndDelete(req.params.id);
+        await recordAudit(req, { action: 'treasure.delete', targetType: 'treasure', target: treasure, before: treasure });
 
         res.status(200).json({
             success: true,
@@ -299,39 +546,189 @@ exports.deleteTreasure = async (req, res, next) => {
 
 /**
  * Wipe a player's progress back to zero.
- * Clears their unlocked treasures, points, badges, and resets their level.
+ * Clears their unlocked treasures, points, badges, and resets their level —
+ * in one hunt if given, otherwise in every hunt they've played.
  * Handy for testing or if a player wants a fresh start.
  * @route   POST /api/admin/users/:id/reset
- * @param   {string} req.params.id - The user's MongoDB ObjectId
+ * @param   {string} req.params.id   - The user's MongoDB ObjectId
+ * @param   {string} [req.body.hunt] - Only reset progress in this hunt
  * @access  Admin only
  */
 exports.resetUserProgress = async (req, res, next) => {
     try {
-        const progress = await UserProgress.findOneAndUpdate(
-            { user: req.params.id },
+        const filter = { user: req.params.id };
+        if (req.body.hunt) filter.hunt = req.body.hunt;
+
+        // Keep what's about to be wiped in the audit trail
+        const previous = await UserProgress.find(filter).select('hunt totalPoints unlockedTreasures badges').lean();
+
+        const result = await UserProgress.updateMany(
+            filter,
             {
                 unlockedTreasures: [],
                 totalPoints: 0,
                 badges: [],
                 level: 1,
-                missionBriefing: null
-            },
-            { new: true }
+                missionBriefing: null,
+                quizAttempts: []
+            }
         );
 
-        if (!progress) {
+        if (result.matchedCount === 0) {
             return res.status(404).json({
                 success: false,
                 error: 'User progress not found'
             });
         }
 
+        // Keep the time-window leaderboards and treasure analytics in step with the wiped totals
+        await UnlockEvent.deleteMany(filter);
+        await TreasureView.deleteMany(filter);
+
+        const user = await User.findById(req.params.id).select('username');
+        await recordAudit(req, {
+            action: 'user.reset-progress',
+            targetType: 'user',
+            target: user,
+            details: {
+                hunt: req.body.hunt || 'all',
+                previous: previous.map(progress => ({
+                    hunt: progress.hunt,
+                    totalPoints: progress.totalPoints,
+                    treasuresFound: progress.unlockedTreasures.length,
+                    badges: progress.badges
+                }))
+            }
+        });
+
         res.status(200).json({
             success: true,
-            data: progress,
+            data: { huntsReset: result.matchedCount },
             message: 'User progress has been reset'
         });
     } catch (err) {
         next(err);
     }
 };
+
+/**
+ * Rebuild players' progress from the unlock event log.
+ * Each player's found treasures and points are recounted from their events, then
+ * their level and badges are worked out again. Points from treasures that have
+ * since been deleted still count, just as they do when a treasure is removed.
+ *
+ * Progress with unlocks the log doesn't know about (found before the log existed)
+ * is skipped and reported, unless `importLegacy` is set — then those unlocks are
+ * first written to the log as 'legacy' events worth the treasure's current points.
+ * @route   POST /api/admin/progress/rebuild
+ * @param   {string}  [req.body.hunt]         - Only rebuild progress in this hunt
+ * @param   {string}  [req.body.user]         - Only rebuild this player's progress
+ * @param   {boolean} [req.body.dryRun]       - Report what would change without saving anything
+ * @param   {boolean} [req.body.importLegacy] - Log unlocks missing from the log instead of skipping them
+ * @returns {Object} { checked, changed, created, legacyImported, skipped: [{ user, hunt, missing }] }
+ * @access  Admin only
+ */
+exports.rebuildProgress = async (req, res, next) => {
+    try {
+        const { hunt, user, dryRun, importLegacy } = req.body;
+
+        if (hunt && !mongoose.isValidObjectId(hunt)) {
+            return res.status(400).json({
+                success: false,
+                error: 'That hunt does not exist'
+            });
+        }
+
+        if (user && !mongoose.isValidObjectId(user)) {
+            return res.status(400).json({
+                success: false,
+                error: 'That player does not exist'
+            });
+        }
+
+        const filter = {};
+        if (hunt) filter.hunt = hunt;
+        if (user) filter.user = user;
+
+        const summaries = new Map();
+        (await UnlockEvent.summarize(filter)).forEach(summary => {
+            summaries.set(`${summary.user}:${summary.hunt}`, summary);
+        });
+
+        const existingTreasures = new Set((await Treasure.find().distinct('_id')).map(String));
+        const report = { checked: 0, changed: 0, created: 0, legacyImported: 0, skipped: [] };
+
+        /** Point progress at the totals from the log, then recalculate level and badges */
+        const applySummary = async (progress, summary) => {
+            progress.unlockedTreasures = summary.treasures.filter(id => existingTreasures.has(String(id)));
+            progress.totalPoints = summary.totalPoints;
+            progress.calculateLevel();
+            await progress.checkBadges();
+            await progress.save();
+        };
+
+        for (const progress of await UserProgress.find(filter)) {
+            report.checked++;
+            const key = `${progress.user}:${progress.hunt}`;
+            const summary = summaries.get(key) || { treasures: [], totalPoints: 0 };
+            summaries.delete(key);
+
+            const logged = new Set(summary.treasures.map(String));
+            const missing = progress.unlockedTreasures.filter(id => !logged.has(String(id)));
+
+            if (missing.length > 0) {
+                if (!importLegacy) {
+                    report.skipped.push({ user: progress.user, hunt: progress.hunt, missing: missing.length });
+                    continue;
+                }
+
+                const treasures = await Treasure.find({ _id: { $in: missing } }).select('points');
+                if (!dryRun) {
+                    await UnlockEvent.insertMany(treasures.map(treasure => ({
+                        user: progress.user,
+                        hunt: progress.hunt,
+                        treasure: treasure._id,
+                        points: treasure.points,
+                        method: 'legacy',
+                        scannedAt: progress.updatedAt
+                    })));
+                }
+                report.legacyImported += treasures.length;
+                summary.treasures.push(...treasures.map(treasure => treasure._id));
+                summary.totalPoints += treasures.reduce((sum, treasure) => sum + treasure.points, 0);
+            }
+
+            const unchanged = summary.totalPoints === progress.totalPoints &&
+                summary.treasures.filter(id => existingTreasures.has(String(id))).length === progress.unlockedTreasures.length;
+            if (unchanged) continue;
+
+            report.changed++;
+            if (!dryRun) await applySummary(progress, summary);
+        }
+
+        // Players with events but no progress record at all
+        for (const summary of summaries.values()) {
+            report.created++;
+            if (!dryRun) await applySummary(new UserProgress({ user: summary.user, hunt: summary.hunt }), summary);
+        }
+
+        if (!dryRun) {
+            await recordAudit(req, {
+                action: 'progress.rebuild',
+                targetType: 'progress',
+                targetLabel: [hunt && `hunt ${hunt}`, user && `user ${user}`].filter(Boolean).join(', ') || 'everyone',
+                details: { importLegacy: !!importLegacy, ...report }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: report,
+            message: dryRun
+                ? `Dry run — ${report.changed + report.created} progress record(s) would change`
+                : `Rebuilt ${report.changed + report.created} progress record(s) from the unlock log`
+        });
+    } catch (err) {
+        next(err);
+    }
+};
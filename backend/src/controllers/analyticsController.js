@@ -0,0 +1,235 @@
+const Hunt = require('../models/Hunt');
+const Treasure = require('../models/Treasure');
+const UserProgress = require('../models/UserProgress');
+const TreasureView = require('../models/TreasureView');
+const UnlockEvent = require('../models/UnlockEvent');
+const LocationPing = require('../models/LocationPing');
+
+/** Heatmap grid cell size in meters — default, smallest and largest allowed */
+const DEFAULT_CELL_METERS = 50;
+const MIN_CELL_METERS = 10;
+const MAX_CELL_METERS = 500;
+
+/** Meters in one degree of latitude (near enough everywhere) */
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Middle value of a list of numbers.
+ * @param   {number[]} values
+ * @returns {number|null} The median, or null for an empty list
+ */
+const median = (values) => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Read an optional date from the query string.
+ * @param   {string} [value] - An ISO date, or a plain "YYYY-MM-DD" day
+ * @returns {Date|null|undefined} The date, null if there isn't one, undefined if it isn't a real date
+ */
+const parseQueryDate = (value) => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Count located documents per grid cell.
+ * @param   {Model}  Model     - UnlockEvent or LocationPing
+ * @param   {Object} match     - Filter for the documents to count
+ * @param   {string} prefix    - Path to the latitude/longitude fields ('location.' for unlocks, '' for pings)
+ * @param   {number} latStep   - Cell height in degrees
+ * @param   {number} lngStep   - Cell width in degrees
+ * @returns {Array} [{ _id: { row, col }, count }]
+ */
+const countByCell = (Model, match, prefix, latStep, lngStep) => Model.aggregate([
+    { $match: { ...match, [`${prefix}latitude`]: { $type: 'number' }, [`${prefix}longitude`]: { $type: 'number' } } },
+    {
+        $group: {
+            _id: {
+                row: { $floor: { $divide: [`$${prefix}latitude`, latStep] } },
+                col: { $floor: { $divide: [`$${prefix}longitude`, lngStep] } }
+            },
+            count: { $sum: 1 }
+        }
+    }
+]);
+
+/**
+ * How each treasure in a hunt is performing, hardest first — for finding stickers
+ * that are badly placed or clues that don't work.
+ * For each treasure:
+ *   - found / discoveryRate   → how many of the hunt's players found it
+ *   - viewers / viewedNotFound → how many opened its clue, and how many of those never found it
+ *   - medianTimeToFindMs      → median time from first opening the clue to finding it
+ *   - hintsUsed / hintUsers   → AI hints asked for, and by how many players
+ * Treasures are ranked by discovery rate (lowest first), then by drop-off.
+ * @route   GET /api/admin/analytics/treasures
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @returns {Object} { hunt, players, treasures: [...] }
+ * @access  Admin only
+ */
+exports.getTreasureAnalytics = async (req, res, next) => {
+    try {
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                code: 'NO_HUNT',
+                error: 'No hunts have been set up yet'
+            });
+        }
+
+        const treasures = await Treasure.find({ hunt: hunt._id }).select('name category points unlockType');
+        const players = await UserProgress.countDocuments({ hunt: hunt._id });
+
+        const foundCounts = new Map((await UserProgress.aggregate([
+            { $match: { hunt: hunt._id } },
+            { $unwind: '$unlockedTreasures' },
+            { $group: { _id: '$unlockedTreasures', count: { $sum: 1 } } }
+        ])).map(row => [String(row._id), row.count]));
+
+        const engagement = new Map((await TreasureView.getTreasureStats(hunt._id))
+            .map(row => [String(row._id), row]));
+
+        const rows = treasures.map(treasure => {
+            const found = foundCounts.get(String(treasure._id)) || 0;
+            const views = engagement.get(String(treasure._id)) || { viewers: 0, viewedNotFound: 0, hintsUsed: 0, hintUsers: 0, searchTimes: [] };
+
+            return {
+                _id: treasure._id,
+                name: treasure.name,
+                category: treasure.category,
+                points: treasure.points,
+                unlockType: treasure.unlockType,
+                found,
+                discoveryRate: players > 0 ? Math.round((found / players) * 1000) / 10 : 0,
+                viewers: views.viewers,
+                viewedNotFound: views.viewedNotFound,
+                dropOffRate: views.viewers > 0 ? Math.round((views.viewedNotFound / views.viewers) * 1000) / 10 : 0,
+                medianTimeToFindMs: median(views.searchTimes),
+                hintsUsed: views.hintsUsed,
+                hintUsers: views.hintUsers
+            };
+        });
+
+        rows.sort((a, b) => a.discoveryRate - b.discoveryRate || b.dropOffRate - a.dropOffRate);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                hunt: { _id: hunt._id, name: hunt.name },
+                players,
+                treasures: rows
+            }
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Where players are and where unlocks happen, bucketed into a grid for the admin heatmap.
+ * Unlocks come from the unlock log (by when they were scanned) and player positions
+ * from the location pings the app sends while the map is open. Cells are roughly
+ * square: their width in degrees is stretched for the hunt's latitude.
+ * @route   GET /api/admin/analytics/heatmap
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @param   {string} [req.query.from] - Only activity on or after this moment
+ * @param   {string} [req.query.to]   - Only activity before this moment
+ * @param   {number} [req.query.cell] - Cell size in meters (default 50, 10–500)
+ * @returns {Object} { hunt, cellMeters, cells: [{ south, west, north, east, unlocks, pings }], totals, max }
+ * @access  Admin only
+ */
+exports.getActivityHeatmap = async (req, res, next) => {
+    try {
+        const from = parseQueryDate(req.query.from);
+        const to = parseQueryDate(req.query.to);
+
+        if (from === undefined || to === undefined) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_DATE',
+                error: 'Dates must look like 2026-09-21'
+            });
+        }
+
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                code: 'NO_HUNT',
+                error: 'No hunts have been set up yet'
+            });
+        }
+
+        const cellMeters = Math.min(MAX_CELL_METERS, Math.max(MIN_CELL_METERS, parseInt(req.query.cell) || DEFAULT_CELL_METERS));
+
+        // Size cells for the middle of the hunt so they stay square on the map
+        const treasures = await Treasure.find({ hunt: hunt._id }).select('latitude longitude').lean();
+        const referenceLat = treasures.length > 0
+            ? treasures.reduce((sum, treasure) => sum + treasure.latitude, 0) / treasures.length
+            : 0;
+        const latStep = cellMeters / METERS_PER_DEGREE;
+        const lngStep = cellMeters / (METERS_PER_DEGREE * Math.max(0.01, Math.cos(referenceLat * Math.PI / 180)));
+
+        const timeRange = (field) => {
+            if (!from && !to) return {};
+            const range = {};
+            if (from) range.$gte = from;
+            if (to) range.$lt = to;
+            return { [field]: range };
+        };
+
+        const [unlockCells, pingCells] = await Promise.all([
+            countByCell(UnlockEvent, { hunt: hunt._id, ...timeRange('scannedAt') }, 'location.', latStep, lngStep),
+            countByCell(LocationPing, { hunt: hunt._id, ...timeRange('createdAt') }, '', latStep, lngStep)
+        ]);
+
+        // Merge the two grids — a cell can have unlocks, pings or both
+        const cells = new Map();
+        const cellFor = ({ row, col }) => {
+            const key = `${row}:${col}`;
+            if (!cells.has(key)) {
+                cells.set(key, {
+                    south: row * latStep,
+                    west: col * lngStep,
+                    north: (row + 1) * latStep,
+                    east: (col + 1) * lngStep,
+                    unlocks: 0,
+                    pings: 0
+                });
+            }
+            return cells.get(key);
+        };
+        unlockCells.forEach(cell => { cellFor(cell._id).unlocks = cell.count; });
+        pingCells.forEach(cell => { cellFor(cell._id).pings = cell.count; });
+
+        const grid = [...cells.values()];
+
+        res.status(200).json({
+            success: true,
+            data: {
+                hunt: { _id: hunt._id, name: hunt.name },
+                cellMeters,
+                cells: grid,
+                totals: {
+                    unlocks: grid.reduce((sum, cell) => sum + cell.unlocks, 0),
+                    pings: grid.reduce((sum, cell) => sum + cell.pings, 0)
+                },
+                max: {
+                    unlocks: Math.max(0, ...grid.map(cell => cell.unlocks)),
+                    pings: Math.max(0, ...grid.map(cell => cell.pings)),
+                    combined: Math.max(0, ...grid.map(cell => cell.unlocks + cell.pings))
+                }
+            }
+        });
+    } catch (err) {
+        next(err);
+    }
+};
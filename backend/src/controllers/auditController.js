@@ -0,0 +1,87 @@
+const mongoose = require('mongoose');
+const AuditLog = require('../models/AuditLog');
+
+/** Most audit entries returned in one page */
+const MAX_AUDIT_PAGE = 200;
+
+/**
+ * Read an optional date from the query string.
+ * @param   {string} [value] - An ISO date, or a plain "YYYY-MM-DD" day
+ * @returns {Date|null|undefined} The date, null if there isn't one, undefined if it isn't a real date
+ */
+const parseQueryDate = (value) => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Page through the admin audit trail, newest first.
+ * Filter by the admin who made the change, the kind of change, and a date range.
+ * Pass the `createdAt` of the last entry as `before` to load the next page.
+ * @route   GET /api/admin/audit
+ * @param   {string} [req.query.actor]  - Only changes by this admin (User ObjectId)
+ * @param   {string} [req.query.action] - Only this kind of change (e.g. 'treasure.delete')
+ * @param   {string} [req.query.from]   - Only changes on or after this date
+ * @param   {string} [req.query.to]     - Only changes before this date
+ * @param   {string} [req.query.before] - Only changes older than this moment (for paging)
+ * @param   {number} [req.query.limit]  - Page size (default 50, max 200)
+ * @returns {Object} Entries plus `hasMore`, and the admins and actions available to filter by
+ * @access  Admin only
+ */
+exports.getAuditLog = async (req, res, next) => {
+    try {
+        const { actor, action } = req.query;
+        const from = parseQueryDate(req.query.from);
+        const to = parseQueryDate(req.query.to);
+        const before = parseQueryDate(req.query.before);
+
+        if (from === undefined || to === undefined || before === undefined) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_DATE',
+                error: 'Dates must look like 2026-09-21'
+            });
+        }
+
+        if (actor && !mongoose.isValidObjectId(actor)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Unknown admin'
+            });
+        }
+
+        const filter = {};
+        if (actor) filter.actor = actor;
+        if (action) filter.action = action;
+        if (from || to || before) {
+            filter.createdAt = {};
+            if (from) filter.createdAt.$gte = from;
+            if (to) filter.createdAt.$lt = to;
+            if (before && (!to || before < to)) filter.createdAt.$lt = before;
+        }
+
+        const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), MAX_AUDIT_PAGE);
+        const entries = await AuditLog.find(filter)
+            .sort({ createdAt: -1 })
+            .limit(limit + 1);
+
+        // Everyone who has ever made a change, for the actor filter
+        const actors = await AuditLog.aggregate([
+            { $sort: { createdAt: -1 } },
+            { $group: { _id: '$actor', username: { $first: '$actorName' } } },
+            { $sort: { username: 1 } }
+        ]);
+
+        res.status(200).json({
+            success: true,
+            count: Math.min(entries.length, limit),
+            hasMore: entries.length > limit,
+            data: entries.slice(0, limit),
+            actors,
+            actions: AuditLog.ACTIONS
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -1,5 +1,6 @@
 const User = require('../models/User');
 const UserProgress = require('../models/UserProgress');
+const Hunt = require('../models/Hunt');
 const Counter = require('../models/Counter');
 
 /**
@@ -32,14 +33,7 @@ exports.register = async (req, res, next) => {
             playerNumber
         });
 
-        // Every new player starts with a blank slate
-        await UserProgress.create({
-            user: user._id,
-            unlockedTreasures: [],
-            totalPoints: 0,
-            badges: [],
-            level: 1
-        });
+        // Progress is created per hunt the first time the player opens it
 
         const token = user.getSignedJwtToken();
 
@@ -143,15 +137,19 @@ exports.login = async (req, res, next) => {
 /**
  * Get the currently logged-in user's profile and game progress.
  * This is called on app load to restore the session from the stored JWT.
+ * Progress is for the requested hunt and is null if they haven't played it yet.
  * @route   GET /api/auth/me
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
  * @access  Protected (requires valid JWT)
  * @returns {Object} User profile and their full progress with unlocked treasures populated
  */
 exports.getMe = async (req, res, next) => {
     try {
         const user = await User.findById(req.user.id);
-        const progress = await UserProgress.findOne({ user: req.user.id })
-            .populate('unlockedTreasures');
+        const hunt = await Hunt.resolve(req.query.hunt);
+        const progress = hunt
+            ? await UserProgress.findOne({ user: req.user.id, hunt: hunt._id }).populate('unlockedTreasures')
+            : null;
 
         res.status(200).json({
             success: true,
@@ -0,0 +1,247 @@
+const Badge = require('../models/Badge');
+const Hunt = require('../models/Hunt');
+const UserProgress = require('../models/UserProgress');
+const { findQualifyingProgress, cleanBadgeRule, findBadgeRuleProblem } = require('../utils/badgeEngine');
+const { recordAudit } = require('../utils/audit');
+
+/** Fields an admin can set on a badge (the key is only set on create) */
+const EDITABLE_FIELDS = ['name', 'description', 'icon', 'rarity', 'hunt', 'active', 'order'];
+
+/**
+ * Tidy a rule from the request body and reply with a 400 if it doesn't make sense.
+ * @param   {Object} rule - The rule from the request body
+ * @param   {Object} res  - Express response, used to send the 400
+ * @returns {Object|null} The tidied rule, or null if a 400 was sent
+ */
+const readRule = (rule, res) => {
+    const cleaned = cleanBadgeRule(rule);
+    const problem = findBadgeRuleProblem(cleaned);
+    if (problem) {
+        res.status(400).json({
+            success: false,
+            code: 'INVALID_BADGE_RULE',
+            error: problem
+        });
+        return null;
+    }
+    return cleaned;
+};
+
+/**
+ * List the badges players can earn in a hunt, in trophy room order.
+ * Includes the hunt's own badges and the ones every hunt shares.
+ * The rules themselves stay on the server — players see the description.
+ * @route   GET /api/badges
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @returns {Object} Array of badges (key, name, description, icon, rarity)
+ */
+exports.getBadges = async (req, res, next) => {
+    try {
+        const hunt = await Hunt.resolve(req.query.hunt);
+        const badges = hunt ? await Badge.findForHunt(hunt._id, '-rule') : [];
+
+        res.status(200).json({
+            success: true,
+            count: badges.length,
+            data: badges
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * List every badge for the badge designer, including inactive ones and their rules.
+ * @route   GET /api/admin/badges
+ * @access  Admin only
+ */
+exports.getAdminBadges = async (req, res, next) => {
+    try {
+        await Badge.ensureDefaults();
+        const badges = await Badge.find()
+            .populate('hunt', 'name')
+            .sort({ order: 1, createdAt: 1 });
+
+        res.status(200).json({
+            success: true,
+            count: badges.length,
+            data: badges
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Create a badge. It starts being awarded on the next unlock —
+ * use the backfill action to give it to players who already qualify.
+ * @route   POST /api/admin/badges
+ * @param   {Object} req.body - The badge (key, name, description, icon, rarity, hunt, active, order, rule)
+ * @access  Admin only
+ */
+exports.createBadge = async (req, res, next) => {
+    try {
+        const rule = readRule(req.body.rule, res);
+        if (!rule) return;
+
+        const fields = { key: req.body.key, rule };
+        EDITABLE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) fields[field] = req.body[field];
+        });
+        if (!fields.hunt) fields.hunt = null;
+
+        const badge = await Badge.create(fields);
+        await recordAudit(req, { action: 'badge.create', targetType: 'badge', target: badge, after: badge });
+
+        res.status(201).json({
+            success: true,
+            data: badge
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Edit a badge. Accepts partial updates; the key can't change because players' progress stores it.
+ * Players who already earned the badge keep it even if the new rule would exclude them.
+ * @route   PUT /api/admin/badges/:id
+ * @param   {string} req.params.id - The badge's MongoDB ObjectId
+ * @param   {Object} req.body - Fields to update (name, description, icon, rarity, hunt, active, order, rule)
+ * @access  Admin only
+ */
+exports.updateBadge = async (req, res, next) => {
+    try {
+        const badge = await Badge.findById(req.params.id);
+
+        if (!badge) {
+            return res.status(404).json({
+                success: false,
+                error: 'Badge not found'
+            });
+        }
+
+        const previous = badge.toObject();
+        if (req.body.rule !== undefined) {
+            const rule = readRule(req.body.rule, res);
+            if (!rule) return;
+            badge.rule = rule;
+        }
+
+        EDITABLE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) badge[field] = req.body[field];
+        });
+        if (!badge.hunt) badge.hunt = null;
+
+        await badge.save();
+        await recordAudit(req, { action: 'badge.update', targetType: 'badge', target: badge, before: previous, after: badge });
+
+        res.status(200).json({
+            success: true,
+            data: badge
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Delete a badge and take it back from everyone who earned it.
+ * To stop awarding a badge but let players keep it, deactivate it instead.
+ * @route   DELETE /api/admin/badges/:id
+ * @param   {string} req.params.id - The badge's MongoDB ObjectId
+ * @access  Admin only
+ */
+exports.deleteBadge = async (req, res, next) => {
+    try {
+        const badge = await Badge.findById(req.params.id);
+
+        if (!badge) {
+            return res.status(404).json({
+                success: false,
+                error: 'Badge not found'
+            });
+        }
+
+        await UserProgress.updateMany({ badges: badge.key }, { $pull: { badges: badge.key } });
+        await badge.deleteOne();
+        await recordAudit(req, { action: 'badge.delete', targetType: 'badge', target: badge, before: badge });
+
+        res.status(200).json({
+            success: true,
+            data: {}
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Count how many current players would qualify for a rule, without saving anything.
+ * The badge designer calls this as the rule is edited.
+ * @route   POST /api/admin/badges/preview
+ * @param   {Object} req.body.rule   - The rule to check
+ * @param   {string} [req.body.hunt] - Only count players in this hunt (empty counts every hunt)
+ * @returns {Object} { qualifying, total } — qualifying progress records out of all checked
+ * @access  Admin only
+ */
+exports.previewBadge = async (req, res, next) => {
+    try {
+        const rule = readRule(req.body.rule, res);
+        if (!rule) return;
+
+        const { qualifying, total } = await findQualifyingProgress(rule, req.body.hunt || null);
+
+        res.status(200).json({
+            success: true,
+            data: { qualifying: qualifying.length, total }
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Award a badge to every existing player who already meets its rule.
+ * New badges are otherwise only checked on a player's next unlock.
+ * @route   POST /api/admin/badges/:id/backfill
+ * @param   {string} req.params.id - The badge's MongoDB ObjectId
+ * @returns {Object} { awarded } — how many players just received the badge
+ * @access  Admin only
+ */
+exports.backfillBadge = async (req, res, next) => {
+    try {
+        const badge = await Badge.findById(req.params.id);
+
+        if (!badge) {
+            return res.status(404).json({
+                success: false,
+                error: 'Badge not found'
+            });
+        }
+
+        if (!badge.active) {
+            return res.status(400).json({
+                success: false,
+                code: 'BADGE_INACTIVE',
+                error: 'Activate the badge before awarding it'
+            });
+        }
+
+        const { qualifying } = await findQualifyingProgress(badge.rule, badge.hunt);
+        const ids = qualifying.filter(progress => !progress.badges.includes(badge.key)).map(progress => progress._id);
+
+        if (ids.length > 0) {
+            await UserProgress.updateMany({ _id: { $in: ids } }, { $addToSet: { badges: badge.key } });
+        }
+        await recordAudit(req, { action: 'badge.backfill', targetType: 'badge', target: badge, details: { awarded: ids.length } });
+
+        res.status(200).json({
+            success: true,
+            message: `Awarded "${badge.name}" to ${ids.length} player${ids.length === 1 ? '' : 's'}`,
+            data: { awarded: ids.length }
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,226 @@
+const mongoose = require('mongoose');
+const Hunt = require('../models/Hunt');
+const User = require('../models/User');
+const UnlockEvent = require('../models/UnlockEvent');
+const Feedback = require('../models/Feedback');
+const { getLevelInfo } = require('../utils/levels');
+const { streamExport, EXPORT_FORMATS } = require('../utils/exporter');
+
+/**
+ * Read an optional date from the query string.
+ * @param   {string} [value] - An ISO date, or a plain "YYYY-MM-DD" day
+ * @returns {Date|null|undefined} The date, null if there isn't one, undefined if it isn't a real date
+ */
+const parseQueryDate = (value) => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Read the options every export shares, or send a 400 if they don't make sense.
+ * @param   {Object} req - Express request (query: format, from, to, hunt)
+ * @param   {Object} res - Express response, for the 400
+ * @returns {Object|null} { format, range, hunt } — range is a Mongo date condition (or null); null if a 400 was sent
+ */
+const readExportOptions = (req, res) => {
+    const format = (req.query.format || 'csv').toLowerCase();
+    const from = parseQueryDate(req.query.from);
+    const to = parseQueryDate(req.query.to);
+
+    if (!EXPORT_FORMATS[format]) {
+        res.status(400).json({
+            success: false,
+            code: 'INVALID_FORMAT',
+            error: 'Exports can be csv or json'
+        });
+        return null;
+    }
+
+    if (from === undefined || to === undefined) {
+        res.status(400).json({
+            success: false,
+            code: 'INVALID_DATE',
+            error: 'Dates must look like 2026-09-21'
+        });
+        return null;
+    }
+
+    if (req.query.hunt && !mongoose.isValidObjectId(req.query.hunt)) {
+        res.status(400).json({
+            success: false,
+            error: 'That hunt does not exist'
+        });
+        return null;
+    }
+
+    let range = null;
+    if (from || to) {
+        range = {};
+        if (from) range.$gte = from;
+        if (to) range.$lt = to;
+    }
+
+    return { format, range, hunt: req.query.hunt ? new mongoose.Types.ObjectId(req.query.hunt) : null };
+};
+
+/**
+ * Name a download after what's in it and today's date, e.g. "geohunt-unlocks-2026-09-21".
+ * @param   {string} dataset
+ * @returns {string}
+ */
+const exportFilename = (dataset) => `geohunt-${dataset}-${new Date().toISOString().slice(0, 10)}`;
+
+/**
+ * Every hunt's name by id, for labelling rows (there are only ever a handful of hunts).
+ * @returns {Map<string, string>}
+ */
+const loadHuntNames = async () => new Map((await Hunt.find().select('name').lean())
+    .map(hunt => [String(hunt._id), hunt.name]));
+
+/**
+ * Download every player with their progress — one row per player per hunt they've
+ * played (players who haven't started get one row with empty progress columns).
+ * The date range is on when the player signed up.
+ * @route   GET /api/admin/export/users
+ * @param   {string} [req.query.format] - 'csv' (default) or 'json'
+ * @param   {string} [req.query.from]   - Only players who joined on or after this date
+ * @param   {string} [req.query.to]     - Only players who joined before this date
+ * @param   {string} [req.query.hunt]   - Only progress in this hunt (players who haven't played it are left out)
+ * @returns {File} The export, streamed as it's read
+ * @access  Admin only
+ */
+exports.exportUsers = async (req, res, next) => {
+    try {
+        const options = readExportOptions(req, res);
+        if (!options) return;
+
+        const huntNames = await loadHuntNames();
+        const cursor = User.aggregate([
+            { $match: options.range ? { createdAt: options.range } : {} },
+            { $sort: { createdAt: 1 } },
+            {
+                $lookup: {
+                    from: 'userprogresses',
+                    localField: '_id',
+                    foreignField: 'user',
+                    as: 'progress'
+                }
+            },
+            { $unwind: { path: '$progress', preserveNullAndEmptyArrays: !options.hunt } },
+            ...(options.hunt ? [{ $match: { 'progress.hunt': options.hunt } }] : []),
+            { $project: { password: 0, 'progress.missionBriefing': 0, 'progress.quizAttempts': 0 } }
+        ]).cursor();
+
+        await streamExport(res, {
+            format: options.format,
+            filename: exportFilename('users'),
+            cursor,
+            columns: [
+                { key: 'username', header: 'Username', value: user => user.username },
+                { key: 'email', header: 'Email', value: user => user.email },
+                { key: 'playerId', header: 'Player ID', value: user => user.playerId },
+                { key: 'role', header: 'Role', value: user => user.role },
+                { key: 'joinedAt', header: 'Joined', value: user => user.createdAt },
+                { key: 'hunt', header: 'Hunt', value: user => user.progress && huntNames.get(String(user.progress.hunt)) },
+                { key: 'totalPoints', header: 'Points', value: user => user.progress?.totalPoints },
+                { key: 'level', header: 'Level', value: user => user.progress && getLevelInfo(user.progress.totalPoints).level },
+                { key: 'treasuresFound', header: 'Treasures found', value: user => user.progress?.unlockedTreasures.length },
+                { key: 'badges', header: 'Badges', value: user => user.progress?.badges },
+                { key: 'lastActiveAt', header: 'Last active', value: user => user.progress?.updatedAt }
+            ]
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Download the unlock event log — one row per treasure found, oldest first.
+ * The date range is on when the scan happened.
+ * @route   GET /api/admin/export/unlocks
+ * @param   {string} [req.query.format] - 'csv' (default) or 'json'
+ * @param   {string} [req.query.from]   - Only unlocks scanned on or after this date
+ * @param   {string} [req.query.to]     - Only unlocks scanned before this date
+ * @param   {string} [req.query.hunt]   - Only unlocks in this hunt
+ * @returns {File} The export, streamed as it's read
+ * @access  Admin only
+ */
+exports.exportUnlocks = async (req, res, next) => {
+    try {
+        const options = readExportOptions(req, res);
+        if (!options) return;
+
+        const filter = {};
+        if (options.hunt) filter.hunt = options.hunt;
+        if (options.range) filter.scannedAt = options.range;
+
+        const huntNames = await loadHuntNames();
+        const cursor = UnlockEvent.find(filter)
+            .sort({ scannedAt: 1 })
+            .populate('user', 'username email')
+            .populate('treasure', 'name category')
+            .lean()
+            .cursor();
+
+        await streamExport(res, {
+            format: options.format,
+            filename: exportFilename('unlocks'),
+            cursor,
+            columns: [
+                { key: 'scannedAt', header: 'Scanned at', value: event => event.scannedAt },
+                { key: 'recordedAt', header: 'Recorded at', value: event => event.createdAt },
+                { key: 'username', header: 'Username', value: event => event.user?.username ?? '(deleted player)' },
+                { key: 'email', header: 'Email', value: event => event.user?.email },
+                { key: 'hunt', header: 'Hunt', value: event => huntNames.get(String(event.hunt)) },
+                { key: 'treasure', header: 'Treasure', value: event => event.treasure?.name ?? '(deleted treasure)' },
+                { key: 'category', header: 'Category', value: event => event.treasure?.category },
+                { key: 'points', header: 'Points', value: event => event.points },
+                { key: 'method', header: 'Method', value: event => event.method },
+                { key: 'latitude', header: 'Latitude', value: event => event.location?.latitude },
+                { key: 'longitude', header: 'Longitude', value: event => event.location?.longitude },
+                { key: 'accuracy', header: 'GPS accuracy (m)', value: event => event.location?.accuracy }
+            ]
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Download all player feedback, oldest first.
+ * @route   GET /api/admin/export/feedback
+ * @param   {string} [req.query.format] - 'csv' (default) or 'json'
+ * @param   {string} [req.query.from]   - Only feedback sent on or after this date
+ * @param   {string} [req.query.to]     - Only feedback sent before this date
+ * @returns {File} The export, streamed as it's read
+ * @access  Admin only
+ */
+exports.exportFeedback = async (req, res, next) => {
+    try {
+        const options = readExportOptions(req, res);
+        if (!options) return;
+
+        const cursor = Feedback.find(options.range ? { createdAt: options.range } : {})
+            .sort({ createdAt: 1 })
+            .populate('user', 'username email')
+            .lean()
+            .cursor();
+
+        await streamExport(res, {
+            format: options.format,
+            filename: exportFilename('feedback'),
+            cursor,
+            columns: [
+                { key: 'createdAt', header: 'Sent at', value: feedback => feedback.createdAt },
+                { key: 'username', header: 'Username', value: feedback => feedback.user?.username ?? '(deleted player)' },
+                { key: 'email', header: 'Email', value: feedback => feedback.user?.email },
+                { key: 'type', header: 'Type', value: feedback => feedback.type },
+                { key: 'rating', header: 'Rating', value: feedback => feedback.rating },
+                { key: 'message', header: 'Message', value: feedback => feedback.message }
+            ]
+        });
+    } catch (err) {
+        next(err);
+    }
+};
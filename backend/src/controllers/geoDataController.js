@@ -0,0 +1,240 @@
+const mongoose = require('mongoose');
+const Hunt = require('../models/Hunt');
+const Treasure = require('../models/Treasure');
+const { treasureToFeature, readFeature, findLoopedKeys } = require('../utils/treasureGeoJson');
+const { recordAudit } = require('../utils/audit');
+
+/** Most features one import may contain */
+const MAX_IMPORT_FEATURES = 500;
+
+/**
+ * Turn a hunt name into something safe for a download filename.
+ * @param   {string} name
+ * @returns {string} e.g. "freshers-week-2026"
+ */
+const slugify = (name) => String(name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'hunt';
+
+/**
+ * Download a hunt's treasures as a GeoJSON FeatureCollection — one Point per treasure
+ * with its fields (including quiz answers) as properties, ready to edit and import again.
+ * @route   GET /api/admin/treasures/export
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @returns {File} A .geojson download
+ * @access  Admin only
+ */
+exports.exportTreasuresGeoJson = async (req, res, next) => {
+    try {
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                code: 'NO_HUNT',
+                error: 'No hunts have been set up yet'
+            });
+        }
+
+        const treasures = await Treasure.find({ hunt: hunt._id }).select('+quiz.answers').sort({ createdAt: 1 }).lean();
+        const namesById = new Map(treasures.map(t => [String(t._id), t.name]));
+
+        res.set('Content-Type', 'application/geo+json; charset=utf-8');
+        res.set('Content-Disposition', `attachment; filename="geohunt-${slugify(hunt.name)}-treasures.geojson"`);
+        res.status(200).send(JSON.stringify({
+            type: 'FeatureCollection',
+            hunt: { id: String(hunt._id), name: hunt.name },
+            features: treasures.map(treasure => treasureToFeature(treasure, namesById))
+        }, null, 2));
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Create or update a hunt's treasures from a GeoJSON FeatureCollection.
+ * A feature updates the treasure whose id (or, failing that, name) it carries, and
+ * creates a new treasure otherwise. Every feature is checked first — the schema, the
+ * quiz, and that prerequisites name real treasures without looping — and if any has a
+ * problem nothing is written; if writing fails part way, the changes already made are undone.
+ * A feature without a prerequisites property keeps the treasure's existing prerequisites.
+ * With dryRun the report comes back without writing either way.
+ * @route   POST /api/admin/treasures/import
+ * @param   {Object}  req.body           - The FeatureCollection
+ * @param   {string}  [req.query.hunt]   - The hunt to import into (defaults to the current hunt)
+ * @param   {string}  [req.query.dryRun] - 'true' to only check the file
+ * @returns {Object} { dryRun, hunt, created, updated, invalid, features: [{ index, name, action, errors }] }
+ * @access  Admin only
+ */
+exports.importTreasuresGeoJson = async (req, res, next) => {
+    try {
+        const dryRun = req.query.dryRun === 'true';
+        const collection = req.body;
+
+        if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_GEOJSON',
+                error: 'Please upload a GeoJSON FeatureCollection'
+            });
+        }
+
+        if (collection.features.length === 0 || collection.features.length > MAX_IMPORT_FEATURES) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_GEOJSON',
+                error: `An import needs between 1 and ${MAX_IMPORT_FEATURES} features`
+            });
+        }
+
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                code: 'NO_HUNT',
+                error: 'No hunts have been set up yet'
+            });
+        }
+
+        const existing = await Treasure.find({ hunt: hunt._id }).select('+quiz.answers');
+        const existingById = new Map(existing.map(t => [String(t._id), t]));
+        const existingByName = new Map(existing.map(t => [t.name, t]));
+
+        // Match each feature to the treasure it updates, if any, and check its fields
+        const claimed = new Map();
+        const rows = collection.features.map((feature, index) => {
+            const { id, fields, prerequisites, errors } = readFeature(feature);
+            const match = (id && existingById.get(id)) || existingByName.get(fields.name);
+            const key = match ? String(match._id) : `new:${index}`;
+
+            if (claimed.has(key)) {
+                errors.push(`Feature ${claimed.get(key) + 1} already updates this treasure`);
+            } else {
+                claimed.set(key, index);
+            }
+
+            const candidate = new Treasure({ ...(match ? match.toObject() : {}), ...fields, hunt: hunt._id, prerequisites: [] });
+            const validation = candidate.validateSync();
+            if (validation) {
+                // A bad geometry has already been reported — don't repeat it as missing coordinates
+                errors.push(...Object.values(validation.errors)
+                    .filter(error => !(fields.latitude === undefined && ['latitude', 'longitude'].includes(error.path) && errors.length > 0))
+                    .map(error => error.message));
+            }
+
+            // A feature without a prerequisites property leaves an existing treasure's chain as it is
+            const keepsPrerequisites = prerequisites === undefined && Boolean(match);
+            return {
+                index, key, match, fields, keepsPrerequisites,
+                prerequisiteNames: prerequisites || [],
+                prerequisites: keepsPrerequisites ? match.prerequisites.map(String) : [],
+                errors
+            };
+        });
+
+        // Features are referred to by name, so names must be unique within the file
+        const keysByName = new Map();
+        rows.forEach(row => {
+            if (!row.fields.name) return;
+            if (keysByName.has(row.fields.name)) {
+                row.errors.push(`Another feature is also called "${row.fields.name}"`);
+            } else {
+                keysByName.set(row.fields.name, row.key);
+            }
+        });
+
+        // Resolve prerequisites against the file first, then the treasures already in the hunt
+        rows.forEach(row => {
+            row.prerequisiteNames.forEach(name => {
+                const key = keysByName.get(name) || (existingByName.has(name) && String(existingByName.get(name)._id)) || (existingById.has(name) && name);
+                if (!key) {
+                    row.errors.push(`No treasure called "${name}" in this file or hunt`);
+                } else if (key === row.key) {
+                    row.errors.push('A treasure cannot be its own prerequisite');
+                } else if (!row.prerequisites.includes(key)) {
+                    row.prerequisites.push(key);
+                }
+            });
+        });
+
+        // Check the trail as it would be after the import — untouched treasures keep their prerequisites
+        const graph = new Map(existing.map(t => [String(t._id), t.prerequisites.map(String)]));
+        rows.forEach(row => graph.set(row.key, row.prerequisites));
+        const looped = findLoopedKeys(graph);
+        rows.filter(row => looped.has(row.key)).forEach(row => row.errors.push('Its prerequisites lead back to itself'));
+
+        const report = {
+            dryRun,
+            hunt: { _id: hunt._id, name: hunt.name },
+            created: rows.filter(row => !row.match).length,
+            updated: rows.filter(row => row.match).length,
+            invalid: rows.filter(row => row.errors.length > 0).length,
+            features: rows.map(row => ({
+                index: row.index,
+                name: row.fields.name || null,
+                action: row.match ? 'update' : 'create',
+                errors: row.errors
+            }))
+        };
+
+        if (dryRun) {
+            return res.status(200).json({ success: true, data: report });
+        }
+
+        if (report.invalid > 0) {
+            return res.status(400).json({
+                success: false,
+                code: 'INVALID_FEATURES',
+                error: `${report.invalid} feature${report.invalid === 1 ? ' has' : 's have'} problems — nothing was imported`,
+                data: report
+            });
+        }
+
+        // New treasures get their ids up front, so every treasure and its prerequisites go in one batch
+        const idsByKey = new Map(rows.map(row => [row.key, row.match ? row.match._id : new mongoose.Types.ObjectId()]));
+        const operations = rows.map(row => {
+            const links = row.keepsPrerequisites ? {} : { prerequisites: row.prerequisites.map(key => idsByKey.get(key) || key) };
+            return row.match
+                ? { updateOne: { filter: { _id: row.match._id }, update: { $set: { ...row.fields, ...links } } } }
+                : { insertOne: { document: { ...row.fields, ...links, _id: idsByKey.get(row.key), hunt: hunt._id } } };
+        });
+
+        try {
+            await Treasure.bulkWrite(operations, { ordered: true });
+        } catch (err) {
+            // Put the hunt back as it was: remove what was created and restore what was changed
+            await Treasure.deleteMany({ _id: { $in: rows.filter(row => !row.match).map(row => idsByKey.get(row.key)) } });
+            const originals = rows.filter(row => row.match).map(row => ({
+                replaceOne: { filter: { _id: row.match._id }, replacement: row.match.toObject({ virtuals: false }) }
+            }));
+            if (originals.length > 0) await Treasure.bulkWrite(originals);
+            throw err;
+        }
+
+        // One entry per treasure, like the single-treasure form, so every overwrite keeps its old values
+        const saved = await Treasure.find({ _id: { $in: [...idsByKey.values()] } }).select('+quiz.answers');
+        const savedById = new Map(saved.map(treasure => [String(treasure._id), treasure]));
+        for (const row of rows) {
+            const treasure = savedById.get(String(idsByKey.get(row.key)));
+            await recordAudit(req, row.match
+                ? { action: 'treasure.update', targetType: 'treasure', target: treasure, before: row.match, after: treasure, details: { import: true } }
+                : { action: 'treasure.create', targetType: 'treasure', target: treasure, after: treasure, details: { import: true } });
+        }
+        await recordAudit(req, {
+            action: 'treasure.import',
+            targetType: 'hunt',
+            target: hunt,
+            details: {
+                created: rows.filter(row => !row.match).map(row => idsByKey.get(row.key)),
+                updated: rows.filter(row => row.match).map(row => row.match._id)
+            }
+        });
+
+        res.status(200).json({
+            success: true,
+            data: report,
+            message: `Imported ${rows.length} treasure${rows.length === 1 ? '' : 's'} into ${hunt.name} (${report.created} new, ${report.updated} updated)`
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,140 @@
+const Hunt = require('../models/Hunt');
+const Treasure = require('../models/Treasure');
+const UserProgress = require('../models/UserProgress');
+const UnlockEvent = require('../models/UnlockEvent');
+const TreasureView = require('../models/TreasureView');
+const LocationPing = require('../models/LocationPing');
+const { recordAudit } = require('../utils/audit');
+
+/**
+ * List every hunt with its current status and how many treasures it has.
+ * Public so the player app can offer a hunt picker before anyone logs in.
+ * @route   GET /api/hunts
+ * @returns {Object} Array of hunts, newest first, plus the ID of the default hunt
+ */
+exports.getHunts = async (req, res, next) => {
+    try {
+        const hunts = await Hunt.find().sort({ startsAt: -1 });
+        const defaultHunt = await Hunt.resolve();
+
+        const treasureCounts = await Treasure.aggregate([
+            { $group: { _id: '$hunt', count: { $sum: 1 } } }
+        ]);
+        const countByHunt = new Map(treasureCounts.map(c => [String(c._id), c.count]));
+
+        res.status(200).json({
+            success: true,
+            count: hunts.length,
+            defaultHunt: defaultHunt?._id || null,
+            data: hunts.map(hunt => ({
+                ...hunt.toJSON(),
+                treasureCount: countByHunt.get(hunt._id.toString()) || 0
+            }))
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Create a new hunt.
+ * Treasures are added to it afterwards from the treasure form.
+ * @route   POST /api/admin/hunts
+ * @param   {Object} req.body - The hunt data (name, description, startsAt, endsAt, manualCodeEnabled)
+ * @access  Admin only
+ */
+exports.createHunt = async (req, res, next) => {
+    try {
+        const { name, description, startsAt, endsAt, manualCodeEnabled } = req.body;
+        const hunt = await Hunt.create({ name, description, startsAt, endsAt, manualCodeEnabled });
+        await recordAudit(req, { action: 'hunt.create', targetType: 'hunt', target: hunt, after: hunt });
+
+        res.status(201).json({
+            success: true,
+            data: hunt
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Edit a hunt's details or move its start/end window.
+ * Accepts partial updates — you only need to send the fields you want to change.
+ * @route   PUT /api/admin/hunts/:id
+ * @param   {string} req.params.id - The hunt's MongoDB ObjectId
+ * @param   {Object} req.body - Fields to update (name, description, startsAt, endsAt, manualCodeEnabled)
+ * @access  Admin only
+ */
+exports.updateHunt = async (req, res, next) => {
+    try {
+        const hunt = await Hunt.findById(req.params.id);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                error: 'Hunt not found'
+            });
+        }
+
+        const previous = hunt.toObject();
+        ['name', 'description', 'startsAt', 'endsAt', 'manualCodeEnabled'].forEach(field => {
+            if (req.body[field] !== undefined) hunt[field] = req.body[field];
+        });
+
+        // Saving (rather than findByIdAndUpdate) runs the end-after-start check
+        await hunt.save();
+        await recordAudit(req, { action: 'hunt.update', targetType: 'hunt', target: hunt, before: previous, after: hunt });
+
+        res.status(200).json({
+            success: true,
+            data: hunt
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Delete a hunt along with everyone's progress in it.
+ * Hunts that still own treasures are refused — move or delete the treasures first
+ * so nothing disappears from the map by accident.
+ * @route   DELETE /api/admin/hunts/:id
+ * @param   {string} req.params.id - The hunt's MongoDB ObjectId
+ * @access  Admin only
+ */
+exports.deleteHunt = async (req, res, next) => {
+    try {
+        const hunt = await Hunt.findById(req.params.id);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                error: 'Hunt not found'
+            });
+        }
+
+        const treasureCount = await Treasure.countDocuments({ hunt: hunt._id });
+        if (treasureCount > 0) {
+            return res.status(400).json({
+                success: false,
+                code: 'HUNT_NOT_EMPTY',
+                error: `"${hunt.name}" still has ${treasureCount} treasure${treasureCount === 1 ? '' : 's'} — remove them first`
+            });
+        }
+
+        await UserProgress.deleteMany({ hunt: hunt._id });
+        await UnlockEvent.deleteMany({ hunt: hunt._id });
+        await TreasureView.deleteMany({ hunt: hunt._id });
+        await LocationPing.deleteMany({ hunt: hunt._id });
+        await hunt.deleteOne();
+        await recordAudit(req, { action: 'hunt.delete', targetType: 'hunt', target: hunt, before: hunt });
+
+        res.status(200).json({
+            success: true,
+            data: {}
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -1,31 +1,212 @@
 const UserProgress = require('../models/UserProgress');
 const User = require('../models/User');
+const Team = require('../models/Team');
+const Hunt = require('../models/Hunt');
+const UnlockEvent = require('../models/UnlockEvent');
+const { onLeaderboardChange } = require('../utils/leaderboardEvents');
+
+/** How often (in ms) an idle stream sends a comment line so proxies don't close it */
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+/** How often (in ms) clients should poll when streaming isn't available */
+const POLL_INTERVAL_MS = parseInt(process.env.LEADERBOARD_POLL_MS || '20000');
+
+/** Most players (or teams) a leaderboard request can ask for */
+const MAX_LIMIT = 100;
+
+/**
+ * Time windows the player leaderboard can be ranked over.
+ *   - day  → points earned in the hunt in the last 24 hours
+ *   - week → points earned in the hunt in the last 7 days
+ *   - hunt → everything earned in the hunt (the event's final standings)
+ *   - all  → lifetime points across every hunt the player has played
+ * The rolling windows are ranked from unlock events; the others from progress totals.
+ */
+const PERIOD_WINDOWS = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    hunt: null,
+    all: null
+};
+
+/**
+ * Turn a progress document (with its user populated) into a standings row.
+ * @param   {Object} entry - The UserProgress document
+ * @returns {Object} { username, points, treasuresFound, level, badges }
+ */
+const formatProgress = (entry) => ({
+    username: entry.user?.username,
+    points: entry.totalPoints,
+    treasuresFound: entry.unlockedTreasures.length,
+    level: entry.level,
+    badges: entry.badges
+});
+
+/**
+ * Rank the top players over a period.
+ * @param   {Object} hunt   - The hunt document (or null, which ranks nobody except for 'all')
+ * @param   {number} limit  - How many players to return
+ * @param   {string} period - One of the PERIOD_WINDOWS keys
+ * @returns {Promise<Object[]>} Frontend-friendly entries with rank, username, points, treasuresFound, level and badges
+ */
+const buildLeaderboard = async (hunt, limit, period) => {
+    let standings = [];
+
+    if (period === 'all') {
+        standings = await UserProgress.getLifetimeStandings({ limit });
+    } else if (hunt && PERIOD_WINDOWS[period]) {
+        standings = await UnlockEvent.getStandings({
+            hunt: hunt._id,
+            since: new Date(Date.now() - PERIOD_WINDOWS[period]),
+            limit
+        });
+    } else if (hunt) {
+        const progress = await UserProgress.find({ hunt: hunt._id })
+            .sort({ totalPoints: -1, _id: 1 })
+            .limit(limit)
+            .populate('user', 'username');
+        standings = progress.map(formatProgress);
+    }
+
+    // Format the raw data into a clean, frontend-friendly structure
+    return standings.map((entry, index) => ({
+        rank: index + 1,
+        username: entry.username || 'Unknown Hunter',
+        points: entry.points,
+        treasuresFound: entry.treasuresFound,
+        level: entry.level,
+        badges: entry.badges
+    }));
+};
+
+/**
+ * Read the leaderboard period from a query string.
+ * @param   {string} [period] - The requested period (defaults to 'hunt')
+ * @returns {string|null} A valid period, or null if it isn't one we know
+ */
+const parsePeriod = (period = 'hunt') => (
+    Object.prototype.hasOwnProperty.call(PERIOD_WINDOWS, period) ? period : null
+);
 
 /**
- * Get the top players leaderboard, ranked by total points.
+ * Read how many entries to return from a query string.
+ * @param   {string} [limit] - The requested limit (defaults to 10)
+ * @returns {number} Between 1 and MAX_LIMIT
+ */
+const parseLimit = (limit) => Math.min(Math.max(parseInt(limit) || 10, 1), MAX_LIMIT);
+
+/** Error body for an unknown ?period= */
+const invalidPeriod = () => ({
+    success: false,
+    code: 'INVALID_PERIOD',
+    error: `Period must be one of: ${Object.keys(PERIOD_WINDOWS).join(', ')}`
+});
+
+/**
+ * Get the top players leaderboard for a hunt, ranked by points earned in a period.
  * Returns a nicely formatted list with each player's rank, username,
- * points, number of treasures found, level, and badges.
+ * points, number of treasures found, level, and badges. In the rolling
+ * periods, points and treasures found only count what was earned in the window.
  * @route   GET /api/leaderboard
- * @param   {number} [req.query.limit=10] - How many players to return (default: top 10)
+ * @param   {number} [req.query.limit=10]     - How many players to return (default: top 10, max 100)
+ * @param   {string} [req.query.hunt]         - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @param   {string} [req.query.period=hunt]  - 'day', 'week', 'hunt' or 'all' (lifetime, across every hunt)
  * @returns {Object} Ranked array of player stats
  */
 exports.getLeaderboard = async (req, res, next) => {
     try {
-        const limit = parseInt(req.query.limit) || 10;
+        const limit = parseLimit(req.query.limit);
+        const period = parsePeriod(req.query.period);
+        if (!period) {
+            return res.status(400).json(invalidPeriod());
+        }
 
-        const leaderboard = await UserProgress.find()
-            .sort({ totalPoints: -1 })
-            .limit(limit)
-            .populate('user', 'username');
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        const formattedLeaderboard = await buildLeaderboard(hunt, limit, period);
+
+        res.status(200).json({
+            success: true,
+            count: formattedLeaderboard.length,
+            period,
+            data: formattedLeaderboard
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Show the current player where they stand in a hunt, however far down the rankings they are.
+ * Returns their exact rank, the share of other players they're ahead of, and the
+ * players just above and below them (ranked the same way as the hunt leaderboard).
+ * @route   GET /api/leaderboard/me
+ * @param   {string} [req.query.hunt]     - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @param   {number} [req.query.around=2] - Neighbours to include on each side (max 10)
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} { rank, total, percentile, you, above, below }, or null data if the player hasn't started the hunt
+ */
+exports.getMyRank = async (req, res, next) => {
+    try {
+        const around = Math.min(Math.max(parseInt(req.query.around) || 2, 0), 10);
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        const standing = hunt ? await UserProgress.getStanding(req.user.id, hunt._id, around) : null;
+        if (!standing) {
+            return res.status(200).json({
+                success: true,
+                data: null,
+                message: 'Find a treasure in this hunt to get ranked'
+            });
+        }
 
-        // Format the raw data into a clean, frontend-friendly structure
-        const formattedLeaderboard = leaderboard.map((entry, index) => ({
+        const { progress, rank, total, above, below } = standing;
+        const toEntry = (entry, entryRank) => ({
+            rank: entryRank,
+            ...formatProgress(entry),
+            username: entry.user?.username || 'Unknown Hunter'
+        });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                rank,
+                total,
+                // Share of the other players this one is ahead of (100 when they're alone or first)
+                percentile: total > 1 ? Math.round((total - rank) / (total - 1) * 100) : 100,
+                you: toEntry(progress, rank),
+                above: above.map((entry, index) => toEntry(entry, rank - above.length + index)),
+                below: below.map((entry, index) => toEntry(entry, rank + index + 1))
+            }
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Get the team leaderboard for a hunt, ranked by combined points.
+ * Team points are the sum of every member's points; treasures found counts
+ * each treasure once per team, however many members found it.
+ * @route   GET /api/leaderboard/teams
+ * @param   {number} [req.query.limit=10] - How many teams to return (default: top 10, max 100)
+ * @param   {string} [req.query.hunt]     - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @returns {Object} Ranked array of team stats
+ */
+exports.getTeamLeaderboard = async (req, res, next) => {
+    try {
+        const limit = parseLimit(req.query.limit);
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        const standings = hunt ? await Team.getStandings({ hunt: hunt._id, limit }) : [];
+
+        const formattedLeaderboard = standings.map((entry, index) => ({
             rank: index + 1,
-            username: entry.user?.username || 'Unknown Hunter',
-            points: entry.totalPoints,
-            treasuresFound: entry.unlockedTreasures.length,
-            level: entry.level,
-            badges: entry.badges
+            teamId: entry._id,
+            name: entry.name,
+            members: entry.members,
+            points: entry.points,
+            treasuresFound: entry.treasuresFound
         }));
 
         res.status(200).json({
@@ -37,3 +218,110 @@ exports.getLeaderboard = async (req, res, next) => {
         next(err);
     }
 };
+
+/**
+ * Open leaderboard streams, grouped by what they show (`hunt:period:limit`).
+ * Each group re-ranks once per score change and sends the result to every stream in it,
+ * so a busy hunt costs one query per change rather than one per watching player.
+ */
+const streamGroups = new Map();
+
+/**
+ * Add a stream to the group watching the same leaderboard, starting the group if it's the first.
+ * @param   {Object}   hunt        - The hunt document
+ * @param   {string}   period      - One of the PERIOD_WINDOWS keys
+ * @param   {number}   limit       - How many players the stream shows
+ * @param   {Object[]} leaderboard - What the stream was just sent
+ * @param   {Function} client      - Called with each new leaderboard
+ * @returns {Function} Call to remove the stream from its group
+ */
+const joinStreamGroup = (hunt, period, limit, leaderboard, client) => {
+    const key = `${hunt._id}:${period}:${limit}`;
+    let group = streamGroups.get(key);
+
+    if (!group) {
+        group = { clients: new Set(), leaderboard: JSON.stringify(leaderboard) };
+        // Lifetime standings move whenever any hunt's scores do
+        group.stopListening = onLeaderboardChange(period === 'all' ? null : hunt._id, async () => {
+            try {
+                const latest = await buildLeaderboard(hunt, limit, period);
+                const json = JSON.stringify(latest);
+                // Scores outside the top players can change without moving anyone we show
+                if (json === group.leaderboard) return;
+                group.leaderboard = json;
+                group.clients.forEach(send => send(latest));
+            } catch (err) {
+                console.error('Failed to refresh leaderboard stream:', err.message);
+            }
+        });
+        streamGroups.set(key, group);
+    }
+
+    group.clients.add(client);
+
+    return () => {
+        group.clients.delete(client);
+        if (group.clients.size === 0) {
+            group.stopListening();
+            streamGroups.delete(key);
+        }
+    };
+};
+
+/**
+ * Stream a hunt's leaderboard as Server-Sent Events.
+ * Sends the current top players straight away as a `leaderboard` event, then again
+ * whenever a treasure unlock (or photo approval) changes the scores.
+ * Serverless deployments (the Netlify function) buffer whole responses and can't hold
+ * a stream open, so there the client gets one snapshot plus a `polling` event telling
+ * it how often to poll GET /api/leaderboard instead.
+ * @route   GET /api/leaderboard/stream
+ * @param   {number} [req.query.limit=10] - How many players to send (default: top 10, max 100)
+ * @param   {string} [req.query.hunt]     - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @param   {string} [req.query.period=hunt] - 'day', 'week', 'hunt' or 'all', as for GET /api/leaderboard
+ * @returns {text/event-stream} `leaderboard` events carrying the ranked array, or a `polling` event with { interval }
+ */
+exports.streamLeaderboard = async (req, res, next) => {
+    try {
+        const limit = parseLimit(req.query.limit);
+        const period = parsePeriod(req.query.period);
+        if (!period) {
+            return res.status(400).json(invalidPeriod());
+        }
+
+        const hunt = await Hunt.resolve(req.query.hunt);
+
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            // Stop nginx-style proxies from holding events back
+            'X-Accel-Buffering': 'no'
+        });
+
+        const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+        // Listen before the first await — a client that leaves while we rank mustn't be left in a group
+        let stopStreaming = null;
+        res.on('close', () => stopStreaming?.());
+
+        const leaderboard = await buildLeaderboard(hunt, limit, period);
+        if (res.destroyed || res.writableEnded) return;
+        send('leaderboard', leaderboard);
+
+        if (req.app.get('serverless') || !hunt) {
+            send('polling', { interval: POLL_INTERVAL_MS });
+            return res.end();
+        }
+
+        const leaveGroup = joinStreamGroup(hunt, period, limit, leaderboard, latest => send('leaderboard', latest));
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+        stopStreaming = () => {
+            clearInterval(heartbeat);
+            leaveGroup();
+        };
+    } catch (err) {
+        next(err);
+    }
+};
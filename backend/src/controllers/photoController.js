@@ -0,0 +1,219 @@
+const PhotoSubmission = require('../models/PhotoSubmission');
+const UserProgress = require('../models/UserProgress');
+const Treasure = require('../models/Treasure');
+const UnlockEvent = require('../models/UnlockEvent');
+const TreasureView = require('../models/TreasureView');
+const { notifyLeaderboardChanged } = require('../utils/leaderboardEvents');
+const { getPhotoStorage } = require('../utils/photoStorage');
+const { recordAudit } = require('../utils/audit');
+
+/**
+ * List photo challenge submissions for the moderation queue.
+ * Defaults to the pending ones, oldest first, so admins work through them in order.
+ * @route   GET /api/admin/photos
+ * @param   {string} [req.query.status] - 'pending' (default), 'approved' or 'rejected'
+ * @param   {string} [req.query.hunt]   - Only list submissions in this hunt
+ * @access  Admin only
+ * @returns {Object} Array of submissions with the player and treasure populated
+ */
+exports.getPhotoSubmissions = async (req, res, next) => {
+    try {
+        const status = req.query.status || 'pending';
+        const filter = { status };
+        if (req.query.hunt) filter.hunt = req.query.hunt;
+
+        const submissions = await PhotoSubmission.find(filter)
+            .populate('user', 'username')
+            .populate('treasure', 'name points photoPrompt')
+            .populate('reviewedBy', 'username')
+            .sort({ createdAt: status === 'pending' ? 1 : -1 })
+            .limit(100);
+
+        res.status(200).json({
+            success: true,
+            count: submissions.length,
+            data: submissions
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Send back the image for a submission so an admin can look at it.
+ * Images are only served through here (never as public files) since they're players' selfies.
+ * @route   GET /api/admin/photos/:id/image
+ * @param   {string} req.params.id - The submission's MongoDB ObjectId
+ * @access  Admin only
+ * @returns {Buffer} The raw image with its content type
+ */
+exports.getPhotoImage = async (req, res, next) => {
+    try {
+        const submission = await PhotoSubmission.findById(req.params.id);
+
+        if (!submission) {
+            return res.status(404).json({
+                success: false,
+                error: 'Photo not found'
+            });
+        }
+
+        let image;
+        try {
+            image = await getPhotoStorage().read(submission.storageKey);
+        } catch (err) {
+            return res.status(404).json({
+                success: false,
+                code: 'PHOTO_MISSING',
+                error: 'The image file for this submission is missing from storage'
+            });
+        }
+
+        res.set('Content-Type', submission.mimeType);
+        res.set('Cache-Control', 'private, max-age=3600');
+        res.send(image);
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Approve a pending photo and award the treasure to the player.
+ * Points go to the player's progress in the treasure's hunt — even if the hunt
+ * has ended since, because the photo was taken while it was running. If the player
+ * unlocked the treasure some other way in the meantime, the photo is approved without points.
+ * @route   PUT /api/admin/photos/:id/approve
+ * @param   {string} req.params.id - The submission's MongoDB ObjectId
+ * @access  Admin only
+ * @returns {Object} The approved submission
+ */
+exports.approvePhoto = async (req, res, next) => {
+    try {
+        const submission = await PhotoSubmission.findById(req.params.id);
+
+        if (!submission) {
+            return res.status(404).json({
+                success: false,
+                error: 'Photo not found'
+            });
+        }
+
+        if (submission.status !== 'pending') {
+            return res.status(400).json({
+                success: false,
+                code: 'ALREADY_REVIEWED',
+                error: `This photo was already ${submission.status}`
+            });
+        }
+
+        const treasure = await Treasure.findById(submission.treasure);
+        if (!treasure) {
+            return res.status(404).json({
+                success: false,
+                error: 'Treasure not found'
+            });
+        }
+
+        // The player may have found it by scan or code while the photo waited — then there's nothing to add
+        await UserProgress.findOrCreate(submission.user, submission.hunt);
+        const awarded = !!(await UserProgress.claimTreasure(submission.user, treasure, treasure.points, submission.createdAt));
+        if (awarded) {
+            await UnlockEvent.create({
+                user: submission.user,
+                hunt: submission.hunt,
+                treasure: treasure._id,
+                points: treasure.points,
+                method: 'photo',
+                scannedAt: submission.createdAt
+            });
+            await TreasureView.markFound(submission.user, treasure, submission.createdAt);
+            notifyLeaderboardChanged(submission.hunt);
+        }
+
+        submission.status = 'approved';
+        submission.reviewedBy = req.user.id;
+        submission.reviewedAt = Date.now();
+        await submission.save();
+        await recordAudit(req, {
+            action: 'photo.approve',
+            targetType: 'photo',
+            target: submission,
+            targetLabel: treasure.name,
+            before: { status: 'pending' },
+            after: { status: 'approved' },
+            details: { user: submission.user, points: awarded ? treasure.points : 0 }
+        });
+
+        res.status(200).json({
+            success: true,
+            data: submission,
+            message: awarded
+                ? `Approved — ${treasure.points} points awarded for "${treasure.name}"`
+                : `Approved — no points added, the player had already unlocked "${treasure.name}"`
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Reject a pending photo. The player can upload a new one for the same treasure.
+ * @route   PUT /api/admin/photos/:id/reject
+ * @param   {string} req.params.id     - The submission's MongoDB ObjectId
+ * @param   {string} [req.body.reason] - Shown to the player (e.g. "The tower isn't in the shot")
+ * @access  Admin only
+ * @returns {Object} The rejected submission
+ */
+exports.rejectPhoto = async (req, res, next) => {
+    try {
+        const submission = await PhotoSubmission.findById(req.params.id);
+
+        if (!submission) {
+            return res.status(404).json({
+                success: false,
+                error: 'Photo not found'
+            });
+        }
+
+        if (submission.status !== 'pending') {
+            return res.status(400).json({
+                success: false,
+                code: 'ALREADY_REVIEWED',
+                error: `This photo was already ${submission.status}`
+            });
+        }
+
+        submission.status = 'rejected';
+        submission.rejectionReason = req.body.reason;
+        submission.reviewedBy = req.user.id;
+        submission.reviewedAt = Date.now();
+        await submission.save();
+        await recordAudit(req, {
+            action: 'photo.reject',
+            targetType: 'photo',
+            target: submission,
+            before: { status: 'pending' },
+            after: { status: 'rejected', rejectionReason: submission.rejectionReason },
+            details: { user: submission.user, treasure: submission.treasure }
+        });
+
+        res.status(200).json({
+            success: true,
+            data: submission
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Delete photo submissions and their image files.
+ * Used when the treasure or player they belong to is removed.
+ * @param {Object} filter - Mongo filter selecting the submissions to remove
+ */
+exports.removePhotoSubmissions = async (filter) => {
+    const submissions = await PhotoSubmission.find(filter).select('storageKey');
+    const storage = getPhotoStorage();
+    await Promise.all(submissions.map(s => storage.remove(s.storageKey)));
+    await PhotoSubmission.deleteMany(filter);
+};
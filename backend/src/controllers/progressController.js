@@ -1,30 +1,53 @@
 const UserProgress = require('../models/UserProgress');
 const Treasure = require('../models/Treasure');
+const Hunt = require('../models/Hunt');
+const PhotoSubmission = require('../models/PhotoSubmission');
+const UnlockEvent = require('../models/UnlockEvent');
+const TreasureView = require('../models/TreasureView');
+const LocationPing = require('../models/LocationPing');
+const { haversineDistance, parseLocation } = require('../utils/geo');
+const { verifyQrPayload, verifyManualCode } = require('../utils/qrSigner');
+const { getMissingPrerequisites } = require('../utils/treasureChains');
+const { hasQuiz, isCorrectAnswer } = require('../utils/quiz');
+const { getPhotoStorage, parseImageDataUrl, MAX_PHOTO_BYTES } = require('../utils/photoStorage');
+const { notifyLeaderboardChanged } = require('../utils/leaderboardEvents');
+
+/** Worst GPS accuracy (in meters) we'll still trust for an unlock */
+const MAX_GPS_ACCURACY = parseInt(process.env.MAX_GPS_ACCURACY || '100');
+
+/** How long (in minutes) a scan made offline can wait before it's too late to sync */
+const OFFLINE_GRACE_MINUTES = parseInt(process.env.OFFLINE_GRACE_MINUTES || '30');
+
+/** Leeway for phone clocks running a little ahead of the server's */
+const CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+/** Shortest gap between two stored location pings from the same player */
+const PING_INTERVAL_MS = 60 * 1000;
 
 /**
- * Get the current player's game progress.
+ * Get the current player's game progress in a hunt.
  * Returns their unlocked treasures (fully populated), total points, badges, and level.
- * If no progress record exists yet, we create a fresh one automatically.
+ * If they haven't played this hunt before, we create a fresh record automatically.
  * @route   GET /api/progress
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
  * @access  Protected (requires valid JWT)
  * @returns {Object} The player's full progress with unlocked treasures
  */
 exports.getProgress = async (req, res, next) => {
     try {
-        let progress = await UserProgress.findOne({ user: req.user.id })
-            .populate('unlockedTreasures');
+        const hunt = await Hunt.resolve(req.query.hunt);
 
-        // Auto-create progress if this is a first-time login
-        if (!progress) {
-            progress = await UserProgress.create({
-                user: req.user.id,
-                unlockedTreasures: [],
-                totalPoints: 0,
-                badges: [],
-                level: 1
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                code: 'NO_HUNT',
+                error: 'No hunts have been set up yet'
             });
         }
 
+        const progress = await UserProgress.findOrCreate(req.user.id, hunt._id);
+        await progress.populate('unlockedTreasures');
+
         res.status(200).json({
             success: true,
             data: progress
@@ -37,17 +60,227 @@ exports.getProgress = async (req, res, next) => {
 /**
  * Unlock a treasure after the player scans its QR code.
  * This is the main game action — it:
- *   1. Verifies the treasure actually exists
- *   2. Checks the player hasn't already unlocked it (no double-dipping!)
- *   3. Awards the points
- *   4. Recalculates their level
- *   5. Checks if they've earned any new badges
+ *   1. Verifies the treasure actually exists and is live (not a draft, scheduled for later, or archived)
+ *   2. Checks the treasure's hunt is currently running
+ *   3. Checks the player has found every treasure this one requires first
+ *   4. Checks the scanned QR payload carries a valid, current signature
+ *   5. Checks the player is physically standing within the treasure's unlock radius
+ *   6. Checks the player hasn't already unlocked it (no double-dipping!)
+ *   7. If the treasure has a quiz, checks the player's answer
+ *   8. Awards the points to the player's progress in that hunt
+ *   9. Recalculates their level
+ *  10. Checks if they've earned any new badges
+ * Scans made offline are synced later with their original `scannedAt` time and location;
+ * they're judged as of that moment, as long as they arrive within OFFLINE_GRACE_MINUTES.
+ * Failures come back with a machine-readable `code` so the map can explain what went
+ * wrong: SCAN_TIME_INVALID, SCAN_TOO_OLD, PHOTO_REQUIRED, TREASURE_NOT_LIVE, HUNT_NOT_STARTED, HUNT_ENDED, PREREQUISITES_NOT_MET, QR_INVALID, QR_EXPIRED,
+ * LOCATION_REQUIRED, LOCATION_INACCURATE or OUT_OF_RANGE. Quiz treasures answer a scan
+ * without an answer with QUIZ_ANSWER_REQUIRED (carrying the question), and a wrong
+ * answer with QUIZ_WRONG — the player can retry with the same scan for reduced points.
  * @route   POST /api/progress/unlock/:treasureId
  * @param   {string} req.params.treasureId - The treasure's MongoDB ObjectId (from the QR code)
+ * @param   {string} req.body.qrPayload    - The full signed text read from the QR sticker
+ * @param   {number} req.body.latitude     - The player's current latitude
+ * @param   {number} req.body.longitude    - The player's current longitude
+ * @param   {number} req.body.accuracy     - GPS accuracy radius in meters
+ * @param   {string} [req.body.answer]     - The player's answer, for treasures with a quiz
+ * @param   {string} [req.body.scannedAt]  - When an offline scan really happened (ISO date); defaults to now
  * @access  Protected (requires valid JWT)
  * @returns {Object} Updated progress with new points, level, and any newly earned badges
  */
 exports.unlockTreasure = async (req, res, next) => {
+    try {
+        // Quiz answers are hidden by default — load them so awardTreasure can check the player's answer
+        const treasure = await Treasure.findById(req.params.treasureId).select('+quiz.answers');
+
+        if (!treasure) {
+            return res.status(404).json({
+                success: false,
+                error: 'Treasure not found'
+            });
+        }
+
+        if (treasure.unlockType === 'photo') {
+            return res.status(400).json({
+                success: false,
+                code: 'PHOTO_REQUIRED',
+                error: `"${treasure.name}" is a photo challenge — upload your photo instead`
+            });
+        }
+
+        const scanTime = checkScanTime(req.body);
+        if (scanTime.error) {
+            return res.status(400).json({
+                success: false,
+                ...scanTime.error
+            });
+        }
+
+        const lifecycleError = checkTreasureLive(treasure, scanTime.at);
+        if (lifecycleError) {
+            return res.status(403).json({
+                success: false,
+                ...lifecycleError
+            });
+        }
+
+        const huntError = await checkHuntWindow(treasure, scanTime.at);
+        if (huntError) {
+            return res.status(403).json({
+                success: false,
+                ...huntError
+            });
+        }
+
+        const chainError = await checkPrerequisites(req.user.id, treasure);
+        if (chainError) {
+            return res.status(403).json({
+                success: false,
+                ...chainError
+            });
+        }
+
+        const qrCheck = verifyQrPayload(req.body.qrPayload, treasure);
+        if (!qrCheck.valid) {
+            return res.status(400).json({
+                success: false,
+                code: qrCheck.code,
+                error: qrCheck.code === 'QR_EXPIRED'
+                    ? 'This QR code has been replaced. Look for the newest sticker at this spot'
+                    : 'This QR code is not valid for this treasure'
+            });
+        }
+
+        const locationError = checkGeofence(treasure, req.body);
+        if (locationError) {
+            return res.status(locationError.status).json({
+                success: false,
+                ...locationError.body
+            });
+        }
+
+        await awardTreasure(req, res, treasure, { method: 'qr', scannedAt: scanTime.at });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Unlock a treasure by typing the short code printed under its QR sticker.
+ * The fallback for players whose camera can't scan — admins can switch it off per hunt.
+ * Runs the same scan time, lifecycle, hunt window, prerequisite, geofence, quiz and award steps as a QR scan.
+ * Failures come back with MANUAL_CODE_DISABLED or CODE_INVALID, plus the usual hunt and location codes.
+ * @route   POST /api/progress/unlock/:treasureId/code
+ * @param   {string} req.params.treasureId - The treasure's MongoDB ObjectId
+ * @param   {string} req.body.code         - The code the player typed (e.g. "K7Q-XM2")
+ * @param   {number} req.body.latitude     - The player's current latitude
+ * @param   {number} req.body.longitude    - The player's current longitude
+ * @param   {number} req.body.accuracy     - GPS accuracy radius in meters
+ * @param   {string} [req.body.answer]     - The player's answer, for treasures with a quiz
+ * @param   {string} [req.body.scannedAt]  - When an offline code entry really happened (ISO date); defaults to now
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} Updated progress with new points, level, and any newly earned badges
+ */
+exports.unlockWithCode = async (req, res, next) => {
+    try {
+        // Quiz answers are hidden by default — load them so awardTreasure can check the player's answer
+        const treasure = await Treasure.findById(req.params.treasureId).select('+quiz.answers');
+
+        if (!treasure) {
+            return res.status(404).json({
+                success: false,
+                error: 'Treasure not found'
+            });
+        }
+
+        // Each hunt decides for itself; a treasure without a hunt is turned away by the hunt window check
+        const hunt = await Hunt.findById(treasure.hunt).select('manualCodeEnabled');
+        if (hunt && !hunt.manualCodeEnabled) {
+            return res.status(403).json({
+                success: false,
+                code: 'MANUAL_CODE_DISABLED',
+                error: 'Manual code entry is turned off for this hunt — please scan the QR code'
+            });
+        }
+
+        if (treasure.unlockType === 'photo') {
+            return res.status(400).json({
+                success: false,
+                code: 'PHOTO_REQUIRED',
+                error: `"${treasure.name}" is a photo challenge — upload your photo instead`
+            });
+        }
+
+        const scanTime = checkScanTime(req.body);
+        if (scanTime.error) {
+            return res.status(400).json({
+                success: false,
+                ...scanTime.error
+            });
+        }
+
+        const lifecycleError = checkTreasureLive(treasure, scanTime.at);
+        if (lifecycleError) {
+            return res.status(403).json({
+                success: false,
+                ...lifecycleError
+            });
+        }
+
+        const huntError = await checkHuntWindow(treasure, scanTime.at);
+        if (huntError) {
+            return res.status(403).json({
+                success: false,
+                ...huntError
+            });
+        }
+
+        const chainError = await checkPrerequisites(req.user.id, treasure);
+        if (chainError) {
+            return res.status(403).json({
+                success: false,
+                ...chainError
+            });
+        }
+
+        if (!verifyManualCode(req.body.code, treasure)) {
+            return res.status(400).json({
+                success: false,
+                code: 'CODE_INVALID',
+                error: "That code doesn't match this treasure. Check the sticker and try again"
+            });
+        }
+
+        const locationError = checkGeofence(treasure, req.body);
+        if (locationError) {
+            return res.status(locationError.status).json({
+                success: false,
+                ...locationError.body
+            });
+        }
+
+        await awardTreasure(req, res, treasure, { method: 'code', scannedAt: scanTime.at });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Submit a photo for a photo challenge treasure.
+ * Runs the same lifecycle, hunt window, prerequisite and geofence checks as a scan, then stores
+ * the photo and queues it for an admin. No points are awarded until it's approved.
+ * Failures come back with NOT_A_PHOTO_CHALLENGE, ALREADY_UNLOCKED, PHOTO_PENDING or
+ * PHOTO_INVALID, plus the usual hunt, prerequisite and location codes.
+ * @route   POST /api/progress/photo/:treasureId
+ * @param   {string} req.params.treasureId - The treasure's MongoDB ObjectId
+ * @param   {string} req.body.photo        - The photo as a base64 data URL (JPEG, PNG or WebP)
+ * @param   {number} req.body.latitude     - The player's current latitude
+ * @param   {number} req.body.longitude    - The player's current longitude
+ * @param   {number} req.body.accuracy     - GPS accuracy radius in meters
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} The pending submission
+ */
+exports.submitPhoto = async (req, res, next) => {
     try {
         const treasure = await Treasure.findById(req.params.treasureId);
 
@@ -58,60 +291,477 @@ exports.unlockTreasure = async (req, res, next) => {
             });
         }
 
-        let progress = await UserProgress.findOne({ user: req.user.id });
+        if (treasure.unlockType !== 'photo') {
+            return res.status(400).json({
+                success: false,
+                code: 'NOT_A_PHOTO_CHALLENGE',
+                error: `"${treasure.name}" is unlocked by scanning its QR code`
+            });
+        }
 
-        // Auto-create progress if it doesn't exist yet
-        if (!progress) {
-            progress = await UserProgress.create({
-                user: req.user.id,
-                unlockedTreasures: [],
-                totalPoints: 0,
-                badges: [],
-                level: 1
+        const lifecycleError = checkTreasureLive(treasure);
+        if (lifecycleError) {
+            return res.status(403).json({
+                success: false,
+                ...lifecycleError
+            });
+        }
+
+        const huntError = await checkHuntWindow(treasure);
+        if (huntError) {
+            return res.status(403).json({
+                success: false,
+                ...huntError
+            });
+        }
+
+        const chainError = await checkPrerequisites(req.user.id, treasure);
+        if (chainError) {
+            return res.status(403).json({
+                success: false,
+                ...chainError
+            });
+        }
+
+        const locationError = checkGeofence(treasure, req.body);
+        if (locationError) {
+            return res.status(locationError.status).json({
+                success: false,
+                ...locationError.body
             });
         }
 
-        // Prevent unlocking the same treasure twice
-        if (progress.unlockedTreasures.includes(treasure._id)) {
+        const progress = await UserProgress.findOne({ user: req.user.id, hunt: treasure.hunt });
+        if (progress && progress.unlockedTreasures.includes(treasure._id)) {
             return res.status(400).json({
                 success: false,
+                code: 'ALREADY_UNLOCKED',
                 error: 'Treasure already unlocked'
             });
         }
 
-        // Award the treasure and recalculate everything
-        progress.unlockedTreasures.push(treasure._id);
-        progress.totalPoints += treasure.points;
-        progress.calculateLevel();
-        await progress.checkBadges();
-        await progress.save();
-        await progress.populate('unlockedTreasures');
+        // One photo in the queue per treasure — a rejected one can be replaced
+        if (await PhotoSubmission.exists({ user: req.user.id, treasure: treasure._id, status: 'pending' })) {
+            return res.status(400).json({
+                success: false,
+                code: 'PHOTO_PENDING',
+                error: 'Your photo for this treasure is already waiting for review'
+            });
+        }
+
+        const image = parseImageDataUrl(req.body.photo);
+        if (!image) {
+            return res.status(400).json({
+                success: false,
+                code: 'PHOTO_INVALID',
+                error: `Please upload a JPEG, PNG or WebP photo under ${Math.round(MAX_PHOTO_BYTES / 1024 / 1024)}MB`
+            });
+        }
+
+        const storageKey = await getPhotoStorage().save(image.buffer, image.extension);
+        const submission = await PhotoSubmission.create({
+            user: req.user.id,
+            treasure: treasure._id,
+            hunt: treasure.hunt,
+            storageKey,
+            mimeType: image.mimeType
+        });
+
+        res.status(201).json({
+            success: true,
+            data: submission,
+            message: `Photo for "${treasure.name}" sent for review — points arrive once it's approved`
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * List the current player's photo submissions in a hunt, newest first.
+ * Lets the map show which photo challenges are waiting for review or were rejected.
+ * @route   GET /api/progress/photos
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} Array of the player's submissions (without the images)
+ */
+exports.getMyPhotos = async (req, res, next) => {
+    try {
+        const hunt = await Hunt.resolve(req.query.hunt);
+        const submissions = hunt
+            ? await PhotoSubmission.find({ user: req.user.id, hunt: hunt._id })
+                .select('-storageKey')
+                .sort({ createdAt: -1 })
+            : [];
+
+        res.status(200).json({
+            success: true,
+            count: submissions.length,
+            data: submissions
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Note that the player opened a treasure's clue, or asked for a hint about it.
+ * Feeds the per-treasure analytics (time to find, drop-off, hint usage) — the
+ * player app sends it and moves on, so it never blocks anything.
+ * @route   POST /api/progress/view/:treasureId
+ * @param   {string}  req.params.treasureId - The treasure's MongoDB ObjectId
+ * @param   {boolean} [req.body.hint]       - Count a hint request rather than a view
+ * @access  Protected (requires valid JWT)
+ */
+exports.recordTreasureView = async (req, res, next) => {
+    try {
+        const treasure = await Treasure.findById(req.params.treasureId).select('hunt');
+
+        if (!treasure) {
+            return res.status(404).json({
+                success: false,
+                error: 'Treasure not found'
+            });
+        }
+
+        await TreasureView.record(req.user.id, treasure, { hint: req.body.hint === true });
+
+        res.status(200).json({
+            success: true,
+            data: {}
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Record where the player is, for the admin activity heatmap.
+ * The player app sends one every few minutes while the map is open. Fixes too
+ * rough to place on the map are dropped, pings outside a running hunt aren't kept, and
+ * neither is a ping that comes within a minute of the player's last stored one.
+ * @route   POST /api/progress/ping
+ * @param   {number} req.body.latitude  - The player's current latitude
+ * @param   {number} req.body.longitude - The player's current longitude
+ * @param   {number} req.body.accuracy  - GPS accuracy radius in meters
+ * @param   {string} [req.body.hunt]    - The hunt being played (defaults to the current hunt)
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} { recorded } — whether the ping was kept
+ */
+exports.recordLocationPing = async (req, res, next) => {
+    try {
+        const location = parseLocation(req.body);
+        const hunt = await Hunt.resolve(req.body.hunt);
+        const recorded = !!location && location.accuracy <= MAX_GPS_ACCURACY && !!hunt && hunt.statusAt(new Date()) === 'active' &&
+            !(await LocationPing.exists({ user: req.user.id, createdAt: { $gte: new Date(Date.now() - PING_INTERVAL_MS) } }));
+
+        if (recorded) {
+            await LocationPing.create({
+                user: req.user.id,
+                hunt: hunt._id,
+                latitude: location.latitude,
+                longitude: location.longitude,
+                accuracy: location.accuracy
+            });
+        }
 
         res.status(200).json({
             success: true,
-            data: progress,
-            message: `Unlocked "${treasure.name}" for ${treasure.points} points!`
+            data: { recorded }
         });
     } catch (err) {
         next(err);
     }
 };
 
+/**
+ * Give a verified treasure to the current player and send back their updated progress.
+ * Shared by every unlock route once the proof (QR, code) and location have checked out.
+ * Quiz treasures are only awarded for a correct answer — full points first time,
+ * the quiz's retryPercent of them after any wrong answer.
+ * Every award is written to the unlock event log with where, when and how it happened.
+ * @param {Object} req      - Express request object (needs req.user, and req.body.answer for quizzes)
+ * @param {Object} res      - Express response object
+ * @param {Object} treasure - The treasure document being unlocked (with +quiz.answers)
+ * @param {Object} unlock
+ * @param {string} unlock.method    - How it was unlocked ('qr', 'code' or 'gps'), for the event log
+ * @param {Date}   unlock.scannedAt - When the scan really happened
+ */
+const awardTreasure = async (req, res, treasure, { method, scannedAt }) => {
+    // Progress is per hunt — the treasure decides which hunt this unlock counts towards
+    const progress = await UserProgress.findOrCreate(req.user.id, treasure.hunt);
+
+    // Turn repeat scans away before the quiz; the claim below is what stops two racing unlocks
+    if (progress.unlockedTreasures.includes(treasure._id)) {
+        return res.status(400).json({
+            success: false,
+            error: 'Treasure already unlocked'
+        });
+    }
+
+    let points = treasure.points;
+    if (hasQuiz(treasure)) {
+        const { question, options, retryPercent } = treasure.quiz;
+        const attempt = progress.quizAttempts.find(a => a.treasure.equals(treasure._id));
+
+        if (!req.body.answer) {
+            return res.status(400).json({
+                success: false,
+                code: 'QUIZ_ANSWER_REQUIRED',
+                error: 'Answer the question to claim this treasure',
+                quiz: { question, options, retryPercent },
+                wrongAnswers: attempt ? attempt.wrongAnswers : 0
+            });
+        }
+
+        if (!isCorrectAnswer(treasure, req.body.answer)) {
+            if (attempt) {
+                attempt.wrongAnswers += 1;
+            } else {
+                progress.quizAttempts.push({ treasure: treasure._id, wrongAnswers: 1 });
+            }
+            await progress.save();
+
+            return res.status(400).json({
+                success: false,
+                code: 'QUIZ_WRONG',
+                error: `Not quite! Try again for ${Math.round(treasure.points * retryPercent / 100)} points`,
+                retryPoints: Math.round(treasure.points * retryPercent / 100)
+            });
+        }
+
+        if (attempt && attempt.wrongAnswers > 0) {
+            points = Math.round(treasure.points * retryPercent / 100);
+        }
+    }
+
+    // Award the treasure and recalculate everything — only the request that claims it writes the log
+    const awarded = await UserProgress.claimTreasure(req.user.id, treasure, points, scannedAt);
+    if (!awarded) {
+        return res.status(400).json({
+            success: false,
+            error: 'Treasure already unlocked'
+        });
+    }
+
+    await UnlockEvent.create({
+        user: req.user.id,
+        hunt: treasure.hunt,
+        treasure: treasure._id,
+        points,
+        method,
+        location: describeLocation(req.body),
+        client: { userAgent: req.get('user-agent'), ip: req.ip },
+        scannedAt
+    });
+    await TreasureView.markFound(req.user.id, treasure, scannedAt);
+    await awarded.populate('unlockedTreasures');
+    notifyLeaderboardChanged(treasure.hunt);
+
+    res.status(200).json({
+        success: true,
+        data: awarded,
+        pointsAwarded: points,
+        message: `Unlocked "${treasure.name}" for ${points} points!`
+    });
+};
+
+/**
+ * Work out when a scan happened. Live scans happen now; scans queued while the
+ * player was offline carry their own `scannedAt`, which must be in the past and
+ * no older than the offline grace window.
+ * @param   {Object} body - The request body (with optional scannedAt)
+ * @returns {Object} { at } with the scan time, or { error } with an error body ({ code, error })
+ */
+const checkScanTime = (body) => {
+    if (body.scannedAt === undefined || body.scannedAt === null) {
+        return { at: new Date() };
+    }
+
+    const at = new Date(body.scannedAt);
+    if (isNaN(at.getTime()) || at.getTime() > Date.now() + CLOCK_SKEW_MS) {
+        return { error: { code: 'SCAN_TIME_INVALID', error: 'The time on this scan is not valid' } };
+    }
+
+    if (Date.now() - at.getTime() > OFFLINE_GRACE_MINUTES * 60 * 1000) {
+        return {
+            error: {
+                code: 'SCAN_TOO_OLD',
+                error: `Offline scans have to sync within ${OFFLINE_GRACE_MINUTES} minutes — please scan this treasure again`,
+                graceMinutes: OFFLINE_GRACE_MINUTES
+            }
+        };
+    }
+
+    return { at };
+};
+
+/**
+ * The player's reported position as it's stored on the unlock event log.
+ * @param   {Object} body - The request body ({ latitude, longitude, accuracy })
+ * @returns {Object|undefined} { latitude, longitude, accuracy }, or undefined without a usable position
+ */
+const describeLocation = (body) => {
+    const location = parseLocation(body);
+    if (!location) return undefined;
+    return {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        accuracy: Number.isFinite(location.accuracy) ? location.accuracy : undefined
+    };
+};
+
+/**
+ * Check that the treasure itself was in play when the scan happened — a sticker can
+ * go up before its treasure is published, or stay up after it's been archived.
+ * @param   {Object} treasure    - The treasure document being unlocked
+ * @param   {Date}   [at=now]    - When the scan happened (earlier than now for offline scans)
+ * @returns {Object|null} An error body ({ code, error }) or null if the treasure was live
+ */
+const checkTreasureLive = (treasure, at = new Date()) => {
+    const status = treasure.statusAt(at);
+    if (status === 'live') return null;
+    return {
+        code: 'TREASURE_NOT_LIVE',
+        error: status === 'archived' ? 'This treasure has been retired from the hunt' : "This treasure isn't part of the hunt yet"
+    };
+};
+
+/**
+ * Check that the hunt a treasure belongs to was open for play when the scan happened.
+ * Treasures in upcoming or finished hunts can still be seen, just not unlocked.
+ * @param   {Object} treasure    - The treasure document being unlocked
+ * @param   {Date}   [at=now]    - When the scan happened (earlier than now for offline scans)
+ * @returns {Object|null} An error body ({ code, error }) or null if the hunt was running
+ */
+const checkHuntWindow = async (treasure, at = new Date()) => {
+    const hunt = await Hunt.findById(treasure.hunt);
+
+    if (!hunt) {
+        return { code: 'HUNT_ENDED', error: 'This treasure is no longer part of a hunt' };
+    }
+
+    const status = hunt.statusAt(at);
+
+    if (status === 'upcoming') {
+        return {
+            code: 'HUNT_NOT_STARTED',
+            error: `"${hunt.name}" hasn't started yet`,
+            startsAt: hunt.startsAt
+        };
+    }
+
+    if (status === 'ended') {
+        return {
+            code: 'HUNT_ENDED',
+            error: `"${hunt.name}" has finished — thanks for playing!`,
+            endsAt: hunt.endsAt
+        };
+    }
+
+    return null;
+};
+
+/**
+ * Check that the player has already found every treasure this one depends on.
+ * @param   {string} userId   - The player's MongoDB ObjectId
+ * @param   {Object} treasure - The treasure document being unlocked
+ * @returns {Object|null} An error body ({ code, error, missing }) or null if the chain is satisfied
+ */
+const checkPrerequisites = async (userId, treasure) => {
+    if (!treasure.prerequisites || treasure.prerequisites.length === 0) return null;
+
+    const progress = await UserProgress.findOne({ user: userId, hunt: treasure.hunt }).select('unlockedTreasures');
+    const missingIds = getMissingPrerequisites(treasure, progress ? progress.unlockedTreasures : []);
+    if (missingIds.length === 0) return null;
+
+    const missing = await Treasure.find({ _id: { $in: missingIds } }).select('name');
+    const names = missing.map(t => `"${t.name}"`).join(', ');
+
+    return {
+        code: 'PREREQUISITES_NOT_MET',
+        error: `Find ${names || 'the earlier treasures'} first to unlock "${treasure.name}"`,
+        missing: missing.map(t => ({ _id: t._id, name: t.name }))
+    };
+};
+
+/**
+ * Check that a reported position is trustworthy and inside the treasure's geofence.
+ * The GPS accuracy is given the benefit of the doubt — if the accuracy circle
+ * overlaps the unlock radius, we let the player through.
+ * @param   {Object} treasure - The treasure document being unlocked
+ * @param   {Object} body     - The request body with latitude, longitude and accuracy
+ * @returns {Object|null} An error ({ status, body }) or null if the player is in range
+ */
+const checkGeofence = (treasure, body) => {
+    const location = parseLocation(body);
+
+    if (!location) {
+        return {
+            status: 400,
+            body: {
+                code: 'LOCATION_REQUIRED',
+                error: 'Your location is needed to unlock a treasure'
+            }
+        };
+    }
+
+    if (location.accuracy > MAX_GPS_ACCURACY) {
+        return {
+            status: 422,
+            body: {
+                code: 'LOCATION_INACCURATE',
+                error: 'Your GPS signal is too weak. Step outside or wait for a better fix',
+                accuracy: location.accuracy === Infinity ? null : Math.round(location.accuracy),
+                maxAccuracy: MAX_GPS_ACCURACY
+            }
+        };
+    }
+
+    const radius = treasure.unlockRadius || 50;
+    const distance = haversineDistance(location.latitude, location.longitude, treasure.latitude, treasure.longitude);
+
+    if (distance - location.accuracy > radius) {
+        return {
+            status: 403,
+            body: {
+                code: 'OUT_OF_RANGE',
+                error: `You need to be within ${radius}m of "${treasure.name}" to unlock it`,
+                distance: Math.round(distance),
+                radius
+            }
+        };
+    }
+
+    return null;
+};
+
 /**
  * Save or update the AI-generated mission briefing for a player.
  * The briefing is a personalized welcome message created by Gemini when they first join.
+ * It's stored on the player's progress for the hunt they're currently playing.
  * @route   PUT /api/progress/briefing
  * @param   {string} req.body.missionBriefing - The AI-generated briefing text to store
+ * @param   {string} [req.body.hunt]          - The hunt's MongoDB ObjectId (defaults to the current hunt)
  * @access  Protected (requires valid JWT)
  */
 exports.updateBriefing = async (req, res, next) => {
     try {
         const { missionBriefing } = req.body;
+        const hunt = await Hunt.resolve(req.body.hunt);
+
+        if (!hunt) {
+            return res.status(404).json({
+                success: false,
+                code: 'NO_HUNT',
+                error: 'No hunts have been set up yet'
+            });
+        }
 
         const progress = await UserProgress.findOneAndUpdate(
-            { user: req.user.id },
+            { user: req.user.id, hunt: hunt._id },
             { missionBriefing },
-            { new: true, runValidators: true }
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
         ).populate('unlockedTreasures');
 
         res.status(200).json({
@@ -0,0 +1,204 @@
+const Team = require('../models/Team');
+const User = require('../models/User');
+const UserProgress = require('../models/UserProgress');
+const Hunt = require('../models/Hunt');
+
+/**
+ * Build the full picture of a team for its members: name, join code,
+ * captain, the member list with each player's contribution, and team totals.
+ * Points and treasures are for the given hunt (all zero if there isn't one).
+ * @param   {Object}      team - The team document
+ * @param   {Object|null} hunt - The hunt document to total up
+ * @returns {Object} Frontend-friendly team summary
+ */
+const buildTeamSummary = async (team, hunt) => {
+    const members = await User.find({ team: team._id })
+        .select('username teamJoinedAt')
+        .sort({ teamJoinedAt: 1 });
+    const progress = hunt
+        ? await UserProgress.find({ hunt: hunt._id, user: { $in: members.map(m => m._id) } })
+        : [];
+    const progressByUser = new Map(progress.map(p => [p.user.toString(), p]));
+
+    const [standing] = hunt ? await Team.getStandings({ hunt: hunt._id, teamIds: [team._id] }) : [];
+
+    return {
+        _id: team._id,
+        name: team.name,
+        joinCode: team.joinCode,
+        captain: team.captain,
+        maxSize: Team.MAX_TEAM_SIZE,
+        points: standing?.points || 0,
+        treasuresFound: standing?.treasuresFound || 0,
+        members: members.map(member => {
+            const memberProgress = progressByUser.get(member._id.toString());
+            return {
+                _id: member._id,
+                username: member.username,
+                points: memberProgress?.totalPoints || 0,
+                treasuresFound: memberProgress?.unlockedTreasures.length || 0,
+                isCaptain: member._id.toString() === team.captain.toString()
+            };
+        })
+    };
+};
+
+/**
+ * Get the team the current player belongs to, with totals for a hunt.
+ * Returns null data (not a 404) when they're playing solo, so the profile
+ * screen can offer to create or join a team instead.
+ * @route   GET /api/teams/mine
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} The team summary, or null if the player isn't in a team
+ */
+exports.getMyTeam = async (req, res, next) => {
+    try {
+        const user = await User.findById(req.user.id);
+        const team = user.team ? await Team.findById(user.team) : null;
+
+        res.status(200).json({
+            success: true,
+            data: team ? await buildTeamSummary(team, await Hunt.resolve(req.query.hunt)) : null
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Create a new team with the current player as captain.
+ * A fresh join code is generated for them to share with their group.
+ * @route   POST /api/teams
+ * @param   {string} req.body.name   - The team name (must be unique)
+ * @param   {string} [req.body.hunt] - The hunt to total the team up for in the response
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} The new team summary
+ */
+exports.createTeam = async (req, res, next) => {
+    try {
+        const user = await User.findById(req.user.id);
+
+        if (user.team) {
+            return res.status(400).json({
+                success: false,
+                code: 'ALREADY_IN_TEAM',
+                error: 'Leave your current team before creating a new one'
+            });
+        }
+
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        if (!name) {
+            return res.status(400).json({
+                success: false,
+                error: 'Please add a team name'
+            });
+        }
+
+        if (await Team.exists({ name })) {
+            return res.status(400).json({
+                success: false,
+                code: 'TEAM_NAME_TAKEN',
+                error: `There's already a team called "${name}"`
+            });
+        }
+
+        const team = await Team.create({
+            name,
+            joinCode: Team.generateJoinCode(),
+            captain: user._id
+        });
+
+        await User.updateOne({ _id: user._id }, { $set: { team: team._id, teamJoinedAt: new Date() } });
+
+        res.status(201).json({
+            success: true,
+            data: await buildTeamSummary(team, await Hunt.resolve(req.body.hunt))
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Join an existing team using the code its captain shared.
+ * Codes are case-insensitive; full teams turn new members away.
+ * @route   POST /api/teams/join
+ * @param   {string} req.body.joinCode - The team's 6-character join code
+ * @param   {string} [req.body.hunt]   - The hunt to total the team up for in the response
+ * @access  Protected (requires valid JWT)
+ * @returns {Object} The joined team's summary
+ */
+exports.joinTeam = async (req, res, next) => {
+    try {
+        const user = await User.findById(req.user.id);
+
+        if (user.team) {
+            return res.status(400).json({
+                success: false,
+                code: 'ALREADY_IN_TEAM',
+                error: 'Leave your current team before joining another one'
+            });
+        }
+
+        const joinCode = typeof req.body.joinCode === 'string'
+            ? req.body.joinCode.toUpperCase().replace(/[^A-Z0-9]/g, '')
+            : '';
+        const team = joinCode ? await Team.findOne({ joinCode }) : null;
+
+        if (!team) {
+            return res.status(404).json({
+                success: false,
+                code: 'TEAM_NOT_FOUND',
+                error: 'No team found with that code'
+            });
+        }
+
+        const memberCount = await User.countDocuments({ team: team._id });
+        if (memberCount >= Team.MAX_TEAM_SIZE) {
+            return res.status(400).json({
+                success: false,
+                code: 'TEAM_FULL',
+                error: `"${team.name}" already has ${Team.MAX_TEAM_SIZE} members`
+            });
+        }
+
+        await User.updateOne({ _id: user._id }, { $set: { team: team._id, teamJoinedAt: new Date() } });
+
+        res.status(200).json({
+            success: true,
+            data: await buildTeamSummary(team, await Hunt.resolve(req.body.hunt)),
+            message: `Welcome to "${team.name}"!`
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Leave the current team.
+ * The player keeps their own points — they just stop counting towards the team.
+ * @route   POST /api/teams/leave
+ * @access  Protected (requires valid JWT)
+ */
+exports.leaveTeam = async (req, res, next) => {
+    try {
+        const user = await User.findById(req.user.id);
+
+        if (!user.team) {
+            return res.status(400).json({
+                success: false,
+                error: "You're not in a team"
+            });
+        }
+
+        await Team.removeMember(user);
+
+        res.status(200).json({
+            success: true,
+            data: null
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -1,96 +1,69 @@
 const Treasure = require('../models/Treasure');
+const Hunt = require('../models/Hunt');
+const UserProgress = require('../models/UserProgress');
+const { getMissingPrerequisites } = require('../utils/treasureChains');
 
 /**
- * Get all treasures on the map.
- * Returns every treasure location for the frontend to render on the map.
- * No authentication required — anyone can see where the treasures are.
- * @route   GET /api/treasures
- * @returns {Object} Array of all treasure objects with their coordinates and details
+ * Find which treasures the requesting player has found in a hunt.
+ * Anonymous visitors haven't found anything.
+ * @param   {Object} req    - Express request object (req.user is optional)
+ * @param   {string} huntId - The hunt's MongoDB ObjectId
+ * @returns {Array} IDs of the player's unlocked treasures
  */
-exports.getTreasures = async (req, res, next) => {
-    try {
-        const treasures = await Treasure.find();
-        res.status(200).json({
-            success: true,
-            count: treasures.length,
-            data: treasures
-        });
-    } catch (err) {
-        next(err);
-    }
+const getUnlockedIds = async (req, huntId) => {
+    if (!req.user) return [];
+    const progress = await UserProgress.findOne({ user: req.user.id, hunt: huntId }).select('unlockedTreasures');
+    return progress ? progress.unlockedTreasures : [];
 };
 
 /**
- * Get a single treasure by its ID.
- * Used when a player taps on a treasure marker to view its full details and clue.
- * @route   GET /api/treasures/:id
- * @param   {string} req.params.id - The treasure's MongoDB ObjectId
- * @returns {Object} The full treasure object
+ * Whether a treasure should be kept off the map for this player —
+ * true for 'hidden' chain treasures whose prerequisites they haven't found yet.
+ * @param   {Object} treasure    - The treasure document
+ * @param   {Array}  unlockedIds - IDs of the player's unlocked treasures
+ * @returns {boolean}
  */
-exports.getTreasure = async (req, res, next) => {
-    try {
-        const treasure = await Treasure.findById(req.params.id);
-
-        if (!treasure) {
-            return res.status(404).json({
-                success: false,
-                error: 'Treasure not found'
-            });
-        }
-
-        res.status(200).json({
-            success: true,
-            data: treasure
-        });
-    } catch (err) {
-        next(err);
-    }
-};
+const isHiddenFrom = (treasure, unlockedIds) =>
+    treasure.prerequisiteMode === 'hidden' && getMissingPrerequisites(treasure, unlockedIds).length > 0;
 
 /**
- * Create a new treasure (public route version).
- * Note: The admin panel uses adminController.createTreasure instead.
- * @route   POST /api/treasures
- * @param   {Object} req.body - Treasure data (name, description, clue, lat, lng, points, category)
- * @access  Protected
+ * Whether a treasure is in play for this player — live treasures are, and archived
+ * ones stay on the map (as found) for the players who found them before they were retired.
+ * @param   {Object} treasure    - The treasure document
+ * @param   {Array}  unlockedIds - IDs of the player's unlocked treasures
+ * @returns {boolean}
  */
-exports.createTreasure = async (req, res, next) => {
-    try {
-        const treasure = await Treasure.create(req.body);
-        res.status(201).json({
-            success: true,
-            data: treasure
-        });
-    } catch (err) {
-        next(err);
-    }
+const isInPlayFor = (treasure, unlockedIds) => {
+    const status = treasure.statusAt(Date.now());
+    return status === 'live' || (status === 'archived' && unlockedIds.some(id => id.equals(treasure._id)));
 };
 
 /**
- * Update an existing treasure's information.
- * Accepts partial updates — only send the fields you want to change.
- * @route   PUT /api/treasures/:id
- * @param   {string} req.params.id - The treasure's MongoDB ObjectId
- * @param   {Object} req.body - Fields to update
- * @access  Protected
+ * Get all treasures on the map for a hunt.
+ * Returns every treasure location in the hunt for the frontend to render on the map.
+ * No authentication required — anyone can see where the treasures are. Only live treasures
+ * are listed (plus archived ones the signed-in player already found), and treasures
+ * hidden behind a chain only show up once the player has found their prerequisites.
+ * @route   GET /api/treasures
+ * @param   {string} [req.query.hunt] - The hunt's MongoDB ObjectId (defaults to the current hunt)
+ * @returns {Object} Array of the hunt's treasure objects with their coordinates and details
  */
-exports.updateTreasure = async (req, res, next) => {
+exports.getTreasures = async (req, res, next) => {
     try {
-        const treasure = await Treasure.findByIdAndUpdate(req.params.id, req.body, {
-            new: true,
-            runValidators: true
-        });
-
-        if (!treasure) {
-            return res.status(404).json({
-                success: false,
-                error: 'Treasure not found'
-            });
+        const hunt = await Hunt.resolve(req.query.hunt);
+        let treasures = [];
+        if (hunt) {
+            const unlockedIds = await getUnlockedIds(req, hunt._id);
+            treasures = (await Treasure.find({
+                hunt: hunt._id,
+                $or: [Treasure.liveFilter(), { status: 'archived', _id: { $in: unlockedIds } }]
+            }))
+                .filter(treasure => !isHiddenFrom(treasure, unlockedIds));
         }
-
         res.status(200).json({
             success: true,
-            data: treasure
+            count: treasures.length,
+            data: treasures
         });
     } catch (err) {
         next(err);
@@ -98,16 +71,20 @@ exports.updateTreasure = async (req, res, next) => {
 };
 
 /**
- * Delete a treasure from the database.
- * @route   DELETE /api/treasures/:id
+ * Get a single treasure by its ID.
+ * Used when a player taps on a treasure marker to view its full details and clue.
+ * Treasures that aren't live (drafts, scheduled, or archived ones the player never found)
+ * 404, and so do hidden chain treasures until the player has found their prerequisites.
+ * @route   GET /api/treasures/:id
  * @param   {string} req.params.id - The treasure's MongoDB ObjectId
- * @access  Protected
+ * @returns {Object} The full treasure object
  */
-exports.deleteTreasure = async (req, res, next) => {
+exports.getTreasure = async (req, res, next) => {
     try {
-        const treasure = await Treasure.findByIdAndDelete(req.params.id);
+        const treasure = await Treasure.findById(req.params.id);
 
-        if (!treasure) {
+        const unlockedIds = treasure ? await getUnlockedIds(req, treasure.hunt) : [];
+        if (!treasure || !isInPlayFor(treasure, unlockedIds) || isHiddenFrom(treasure, unlockedIds)) {
             return res.status(404).json({
                 success: false,
                 error: 'Treasure not found'
@@ -116,7 +93,7 @@ exports.deleteTreasure = async (req, res, next) => {
 
         res.status(200).json({
             success: true,
-            data: {}
+            data: treasure
         });
     } catch (err) {
         next(err);
@@ -49,6 +49,31 @@ exports.protect = async (req, res, next) => {
     }
 };
 
+/**
+ * Optional authentication — like protect, but lets anonymous requests through.
+ * If a valid token is sent, req.user is set so public routes can tailor their
+ * response to the player; a missing or bad token just leaves req.user unset.
+ * @param {Object}   req  - Express request object
+ * @param {Object}   res  - Express response object
+ * @param {Function} next - Express next middleware function
+ */
+exports.optionalAuth = async (req, res, next) => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer')) {
+        return next();
+    }
+
+    try {
+        const decoded = jwt.verify(header.split(' ')[1], process.env.JWT_SECRET);
+        req.user = await User.findById(decoded.id);
+    } catch (err) {
+        // Treat an invalid or expired token the same as no token
+        req.user = null;
+    }
+
+    next();
+};
+
 /**
  * Role-based access control middleware.
  * Restricts a route to users with specific roles (e.g., 'admin').
@@ -0,0 +1,71 @@
+const mongoose = require('mongoose');
+
+/**
+ * Every kind of admin change the audit trail records, as `<target>.<verb>`.
+ */
+const AUDIT_ACTIONS = [
+    'user.role', 'user.delete', 'user.reset-progress', 'progress.rebuild',
+    'hunt.create', 'hunt.update', 'hunt.delete',
+    'treasure.create', 'treasure.update', 'treasure.delete', 'treasure.rotate-qr', 'treasure.import',
+    'badge.create', 'badge.update', 'badge.delete', 'badge.backfill',
+    'photo.approve', 'photo.reject',
+    'settings.update'
+];
+
+/**
+ * AuditLog Schema — one entry per admin change: who did it, what it was done to,
+ * and the fields it changed (before and after). Written by utils/audit.js from
+ * each admin endpoint; entries are never edited.
+ */
+const AuditLogSchema = new mongoose.Schema({
+    actor: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    // Kept as text so the entry still reads properly after the admin's account is deleted
+    actorName: {
+        type: String,
+        required: true
+    },
+    action: {
+        type: String,
+        enum: AUDIT_ACTIONS,
+        required: true
+    },
+    targetType: {
+        type: String,
+        enum: ['user', 'hunt', 'treasure', 'badge', 'photo', 'settings', 'progress'],
+        required: true
+    },
+    targetId: {
+        type: mongoose.Schema.ObjectId
+    },
+    // What the target was called at the time (username, treasure name, …)
+    targetLabel: {
+        type: String
+    },
+    // Only the fields that changed — before is missing on create, after is missing on delete
+    changes: [{
+        _id: false,
+        field: String,
+        before: mongoose.Schema.Types.Mixed,
+        after: mongoose.Schema.Types.Mixed
+    }],
+    // Anything else worth knowing (e.g. how many players a backfill reached)
+    details: {
+        type: mongoose.Schema.Types.Mixed
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ actor: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+AuditLogSchema.statics.ACTIONS = AUDIT_ACTIONS;
+
+module.exports = mongoose.model('AuditLog', AuditLogSchema);
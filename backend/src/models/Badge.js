@@ -0,0 +1,140 @@
+const mongoose = require('mongoose');
+const Counter = require('./Counter');
+
+/**
+ * Badge Schema — an achievement players can earn, defined as data rather than code.
+ * Each badge has a declarative rule that the badge engine (utils/badgeEngine.js)
+ * checks after every unlock. Players' progress stores the badge `key`, so keys
+ * never change once a badge exists.
+ *
+ * Rule types:
+ *   - count     → found at least `threshold` treasures in the hunt
+ *   - category  → found at least `threshold` treasures in `category`
+ *   - complete  → found every treasure in the hunt, or in `category` if given
+ *   - treasures → found every treasure in the `treasures` list
+ *   - time      → found `threshold` treasures within `windowMinutes` of each other
+ *   - streak    → found at least one treasure on `days` consecutive days
+ */
+const BadgeSchema = new mongoose.Schema({
+    key: {
+        type: String,
+        required: [true, 'Please add a badge key'],
+        unique: true,
+        trim: true,
+        lowercase: true,
+        match: [/^[a-z0-9-]+$/, 'Key can only contain letters, numbers and dashes'],
+        maxlength: [40, 'Key cannot be more than 40 characters']
+    },
+    name: {
+        type: String,
+        required: [true, 'Please add a badge name'],
+        trim: true,
+        maxlength: [50, 'Name cannot be more than 50 characters']
+    },
+    description: {
+        type: String,
+        required: [true, 'Please add a description'],
+        maxlength: [200, 'Description cannot be more than 200 characters']
+    },
+    // Name of the icon the frontend draws (see components/BadgeIcon.tsx)
+    icon: {
+        type: String,
+        default: 'Award'
+    },
+    rarity: {
+        type: String,
+        enum: ['common', 'rare', 'epic', 'legendary'],
+        default: 'common'
+    },
+    // Only awarded in this hunt — leave empty for a badge every hunt can award
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        default: null
+    },
+    rule: {
+        type: {
+            type: String,
+            enum: ['count', 'category', 'complete', 'treasures', 'time', 'streak'],
+            required: [true, 'Please choose a rule type']
+        },
+        threshold: Number,
+        category: {
+            type: String,
+            enum: ['academic', 'social', 'sports', 'history']
+        },
+        treasures: [{
+            type: mongoose.Schema.ObjectId,
+            ref: 'Treasure'
+        }],
+        windowMinutes: Number,
+        days: Number
+    },
+    // Inactive badges stay on players who earned them but aren't awarded any more
+    active: {
+        type: Boolean,
+        default: true
+    },
+    // Order in the trophy room
+    order: {
+        type: Number,
+        default: 0
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+/** The badges the game launched with — created the first time badges are needed */
+const DEFAULT_BADGES = [
+    { key: 'explorer', name: 'Rookie Scout', icon: 'Compass', rarity: 'common', order: 1, description: 'Acquired your first campus secret', rule: { type: 'count', threshold: 1 } },
+    { key: 'scholar', name: 'High IQ', icon: 'GraduationCap', rarity: 'rare', order: 2, description: 'Unlocked all Academic landmarks', rule: { type: 'complete', category: 'academic' } },
+    { key: 'socialite', name: 'Social Star', icon: 'Star', rarity: 'common', order: 3, description: 'Visited the Student Union', rule: { type: 'category', category: 'social', threshold: 1 } },
+    { key: 'master', name: 'Elite Hunter', icon: 'Trophy', rarity: 'legendary', order: 4, description: 'Completed the entire campus hunt', rule: { type: 'complete' } }
+];
+
+/** Counter that marks the launch badges as created, so they're only ever seeded once */
+const DEFAULTS_MARKER = 'badgeDefaultsSeeded';
+
+/** Set once this process has seen the marker, to skip the lookup on later calls */
+let defaultsSeeded = false;
+
+/**
+ * Create the launch badges the first time badges are needed, so a fresh (or upgraded)
+ * database keeps awarding the original four without a manual seed. A marker in the
+ * counters collection records that it's been done — an admin who later deletes every
+ * badge doesn't get them back.
+ */
+BadgeSchema.statics.ensureDefaults = async function () {
+    if (defaultsSeeded) return;
+
+    if (!(await Counter.exists({ name: DEFAULTS_MARKER }))) {
+        if (await this.estimatedDocumentCount() === 0) {
+            try {
+                await this.insertMany(DEFAULT_BADGES, { ordered: false });
+            } catch (err) {
+                // Another request got there first — the unique key index keeps one copy of each
+                if (err.code !== 11000) throw err;
+            }
+        }
+        await Counter.updateOne({ name: DEFAULTS_MARKER }, { $setOnInsert: { value: 1 } }, { upsert: true });
+    }
+
+    defaultsSeeded = true;
+};
+
+/**
+ * The active badges a hunt can award: its own badges plus the ones shared by every hunt.
+ * @param   {string} huntId       - The hunt's MongoDB ObjectId
+ * @param   {string} [projection] - Fields to include or leave out (e.g. '-rule')
+ * @returns {Array} Badge documents in trophy room order
+ */
+BadgeSchema.statics.findForHunt = async function (huntId, projection) {
+    await this.ensureDefaults();
+    return this.find({ active: true, $or: [{ hunt: null }, { hunt: huntId }] })
+        .select(projection)
+        .sort({ order: 1, createdAt: 1 });
+};
+
+module.exports = mongoose.model('Badge', BadgeSchema);
@@ -0,0 +1,89 @@
+const mongoose = require('mongoose');
+
+/**
+ * Hunt Schema — a single treasure hunt event (e.g. freshers week, open day, alumni weekend).
+ * Each hunt owns its own set of treasures and runs inside a start/end window.
+ * Player progress, badges and leaderboards are all tracked per hunt.
+ */
+const HuntSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Please add a hunt name'],
+        trim: true,
+        maxlength: [100, 'Name cannot be more than 100 characters']
+    },
+    description: {
+        type: String,
+        maxlength: [500, 'Description cannot be more than 500 characters']
+    },
+    startsAt: {
+        type: Date,
+        required: [true, 'Please add a start date']
+    },
+    endsAt: {
+        type: Date,
+        required: [true, 'Please add an end date'],
+        validate: {
+            validator: function (value) {
+                // `this` is the document on save; skip the cross-field check on query updates
+                return !(this instanceof mongoose.Document) || value > this.startsAt;
+            },
+            message: 'End date must be after the start date'
+        }
+    },
+    // Lets players type the short code printed under a QR sticker when their camera fails
+    manualCodeEnabled: {
+        type: Boolean,
+        default: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+}, {
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+});
+
+/**
+ * Where the hunt was in its lifecycle at a given moment.
+ * Used to judge offline scans by when they happened rather than when they synced.
+ * @param   {Date|number} at - The moment to check
+ * @returns {string} 'upcoming', 'active' or 'ended'
+ */
+HuntSchema.methods.statusAt = function (at) {
+    const time = new Date(at).getTime();
+    if (time < this.startsAt.getTime()) return 'upcoming';
+    if (time > this.endsAt.getTime()) return 'ended';
+    return 'active';
+};
+
+/**
+ * Where the hunt is in its lifecycle right now.
+ * 'upcoming' hunts can be browsed but not played, 'ended' hunts keep their final leaderboard.
+ */
+HuntSchema.virtual('status').get(function () {
+    return this.statusAt(Date.now());
+});
+
+/**
+ * Find the hunt a request is about.
+ * Uses the given ID if it points at a real hunt, otherwise falls back to the
+ * default: the most recently started running hunt, then the next upcoming one,
+ * then the most recently finished one.
+ * @param   {string} [huntId] - The hunt ID from the query string or body
+ * @returns {Object|null} The hunt document, or null if no hunts exist at all
+ */
+HuntSchema.statics.resolve = async function (huntId) {
+    if (huntId && mongoose.isValidObjectId(huntId)) {
+        const hunt = await this.findById(huntId);
+        if (hunt) return hunt;
+    }
+
+    const now = new Date();
+    return (await this.findOne({ startsAt: { $lte: now }, endsAt: { $gte: now } }).sort({ startsAt: -1 }))
+        || (await this.findOne({ startsAt: { $gt: now } }).sort({ startsAt: 1 }))
+        || (await this.findOne().sort({ endsAt: -1 }));
+};
+
+module.exports = mongoose.model('Hunt', HuntSchema);
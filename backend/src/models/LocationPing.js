@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+
+/** How long location pings are kept before MongoDB deletes them */
+const PING_RETENTION_DAYS = parseInt(process.env.PING_RETENTION_DAYS || '30');
+
+/**
+ * LocationPing Schema — an occasional "I'm here" from a player's phone while the map is open.
+ * Only used in aggregate, for the admin activity heatmap, and expires after
+ * PING_RETENTION_DAYS so we don't keep a long-term trail of where anyone has been.
+ */
+const LocationPingSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        required: true
+    },
+    latitude: {
+        type: Number,
+        required: true
+    },
+    longitude: {
+        type: Number,
+        required: true
+    },
+    accuracy: {
+        type: Number
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now,
+        expires: PING_RETENTION_DAYS * 24 * 60 * 60
+    }
+});
+
+LocationPingSchema.index({ hunt: 1, createdAt: -1 });
+// The player's latest ping — checked before storing another, and used when deleting a player
+LocationPingSchema.index({ user: 1, createdAt: -1 });
+
+module.exports = mongoose.model('LocationPing', LocationPingSchema);
@@ -0,0 +1,19 @@
+const mongoose = require('mongoose');
+
+/**
+ * PhotoImage Schema — the bytes of one photo challenge upload, for the "mongo" photo
+ * storage backend. Kept apart from PhotoSubmission so listing submissions never
+ * loads the images. Uploads are capped well under MongoDB's 16MB document limit.
+ */
+const PhotoImageSchema = new mongoose.Schema({
+    data: {
+        type: Buffer,
+        required: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+module.exports = mongoose.model('PhotoImage', PhotoImageSchema);
@@ -0,0 +1,58 @@
+const mongoose = require('mongoose');
+
+/**
+ * PhotoSubmission Schema — a player's photo for a photo challenge treasure.
+ * Submissions wait in the admin moderation queue as 'pending'; points only reach
+ * the player's progress once an admin approves. The image itself lives in photo
+ * storage and is referenced by its storage key.
+ */
+const PhotoSubmissionSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    treasure: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Treasure',
+        required: true
+    },
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        required: true
+    },
+    storageKey: {
+        type: String,
+        required: true
+    },
+    mimeType: {
+        type: String,
+        required: true
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'approved', 'rejected'],
+        default: 'pending',
+        index: true
+    },
+    rejectionReason: {
+        type: String,
+        maxlength: [200, 'Reason cannot be more than 200 characters']
+    },
+    reviewedBy: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User'
+    },
+    reviewedAt: {
+        type: Date
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+PhotoSubmissionSchema.index({ user: 1, treasure: 1 });
+
+module.exports = mongoose.model('PhotoSubmission', PhotoSubmissionSchema);
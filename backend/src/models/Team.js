@@ -0,0 +1,144 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+/** Characters used in team join codes — no 0/O or 1/I so they're easy to read out loud */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** Maximum players per team (orientation groups are usually small) */
+const MAX_TEAM_SIZE = parseInt(process.env.TEAM_MAX_SIZE || '8');
+
+/**
+ * Team Schema — a group of players competing together.
+ * Players join with a short code the team creator shares with their group.
+ * Membership lives on the User document (user.team); team points and treasures
+ * are always calculated from members' progress rather than stored here.
+ */
+const TeamSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Please add a team name'],
+        trim: true,
+        unique: true,
+        maxlength: [40, 'Team name cannot be more than 40 characters']
+    },
+    joinCode: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    captain: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+/**
+ * Generate a random 6-character join code (e.g. "QX7K2M").
+ * Collisions are astronomically unlikely but the unique index catches them anyway.
+ * @returns {string} A fresh join code
+ */
+TeamSchema.statics.generateJoinCode = function () {
+    const bytes = crypto.randomBytes(6);
+    return Array.from(bytes, b => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join('');
+};
+
+/**
+ * Work out team totals in a hunt from the members' progress.
+ * Points are summed across members; treasures are counted once per team
+ * even if several members found the same one.
+ * @param   {Object} options
+ * @param   {Object} options.hunt      - The hunt's ObjectId
+ * @param   {Array}  [options.teamIds] - Only include these teams (default: all teams)
+ * @param   {number} [options.limit]   - Only return the top N teams
+ * @returns {Array}  [{ _id, name, members, points, treasuresFound }] sorted by points
+ */
+TeamSchema.statics.getStandings = async function ({ hunt, teamIds, limit }) {
+    const User = mongoose.model('User');
+    const UserProgress = mongoose.model('UserProgress');
+
+    const match = teamIds ? { team: { $in: teamIds } } : { team: { $ne: null } };
+
+    const pipeline = [
+        { $match: match },
+        {
+            $lookup: {
+                from: UserProgress.collection.name,
+                let: { userId: '$_id' },
+                pipeline: [
+                    { $match: { hunt: new mongoose.Types.ObjectId(hunt), $expr: { $eq: ['$user', '$$userId'] } } }
+                ],
+                as: 'progress'
+            }
+        },
+        { $unwind: { path: '$progress', preserveNullAndEmptyArrays: true } },
+        {
+            $group: {
+                _id: '$team',
+                members: { $addToSet: '$_id' },
+                points: { $sum: { $ifNull: ['$progress.totalPoints', 0] } },
+                treasureLists: { $push: { $ifNull: ['$progress.unlockedTreasures', []] } }
+            }
+        },
+        {
+            $project: {
+                members: { $size: '$members' },
+                points: 1,
+                treasuresFound: {
+                    $size: {
+                        $reduce: {
+                            input: '$treasureLists',
+                            initialValue: [],
+                            in: { $setUnion: ['$$value', '$$this'] }
+                        }
+                    }
+                }
+            }
+        },
+        { $sort: { points: -1, treasuresFound: -1 } }
+    ];
+
+    if (limit) pipeline.push({ $limit: limit });
+
+    pipeline.push(
+        { $lookup: { from: this.collection.name, localField: '_id', foreignField: '_id', as: 'team' } },
+        { $unwind: '$team' },
+        { $project: { name: '$team.name', members: 1, points: 1, treasuresFound: 1 } }
+    );
+
+    return User.aggregate(pipeline);
+};
+
+/**
+ * Take a player out of their team.
+ * If the captain leaves, the longest-standing remaining member takes over;
+ * if nobody is left, the team is deleted so its name can be reused.
+ * @param {Object} user - The user document leaving their team
+ */
+TeamSchema.statics.removeMember = async function (user) {
+    const User = mongoose.model('User');
+    const teamId = user.team;
+    if (!teamId) return;
+
+    await User.updateOne({ _id: user._id }, { $set: { team: null } });
+    user.team = null;
+
+    const team = await this.findById(teamId);
+    if (!team) return;
+
+    const remaining = await User.find({ team: teamId }).sort({ teamJoinedAt: 1 }).limit(1);
+    if (remaining.length === 0) {
+        await team.deleteOne();
+    } else if (team.captain.toString() === user._id.toString()) {
+        team.captain = remaining[0]._id;
+        await team.save();
+    }
+};
+
+TeamSchema.statics.MAX_TEAM_SIZE = MAX_TEAM_SIZE;
+
+module.exports = mongoose.model('Team', TeamSchema);
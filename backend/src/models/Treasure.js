@@ -1,11 +1,29 @@
 const mongoose = require('mongoose');
 
+/**
+ * Where a treasure can be in its lifecycle:
+ *   - draft: being set up, only admins can see it
+ *   - scheduled: goes live by itself at publishAt
+ *   - live: on the map and can be found
+ *   - archived: retired — off the map, but still counts for the players who found it
+ */
+const TREASURE_STATUSES = ['draft', 'scheduled', 'live', 'archived'];
+
 /**
  * Treasure Schema — defines a hidden treasure location on the campus map.
  * Each treasure has a real-world GPS coordinate, a clue for players to find it,
  * and a point value that gets awarded when someone scans its QR code.
+ * Every treasure belongs to exactly one hunt, and can require other treasures
+ * in that hunt to be found first to build a trail. Only live treasures are shown
+ * to players; drafts, scheduled and archived ones are managed from the admin panel.
  */
 const TreasureSchema = new mongoose.Schema({
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        required: [true, 'Please choose a hunt'],
+        index: true
+    },
     name: {
         type: String,
         required: [true, 'Please add a treasure name'],
@@ -35,19 +53,124 @@ const TreasureSchema = new mongoose.Schema({
         required: [true, 'Please add points value'],
         min: [1, 'Points must be at least 1']
     },
+    // How close (in meters) a player has to be for the server to accept an unlock
+    unlockRadius: {
+        type: Number,
+        default: 50,
+        min: [10, 'Unlock radius must be at least 10 meters'],
+        max: [1000, 'Unlock radius cannot be more than 1000 meters']
+    },
+    // Bumped when an admin rotates the QR code — stickers signed with older versions stop working
+    qrVersion: {
+        type: Number,
+        default: 1,
+        min: 1
+    },
+    // Treasures that must be found before this one can be unlocked (same hunt only)
+    prerequisites: [{
+        type: mongoose.Schema.ObjectId,
+        ref: 'Treasure'
+    }],
+    // 'locked' shows the treasure with its requirements; 'hidden' keeps it off the map until they're met
+    prerequisiteMode: {
+        type: String,
+        enum: ['locked', 'hidden'],
+        default: 'locked'
+    },
     trivia: {
         type: String,
         maxlength: [500, 'Trivia cannot be more than 500 characters']
     },
+    // How players prove they found it — scan the QR sticker, or upload a photo for an admin to approve
+    unlockType: {
+        type: String,
+        enum: ['qr', 'photo'],
+        default: 'qr'
+    },
+    // What the photo should show, for photo challenges (e.g. "A selfie with the clock tower")
+    photoPrompt: {
+        type: String,
+        maxlength: [200, 'Photo prompt cannot be more than 200 characters']
+    },
+    // Optional challenge question asked after the scan — points only for a correct answer
+    quiz: {
+        question: {
+            type: String,
+            maxlength: [300, 'Quiz question cannot be more than 300 characters']
+        },
+        // Multiple-choice options; leave empty for a free-text answer
+        options: [{
+            type: String,
+            maxlength: [100, 'Quiz options cannot be more than 100 characters']
+        }],
+        // Accepted answers — never sent to players, so the quiz can't be read from the map
+        answers: {
+            type: [String],
+            select: false
+        },
+        // Share of the points still awarded when the right answer comes after a wrong one
+        retryPercent: {
+            type: Number,
+            default: 50,
+            min: 0,
+            max: 100
+        }
+    },
     category: {
         type: String,
         required: [true, 'Please add a category'],
         enum: ['academic', 'social', 'sports', 'history']
     },
+    // Treasures saved before there was a lifecycle have no status and count as live
+    status: {
+        type: String,
+        enum: TREASURE_STATUSES,
+        default: 'live',
+        index: true
+    },
+    // When a scheduled treasure goes live
+    publishAt: {
+        type: Date,
+        required: [function () {
+            // `this` is the document on save; skip the cross-field check on query updates
+            return this instanceof mongoose.Document && this.status === 'scheduled';
+        }, 'Please choose when the treasure goes live']
+    },
     createdAt: {
         type: Date,
         default: Date.now
     }
 });
 
+/**
+ * Where the treasure is in its lifecycle at a given moment — a scheduled treasure
+ * counts as live once its publish time has passed.
+ * Used to judge offline scans by when they happened rather than when they synced.
+ * @param   {Date|number} at - The moment to check
+ * @returns {string} 'draft', 'scheduled', 'live' or 'archived'
+ */
+TreasureSchema.methods.statusAt = function (at) {
+    if (this.status === 'scheduled' && this.publishAt && this.publishAt.getTime() <= new Date(at).getTime()) {
+        return 'live';
+    }
+    return this.status || 'live';
+};
+
+/**
+ * Query conditions matching the treasures that were live at a given moment.
+ * @param   {Date} [at] - The moment to check (defaults to now)
+ * @returns {Object} A filter to merge into a Treasure query
+ */
+TreasureSchema.statics.liveFilter = function (at = new Date()) {
+    return {
+        $or: [
+            { status: 'live' },
+            { status: { $exists: false } },
+            { status: 'scheduled', publishAt: { $lte: at } }
+        ]
+    };
+};
+
+TreasureSchema.statics.STATUSES = TREASURE_STATUSES;
+
 module.exports = mongoose.model('Treasure', TreasureSchema);
@@ -0,0 +1,109 @@
+const mongoose = require('mongoose');
+
+/**
+ * TreasureView Schema — one record per player per treasure they've opened on the map.
+ * Tracks when they first looked at its clue, how many AI hints they asked for, and
+ * when they finally found it, so admins can spot treasures that are hard to find
+ * (lots of viewers, few finds, long searches).
+ */
+const TreasureViewSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User',
+        required: true
+    },
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        required: true
+    },
+    treasure: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Treasure',
+        required: true
+    },
+    // Missing if the player found it without ever opening its clue
+    firstViewedAt: {
+        type: Date
+    },
+    views: {
+        type: Number,
+        default: 0
+    },
+    hintsUsed: {
+        type: Number,
+        default: 0
+    },
+    foundAt: {
+        type: Date,
+        default: null
+    }
+});
+
+TreasureViewSchema.index({ user: 1, treasure: 1 }, { unique: true });
+TreasureViewSchema.index({ hunt: 1, treasure: 1 });
+
+/**
+ * Count a player opening a treasure's clue, or asking for a hint about it.
+ * @param {string}  userId   - The player's ObjectId
+ * @param {Object}  treasure - The treasure document
+ * @param {Object}  [options]
+ * @param {boolean} [options.hint] - Count a hint instead of a view
+ */
+TreasureViewSchema.statics.record = async function (userId, treasure, { hint = false } = {}) {
+    await this.updateOne(
+        { user: userId, treasure: treasure._id },
+        {
+            $inc: hint ? { hintsUsed: 1 } : { views: 1 },
+            $min: { firstViewedAt: new Date() },
+            $setOnInsert: { hunt: treasure.hunt }
+        },
+        { upsert: true }
+    );
+};
+
+/**
+ * Note when a player found a treasure, closing their search for it.
+ * @param {string} userId   - The player's ObjectId
+ * @param {Object} treasure - The treasure document
+ * @param {Date}   foundAt  - When it was found (the scan time)
+ */
+TreasureViewSchema.statics.markFound = async function (userId, treasure, foundAt) {
+    await this.updateOne(
+        { user: userId, treasure: treasure._id },
+        { $set: { foundAt }, $setOnInsert: { hunt: treasure.hunt } },
+        { upsert: true }
+    );
+};
+
+/**
+ * Per-treasure engagement in a hunt.
+ * @param   {string} huntId - The hunt's ObjectId
+ * @returns {Array} [{ _id: treasureId, viewers, viewedNotFound, hintsUsed, hintUsers, searchTimes: [ms] }]
+ */
+TreasureViewSchema.statics.getTreasureStats = async function (huntId) {
+    return this.aggregate([
+        { $match: { hunt: new mongoose.Types.ObjectId(huntId) } },
+        { $set: { foundAt: { $ifNull: ['$foundAt', null] } } },
+        {
+            $group: {
+                _id: '$treasure',
+                viewers: { $sum: { $cond: [{ $gt: ['$views', 0] }, 1, 0] } },
+                viewedNotFound: { $sum: { $cond: [{ $and: [{ $gt: ['$views', 0] }, { $eq: ['$foundAt', null] }] }, 1, 0] } },
+                hintsUsed: { $sum: '$hintsUsed' },
+                hintUsers: { $sum: { $cond: [{ $gt: ['$hintsUsed', 0] }, 1, 0] } },
+                searchTimes: {
+                    $push: {
+                        $cond: [
+                            { $and: [{ $ne: ['$foundAt', null] }, { $gt: ['$firstViewedAt', null] }, { $gte: ['$foundAt', '$firstViewedAt'] }] },
+                            { $subtract: ['$foundAt', '$firstViewedAt'] },
+                            '$$REMOVE'
+                        ]
+                    }
+                }
+            }
+        }
+    ]);
+};
+
+module.exports = mongoose.model('TreasureView', TreasureViewSchema);
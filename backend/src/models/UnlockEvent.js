@@ -0,0 +1,174 @@
+const mongoose = require('mongoose');
+
+/**
+ * UnlockEvent Schema — the append-only log of every treasure a player was awarded:
+ * when, where, how (QR scan, typed code, GPS, approved photo) and from what device.
+ * UserProgress keeps the running totals for fast reads; the log is the record they
+ * can always be rebuilt from (see summarize), and it powers the time-window leaderboards.
+ *
+ * Events are never edited — every field is immutable and update queries are refused.
+ * They're only deleted along with the player, the hunt, or an admin progress reset.
+ */
+const UnlockEventSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'User',
+        required: true,
+        immutable: true
+    },
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        required: true,
+        immutable: true
+    },
+    treasure: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Treasure',
+        required: true,
+        immutable: true
+    },
+    // Points actually awarded (a quiz retry can earn less than the treasure's value)
+    points: {
+        type: Number,
+        required: true,
+        immutable: true
+    },
+    // How the treasure was unlocked — 'legacy' marks unlocks imported from progress made before the log existed
+    method: {
+        type: String,
+        enum: ['qr', 'code', 'gps', 'photo', 'legacy'],
+        required: true,
+        immutable: true
+    },
+    // Where the player was standing, as reported by their phone
+    location: {
+        latitude: { type: Number, immutable: true },
+        longitude: { type: Number, immutable: true },
+        accuracy: { type: Number, immutable: true }
+    },
+    // The device that sent the unlock
+    client: {
+        userAgent: { type: String, immutable: true },
+        ip: { type: String, immutable: true }
+    },
+    // When the scan really happened — earlier than createdAt for scans synced after being offline
+    scannedAt: {
+        type: Date,
+        default: Date.now,
+        immutable: true
+    },
+    // When the unlock was awarded
+    createdAt: {
+        type: Date,
+        default: Date.now,
+        immutable: true
+    }
+});
+
+UnlockEventSchema.index({ hunt: 1, createdAt: -1 });
+// One event per player per treasure — a backstop for the conditional claim in UserProgress
+UnlockEventSchema.index({ user: 1, treasure: 1 }, { unique: true });
+
+/**
+ * Refuse every kind of update — the log only ever grows.
+ */
+UnlockEventSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'], function () {
+    throw new Error('Unlock events cannot be changed once recorded');
+});
+
+UnlockEventSchema.pre('save', function (next) {
+    if (!this.isNew) return next(new Error('Unlock events cannot be changed once recorded'));
+    next();
+});
+
+/**
+ * Work out each player's totals from the log alone: the treasures they found
+ * (in the order they found them) and the points those earned.
+ * If a treasure somehow appears twice, only its first event counts.
+ * @param   {Object} [filter] - Which events to include (e.g. { hunt } or { user })
+ * @returns {Array}  [{ user, hunt, treasures: [ObjectId], totalPoints }]
+ */
+UnlockEventSchema.statics.summarize = async function (filter = {}) {
+    const match = {};
+    if (filter.user) match.user = new mongoose.Types.ObjectId(filter.user);
+    if (filter.hunt) match.hunt = new mongoose.Types.ObjectId(filter.hunt);
+
+    return this.aggregate([
+        { $match: match },
+        { $sort: { scannedAt: 1, _id: 1 } },
+        {
+            $group: {
+                _id: { user: '$user', hunt: '$hunt', treasure: '$treasure' },
+                points: { $first: '$points' },
+                scannedAt: { $first: '$scannedAt' }
+            }
+        },
+        { $sort: { scannedAt: 1 } },
+        {
+            $group: {
+                _id: { user: '$_id.user', hunt: '$_id.hunt' },
+                treasures: { $push: '$_id.treasure' },
+                totalPoints: { $sum: '$points' }
+            }
+        },
+        { $project: { _id: 0, user: '$_id.user', hunt: '$_id.hunt', treasures: 1, totalPoints: 1 } }
+    ]);
+};
+
+/**
+ * Rank players in a hunt by the points they earned inside a time window.
+ * Ties go to whoever reached their score first.
+ * @param   {Object} options
+ * @param   {Object} options.hunt  - The hunt's ObjectId
+ * @param   {Date}   options.since - Only count unlocks from this moment on
+ * @param   {number} [options.limit] - Only return the top N players
+ * @returns {Array}  [{ _id, username, points, treasuresFound, level, badges }] sorted by points
+ */
+UnlockEventSchema.statics.getStandings = async function ({ hunt, since, limit }) {
+    const User = mongoose.model('User');
+    const UserProgress = mongoose.model('UserProgress');
+    const huntId = new mongoose.Types.ObjectId(hunt);
+
+    const pipeline = [
+        { $match: { hunt: huntId, createdAt: { $gte: since } } },
+        {
+            $group: {
+                _id: '$user',
+                points: { $sum: '$points' },
+                treasuresFound: { $sum: 1 },
+                lastUnlockAt: { $max: '$createdAt' }
+            }
+        },
+        { $sort: { points: -1, lastUnlockAt: 1 } }
+    ];
+
+    if (limit) pipeline.push({ $limit: limit });
+
+    pipeline.push(
+        { $lookup: { from: User.collection.name, localField: '_id', foreignField: '_id', as: 'user' } },
+        {
+            $lookup: {
+                from: UserProgress.collection.name,
+                let: { userId: '$_id' },
+                pipeline: [
+                    { $match: { hunt: huntId, $expr: { $eq: ['$user', '$$userId'] } } }
+                ],
+                as: 'progress'
+            }
+        },
+        {
+            $project: {
+                username: { $arrayElemAt: ['$user.username', 0] },
+                points: 1,
+                treasuresFound: 1,
+                level: { $ifNull: [{ $arrayElemAt: ['$progress.level', 0] }, 1] },
+                badges: { $ifNull: [{ $arrayElemAt: ['$progress.badges', 0] }, []] }
+            }
+        }
+    );
+
+    return this.aggregate(pipeline);
+};
+
+module.exports = mongoose.model('UnlockEvent', UnlockEventSchema);
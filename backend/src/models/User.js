@@ -41,6 +41,14 @@ const UserSchema = new mongoose.Schema({
         enum: ['user', 'admin'],
         default: 'user'
     },
+    team: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Team',
+        default: null
+    },
+    teamJoinedAt: {
+        type: Date
+    },
     createdAt: {
         type: Date,
         default: Date.now
@@ -1,16 +1,22 @@
 const mongoose = require('mongoose');
+const { evaluateBadges } = require('../utils/badgeEngine');
+const { getLevelInfo } = require('../utils/levels');
 
 /**
  * UserProgress Schema — tracks each player's journey through the treasure hunt.
  * Stores which treasures they've found, their total XP, earned badges, and level.
- * Each user has exactly one progress document (enforced by the unique user reference).
+ * Each user has one progress document per hunt (enforced by the unique user + hunt index).
  */
 const UserProgressSchema = new mongoose.Schema({
     user: {
         type: mongoose.Schema.ObjectId,
         ref: 'User',
-        required: true,
-        unique: true
+        required: true
+    },
+    hunt: {
+        type: mongoose.Schema.ObjectId,
+        ref: 'Hunt',
+        required: true
     },
     unlockedTreasures: [{
         type: mongoose.Schema.ObjectId,
@@ -30,12 +36,30 @@ const UserProgressSchema = new mongoose.Schema({
     missionBriefing: {
         type: String
     },
+    // Wrong quiz answers per treasure, so a later correct answer earns reduced points
+    quizAttempts: [{
+        treasure: {
+            type: mongoose.Schema.ObjectId,
+            ref: 'Treasure'
+        },
+        wrongAnswers: {
+            type: Number,
+            default: 0
+        }
+    }],
     updatedAt: {
         type: Date,
         default: Date.now
     }
+}, {
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
 });
 
+UserProgressSchema.index({ user: 1, hunt: 1 }, { unique: true });
+// Leaderboard order — lets rank lookups count and page through a hunt without loading it
+UserProgressSchema.index({ hunt: 1, totalPoints: -1, _id: 1 });
+
 /**
  * Automatically update the timestamp whenever progress is saved.
  * This lets us track when a player was last active.
@@ -46,54 +70,155 @@ UserProgressSchema.pre('save', function (next) {
 });
 
 /**
- * Recalculate the player's level based on their total points.
- * Every 200 XP earns a new level (0-199 = Level 1, 200-399 = Level 2, etc.).
- * @returns {number} The newly calculated level
+ * Fetch a player's progress for a hunt, creating a blank record the first time they play it.
+ * Uses an upsert so two requests racing on a first visit don't create duplicates.
+ * @param   {string} userId - The player's MongoDB ObjectId
+ * @param   {string} huntId - The hunt's MongoDB ObjectId
+ * @returns {Object} The progress document
  */
-UserProgressSchema.methods.calculateLevel = function () {
-    this.level = Math.floor(this.totalPoints / 200) + 1;
-    return this.level;
+UserProgressSchema.statics.findOrCreate = async function (userId, huntId) {
+    return this.findOneAndUpdate(
+        { user: userId, hunt: huntId },
+        { $setOnInsert: { user: userId, hunt: huntId } },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
 };
 
 /**
- * Check and award badges based on the player's current achievements.
- * Badge criteria:
- *   - "explorer"   → Found at least 1 treasure (everyone's first milestone!)
- *   - "scholar"    → Found ALL treasures in the 'academic' category
- *   - "socialite"  → Found at least 1 treasure in the 'social' category
- *   - "master"     → Found every single treasure on the map (the ultimate flex)
- * @returns {string[]} Updated array of badge IDs the player has earned
+ * Find where one player stands in a hunt: their exact rank, how many players there are,
+ * and the players just above and below them. Players are ordered by points, ties broken
+ * by who joined the hunt first (the same order as the hunt leaderboard), and everything
+ * is answered with indexed counts and range queries rather than loading the whole hunt.
+ * @param   {string} userId     - The player's MongoDB ObjectId
+ * @param   {string} huntId     - The hunt's MongoDB ObjectId
+ * @param   {number} [around=2] - How many neighbours to return on each side
+ * @returns {Object|null} { progress, rank, total, above, below } with neighbours populated with usernames,
+ *                        or null if the player hasn't started this hunt
  */
-UserProgressSchema.methods.checkBadges = async function () {
-    const Treasure = mongoose.model('Treasure');
+UserProgressSchema.statics.getStanding = async function (userId, huntId, around = 2) {
+    const progress = await this.findOne({ user: userId, hunt: huntId }).populate('user', 'username');
+    if (!progress) return null;
 
-    // Rookie Scout — first treasure unlocked
-    if (this.unlockedTreasures.length >= 1 && !this.badges.includes('explorer')) {
-        this.badges.push('explorer');
-    }
+    const { totalPoints, _id } = progress;
+    const aheadOfMe = {
+        hunt: huntId,
+        $or: [{ totalPoints: { $gt: totalPoints } }, { totalPoints, _id: { $lt: _id } }]
+    };
+    const behindMe = {
+        hunt: huntId,
+        $or: [{ totalPoints: { $lt: totalPoints } }, { totalPoints, _id: { $gt: _id } }]
+    };
 
-    // High IQ — completed all academic treasures
-    const academicTreasures = await Treasure.find({ category: 'academic' });
-    const academicIds = academicTreasures.map(t => t._id.toString());
-    const unlockedIds = this.unlockedTreasures.map(id => id.toString());
-    const hasAllAcademic = academicIds.every(id => unlockedIds.includes(id));
-    if (hasAllAcademic && academicTreasures.length > 0 && !this.badges.includes('scholar')) {
-        this.badges.push('scholar');
-    }
+    const [ahead, total, above, below] = await Promise.all([
+        this.countDocuments(aheadOfMe),
+        this.countDocuments({ hunt: huntId }),
+        // Closest first, then flipped so the list reads top to bottom
+        this.find(aheadOfMe).sort({ totalPoints: 1, _id: -1 }).limit(around).populate('user', 'username'),
+        this.find(behindMe).sort({ totalPoints: -1, _id: 1 }).limit(around).populate('user', 'username')
+    ]);
 
-    // Social Star — visited at least one social venue
-    const socialTreasures = await Treasure.find({ category: 'social' });
-    const hasSocial = socialTreasures.some(t => unlockedIds.includes(t._id.toString()));
-    if (hasSocial && !this.badges.includes('socialite')) {
-        this.badges.push('socialite');
-    }
+    return { progress, rank: ahead + 1, total, above: above.reverse(), below };
+};
 
-    // Elite Hunter — found absolutely everything
-    const allTreasures = await Treasure.find();
-    if (this.unlockedTreasures.length === allTreasures.length && allTreasures.length > 0 && !this.badges.includes('master')) {
-        this.badges.push('master');
-    }
+/**
+ * Rank players by their lifetime points, added up across every hunt they've played.
+ * @param   {Object} [options]
+ * @param   {number} [options.limit] - Only return the top N players
+ * @returns {Array}  [{ _id, username, points, treasuresFound, level, badges }] sorted by points
+ */
+UserProgressSchema.statics.getLifetimeStandings = async function ({ limit } = {}) {
+    const User = mongoose.model('User');
+
+    const pipeline = [
+        {
+            $group: {
+                _id: '$user',
+                points: { $sum: '$totalPoints' },
+                treasuresFound: { $sum: { $size: '$unlockedTreasures' } },
+                level: { $max: '$level' },
+                badgeLists: { $push: '$badges' }
+            }
+        },
+        { $sort: { points: -1, treasuresFound: -1 } }
+    ];
+
+    if (limit) pipeline.push({ $limit: limit });
+
+    pipeline.push(
+        { $lookup: { from: User.collection.name, localField: '_id', foreignField: '_id', as: 'user' } },
+        {
+            $project: {
+                username: { $arrayElemAt: ['$user.username', 0] },
+                points: 1,
+                treasuresFound: 1,
+                level: 1,
+                badges: {
+                    $reduce: {
+                        input: '$badgeLists',
+                        initialValue: [],
+                        in: { $setUnion: ['$$value', '$$this'] }
+                    }
+                }
+            }
+        }
+    );
+
+    return this.aggregate(pipeline);
+};
 
+/**
+ * Where the player sits on the level curve (see utils/levels.js): level, title,
+ * XP into the current level and XP still needed for the next one.
+ * Sent with every progress response so the XP bar never has to do the maths itself.
+ */
+UserProgressSchema.virtual('levelInfo').get(function () {
+    return getLevelInfo(this.totalPoints);
+});
+
+/**
+ * Recalculate the player's level from their total points using the level curve.
+ * @returns {number} The newly calculated level
+ */
+UserProgressSchema.methods.calculateLevel = function () {
+    this.level = getLevelInfo(this.totalPoints).level;
+    return this.level;
+};
+
+/**
+ * Credit a found treasure to a player's progress: record it, add its points,
+ * and recalculate level and badges. The treasure is claimed with one conditional
+ * update, so two unlocks racing each other can't both award it.
+ * Shared by instant unlocks (QR, code) and approved photo challenges.
+ * @param   {string} userId     - The player's MongoDB ObjectId (their progress in the treasure's hunt must exist)
+ * @param   {Object} treasure   - The treasure document being awarded
+ * @param   {number} points     - Points to award (may be less than the treasure's value, e.g. after a wrong quiz answer)
+ * @param   {Date}   unlockedAt - When the player really found it (the scan or photo time), for time and streak badges
+ * @returns {Object|null} The updated progress, or null if the player already had this treasure
+ */
+UserProgressSchema.statics.claimTreasure = async function (userId, treasure, points, unlockedAt) {
+    const progress = await this.findOneAndUpdate(
+        { user: userId, hunt: treasure.hunt, unlockedTreasures: { $ne: treasure._id } },
+        { $addToSet: { unlockedTreasures: treasure._id }, $inc: { totalPoints: points } },
+        { new: true }
+    );
+    if (!progress) return null;
+
+    progress.calculateLevel();
+    await progress.checkBadges({ justUnlockedAt: unlockedAt });
+    await progress.save();
+    return progress;
+};
+
+/**
+ * Check and award badges based on the player's achievements in this hunt.
+ * The rules live on Badge documents and are checked by the badge engine;
+ * a hunt awards its own badges plus the ones shared by every hunt.
+ * @param   {Object} [options]
+ * @param   {Date}   [options.justUnlockedAt] - When the unlock being awarded right now happened
+ * @returns {string[]} Updated array of badge keys the player has earned
+ */
+UserProgressSchema.methods.checkBadges = async function (options) {
+    await evaluateBadges(this, options);
     return this.badges;
 };
 
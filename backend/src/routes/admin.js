@@ -11,11 +11,28 @@ const {
     updateUserRole,
     deleteUser,
     getStats,
+    getTreasures,
     createTreasure,
     updateTreasure,
     deleteTreasure,
-    resetUserProgress
+    rotateTreasureQr,
+    resetUserProgress,
+    rebuildProgress
 } = require('../controllers/adminController');
+const { createHunt, updateHunt, deleteHunt } = require('../controllers/huntController');
+const {
+    getAdminBadges,
+    createBadge,
+    updateBadge,
+    deleteBadge,
+    previewBadge,
+    backfillBadge
+} = require('../controllers/badgeController');
+const { getPhotoSubmissions, getPhotoImage, approvePhoto, rejectPhoto } = require('../controllers/photoController');
+const { getAuditLog } = require('../controllers/auditController');
+const { getTreasureAnalytics, getActivityHeatmap } = require('../controllers/analyticsController');
+const { exportUsers, exportUnlocks, exportFeedback } = require('../controllers/exportController');
+const { exportTreasuresGeoJson, importTreasuresGeoJson } = require('../controllers/geoDataController');
 const { protect, authorize } = require('../middleware/auth');
 
 const router = express.Router();
@@ -27,6 +44,25 @@ router.use(authorize('admin'));
 // Dashboard overview stats
 router.get('/stats', getStats);
 
+// Per-treasure analytics — discovery rate, time to find, drop-off and hint usage
+router.get('/analytics/treasures', getTreasureAnalytics);
+
+// Activity heatmap — unlocks and player positions bucketed into a grid
+router.get('/analytics/heatmap', getActivityHeatmap);
+
+// Audit trail — who changed what, and when
+router.get('/audit', getAuditLog);
+
+// CSV / JSON downloads for prize draws and reports (?format=csv|json&from=&to=&hunt=)
+router.get('/export/users', exportUsers);
+router.get('/export/unlocks', exportUnlocks);
+router.get('/export/feedback', exportFeedback);
+
+// Hunt management — each hunt owns its own treasures, progress and leaderboards
+router.post('/hunts', createHunt);
+router.put('/hunts/:id', updateHunt);
+router.delete('/hunts/:id', deleteHunt);
+
 // User management — view, promote, reset, or remove players
 router.get('/users', getUsers);
 router.get('/users/:id', getUser);
@@ -34,9 +70,34 @@ router.put('/users/:id/role', updateUserRole);
 router.post('/users/:id/reset', resetUserProgress);
 router.delete('/users/:id', deleteUser);
 
+// Recount players' progress from the unlock event log
+router.post('/progress/rebuild', rebuildProgress);
+
 // Treasure management — create, edit, or remove map locations
+router.get('/treasures', getTreasures);
 router.post('/treasures', createTreasure);
 router.put('/treasures/:id', updateTreasure);
 router.delete('/treasures/:id', deleteTreasure);
 
+// Bulk treasure layout as a GeoJSON FeatureCollection (?hunt=, and ?dryRun=true to only check an import)
+router.get('/treasures/export', exportTreasuresGeoJson);
+router.post('/treasures/import', importTreasuresGeoJson);
+
+// Invalidate a treasure's printed QR stickers by issuing a new signed code
+router.post('/treasures/:id/rotate-qr', rotateTreasureQr);
+
+// Badge designer — badges are data, so they can change without a deploy
+router.get('/badges', getAdminBadges);
+router.post('/badges', createBadge);
+router.post('/badges/preview', previewBadge);
+router.put('/badges/:id', updateBadge);
+router.delete('/badges/:id', deleteBadge);
+router.post('/badges/:id/backfill', backfillBadge);
+
+// Photo challenge moderation queue — points are only awarded on approval
+router.get('/photos', getPhotoSubmissions);
+router.get('/photos/:id/image', getPhotoImage);
+router.put('/photos/:id/approve', approvePhoto);
+router.put('/photos/:id/reject', rejectPhoto);
+
 module.exports = router;
@@ -0,0 +1,14 @@
+/**
+ * Badge Routes — public endpoint listing the badges a hunt awards.
+ * No authentication required. Badge management lives in routes/admin.js.
+ */
+
+const express = require('express');
+const { getBadges } = require('../controllers/badgeController');
+
+const router = express.Router();
+
+// Public — every active badge the hunt can award
+router.get('/', getBadges);
+
+module.exports = router;
@@ -0,0 +1,14 @@
+/**
+ * Hunt Routes — public endpoint listing the hunts players can choose from.
+ * No authentication required. Admin hunt management lives in routes/admin.js.
+ */
+
+const express = require('express');
+const { getHunts } = require('../controllers/huntController');
+
+const router = express.Router();
+
+// Public — every hunt with its status and treasure count
+router.get('/', getHunts);
+
+module.exports = router;
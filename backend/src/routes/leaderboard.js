@@ -1,14 +1,25 @@
 /**
- * Leaderboard Routes — public endpoint for the player rankings.
- * No authentication required — anyone can see the top players.
+ * Leaderboard Routes — public endpoints for the player and team rankings.
+ * No authentication required — anyone can see (or watch) the top players and teams.
+ * Looking up your own rank (/me) needs a logged-in player.
  */
 
 const express = require('express');
-const { getLeaderboard } = require('../controllers/leaderboardController');
+const { getLeaderboard, getTeamLeaderboard, streamLeaderboard, getMyRank } = require('../controllers/leaderboardController');
+const { protect } = require('../middleware/auth');
 
 const router = express.Router();
 
 // Public — returns the top players ranked by total points
 router.get('/', getLeaderboard);
 
+// Public — returns the top teams ranked by combined member points
+router.get('/teams', getTeamLeaderboard);
+
+// Protected — the current player's exact rank and their neighbours
+router.get('/me', protect, getMyRank);
+
+// Public — pushes the top players as Server-Sent Events whenever scores change
+router.get('/stream', streamLeaderboard);
+
 module.exports = router;
@@ -7,10 +7,33 @@ const express = require('express');
 const {
     getProgress,
     unlockTreasure,
+    unlockWithCode,
+    submitPhoto,
+    getMyPhotos,
+    recordTreasureView,
+    recordLocationPing,
     updateBriefing
 } = require('../controllers/progressController');
 const { protect } = require('../middleware/auth');
 
+// Optional, like in app.js (which warns when it's missing)
+let rateLimit;
+try { rateLimit = require('express-rate-limit'); } catch (e) { rateLimit = null; }
+
+/**
+ * Manual code entry is guessable by brute force — 20 attempts per 15 minutes.
+ * Counted per player rather than per IP, so a campus of phones behind one Wi-Fi
+ * address doesn't share a single allowance; the IP is only a fallback.
+ */
+const manualCodeLimiter = rateLimit
+    ? rateLimit({
+        windowMs: 15 * 60 * 1000,
+        max: 20,
+        keyGenerator: (req) => (req.user ? `user:${req.user.id}` : rateLimit.ipKeyGenerator(req.ip)),
+        message: { success: false, code: 'TOO_MANY_ATTEMPTS', error: 'Too many code attempts, please try again later' }
+    })
+    : (req, res, next) => next();
+
 const router = express.Router();
 
 // Every progress route needs a logged-in user
@@ -22,6 +45,19 @@ router.get('/', getProgress);
 // Unlock a treasure after scanning its QR code
 router.post('/unlock/:treasureId', unlockTreasure);
 
+// Unlock by typing the code printed under the QR sticker (camera fallback)
+router.post('/unlock/:treasureId/code', manualCodeLimiter, unlockWithCode);
+
+// Photo challenges — upload a photo for admin review, and check on earlier uploads
+router.post('/photo/:treasureId', submitPhoto);
+router.get('/photos', getMyPhotos);
+
+// Treasure clue views and hint requests, for the admin analytics
+router.post('/view/:treasureId', recordTreasureView);
+
+// Occasional location pings while the map is open, for the admin activity heatmap
+router.post('/ping', recordLocationPing);
+
 // Save or update the AI-generated mission briefing
 router.put('/briefing', updateBriefing);
 
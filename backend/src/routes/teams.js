@@ -0,0 +1,19 @@
+/**
+ * Team Routes — create, join and leave teams, and view your own team.
+ * All routes require a logged-in player.
+ */
+
+const express = require('express');
+const { getMyTeam, createTeam, joinTeam, leaveTeam } = require('../controllers/teamController');
+const { protect } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.use(protect);
+
+router.get('/mine', getMyTeam);
+router.post('/', createTeam);
+router.post('/join', joinTeam);
+router.post('/leave', leaveTeam);
+
+module.exports = router;
@@ -1,30 +1,20 @@
 /**
- * Treasure Routes — public and protected endpoints for campus treasures.
- * GET routes are public (everyone can see the map).
- * POST, PUT, DELETE require authentication.
+ * Treasure Routes — public endpoints for campus treasures.
+ * Everyone can see the map; a token is optional and only used to reveal hidden
+ * chain treasures the player has earned. Treasures are created, edited and deleted
+ * through the admin routes (/api/admin/treasures), which check and audit every change.
  */
 
 const express = require('express');
 const {
     getTreasures,
-    getTreasure,
-    createTreasure,
-    updateTreasure,
-    deleteTreasure
+    getTreasure
 } = require('../controllers/treasureController');
-const { protect } = require('../middleware/auth');
+const { optionalAuth } = require('../middleware/auth');
 
 const router = express.Router();
 
-// GET is public, POST requires auth
-router.route('/')
-    .get(getTreasures)
-    .post(protect, createTreasure);
-
-// GET by ID is public, PUT and DELETE require auth
-router.route('/:id')
-    .get(getTreasure)
-    .put(protect, updateTreasure)
-    .delete(protect, deleteTreasure);
+router.get('/', optionalAuth, getTreasures);
+router.get('/:id', optionalAuth, getTreasure);
 
 module.exports = router;
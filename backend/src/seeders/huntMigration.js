@@ -0,0 +1,58 @@
+require('dotenv').config({ path: require('path').join(__dirname, '../../.env') });
+const mongoose = require('mongoose');
+const Hunt = require('../models/Hunt');
+const Treasure = require('../models/Treasure');
+const UserProgress = require('../models/UserProgress');
+
+/**
+ * One-off migration for databases created before hunts existed.
+ * Moves every treasure and progress record that has no hunt into a single
+ * "Campus Explorer" hunt, and swaps the old one-progress-per-user index for
+ * the new one-per-user-per-hunt index. Safe to run more than once.
+ * Usage: node backend/src/seeders/huntMigration.js
+ */
+const migrateToHunts = async () => {
+    try {
+        await mongoose.connect(process.env.MONGO_URI);
+        console.log('MongoDB Connected...');
+
+        const orphanTreasures = await Treasure.countDocuments({ hunt: { $exists: false } });
+        const orphanProgress = await UserProgress.countDocuments({ hunt: { $exists: false } });
+
+        if (orphanTreasures === 0 && orphanProgress === 0) {
+            console.log('Nothing to migrate — every treasure and progress record already has a hunt');
+        } else {
+            // Reuse the legacy hunt if a previous run already created it
+            let hunt = await Hunt.findOne({ name: 'Campus Explorer' });
+            if (!hunt) {
+                hunt = await Hunt.create({
+                    name: 'Campus Explorer',
+                    description: 'Treasures from before hunts were introduced.',
+                    startsAt: new Date(),
+                    endsAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)
+                });
+                console.log(`Hunt "${hunt.name}" created`);
+            }
+
+            const treasures = await Treasure.updateMany({ hunt: { $exists: false } }, { $set: { hunt: hunt._id } });
+            const progress = await UserProgress.updateMany({ hunt: { $exists: false } }, { $set: { hunt: hunt._id } });
+            console.log(`${treasures.modifiedCount} treasures and ${progress.modifiedCount} progress records moved into "${hunt.name}"`);
+        }
+
+        // The old unique index on `user` alone would stop players joining a second hunt
+        const indexes = await UserProgress.collection.indexes();
+        if (indexes.some(index => index.name === 'user_1')) {
+            await UserProgress.collection.dropIndex('user_1');
+            console.log('Dropped old user_1 index on userprogresses');
+        }
+        await UserProgress.syncIndexes();
+        console.log('Progress indexes up to date');
+
+        process.exit(0);
+    } catch (error) {
+        console.error('Error migrating to hunts:', error.message);
+        process.exit(1);
+    }
+};
+
+migrateToHunts();
@@ -1,6 +1,13 @@
 require('dotenv').config({ path: require('path').join(__dirname, '../../.env') });
 const mongoose = require('mongoose');
 const Treasure = require('../models/Treasure');
+const Hunt = require('../models/Hunt');
+const UserProgress = require('../models/UserProgress');
+const UnlockEvent = require('../models/UnlockEvent');
+const TreasureView = require('../models/TreasureView');
+const LocationPing = require('../models/LocationPing');
+const Badge = require('../models/Badge');
+const { removePhotoSubmissions } = require('../controllers/photoController');
 
 /**
  * Seed data — the initial set of campus treasure locations.
@@ -55,22 +62,64 @@ const treasures = [
     }
 ];
 
+/**
+ * The hunt the seed treasures belong to — opens now and runs for a year.
+ */
+const defaultHunt = {
+    name: 'Campus Explorer',
+    description: 'The year-round hunt around the main campus.',
+    startsAt: new Date(),
+    endsAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)
+};
+
+/**
+ * Delete hunts together with everything that hangs off them: treasures, progress
+ * (which team standings are added up from), the unlock log, treasure views, location
+ * pings, photo submissions (with their image files) and hunt-only badges.
+ * @param {Array} [huntIds] - The hunts to remove; leave out to remove every hunt
+ */
+const removeHunts = async (huntIds) => {
+    const scope = huntIds ? { hunt: { $in: huntIds } } : {};
+
+    await UserProgress.deleteMany(scope);
+    await UnlockEvent.deleteMany(scope);
+    await TreasureView.deleteMany(scope);
+    await LocationPing.deleteMany(scope);
+    await removePhotoSubmissions(scope);
+    await Badge.deleteMany(huntIds ? scope : { hunt: { $ne: null } });
+    await Treasure.deleteMany(scope);
+    await Hunt.deleteMany(huntIds ? { _id: { $in: huntIds } } : {});
+};
+
 /**
  * Run the seeder script.
- * Connects to MongoDB, wipes existing treasures (fresh start), and inserts the seed data.
- * Usage: node backend/src/seeders/treasureSeeder.js
+ * Connects to MongoDB, replaces the hunt a previous run seeded (and its treasures and
+ * progress) with a fresh one, and inserts the seed data into it. Other hunts are left alone.
+ * Pass --reset to wipe every hunt and all play data first, for a completely fresh start.
+ * Usage: node backend/src/seeders/treasureSeeder.js [--reset]
  */
 const seedTreasures = async () => {
     try {
         await mongoose.connect(process.env.MONGO_URI);
         console.log('MongoDB Connected...');
 
-        // Clear existing treasures
-        await Treasure.deleteMany();
-        console.log('Existing treasures cleared');
+        if (process.argv.includes('--reset')) {
+            await removeHunts();
+            console.log('Every hunt, treasure, progress record, unlock, view, ping and photo cleared');
+        } else {
+            // Matched on description too, so the hunt huntMigration.js creates with the same name is kept
+            const seeded = await Hunt.find({ name: defaultHunt.name, description: defaultHunt.description }).select('_id');
+            if (seeded.length > 0) {
+                await removeHunts(seeded.map(hunt => hunt._id));
+                console.log(`Previously seeded hunt "${defaultHunt.name}" replaced`);
+            }
+        }
+
+        const hunt = await Hunt.create(defaultHunt);
+        console.log(`Hunt "${hunt.name}" created`);
 
         // Insert new treasures
-        const createdTreasures = await Treasure.insertMany(treasures);
+        const createdTreasures = await Treasure.insertMany(treasures.map(t => ({ ...t, hunt: hunt._id })));
         console.log(`${createdTreasures.length} treasures seeded successfully!`);
 
         console.log('\nSeeded Treasures:');
@@ -0,0 +1,71 @@
+/**
+ * Audit trail helpers — every admin endpoint that changes something calls
+ * recordAudit with what it touched, so there's always a record of who did what.
+ */
+
+const AuditLog = require('../models/AuditLog');
+
+/** Fields that are never worth (or never safe) putting in the audit trail */
+const IGNORED_FIELDS = ['_id', '__v', 'id', 'password', 'createdAt', 'updatedAt', 'qrPayload', 'manualCode'];
+
+/**
+ * Turn a document (or plain object) into something that can be compared and stored.
+ * @param   {Object|null} value - A mongoose document, plain object or nothing
+ * @returns {Object} A plain copy ({} for nothing)
+ */
+const toPlain = (value) => {
+    if (!value) return {};
+    const plain = typeof value.toObject === 'function' ? value.toObject({ virtuals: false }) : value;
+    return JSON.parse(JSON.stringify(plain));
+};
+
+/**
+ * List the fields that differ between two versions of something.
+ * Nested values (a quiz, a badge rule) are compared and stored whole.
+ * @param   {Object|null} before - The old version (null for something just created)
+ * @param   {Object|null} after  - The new version (null for something just deleted)
+ * @returns {Array} [{ field, before, after }] for each changed field
+ */
+const diffChanges = (before, after) => {
+    const oldValues = toPlain(before);
+    const newValues = toPlain(after);
+    const fields = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+
+    return [...fields]
+        .filter(field => !IGNORED_FIELDS.includes(field))
+        .filter(field => JSON.stringify(oldValues[field]) !== JSON.stringify(newValues[field]))
+        .map(field => ({ field, before: oldValues[field], after: newValues[field] }));
+};
+
+/**
+ * Record an admin change in the audit trail.
+ * A failure to write the entry is logged rather than thrown — the change itself has
+ * already been made, and the admin should still get a truthful response about it.
+ * @param {Object} req                 - Express request (req.user is the admin)
+ * @param {Object} entry
+ * @param {string} entry.action        - One of AuditLog.ACTIONS, e.g. 'treasure.update'
+ * @param {string} entry.targetType    - 'user', 'hunt', 'treasure', 'badge', 'photo', 'settings' or 'progress'
+ * @param {Object} [entry.target]      - The document changed (for its id), if there is one
+ * @param {string} [entry.targetLabel] - What it's called (defaults to its name or username)
+ * @param {Object} [entry.before]      - The document before the change (omit for creates)
+ * @param {Object} [entry.after]       - The document after the change (omit for deletes)
+ * @param {Object} [entry.details]     - Anything else worth keeping
+ */
+const recordAudit = async (req, { action, targetType, target, targetLabel, before, after, details }) => {
+    try {
+        await AuditLog.create({
+            actor: req.user._id,
+            actorName: req.user.username,
+            action,
+            targetType,
+            targetId: target ? target._id : undefined,
+            targetLabel: targetLabel || (target && (target.name || target.username)),
+            changes: diffChanges(before, after),
+            details
+        });
+    } catch (err) {
+        console.error(`Failed to record audit entry for ${action}:`, err.message);
+    }
+};
+
+module.exports = { recordAudit, diffChanges };
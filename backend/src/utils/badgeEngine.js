@@ -0,0 +1,236 @@
+/**
+ * Badge engine — checks players against the declarative rules stored on Badge
+ * documents. One evaluator serves every caller: unlocks award badges through
+ * UserProgress.checkBadges, and anything that needs to know "would this player
+ * qualify?" can use the same rule matching.
+ */
+
+const Badge = require('../models/Badge');
+const Treasure = require('../models/Treasure');
+const UnlockEvent = require('../models/UnlockEvent');
+
+const TREASURE_CATEGORIES = ['academic', 'social', 'sports', 'history'];
+
+/** Rule types that need the hunt's treasure list to be checked */
+const TREASURE_RULES = ['category', 'complete'];
+
+/** Rule types that need to know when each treasure was found */
+const TIMED_RULES = ['time', 'streak'];
+
+/**
+ * Turn a moment into a whole day number (server local time), so consecutive days differ by one.
+ * @param   {Date} date
+ * @returns {number}
+ */
+const dayNumber = (date) => Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000);
+
+/**
+ * Load the hunt's treasures for the treasure rules: live ones, plus archived ones so
+ * finds made before a treasure was retired still count. Drafts and treasures that
+ * haven't been published yet are left out.
+ * @param   {string} huntId - The hunt's MongoDB ObjectId
+ * @returns {Array} Lean treasures with their category and status
+ */
+const loadRuleTreasures = (huntId) => Treasure.find({
+    hunt: huntId,
+    $or: [Treasure.liveFilter(), { status: 'archived' }]
+}).select('category status').lean();
+
+/**
+ * Gather what the rules need to know about one player's progress.
+ * Only loads the treasure list and unlock times if some rule needs them.
+ * @param   {Object} progress  - The UserProgress document
+ * @param   {Array}  rules     - The rules about to be checked
+ * @param   {Object} [options]
+ * @param   {Date}   [options.justUnlockedAt] - An unlock that isn't in the event log yet (the one being awarded now)
+ * @param   {Array}  [options.treasures]      - From loadRuleTreasures, if the caller already has them
+ * @returns {Object} { unlockedIds, treasures, unlockTimes } for meetsRule
+ */
+const loadBadgeContext = async (progress, rules, { justUnlockedAt, treasures } = {}) => {
+    const context = {
+        unlockedIds: new Set(progress.unlockedTreasures.map(id => String(id._id || id))),
+        treasures: [],
+        unlockTimes: []
+    };
+
+    if (rules.some(rule => TREASURE_RULES.includes(rule.type))) {
+        context.treasures = treasures || await loadRuleTreasures(progress.hunt);
+    }
+
+    if (rules.some(rule => TIMED_RULES.includes(rule.type))) {
+        // When the finds really happened — an offline scan synced later still counts at its scan time
+        const events = await UnlockEvent.find({ user: progress.user._id || progress.user, hunt: progress.hunt })
+            .select('scannedAt')
+            .sort({ scannedAt: 1 })
+            .lean();
+        context.unlockTimes = events.map(event => event.scannedAt);
+        if (justUnlockedAt) {
+            context.unlockTimes.push(justUnlockedAt);
+            context.unlockTimes.sort((a, b) => a - b);
+        }
+    }
+
+    return context;
+};
+
+/**
+ * Check one badge rule against a player's context.
+ * @param   {Object} rule    - The badge's rule ({ type, threshold, category, treasures, windowMinutes, days })
+ * @param   {Object} context - From loadBadgeContext
+ * @returns {boolean} True if the player qualifies
+ */
+const meetsRule = (rule, { unlockedIds, treasures, unlockTimes }) => {
+    switch (rule.type) {
+        case 'count':
+            return unlockedIds.size >= rule.threshold;
+
+        case 'category':
+            return treasures.filter(t => t.category === rule.category && unlockedIds.has(String(t._id))).length >= rule.threshold;
+
+        case 'complete': {
+            // Retired treasures can't be found any more, so they aren't needed to complete the hunt
+            const inPlay = treasures.filter(t => t.status !== 'archived');
+            const required = rule.category ? inPlay.filter(t => t.category === rule.category) : inPlay;
+            return required.length > 0 && required.every(t => unlockedIds.has(String(t._id)));
+        }
+
+        case 'treasures':
+            return rule.treasures.length > 0 && rule.treasures.every(id => unlockedIds.has(String(id)));
+
+        case 'time': {
+            // Slide a window over the unlock times looking for `threshold` finds inside it
+            const windowMs = rule.windowMinutes * 60 * 1000;
+            let start = 0;
+            for (let end = 0; end < unlockTimes.length; end++) {
+                while (unlockTimes[end] - unlockTimes[start] > windowMs) start++;
+                if (end - start + 1 >= rule.threshold) return true;
+            }
+            return false;
+        }
+
+        case 'streak': {
+            const days = [...new Set(unlockTimes.map(dayNumber))].sort((a, b) => a - b);
+            let run = 0;
+            for (let i = 0; i < days.length; i++) {
+                run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+                if (run >= rule.days) return true;
+            }
+            return false;
+        }
+
+        default:
+            return false;
+    }
+};
+
+/**
+ * Award every badge the player now qualifies for in their hunt.
+ * Pushes the new keys onto progress.badges — the caller saves the document.
+ * @param   {Object} progress - The UserProgress document
+ * @param   {Object} [options]
+ * @param   {Date}   [options.justUnlockedAt] - When the unlock being awarded right now happened
+ * @returns {string[]} The keys of the badges that were just earned
+ */
+const evaluateBadges = async (progress, { justUnlockedAt } = {}) => {
+    const badges = (await Badge.findForHunt(progress.hunt)).filter(badge => !progress.badges.includes(badge.key));
+    if (badges.length === 0) return [];
+
+    const context = await loadBadgeContext(progress, badges.map(badge => badge.rule), { justUnlockedAt });
+    const earned = badges.filter(badge => meetsRule(badge.rule, context)).map(badge => badge.key);
+
+    progress.badges.push(...earned);
+    return earned;
+};
+
+/**
+ * Find every player who meets a rule right now — for previewing a badge and awarding it after the fact.
+ * Walks the progress records with a cursor and loads each hunt's treasure list once.
+ * @param   {Object}      rule   - The badge rule to check
+ * @param   {string|null} huntId - Only check progress in this hunt (null checks every hunt)
+ * @returns {Object} { qualifying: [progress documents], total: number of progress records checked }
+ */
+const findQualifyingProgress = async (rule, huntId) => {
+    // Required here rather than at the top — UserProgress itself requires this module
+    const UserProgress = require('../models/UserProgress');
+
+    const treasuresByHunt = new Map();
+    const qualifying = [];
+    let total = 0;
+
+    for await (const progress of UserProgress.find(huntId ? { hunt: huntId } : {}).select('user hunt unlockedTreasures badges').cursor()) {
+        total++;
+        const huntKey = String(progress.hunt);
+        if (TREASURE_RULES.includes(rule.type) && !treasuresByHunt.has(huntKey)) {
+            treasuresByHunt.set(huntKey, await loadRuleTreasures(progress.hunt));
+        }
+
+        const context = await loadBadgeContext(progress, [rule], { treasures: treasuresByHunt.get(huntKey) });
+        if (meetsRule(rule, context)) qualifying.push(progress);
+    }
+
+    return { qualifying, total };
+};
+
+/**
+ * Keep only the fields a rule type uses, with numbers as numbers.
+ * @param   {Object} rule - The rule from the request body
+ * @returns {Object} The tidied rule
+ */
+const cleanBadgeRule = (rule = {}) => {
+    const toInt = (value) => (value === undefined || value === null || value === '' ? undefined : Number(value));
+    switch (rule.type) {
+        case 'count':
+            return { type: rule.type, threshold: toInt(rule.threshold) };
+        case 'category':
+            return { type: rule.type, category: rule.category, threshold: toInt(rule.threshold) };
+        case 'complete':
+            return { type: rule.type, category: rule.category || undefined };
+        case 'treasures':
+            return { type: rule.type, treasures: rule.treasures };
+        case 'time':
+            return { type: rule.type, threshold: toInt(rule.threshold), windowMinutes: toInt(rule.windowMinutes) };
+        case 'streak':
+            return { type: rule.type, days: toInt(rule.days) };
+        default:
+            return { type: rule.type };
+    }
+};
+
+/**
+ * Check a badge rule makes sense before it's saved.
+ * @param   {Object} rule - The rule from the request body
+ * @returns {string|null} What's wrong with it, or null if it's fine
+ */
+const findBadgeRuleProblem = (rule) => {
+    if (!rule || !rule.type) return 'Please choose a rule type';
+
+    const isPositiveInt = (value, min = 1) => Number.isInteger(value) && value >= min;
+
+    switch (rule.type) {
+        case 'count':
+            return isPositiveInt(rule.threshold) ? null : 'How many treasures must be found? (at least 1)';
+        case 'category':
+            if (!TREASURE_CATEGORIES.includes(rule.category)) return 'Please choose a category';
+            return isPositiveInt(rule.threshold) ? null : 'How many treasures in the category must be found? (at least 1)';
+        case 'complete':
+            return !rule.category || TREASURE_CATEGORIES.includes(rule.category) ? null : 'That category does not exist';
+        case 'treasures':
+            return Array.isArray(rule.treasures) && rule.treasures.length > 0 ? null : 'Pick at least one treasure';
+        case 'time':
+            if (!isPositiveInt(rule.threshold, 2)) return 'A time challenge needs at least 2 treasures';
+            return isPositiveInt(rule.windowMinutes) ? null : 'How many minutes do players have? (at least 1)';
+        case 'streak':
+            return isPositiveInt(rule.days, 2) ? null : 'A streak needs at least 2 days';
+        default:
+            return 'Unknown rule type';
+    }
+};
+
+module.exports = {
+    loadBadgeContext,
+    meetsRule,
+    evaluateBadges,
+    findQualifyingProgress,
+    cleanBadgeRule,
+    findBadgeRuleProblem
+};
@@ -0,0 +1,104 @@
+/**
+ * Exporter — streams query results to the client as a CSV or JSON download.
+ * Rows are written one at a time straight from a MongoDB cursor, so exporting a
+ * whole season's unlocks never holds more than one document in memory.
+ */
+
+const { once } = require('events');
+
+/** Formats the export endpoints can produce */
+const EXPORT_FORMATS = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8'
+};
+
+/**
+ * Quote a value for a CSV cell.
+ * Cells starting with =, +, -, @, a tab or a carriage return get a leading apostrophe
+ * so spreadsheets don't run a player's feedback message as a formula.
+ * @param   {*} value
+ * @returns {string}
+ */
+const csvCell = (value) => {
+    if (value === undefined || value === null) return '';
+    let text = value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join('; ') : String(value);
+    if (/^[=+\-@\t\r]/.test(text) && typeof value !== 'number') text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write a chunk, waiting for the socket to drain if its buffer is full.
+ * Throws if the client disconnects while we wait, so the export stops instead of hanging.
+ * @param {Object} res   - Express response
+ * @param {string} chunk
+ */
+const write = async (res, chunk) => {
+    if (res.destroyed) throw new Error('Client disconnected');
+    if (res.write(chunk)) return;
+
+    // Whichever event loses the race stops listening when the signal is aborted
+    const done = new AbortController();
+    try {
+        await Promise.race([
+            once(res, 'drain', { signal: done.signal }),
+            once(res, 'close', { signal: done.signal }).then(() => {
+                throw new Error('Client disconnected');
+            })
+        ]);
+    } finally {
+        done.abort();
+    }
+};
+
+/**
+ * Stream rows to the client as a file download.
+ * @param {Object}   res                - Express response
+ * @param {Object}   options
+ * @param {string}   options.format     - 'csv' or 'json'
+ * @param {string}   options.filename   - Download name without the extension
+ * @param {Array}    options.columns    - [{ key, header, value(doc) }] — the fields of each row, in order
+ * @param {Object}   options.cursor     - Anything async-iterable (a Mongoose query or aggregate cursor)
+ */
+const streamExport = async (res, { format, filename, columns, cursor }) => {
+    res.status(200);
+    res.set('Content-Type', EXPORT_FORMATS[format]);
+    res.set('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+
+    // Stop reading from the database as soon as the client goes away
+    res.once('close', () => {
+        if (!res.writableFinished && typeof cursor.close === 'function') {
+            Promise.resolve(cursor.close()).catch(() => {});
+        }
+    });
+
+    try {
+        if (format === 'csv') {
+            // Byte order mark so Excel opens accented names correctly
+            await write(res, `\uFEFF${columns.map(column => csvCell(column.header)).join(',')}\r\n`);
+        } else {
+            await write(res, '[');
+        }
+
+        let first = true;
+        for await (const doc of cursor) {
+            if (format === 'csv') {
+                await write(res, `${columns.map(column => csvCell(column.value(doc))).join(',')}\r\n`);
+            } else {
+                const row = Object.fromEntries(columns.map(column => [column.key, column.value(doc) ?? null]));
+                await write(res, `${first ? '' : ','}\n${JSON.stringify(row)}`);
+            }
+            first = false;
+        }
+
+        if (format === 'json') await write(res, '\n]\n');
+        res.end();
+    } catch (err) {
+        // A client that gave up on the download isn't an error worth logging
+        if (res.destroyed) return;
+        // The headers are already sent, so the best we can do is cut the download short
+        console.error(`Export ${filename} failed:`, err);
+        res.destroy(err);
+    }
+};
+
+module.exports = { streamExport, csvCell, EXPORT_FORMATS };
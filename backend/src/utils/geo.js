@@ -0,0 +1,50 @@
+/**
+ * Geo helpers — distance maths shared by the controllers that need to
+ * reason about where a player is standing.
+ */
+
+/** Mean Earth radius in meters */
+const EARTH_RADIUS = 6371e3;
+
+/**
+ * Calculate the distance between two GPS coordinates using the Haversine formula.
+ * Mirrors the calculation the frontend uses so both sides agree on "how far".
+ * @param   {number} lat1 - Latitude of point A
+ * @param   {number} lon1 - Longitude of point A
+ * @param   {number} lat2 - Latitude of point B
+ * @param   {number} lon2 - Longitude of point B
+ * @returns {number} Distance in meters
+ */
+const haversineDistance = (lat1, lon1, lat2, lon2) => {
+    const φ1 = lat1 * Math.PI / 180;
+    const φ2 = lat2 * Math.PI / 180;
+    const Δφ = (lat2 - lat1) * Math.PI / 180;
+    const Δλ = (lon2 - lon1) * Math.PI / 180;
+    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+        Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+    return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Pull a player's reported position out of a request body and sanity-check it.
+ * Returns null if the coordinates are missing or not real numbers.
+ * @param   {Object} body - The request body ({ latitude, longitude, accuracy })
+ * @returns {{ latitude: number, longitude: number, accuracy: number } | null}
+ */
+const parseLocation = (body = {}) => {
+    const latitude = Number(body.latitude);
+    const longitude = Number(body.longitude);
+    const accuracy = Number(body.accuracy);
+
+    if (body.latitude == null || body.longitude == null) return null;
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+    return {
+        latitude,
+        longitude,
+        accuracy: Number.isFinite(accuracy) && accuracy >= 0 ? accuracy : Infinity
+    };
+};
+
+module.exports = { haversineDistance, parseLocation };
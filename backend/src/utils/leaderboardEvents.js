@@ -0,0 +1,50 @@
+/**
+ * Leaderboard events — a small in-process pub/sub that tells open leaderboard
+ * streams when a hunt's scores have changed. Bursts of unlocks are collapsed
+ * into a single notification so each stream only re-ranks once per burst.
+ * Only streams served by this same process hear about changes.
+ */
+
+const { EventEmitter } = require('events');
+
+/** How long (in ms) to wait for more score changes before telling listeners */
+const NOTIFY_DELAY_MS = 250;
+
+const emitter = new EventEmitter();
+
+// Every open stream adds a listener, so there's no sensible cap
+emitter.setMaxListeners(0);
+
+/** Pending notification timers, keyed by hunt id */
+const pending = new Map();
+
+/**
+ * Announce that scores in a hunt have changed (a treasure was unlocked or a photo approved).
+ * @param {ObjectId|string} huntId - The hunt whose leaderboard moved
+ */
+const notifyLeaderboardChanged = (huntId) => {
+    const key = String(huntId);
+    if (pending.has(key)) return;
+
+    pending.set(key, setTimeout(() => {
+        pending.delete(key);
+        emitter.emit('change', key);
+    }, NOTIFY_DELAY_MS));
+};
+
+/**
+ * Listen for score changes in one hunt, or in every hunt.
+ * @param   {ObjectId|string|null} huntId   - The hunt to watch (null for all of them)
+ * @param   {Function}             listener - Called with no arguments after each change
+ * @returns {Function} Call to stop listening
+ */
+const onLeaderboardChange = (huntId, listener) => {
+    const key = huntId ? String(huntId) : null;
+    const handler = (changedHunt) => {
+        if (!key || changedHunt === key) listener();
+    };
+    emitter.on('change', handler);
+    return () => emitter.off('change', handler);
+};
+
+module.exports = { notifyLeaderboardChanged, onLeaderboardChange };
@@ -0,0 +1,61 @@
+/**
+ * Level curve — the one place that decides how much XP each level takes and what
+ * it's called. Progress records store the resulting level, and API responses carry
+ * the XP into and to the next level so the frontend never re-derives the curve.
+ *
+ * Level 1 → 2 costs LEVEL_BASE_XP, and each level after that costs LEVEL_GROWTH
+ * times the one before (1 keeps every level the same size; 1.2 makes each one 20% longer).
+ */
+
+/** XP needed to go from level 1 to level 2 */
+const LEVEL_BASE_XP = Math.max(1, parseInt(process.env.LEVEL_BASE_XP || '200'));
+
+/** How much longer each level is than the last (never below 1, so levels don't shrink) */
+const LEVEL_GROWTH = Math.max(1, parseFloat(process.env.LEVEL_GROWTH || '1'));
+
+/** Title shown from each level upwards (ordered by level) */
+const LEVEL_TITLES = [
+    { from: 1, title: 'Fresher' },
+    { from: 3, title: 'Explorer' },
+    { from: 5, title: 'Pathfinder' },
+    { from: 8, title: 'Trailblazer' },
+    { from: 12, title: 'Campus Legend' }
+];
+
+/**
+ * XP it takes to get from a level to the next one.
+ * @param   {number} level - The level being played (1 and up)
+ * @returns {number}
+ */
+const xpForLevel = (level) => Math.round(LEVEL_BASE_XP * Math.pow(LEVEL_GROWTH, level - 1));
+
+/**
+ * The title for a level.
+ * @param   {number} level
+ * @returns {string}
+ */
+const titleForLevel = (level) => LEVEL_TITLES.filter(entry => entry.from <= level).pop().title;
+
+/**
+ * Work out where a points total sits on the level curve.
+ * @param   {number} totalPoints - The player's XP
+ * @returns {Object} { level, title, xpIntoLevel, xpForLevel, xpToNextLevel }
+ */
+const getLevelInfo = (totalPoints) => {
+    let level = 1;
+    let xpIntoLevel = Math.max(0, totalPoints || 0);
+    while (xpIntoLevel >= xpForLevel(level)) {
+        xpIntoLevel -= xpForLevel(level);
+        level++;
+    }
+
+    return {
+        level,
+        title: titleForLevel(level),
+        xpIntoLevel,
+        xpForLevel: xpForLevel(level),
+        xpToNextLevel: xpForLevel(level) - xpIntoLevel
+    };
+};
+
+module.exports = { getLevelInfo, xpForLevel, titleForLevel, LEVEL_TITLES };
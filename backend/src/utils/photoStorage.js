@@ -0,0 +1,136 @@
+/**
+ * Photo Storage — where photo challenge uploads are kept.
+ * Every backend implements the same three calls (save, read, remove) and works
+ * with opaque storage keys, so a cloud bucket can be plugged in later without
+ * touching the controllers. The default backend keeps images in MongoDB, which works
+ * on serverless deploys too; the local-disk one suits a single long-running server.
+ */
+
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const PhotoImage = require('../models/PhotoImage');
+
+/**
+ * Largest photo we accept, in bytes (after decoding). Uploads arrive base64 encoded,
+ * a third bigger, and must stay under the 6MB request cap of serverless hosts.
+ */
+const MAX_PHOTO_BYTES = parseInt(process.env.PHOTO_MAX_BYTES || String(3 * 1024 * 1024));
+
+/** Image types players can upload, keyed by MIME type, with the magic bytes that identify them */
+const IMAGE_TYPES = {
+    'image/jpeg': { extension: 'jpg', matches: (buf) => buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff },
+    'image/png': { extension: 'png', matches: (buf) => buf.subarray(0, 4).toString('hex') === '89504e47' },
+    'image/webp': { extension: 'webp', matches: (buf) => buf.subarray(0, 4).toString() === 'RIFF' && buf.subarray(8, 12).toString() === 'WEBP' }
+};
+
+/**
+ * Local-disk backend — stores each photo as a file in one directory.
+ * @param   {string} rootDir - Directory to keep photos in (created on first save)
+ * @returns {Object} A storage backend
+ */
+const createLocalStorage = (rootDir) => {
+    // Keys are generated by us, but never let one escape the photo directory
+    const resolveKey = (key) => path.join(rootDir, path.basename(key));
+
+    return {
+        name: 'local',
+
+        async save(buffer, extension) {
+            const key = `${Date.now()}-${crypto.randomBytes(8).toString('hex')}.${extension}`;
+            await fs.mkdir(rootDir, { recursive: true });
+            await fs.writeFile(resolveKey(key), buffer);
+            return key;
+        },
+
+        async read(key) {
+            return fs.readFile(resolveKey(key));
+        },
+
+        async remove(key) {
+            try {
+                await fs.unlink(resolveKey(key));
+            } catch (err) {
+                // Already gone is fine — removal is best-effort cleanup
+                if (err.code !== 'ENOENT') throw err;
+            }
+        }
+    };
+};
+
+/**
+ * MongoDB backend — stores each photo as a PhotoImage document, keyed by its id.
+ * Nothing is written to disk, so photos survive serverless functions being recycled.
+ * @returns {Object} A storage backend
+ */
+const createMongoStorage = () => ({
+    name: 'mongo',
+
+    async save(buffer) {
+        const image = await PhotoImage.create({ data: buffer });
+        return String(image._id);
+    },
+
+    async read(key) {
+        const image = await PhotoImage.findById(key);
+        if (!image) throw new Error(`Photo ${key} not found`);
+        return image.data;
+    },
+
+    async remove(key) {
+        // Already gone is fine — removal is best-effort cleanup
+        await PhotoImage.deleteOne({ _id: key });
+    }
+});
+
+/** Available backends, picked with the PHOTO_STORAGE env var */
+const backends = {
+    mongo: createMongoStorage,
+    local: () => createLocalStorage(process.env.PHOTO_UPLOAD_DIR || path.join(__dirname, '../../uploads/photos'))
+};
+
+let activeStorage = null;
+
+/**
+ * Get the configured storage backend (created once, on first use).
+ * @returns {Object} The backend, with save(buffer, extension), read(key) and remove(key)
+ * @throws  {Error}  If PHOTO_STORAGE names a backend that hasn't been registered
+ */
+const getPhotoStorage = () => {
+    if (!activeStorage) {
+        const name = process.env.PHOTO_STORAGE || 'mongo';
+        if (!backends[name]) {
+            throw new Error(`Unknown PHOTO_STORAGE backend "${name}"`);
+        }
+        activeStorage = backends[name]();
+    }
+    return activeStorage;
+};
+
+/**
+ * Add another storage backend (e.g. a cloud bucket) that PHOTO_STORAGE can select.
+ * @param {string}   name    - The value of PHOTO_STORAGE that selects it
+ * @param {Function} factory - Returns an object with save, read and remove
+ */
+const registerPhotoStorage = (name, factory) => {
+    backends[name] = factory;
+    activeStorage = null;
+};
+
+/**
+ * Decode a base64 image data URL from the client and check it really is an image we accept.
+ * @param   {string} dataUrl - e.g. "data:image/jpeg;base64,/9j/4AAQ..."
+ * @returns {Object|null} { buffer, mimeType, extension }, or null if it isn't a valid, small enough image
+ */
+const parseImageDataUrl = (dataUrl) => {
+    const match = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/=]+)$/.exec(String(dataUrl || ''));
+    if (!match || !IMAGE_TYPES[match[1]]) return null;
+
+    const buffer = Buffer.from(match[2], 'base64');
+    const type = IMAGE_TYPES[match[1]];
+    if (buffer.length === 0 || buffer.length > MAX_PHOTO_BYTES || !type.matches(buffer)) return null;
+
+    return { buffer, mimeType: match[1], extension: type.extension };
+};
+
+module.exports = { getPhotoStorage, registerPhotoStorage, parseImageDataUrl, MAX_PHOTO_BYTES };
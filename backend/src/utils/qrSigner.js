@@ -0,0 +1,141 @@
+const crypto = require('crypto');
+
+/**
+ * QR Signer — builds and verifies the payloads printed on treasure QR stickers,
+ * plus the short manual fallback code printed underneath them.
+ *
+ * Payload format: "geohunt:<treasureId>:<version>:<signature>"
+ *   - version   → the treasure's qrVersion; bumping it invalidates old stickers
+ *   - signature → HMAC-SHA256 of "<treasureId>.<version>" with the server's QR secret
+ *
+ * Knowing a treasure's ObjectId is no longer enough to forge a working code.
+ * The manual code is derived from the same secret and version, so rotating a
+ * treasure's QR code retires its manual code too.
+ */
+
+const PREFIX = 'geohunt';
+
+/** Length of the (base64url) signature we keep — 128 bits is plenty for a sticker */
+const SIGNATURE_LENGTH = 22;
+
+/** Characters used in manual codes — no 0/O or 1/I so they're easy to read off a sticker */
+const MANUAL_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** Number of characters in a manual code (32^6 ≈ 1 billion combinations) */
+const MANUAL_CODE_LENGTH = 6;
+
+/** Secret used to sign QR payloads — falls back to the JWT secret if not set */
+const getSecret = () => {
+    const secret = process.env.QR_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('QR_SECRET (or JWT_SECRET) must be set to sign QR codes');
+    }
+    return secret;
+};
+
+/**
+ * Compute the signature for a treasure ID + version pair.
+ * @param   {string} treasureId - The treasure's MongoDB ObjectId
+ * @param   {number} version    - The treasure's current qrVersion
+ * @returns {string} Truncated base64url HMAC
+ */
+const sign = (treasureId, version) => {
+    return crypto
+        .createHmac('sha256', getSecret())
+        .update(`${treasureId}.${version}`)
+        .digest('base64url')
+        .slice(0, SIGNATURE_LENGTH);
+};
+
+/**
+ * Build the full QR payload for a treasure.
+ * @param   {Object} treasure - A treasure document (needs _id and qrVersion)
+ * @returns {string} The string to encode in the printed QR code
+ */
+const buildQrPayload = (treasure) => {
+    const id = treasure._id.toString();
+    const version = treasure.qrVersion || 1;
+    return `${PREFIX}:${id}:${version}:${sign(id, version)}`;
+};
+
+/**
+ * Split a scanned payload into its parts.
+ * @param   {string} payload - The raw text read from the QR code
+ * @returns {{ treasureId: string, version: number, signature: string } | null} Null if malformed
+ */
+const parseQrPayload = (payload) => {
+    if (typeof payload !== 'string') return null;
+
+    const parts = payload.trim().split(':');
+    if (parts.length !== 4 || parts[0] !== PREFIX) return null;
+
+    const [, treasureId, rawVersion, signature] = parts;
+    const version = parseInt(rawVersion, 10);
+    if (!treasureId || !Number.isInteger(version) || version < 1 || !signature) return null;
+
+    return { treasureId, version, signature };
+};
+
+/**
+ * Check a scanned payload against the treasure the player is trying to unlock.
+ * Distinguishes forged/foreign codes (QR_INVALID) from genuine stickers that
+ * were retired by a rotation (QR_EXPIRED) so the player gets a useful message.
+ * @param   {string} payload  - The raw text read from the QR code
+ * @param   {Object} treasure - The treasure document being unlocked
+ * @returns {{ valid: boolean, code?: string }}
+ */
+const verifyQrPayload = (payload, treasure) => {
+    const parsed = parseQrPayload(payload);
+    if (!parsed || parsed.treasureId !== treasure._id.toString()) {
+        return { valid: false, code: 'QR_INVALID' };
+    }
+
+    const expected = Buffer.from(sign(parsed.treasureId, parsed.version));
+    const received = Buffer.from(parsed.signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+        return { valid: false, code: 'QR_INVALID' };
+    }
+
+    if (parsed.version !== (treasure.qrVersion || 1)) {
+        return { valid: false, code: 'QR_EXPIRED' };
+    }
+
+    return { valid: true };
+};
+
+/**
+ * Build the short, human-typeable fallback code for a treasure (e.g. "K7Q-XM2").
+ * Players type this in when their camera can't read the QR sticker.
+ * @param   {Object} treasure - A treasure document (needs _id and qrVersion)
+ * @returns {string} The code formatted for printing as "XXX-XXX"
+ */
+const buildManualCode = (treasure) => {
+    const digest = crypto
+        .createHmac('sha256', getSecret())
+        .update(`manual.${treasure._id.toString()}.${treasure.qrVersion || 1}`)
+        .digest();
+
+    let code = '';
+    for (let i = 0; i < MANUAL_CODE_LENGTH; i++) {
+        code += MANUAL_CODE_ALPHABET[digest[i] % MANUAL_CODE_ALPHABET.length];
+    }
+    return `${code.slice(0, 3)}-${code.slice(3)}`;
+};
+
+/**
+ * Check a typed manual code against a treasure's current code.
+ * Case, spaces and dashes are ignored so "k7q xm2" matches "K7Q-XM2".
+ * @param   {string}  input    - What the player typed
+ * @param   {Object}  treasure - The treasure document being unlocked
+ * @returns {boolean} True if the code matches
+ */
+const verifyManualCode = (input, treasure) => {
+    if (typeof input !== 'string') return false;
+
+    const normalize = (value) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const expected = Buffer.from(normalize(buildManualCode(treasure)));
+    const received = Buffer.from(normalize(input));
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+module.exports = { buildQrPayload, parseQrPayload, verifyQrPayload, buildManualCode, verifyManualCode };
@@ -0,0 +1,68 @@
+/**
+ * Quiz helpers — checking a player's answer to a treasure's challenge question.
+ * Answers are compared loosely (case, spacing and punctuation are ignored) so
+ * "The Old Library" and "old library." both count for a free-text question.
+ */
+
+/**
+ * Reduce an answer to a comparable form.
+ * @param   {string} value - The raw answer
+ * @returns {string} Lowercased answer with punctuation and extra spaces removed
+ */
+const normalizeAnswer = (value) => String(value || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/^(the|a|an)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Whether a treasure has a quiz the player must answer to unlock it.
+ * @param   {Object} treasure - The treasure document
+ * @returns {boolean}
+ */
+const hasQuiz = (treasure) => !!(treasure.quiz && treasure.quiz.question);
+
+/**
+ * Check a player's answer against the treasure's accepted answers.
+ * The treasure must have been loaded with `+quiz.answers`.
+ * @param   {Object} treasure - The treasure document
+ * @param   {string} answer   - What the player picked or typed
+ * @returns {boolean} True if the answer matches any accepted answer
+ */
+const isCorrectAnswer = (treasure, answer) => {
+    const given = normalizeAnswer(answer);
+    if (!given) return false;
+    return (treasure.quiz.answers || []).some(accepted => normalizeAnswer(accepted) === given);
+};
+
+/**
+ * Check an admin's quiz setup before it's saved.
+ * A quiz needs at least one accepted answer, and a multiple-choice quiz's
+ * answers must be among its options (otherwise nobody could pick the right one).
+ * @param   {Object} [quiz] - The quiz from the request body
+ * @returns {string|null} A message describing the problem, or null if the quiz is fine
+ */
+const findQuizProblem = (quiz) => {
+    if (!quiz || !quiz.question) return null;
+
+    const answers = (quiz.answers || []).filter(a => normalizeAnswer(a));
+    if (answers.length === 0) {
+        return 'A quiz needs at least one accepted answer';
+    }
+
+    const options = (quiz.options || []).filter(o => normalizeAnswer(o));
+    if (options.length === 1) {
+        return 'A multiple-choice quiz needs at least two options';
+    }
+    if (options.length > 0) {
+        const optionSet = new Set(options.map(normalizeAnswer));
+        if (!answers.some(a => optionSet.has(normalizeAnswer(a)))) {
+            return 'The correct answer must be one of the options';
+        }
+    }
+
+    return null;
+};
+
+module.exports = { normalizeAnswer, hasQuiz, isCorrectAnswer, findQuizProblem };
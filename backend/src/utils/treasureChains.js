@@ -0,0 +1,66 @@
+/**
+ * Treasure chains — helpers for prerequisite trails, where one treasure
+ * stays locked (or hidden) until the player has found the ones before it.
+ */
+
+/**
+ * Work out which of a treasure's prerequisites a player still needs.
+ * @param   {Object}      treasure    - The treasure document (needs prerequisites)
+ * @param   {Iterable}    unlockedIds - IDs of the treasures the player has already found
+ * @returns {string[]}    IDs of the prerequisites not yet found (empty if the treasure is available)
+ */
+const getMissingPrerequisites = (treasure, unlockedIds) => {
+    const found = new Set(Array.from(unlockedIds || [], id => id.toString()));
+    return (treasure.prerequisites || [])
+        .map(id => id.toString())
+        .filter(id => !found.has(id));
+};
+
+/**
+ * Check that a proposed set of prerequisites makes a valid chain.
+ * Prerequisites must be other treasures in the same hunt, and following them
+ * must never lead back to the treasure itself (otherwise nobody could ever unlock it).
+ * @param   {Object}   Treasure              - The Treasure model
+ * @param   {Object}   options
+ * @param   {string}   [options.treasureId]  - The treasure being edited (omit when creating)
+ * @param   {string}   options.huntId        - The hunt the treasure will belong to
+ * @param   {string[]} options.prerequisites - The proposed prerequisite IDs
+ * @returns {string|null} A message describing the problem, or null if the chain is fine
+ */
+const findPrerequisiteProblem = async (Treasure, { treasureId, huntId, prerequisites }) => {
+    const ids = [...new Set((prerequisites || []).map(String))];
+    if (ids.length === 0) return null;
+
+    if (treasureId && ids.includes(String(treasureId))) {
+        return 'A treasure cannot be its own prerequisite';
+    }
+
+    const huntTreasures = await Treasure.find({ hunt: huntId }).select('name prerequisites');
+    const byId = new Map(huntTreasures.map(t => [t._id.toString(), t]));
+
+    const outsideHunt = ids.filter(id => !byId.has(id));
+    if (outsideHunt.length > 0) {
+        return 'Prerequisites must be treasures in the same hunt';
+    }
+
+    // New treasures can't be part of a loop yet — nothing points at them
+    if (!treasureId) return null;
+
+    // Walk the chain backwards from each proposed prerequisite; reaching the treasure again means a loop
+    const target = String(treasureId);
+    const visited = new Set();
+    const stack = [...ids];
+    while (stack.length > 0) {
+        const id = stack.pop();
+        if (id === target) {
+            return `That would create a loop — "${byId.get(target)?.name || 'this treasure'}" is already needed to reach one of its prerequisites`;
+        }
+        if (visited.has(id)) continue;
+        visited.add(id);
+        (byId.get(id)?.prerequisites || []).forEach(next => stack.push(next.toString()));
+    }
+
+    return null;
+};
+
+module.exports = { getMissingPrerequisites, findPrerequisiteProblem };
@@ -0,0 +1,116 @@
+/**
+ * Treasure GeoJSON — converts treasures to and from GeoJSON Features, so a whole
+ * hunt can be laid out in a map editor (geojson.io, QGIS, ...) and imported in one go.
+ * Each treasure is a Point feature with its fields as properties. Prerequisites are
+ * written as treasure names rather than ids, so a file still makes sense when it's
+ * imported into a different hunt or a different server.
+ */
+
+const { findQuizProblem } = require('./quiz');
+
+/** Treasure fields carried as feature properties (besides id and prerequisites) */
+const FEATURE_FIELDS = [
+    'name', 'description', 'clue', 'category', 'points', 'unlockRadius',
+    'unlockType', 'photoPrompt', 'trivia', 'prerequisiteMode', 'quiz', 'status', 'publishAt'
+];
+
+/**
+ * Turn a treasure into a GeoJSON Point feature.
+ * @param   {Object} treasure  - Treasure document (with +quiz.answers if the quiz should round-trip)
+ * @param   {Map}    namesById - Treasure names by id, for writing prerequisites by name
+ * @returns {Object} A GeoJSON Feature
+ */
+const treasureToFeature = (treasure, namesById) => {
+    const properties = { id: String(treasure._id) };
+    FEATURE_FIELDS.forEach(field => {
+        const value = field === 'quiz' && !treasure.quiz?.question ? undefined : treasure[field];
+        if (value !== undefined && value !== null && value !== '') properties[field] = value;
+    });
+    properties.prerequisites = (treasure.prerequisites || [])
+        .map(id => namesById.get(String(id)))
+        .filter(Boolean);
+
+    return {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [treasure.longitude, treasure.latitude] },
+        properties
+    };
+};
+
+/**
+ * Read one feature from an uploaded FeatureCollection.
+ * Checks the shape of the feature itself — the treasure fields are checked later
+ * against the Treasure schema, once it's known whether this is a create or an update.
+ * @param   {Object} feature - A GeoJSON Feature
+ * @returns {Object} { id, fields, prerequisites, errors } — fields are ready for the Treasure model;
+ *                    prerequisites is undefined when the feature doesn't list any
+ */
+const readFeature = (feature) => {
+    const errors = [];
+    if (!feature || feature.type !== 'Feature') {
+        return { fields: {}, prerequisites: [], errors: ['Not a GeoJSON Feature'] };
+    }
+
+    const properties = feature.properties || {};
+    const fields = {};
+    FEATURE_FIELDS.forEach(field => {
+        if (properties[field] !== undefined && properties[field] !== null) fields[field] = properties[field];
+    });
+    if (typeof fields.name === 'string') fields.name = fields.name.trim();
+
+    const { type, coordinates } = feature.geometry || {};
+    if (type !== 'Point' || !Array.isArray(coordinates)) {
+        errors.push('Geometry must be a Point');
+    } else {
+        const [longitude, latitude] = coordinates.map(Number);
+        if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+            errors.push('Coordinates must be [longitude, latitude] in degrees');
+        } else {
+            fields.latitude = latitude;
+            fields.longitude = longitude;
+        }
+    }
+
+    const quizError = findQuizProblem(fields.quiz);
+    if (quizError) errors.push(quizError);
+
+    const { prerequisites } = properties;
+    if (prerequisites !== undefined && (!Array.isArray(prerequisites) || prerequisites.some(p => typeof p !== 'string'))) {
+        errors.push('Prerequisites must be a list of treasure names');
+    }
+
+    return {
+        id: typeof properties.id === 'string' ? properties.id : undefined,
+        fields,
+        prerequisites: prerequisites === undefined
+            ? undefined
+            : Array.isArray(prerequisites) ? prerequisites.filter(p => typeof p === 'string').map(p => p.trim()) : [],
+        errors
+    };
+};
+
+/**
+ * Find which nodes of a prerequisite graph sit on a loop.
+ * @param   {Map<string, string[]>} graph - Prerequisite keys by treasure key
+ * @returns {Set<string>} Keys of every treasure that (eventually) requires itself
+ */
+const findLoopedKeys = (graph) => {
+    const looped = new Set();
+    graph.forEach((_, start) => {
+        const visited = new Set();
+        const stack = [...(graph.get(start) || [])];
+        while (stack.length > 0) {
+            const key = stack.pop();
+            if (key === start) {
+                looped.add(start);
+                return;
+            }
+            if (visited.has(key)) continue;
+            visited.add(key);
+            stack.push(...(graph.get(key) || []));
+        }
+    });
+    return looped;
+};
+
+module.exports = { treasureToFeature, readFeature, findLoopedKeys, FEATURE_FIELDS };
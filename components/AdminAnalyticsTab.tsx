@@ -0,0 +1,155 @@
+/**
+ * Admin Analytics Tab — how each treasure in a hunt is performing.
+ * Shows how many players found it, how long they searched after first reading the
+ * clue, how many gave up, and how many hints it took. Hardest treasures come first,
+ * so badly placed stickers and clues that don't work stand out.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, TrendingDown, AlertTriangle } from 'lucide-react';
+import { adminAPI, HuntFromAPI, TreasureAnalytics, TreasureAnalyticsRow } from '../services/api';
+
+/** Props for the AdminAnalyticsTab component */
+interface AdminAnalyticsTabProps {
+  hunts: HuntFromAPI[];
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+type SortKey = 'difficulty' | 'dropOff' | 'timeToFind' | 'hints';
+
+/** Ways to order the table — each puts the most worrying treasures first */
+const SORTS: { key: SortKey; label: string; compare: (a: TreasureAnalyticsRow, b: TreasureAnalyticsRow) => number }[] = [
+  { key: 'difficulty', label: 'Hardest to find', compare: (a, b) => a.discoveryRate - b.discoveryRate || b.dropOffRate - a.dropOffRate },
+  { key: 'dropOff', label: 'Most given up on', compare: (a, b) => b.dropOffRate - a.dropOffRate },
+  { key: 'timeToFind', label: 'Longest search', compare: (a, b) => (b.medianTimeToFindMs ?? -1) - (a.medianTimeToFindMs ?? -1) },
+  { key: 'hints', label: 'Most hints', compare: (a, b) => b.hintsUsed - a.hintsUsed }
+];
+
+/** Below this discovery rate (with enough players to judge) a treasure is flagged for a placement check */
+const LOW_DISCOVERY_RATE = 20;
+const MIN_PLAYERS_TO_FLAG = 5;
+
+/**
+ * Show a search time as minutes, hours or days.
+ * @param {number | null} ms - Milliseconds, or null if nobody has found it after viewing it
+ */
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '—';
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '< 1m';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Renders the per-treasure analytics table for a chosen hunt.
+ * @param {HuntFromAPI[]} hunts       - Every hunt, for the hunt picker
+ * @param {Function}      showMessage - Show an error banner in the admin panel
+ */
+export const AdminAnalyticsTab: React.FC<AdminAnalyticsTabProps> = ({ hunts, showMessage }) => {
+  const [huntId, setHuntId] = useState('');
+  const [analytics, setAnalytics] = useState<TreasureAnalytics | null>(null);
+  const [sort, setSort] = useState<SortKey>('difficulty');
+  const [loading, setLoading] = useState(true);
+
+  /** Reload whenever a different hunt is picked (empty means the current hunt) */
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    adminAPI.getTreasureAnalytics(huntId || undefined)
+      .then(response => !cancelled && setAnalytics(response.data))
+      .catch(err => !cancelled && showMessage(err.message || 'Failed to load analytics', true))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [huntId]);
+
+  const rows = analytics ? [...analytics.treasures].sort(SORTS.find(s => s.key === sort)!.compare) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="card p-4 grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Hunt</label>
+          <select value={huntId} onChange={e => setHuntId(e.target.value)} className="input">
+            <option value="">Current hunt</option>
+            {hunts.map(hunt => <option key={hunt._id} value={hunt._id}>{hunt.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Sort by</label>
+          <select value={sort} onChange={e => setSort(e.target.value as SortKey)} className="input">
+            {SORTS.map(option => <option key={option.key} value={option.key}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-[var(--duo-blue)]" />
+        </div>
+      ) : !analytics || rows.length === 0 ? (
+        <div className="card p-8 text-center">
+          <TrendingDown className="w-10 h-10 mx-auto text-[var(--duo-hare)] mb-3" />
+          <p className="text-[var(--duo-hare)] font-bold text-sm">No treasures in this hunt yet</p>
+        </div>
+      ) : (
+        <div className="card overflow-x-auto">
+          <p className="p-3 text-xs font-bold text-[var(--duo-wolf)] border-b-2 border-[var(--duo-swan)]">
+            {analytics.hunt.name} · {analytics.players} player{analytics.players === 1 ? '' : 's'}
+          </p>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b-2 border-[var(--duo-swan)] text-[var(--duo-hare)] text-[10px] uppercase tracking-widest">
+                <th className="p-3 font-bold">Treasure</th>
+                <th className="p-3 font-bold">Found</th>
+                <th className="p-3 font-bold">Gave up</th>
+                <th className="p-3 font-bold">Median search</th>
+                <th className="p-3 font-bold">Hints</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const flagged = analytics.players >= MIN_PLAYERS_TO_FLAG && row.discoveryRate < LOW_DISCOVERY_RATE;
+                return (
+                  <tr key={row._id} className="border-b border-[var(--duo-swan)] last:border-0 hover:bg-[var(--duo-polar)]">
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        {flagged && (
+                          <span title="Few players find this one — check the sticker placement and clue">
+                            <AlertTriangle className="w-4 h-4 text-[var(--duo-gold)] shrink-0" />
+                          </span>
+                        )}
+                        <div className="min-w-0">
+                          <p className="font-bold text-[var(--duo-eel)] truncate">{row.name}</p>
+                          <p className="text-[10px] text-[var(--duo-hare)] uppercase">{row.category} · {row.points} pts</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="p-3">
+                      <p className="font-black text-[var(--duo-blue)]">{row.discoveryRate}%</p>
+                      <div className="progress-bar h-1.5 mt-1 w-20">
+                        <div className="progress-fill" style={{ width: `${row.discoveryRate}%` }} />
+                      </div>
+                      <p className="text-[10px] text-[var(--duo-hare)] mt-1">{row.found} player{row.found === 1 ? '' : 's'}</p>
+                    </td>
+                    <td className="p-3">
+                      <p className={`font-black ${row.dropOffRate >= 50 ? 'text-[var(--duo-red)]' : 'text-[var(--duo-eel)]'}`}>{row.dropOffRate}%</p>
+                      <p className="text-[10px] text-[var(--duo-hare)]">{row.viewedNotFound} of {row.viewers} viewer{row.viewers === 1 ? '' : 's'}</p>
+                    </td>
+                    <td className="p-3 font-bold text-[var(--duo-eel)]">{formatDuration(row.medianTimeToFindMs)}</td>
+                    <td className="p-3">
+                      <p className="font-bold text-[var(--duo-eel)]">{row.hintsUsed}</p>
+                      <p className="text-[10px] text-[var(--duo-hare)]">{row.hintUsers} player{row.hintUsers === 1 ? '' : 's'}</p>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
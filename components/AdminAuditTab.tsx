@@ -0,0 +1,211 @@
+/**
+ * Admin Audit Tab — the trail of every admin change: who made it, what it touched
+ * and which fields went from what to what. Filter by admin, kind of change and date;
+ * older entries load a page at a time.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, ScrollText, ChevronDown, ChevronRight } from 'lucide-react';
+import { adminAPI, AuditEntryFromAPI, AuditFilters } from '../services/api';
+
+/** Props for the AdminAuditTab component */
+interface AdminAuditTabProps {
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+/** Filter form values (dates as YYYY-MM-DD from the date inputs) */
+interface AuditFilterForm {
+  actor: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+/** Badge colour for each kind of change, by its verb */
+const VERB_BADGES: Record<string, string> = {
+  create: 'badge-green',
+  delete: 'badge-gold',
+  'reset-progress': 'badge-gold',
+  approve: 'badge-green',
+  reject: 'badge-gray'
+};
+
+/**
+ * Show a changed value compactly — nested values (quizzes, rules) as JSON.
+ * @param {unknown} value - The before or after value
+ */
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Turn a date input's day into the ISO moment that day starts (local time).
+ * @param {string} day        - "YYYY-MM-DD" from a date input
+ * @param {number} [addDays]  - Days to move forward (1 makes "to" include the whole day)
+ */
+const startOfDay = (day: string, addDays = 0): string | undefined => {
+  if (!day) return undefined;
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + addDays);
+  return date.toISOString();
+};
+
+/**
+ * Renders the audit trail with its filters.
+ * @param {Function} showMessage - Show an error banner in the admin panel
+ */
+export const AdminAuditTab: React.FC<AdminAuditTabProps> = ({ showMessage }) => {
+  const [entries, setEntries] = useState<AuditEntryFromAPI[]>([]);
+  const [actors, setActors] = useState<{ _id: string; username: string }[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditFilterForm>({ actor: '', action: '', from: '', to: '' });
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  /** The filters as the API expects them */
+  const toQuery = (): AuditFilters => ({
+    actor: filters.actor || undefined,
+    action: filters.action || undefined,
+    from: startOfDay(filters.from),
+    to: startOfDay(filters.to, 1)
+  });
+
+  /** Reload the first page whenever the filters change */
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    adminAPI.getAuditLog(toQuery())
+      .then(response => {
+        if (cancelled) return;
+        setEntries(response.data);
+        setHasMore(response.hasMore);
+        setActors(response.actors);
+        setActions(response.actions);
+      })
+      .catch(err => !cancelled && showMessage(err.message || 'Failed to load audit log', true))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [filters]);
+
+  /** Append the next page of older entries */
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const response = await adminAPI.getAuditLog({ ...toQuery(), before: entries[entries.length - 1]?.createdAt });
+      setEntries(prev => [...prev, ...response.data]);
+      setHasMore(response.hasMore);
+    } catch (err: any) {
+      showMessage(err.message || 'Failed to load audit log', true);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="card p-4 grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Admin</label>
+          <select value={filters.actor} onChange={e => setFilters({...filters, actor: e.target.value})} className="input">
+            <option value="">Everyone</option>
+            {actors.map(actor => <option key={actor._id} value={actor._id}>{actor.username}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Action</label>
+          <select value={filters.action} onChange={e => setFilters({...filters, action: e.target.value})} className="input">
+            <option value="">All actions</option>
+            {actions.map(action => <option key={action} value={action}>{action}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">From</label>
+          <input type="date" value={filters.from} onChange={e => setFilters({...filters, from: e.target.value})} className="input" />
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">To</label>
+          <input type="date" value={filters.to} onChange={e => setFilters({...filters, to: e.target.value})} className="input" />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-[var(--duo-blue)]" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="card p-8 text-center">
+          <ScrollText className="w-10 h-10 mx-auto text-[var(--duo-hare)] mb-3" />
+          <p className="text-[var(--duo-hare)] font-bold text-sm">No admin changes match these filters</p>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          {entries.map(entry => {
+            const isOpen = expanded === entry._id;
+            const verb = entry.action.split('.')[1];
+            const hasDetail = entry.changes.length > 0 || !!entry.details;
+            return (
+              <div key={entry._id} className="border-b border-[var(--duo-swan)] last:border-0">
+                <button
+                  onClick={() => hasDetail && setExpanded(isOpen ? null : entry._id)}
+                  className="w-full p-3 flex items-center gap-3 text-left hover:bg-[var(--duo-polar)]"
+                >
+                  {hasDetail
+                    ? (isOpen ? <ChevronDown className="w-4 h-4 text-[var(--duo-hare)] shrink-0" /> : <ChevronRight className="w-4 h-4 text-[var(--duo-hare)] shrink-0" />)
+                    : <span className="w-4 shrink-0" />}
+                  <span className={`badge text-[8px] shrink-0 ${VERB_BADGES[verb] || 'badge-blue'}`}>{entry.action}</span>
+                  <span className="flex-1 min-w-0 truncate text-sm">
+                    <span className="font-bold text-[var(--duo-eel)]">{entry.actorName}</span>
+                    {entry.targetLabel && <span className="text-[var(--duo-wolf)]"> → {entry.targetLabel}</span>}
+                  </span>
+                  <span className="text-xs text-[var(--duo-hare)] shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                </button>
+
+                {isOpen && (
+                  <div className="px-10 pb-3 space-y-2">
+                    {entry.changes.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-[var(--duo-hare)] text-[10px] uppercase tracking-widest">
+                            <th className="py-1 text-left font-bold">Field</th>
+                            <th className="py-1 text-left font-bold">Before</th>
+                            <th className="py-1 text-left font-bold">After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {entry.changes.map(change => (
+                            <tr key={change.field} className="align-top">
+                              <td className="py-1 pr-3 font-bold text-[var(--duo-eel)]">{change.field}</td>
+                              <td className="py-1 pr-3 text-[var(--duo-red)] break-all font-mono">{formatValue(change.before)}</td>
+                              <td className="py-1 text-[var(--duo-green)] break-all font-mono">{formatValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {entry.details && (
+                      <pre className="text-[10px] text-[var(--duo-wolf)] bg-[var(--duo-polar)] rounded-lg p-2 overflow-x-auto">
+                        {JSON.stringify(entry.details, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <button onClick={handleLoadMore} disabled={loadingMore} className="w-full btn-outline py-3 flex items-center justify-center gap-2">
+          {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+          Load older entries
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,582 @@
+/**
+ * Admin Badges Tab — the badge designer. Badges are data on the server, so organizers
+ * can add and change them here without a deploy: pick an icon and rarity, build the
+ * rule that awards the badge, and see how many current players already qualify.
+ * New badges are checked on each player's next unlock; "Award now" backfills them
+ * to everyone who already meets the rule.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit2, Trash2, X, Save, Loader2, Award, Users, Gift } from 'lucide-react';
+import { adminAPI, AdminBadgeFromAPI, AdminTreasureFromAPI, BadgeInput, BadgeRule, HuntFromAPI } from '../services/api';
+import { BADGE_ICONS, BadgeIcon, RARITY_STYLES } from './BadgeIcon';
+
+/** Props for the AdminBadgesTab component */
+interface AdminBadgesTabProps {
+  hunts: HuntFromAPI[];
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+type Rarity = BadgeInput['rarity'];
+type Category = NonNullable<BadgeRule['category']>;
+
+/** Form data shape for creating/editing a badge (numbers are strings for form inputs) */
+interface BadgeFormData {
+  key: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: Rarity;
+  hunt: string;
+  active: boolean;
+  order: string;
+  ruleType: BadgeRule['type'];
+  threshold: string;
+  category: Category | '';
+  treasures: string[];
+  windowMinutes: string;
+  days: string;
+}
+
+const RARITIES: Rarity[] = ['common', 'rare', 'epic', 'legendary'];
+const CATEGORIES: Category[] = ['academic', 'social', 'sports', 'history'];
+
+/** Rule types offered in the rule builder, with a hint for each */
+const RULE_TYPES: { type: BadgeRule['type']; label: string; hint: string }[] = [
+  { type: 'count', label: 'Treasures found', hint: 'Found at least this many treasures in the hunt' },
+  { type: 'category', label: 'Category', hint: 'Found at least this many treasures in one category' },
+  { type: 'complete', label: 'Completion', hint: 'Found every treasure in the hunt, or in one category' },
+  { type: 'treasures', label: 'Specific treasures', hint: 'Found every treasure on a hand-picked list' },
+  { type: 'time', label: 'Time challenge', hint: 'Found this many treasures within a time limit' },
+  { type: 'streak', label: 'Daily streak', hint: 'Found a treasure on this many days in a row' }
+];
+
+/** How long the rule has to stay unchanged before the qualifying count is refreshed */
+const PREVIEW_DELAY_MS = 500;
+
+const emptyForm: BadgeFormData = {
+  key: '',
+  name: '',
+  description: '',
+  icon: 'Award',
+  rarity: 'common',
+  hunt: '',
+  active: true,
+  order: '0',
+  ruleType: 'count',
+  threshold: '1',
+  category: '',
+  treasures: [],
+  windowMinutes: '60',
+  days: '2'
+};
+
+/**
+ * Build the rule the API expects from the form — only the fields the type uses.
+ * @param {BadgeFormData} form - The badge form
+ */
+const toRule = (form: BadgeFormData): BadgeRule => ({
+  type: form.ruleType,
+  threshold: ['count', 'category', 'time'].includes(form.ruleType) ? Number(form.threshold) : undefined,
+  category: ['category', 'complete'].includes(form.ruleType) && form.category ? form.category : undefined,
+  treasures: form.ruleType === 'treasures' ? form.treasures : undefined,
+  windowMinutes: form.ruleType === 'time' ? Number(form.windowMinutes) : undefined,
+  days: form.ruleType === 'streak' ? Number(form.days) : undefined
+});
+
+/**
+ * One-line summary of a badge's rule for the badge list.
+ * @param {BadgeRule} rule - The badge's rule
+ */
+const describeRule = (rule: BadgeRule): string => {
+  switch (rule.type) {
+    case 'count': return `Find ${rule.threshold} treasure${rule.threshold === 1 ? '' : 's'}`;
+    case 'category': return `Find ${rule.threshold} ${rule.category} treasure${rule.threshold === 1 ? '' : 's'}`;
+    case 'complete': return rule.category ? `Find every ${rule.category} treasure` : 'Find every treasure';
+    case 'treasures': return `Find ${rule.treasures?.length || 0} specific treasure${rule.treasures?.length === 1 ? '' : 's'}`;
+    case 'time': return `Find ${rule.threshold} treasures within ${rule.windowMinutes} min`;
+    case 'streak': return `Find a treasure ${rule.days} days in a row`;
+  }
+};
+
+/**
+ * Renders the badge list with the designer form, live qualifying count and backfill action.
+ * @param {HuntFromAPI[]} hunts       - Every hunt, for scoping a badge to one hunt
+ * @param {Function}      showMessage - Show a success or error banner in the admin panel
+ */
+export const AdminBadgesTab: React.FC<AdminBadgesTabProps> = ({ hunts, showMessage }) => {
+  const [badges, setBadges] = useState<AdminBadgeFromAPI[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingBadge, setEditingBadge] = useState<string | null>(null);
+  const [form, setForm] = useState<BadgeFormData>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [backfilling, setBackfilling] = useState<string | null>(null);
+  const [huntTreasures, setHuntTreasures] = useState<AdminTreasureFromAPI[]>([]);
+  const [preview, setPreview] = useState<{ qualifying: number; total: number } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  /** Reload the badge list */
+  const loadBadges = async () => {
+    try {
+      const response = await adminAPI.getBadges();
+      setBadges(response.data);
+    } catch (err: any) {
+      showMessage(err.message || 'Failed to load badges', true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBadges();
+  }, []);
+
+  /** The "specific treasures" rule picks from the chosen hunt's treasures */
+  useEffect(() => {
+    if (!showForm || form.ruleType !== 'treasures' || !form.hunt) {
+      setHuntTreasures([]);
+      return;
+    }
+    let cancelled = false;
+    adminAPI.getTreasures(form.hunt)
+      .then(response => !cancelled && setHuntTreasures(response.data))
+      .catch(err => !cancelled && showMessage(err.message || 'Failed to load treasures', true));
+    return () => { cancelled = true; };
+  }, [showForm, form.ruleType, form.hunt]);
+
+  /** Count qualifying players once the rule has stopped changing for a moment */
+  const rule = toRule(form);
+  const ruleKey = JSON.stringify([rule, form.hunt]);
+  useEffect(() => {
+    if (!showForm) return;
+    let cancelled = false;
+    setPreviewing(true);
+    const timer = setTimeout(() => {
+      adminAPI.previewBadge(rule, form.hunt || null)
+        .then(response => {
+          if (cancelled) return;
+          setPreview(response.data);
+          setPreviewError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setPreview(null);
+          setPreviewError(err.message);
+        })
+        .finally(() => !cancelled && setPreviewing(false));
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showForm, ruleKey]);
+
+  /** Open the form in "create new" mode with empty fields */
+  const handleCreate = () => {
+    setForm({ ...emptyForm, order: String(badges.length + 1) });
+    setEditingBadge(null);
+    setPreview(null);
+    setShowForm(true);
+  };
+
+  /** Open the form in "edit" mode, pre-populated with the badge's details and rule */
+  const handleEdit = (badge: AdminBadgeFromAPI) => {
+    setForm({
+      key: badge.key,
+      name: badge.name,
+      description: badge.description,
+      icon: badge.icon,
+      rarity: badge.rarity,
+      hunt: badge.hunt?._id || '',
+      active: badge.active,
+      order: String(badge.order),
+      ruleType: badge.rule.type,
+      threshold: String(badge.rule.threshold ?? emptyForm.threshold),
+      category: badge.rule.category || '',
+      treasures: badge.rule.treasures || [],
+      windowMinutes: String(badge.rule.windowMinutes ?? emptyForm.windowMinutes),
+      days: String(badge.rule.days ?? emptyForm.days)
+    });
+    setEditingBadge(badge._id);
+    setPreview(null);
+    setShowForm(true);
+  };
+
+  /** Save the form — creates a new badge or updates an existing one */
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const badgeData: BadgeInput = {
+        name: form.name,
+        description: form.description,
+        icon: form.icon,
+        rarity: form.rarity,
+        hunt: form.hunt || null,
+        active: form.active,
+        order: Number(form.order) || 0,
+        rule
+      };
+
+      if (editingBadge) {
+        await adminAPI.updateBadge(editingBadge, badgeData);
+        showMessage('Badge updated successfully!');
+      } else {
+        await adminAPI.createBadge({ ...badgeData, key: form.key });
+        showMessage('Badge created — use "Award now" to give it to players who already qualify');
+      }
+
+      setShowForm(false);
+      loadBadges();
+    } catch (err: any) {
+      showMessage(err.message || 'Failed to save badge', true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /** Delete a badge after confirmation prompt — it's taken back from everyone who earned it */
+  const handleDelete = async (badge: AdminBadgeFromAPI) => {
+    if (!confirm(`Delete "${badge.name}"? Players who earned it will lose it. To stop awarding it but let players keep it, deactivate it instead.`)) return;
+    try {
+      await adminAPI.deleteBadge(badge._id);
+      showMessage('Badge deleted');
+      loadBadges();
+    } catch (err: any) {
+      showMessage(err.message, true);
+    }
+  };
+
+  /** Award a badge to every existing player who already meets its rule */
+  const handleBackfill = async (badge: AdminBadgeFromAPI) => {
+    if (!confirm(`Award "${badge.name}" to every player who already qualifies?`)) return;
+    setBackfilling(badge._id);
+    try {
+      const response = await adminAPI.backfillBadge(badge._id);
+      showMessage(response.message);
+    } catch (err: any) {
+      showMessage(err.message, true);
+    } finally {
+      setBackfilling(null);
+    }
+  };
+
+  /** Add or remove a treasure from the "specific treasures" rule */
+  const toggleTreasure = (id: string) => {
+    setForm(prev => ({
+      ...prev,
+      treasures: prev.treasures.includes(id) ? prev.treasures.filter(t => t !== id) : [...prev.treasures, id]
+    }));
+  };
+
+  /** Number input for one rule field */
+  const renderNumberField = (label: string, field: 'threshold' | 'windowMinutes' | 'days', min: number) => (
+    <div>
+      <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">{label}</label>
+      <input
+        type="number"
+        min={min}
+        value={form[field]}
+        onChange={e => setForm({...form, [field]: e.target.value})}
+        className="input"
+      />
+    </div>
+  );
+
+  /** Category select for the rule (optional for completion rules) */
+  const renderCategoryField = (optional: boolean) => (
+    <div>
+      <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Category</label>
+      <select
+        value={form.category}
+        onChange={e => setForm({...form, category: e.target.value as Category | ''})}
+        className="input"
+      >
+        <option value="">{optional ? 'Whole hunt' : 'Choose a category'}</option>
+        {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+      </select>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-[var(--duo-blue)]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button onClick={handleCreate} className="btn-primary px-4 py-2 text-sm flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Badge
+        </button>
+      </div>
+
+      {badges.length === 0 ? (
+        <div className="card p-8 text-center">
+          <Award className="w-10 h-10 mx-auto text-[var(--duo-hare)] mb-3" />
+          <p className="text-[var(--duo-hare)] font-bold text-sm">No badges yet</p>
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-2 gap-3">
+          {badges.map(badge => (
+            <div key={badge._id} className={`card p-4 flex gap-3 ${badge.active ? '' : 'opacity-60'}`}>
+              <div className="w-12 h-12 shrink-0 rounded-xl flex items-center justify-center bg-[var(--duo-gold)]" style={{ boxShadow: '0 3px 0 var(--duo-gold-dark, #cc8400)' }}>
+                <BadgeIcon icon={badge.icon} className="w-6 h-6 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-black text-[var(--duo-eel)] truncate">{badge.name}</p>
+                  <span className={`text-[9px] font-black uppercase tracking-wide ${RARITY_STYLES[badge.rarity]}`}>{badge.rarity}</span>
+                  {!badge.active && <span className="badge badge-gray text-[8px]">inactive</span>}
+                </div>
+                <p className="text-xs text-[var(--duo-hare)] truncate">{badge.description}</p>
+                <p className="text-[10px] font-bold text-[var(--duo-wolf)] mt-1">
+                  {describeRule(badge.rule)} · {badge.hunt ? badge.hunt.name : 'Every hunt'}
+                </p>
+                <p className="text-[10px] text-[var(--duo-hare)] font-mono">{badge.key}</p>
+              </div>
+              <div className="flex flex-col items-end">
+                <button onClick={() => handleEdit(badge)} className="p-2 text-[var(--duo-hare)] hover:text-[var(--duo-blue)]" title="Edit badge">
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleBackfill(badge)}
+                  disabled={!badge.active || backfilling === badge._id}
+                  className="p-2 text-[var(--duo-hare)] hover:text-[var(--duo-green)] disabled:opacity-30 disabled:hover:text-[var(--duo-hare)]"
+                  title={badge.active ? 'Award now to players who already qualify' : 'Activate the badge first'}
+                >
+                  {backfilling === badge._id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gift className="w-4 h-4" />}
+                </button>
+                <button onClick={() => handleDelete(badge)} className="p-2 text-[var(--duo-hare)] hover:text-red-500" title="Delete badge">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Badge Designer Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-[9990] bg-black/50 flex items-center justify-center p-0 sm:p-4" onClick={(e) => e.target === e.currentTarget && setShowForm(false)}>
+          <div className="card w-full h-full sm:h-auto sm:max-w-lg sm:max-h-[90vh] overflow-y-auto sm:rounded-2xl rounded-none">
+            <div className="sticky top-0 z-10 bg-white border-b-2 border-[var(--duo-swan)] p-4 flex items-center justify-between">
+              <h3 className="text-lg font-black text-[var(--duo-eel)]">
+                {editingBadge ? 'Edit Badge' : 'Design a Badge'}
+              </h3>
+              <button onClick={() => setShowForm(false)} className="p-2 hover:bg-[var(--duo-polar)] rounded-lg">
+                <X className="w-5 h-5 text-[var(--duo-hare)]" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {/* Preview — how the badge looks in the trophy room, and who'd get it today */}
+              <div className="flex items-center gap-4 p-3 rounded-xl bg-[var(--duo-polar)]">
+                <div className="card p-4 text-center w-36 shrink-0 card-success badge-glow">
+                  <div className="w-12 h-12 mx-auto mb-3 rounded-xl flex items-center justify-center bg-[var(--duo-gold)]" style={{ boxShadow: '0 3px 0 var(--duo-gold-dark, #cc8400)' }}>
+                    <BadgeIcon icon={form.icon} className="w-6 h-6 text-white" />
+                  </div>
+                  <h4 className="text-xs font-black text-[var(--duo-eel)] mb-0.5 truncate">{form.name || 'Badge name'}</h4>
+                  <p className="text-[10px] text-[var(--duo-wolf)] mb-1 line-clamp-2">{form.description || 'What the player did'}</p>
+                  <p className={`text-[9px] font-black uppercase tracking-wide ${RARITY_STYLES[form.rarity]}`}>{form.rarity}</p>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">
+                    <Users className="w-4 h-4" />
+                    Would qualify today
+                    {previewing && <Loader2 className="w-3 h-3 animate-spin" />}
+                  </div>
+                  {previewError ? (
+                    <p className="text-xs font-bold text-[var(--duo-red)]">{previewError}</p>
+                  ) : preview ? (
+                    <p className="text-2xl font-black text-[var(--duo-blue)]">
+                      {preview.qualifying}
+                      <span className="text-sm text-[var(--duo-hare)] ml-1">of {preview.total} player{preview.total === 1 ? '' : 's'}</span>
+                    </p>
+                  ) : (
+                    <p className="text-sm font-bold text-[var(--duo-hare)]">…</p>
+                  )}
+                  <p className="text-[10px] text-[var(--duo-hare)] mt-1">{form.hunt ? 'Counting players in this hunt' : 'Counting players in every hunt'}</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={e => setForm({...form, name: e.target.value})}
+                    className="input"
+                    placeholder="e.g., Night Owl"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Key</label>
+                  <input
+                    type="text"
+                    value={form.key}
+                    onChange={e => setForm({...form, key: e.target.value.toLowerCase()})}
+                    className="input font-mono"
+                    placeholder="night-owl"
+                    disabled={!!editingBadge}
+                    title={editingBadge ? "Keys can't change — players' progress stores them" : undefined}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={e => setForm({...form, description: e.target.value})}
+                  className="input"
+                  placeholder="Shown in the trophy room"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Rarity</label>
+                  <select
+                    value={form.rarity}
+                    onChange={e => setForm({...form, rarity: e.target.value as Rarity})}
+                    className="input"
+                  >
+                    {RARITIES.map(rarity => <option key={rarity} value={rarity}>{rarity}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Hunt</label>
+                  <select
+                    value={form.hunt}
+                    onChange={e => setForm({...form, hunt: e.target.value, treasures: []})}
+                    className="input"
+                  >
+                    <option value="">Every hunt</option>
+                    {hunts.map(hunt => <option key={hunt._id} value={hunt._id}>{hunt.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Order</label>
+                  <input
+                    type="number"
+                    value={form.order}
+                    onChange={e => setForm({...form, order: e.target.value})}
+                    className="input"
+                  />
+                </div>
+              </div>
+
+              {/* Icon picker */}
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Icon</label>
+                <div className="grid grid-cols-8 gap-1">
+                  {Object.keys(BADGE_ICONS).map(icon => (
+                    <button
+                      key={icon}
+                      type="button"
+                      onClick={() => setForm({...form, icon})}
+                      className={`p-2 rounded-lg flex items-center justify-center border-2 ${
+                        form.icon === icon ? 'border-[var(--duo-blue)] bg-[rgba(28,176,246,0.1)]' : 'border-transparent hover:bg-[var(--duo-polar)]'
+                      }`}
+                      title={icon}
+                    >
+                      <BadgeIcon icon={icon} className={`w-5 h-5 ${form.icon === icon ? 'text-[var(--duo-blue)]' : 'text-[var(--duo-wolf)]'}`} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Rule builder */}
+              <div className="border-t-2 border-[var(--duo-swan)] pt-4 space-y-3">
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Awarded for</label>
+                  <select
+                    value={form.ruleType}
+                    onChange={e => setForm({...form, ruleType: e.target.value as BadgeRule['type']})}
+                    className="input"
+                  >
+                    {RULE_TYPES.map(ruleType => <option key={ruleType.type} value={ruleType.type}>{ruleType.label}</option>)}
+                  </select>
+                  <p className="text-[10px] text-[var(--duo-hare)] mt-1">{RULE_TYPES.find(r => r.type === form.ruleType)?.hint}</p>
+                </div>
+
+                {form.ruleType === 'count' && renderNumberField('Treasures', 'threshold', 1)}
+
+                {form.ruleType === 'category' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {renderCategoryField(false)}
+                    {renderNumberField('Treasures', 'threshold', 1)}
+                  </div>
+                )}
+
+                {form.ruleType === 'complete' && renderCategoryField(true)}
+
+                {form.ruleType === 'treasures' && (
+                  form.hunt ? (
+                    <div className="max-h-48 overflow-y-auto space-y-1">
+                      {huntTreasures.map(treasure => (
+                        <label key={treasure._id} className="flex items-center gap-2 text-sm text-[var(--duo-eel)] cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={form.treasures.includes(treasure._id)}
+                            onChange={() => toggleTreasure(treasure._id)}
+                          />
+                          {treasure.name}
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs font-bold text-[var(--duo-hare)]">Choose a hunt above to pick its treasures</p>
+                  )
+                )}
+
+                {form.ruleType === 'time' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {renderNumberField('Treasures', 'threshold', 2)}
+                    {renderNumberField('Within (minutes)', 'windowMinutes', 1)}
+                  </div>
+                )}
+
+                {form.ruleType === 'streak' && renderNumberField('Days in a row', 'days', 2)}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm font-bold text-[var(--duo-eel)] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.active}
+                  onChange={e => setForm({...form, active: e.target.checked})}
+                />
+                Active — inactive badges stay with players who earned them but aren't awarded any more
+              </label>
+            </div>
+
+            <div className="p-4 border-t-2 border-[var(--duo-swan)] flex gap-3">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 btn-outline py-3"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !form.name || !form.description || (!editingBadge && !form.key) || !!previewError}
+                className="flex-1 btn-primary py-3 flex items-center justify-center gap-2"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                {editingBadge ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+/**
+ * Admin Export Button — downloads a dataset as CSV or JSON for prize draws and reports.
+ * Opens a small panel to pick the format, a date range and (where it applies) a hunt,
+ * then saves the file the server streams back.
+ */
+
+import React, { useState } from 'react';
+import { Download, Loader2, X } from 'lucide-react';
+import { adminAPI, saveDownload, ExportDataset, HuntFromAPI } from '../services/api';
+
+/** Props for the AdminExportButton component */
+interface AdminExportButtonProps {
+  dataset: ExportDataset;
+  label: string;
+  /** Offer a hunt filter (leave out for datasets that aren't per hunt) */
+  hunts?: HuntFromAPI[];
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+/** What the date range means for each dataset */
+const RANGE_HINTS: Record<ExportDataset, string> = {
+  users: 'Players who joined between these dates',
+  unlocks: 'Treasures found between these dates',
+  feedback: 'Feedback sent between these dates'
+};
+
+/**
+ * Turn a date input's day into the ISO moment that day starts (local time).
+ * @param {string} day        - "YYYY-MM-DD" from a date input
+ * @param {number} [addDays]  - Days to move forward (1 makes "to" include the whole day)
+ */
+const startOfDay = (day: string, addDays = 0): string | undefined => {
+  if (!day) return undefined;
+  const date = new Date(`${day}T00:00:00`);
+  date.setDate(date.getDate() + addDays);
+  return date.toISOString();
+};
+
+/**
+ * Renders an export button and its options panel.
+ * @param {ExportDataset} dataset     - Which export to download
+ * @param {string}        label       - Button text
+ * @param {HuntFromAPI[]} [hunts]     - Hunts for the hunt filter
+ * @param {Function}      showMessage - Show a success/error banner in the admin panel
+ */
+export const AdminExportButton: React.FC<AdminExportButtonProps> = ({ dataset, label, hunts, showMessage }) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<'csv' | 'json'>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [hunt, setHunt] = useState('');
+  const [downloading, setDownloading] = useState(false);
+
+  /** Fetch the export and hand it to the browser as a download */
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const file = await adminAPI.downloadExport(dataset, {
+        format,
+        from: startOfDay(from),
+        to: startOfDay(to, 1),
+        hunt: hunt || undefined
+      });
+      saveDownload(file);
+      setOpen(false);
+      showMessage(`Downloaded ${file.filename}`);
+    } catch (err: any) {
+      showMessage(err.message || 'Export failed', true);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className="btn-outline px-4 py-2 text-sm flex items-center gap-2">
+        <Download className="w-4 h-4" />
+        {label}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 card p-4 w-72 space-y-3 text-left">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-black uppercase tracking-wide text-[var(--duo-wolf)]">{label}</p>
+            <button onClick={() => setOpen(false)} className="text-[var(--duo-hare)] hover:text-[var(--duo-eel)]">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Format</label>
+            <select value={format} onChange={e => setFormat(e.target.value as 'csv' | 'json')} className="input">
+              <option value="csv">CSV (spreadsheets)</option>
+              <option value="json">JSON</option>
+            </select>
+          </div>
+
+          {hunts && (
+            <div>
+              <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Hunt</label>
+              <select value={hunt} onChange={e => setHunt(e.target.value)} className="input">
+                <option value="">All hunts</option>
+                {hunts.map(h => <option key={h._id} value={h._id}>{h.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">From</label>
+              <input type="date" value={from} onChange={e => setFrom(e.target.value)} className="input" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">To</label>
+              <input type="date" value={to} onChange={e => setTo(e.target.value)} className="input" />
+            </div>
+          </div>
+          <p className="text-[10px] text-[var(--duo-hare)]">{RANGE_HINTS[dataset]} — leave blank for everything.</p>
+
+          <button onClick={handleDownload} disabled={downloading} className="w-full btn-primary py-2 flex items-center justify-center gap-2">
+            {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+/**
+ * Admin Heatmap Tab — where players are and where unlocks happen, as a density layer
+ * over the same Leaflet map the players use. Activity is bucketed into grid cells on
+ * the server; busier cells are drawn darker. Treasures are shown as small dots so
+ * crowded spots can be compared with where the stickers actually are.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, Map, Satellite } from 'lucide-react';
+import { adminAPI, HuntFromAPI, ActivityHeatmap, AdminTreasureFromAPI } from '../services/api';
+import { MapStyle, MAP_TILES } from './MapComponent';
+
+declare const L: any;
+
+/** Props for the AdminHeatmapTab component */
+interface AdminHeatmapTabProps {
+  hunts: HuntFromAPI[];
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+type Layer = 'both' | 'unlocks' | 'pings';
+
+/** Time windows to pick from (hours back from now; null is all time) */
+const TIME_RANGES: { label: string; hours: number | null }[] = [
+  { label: 'Last hour', hours: 1 },
+  { label: 'Last 24 hours', hours: 24 },
+  { label: 'Last 7 days', hours: 24 * 7 },
+  { label: 'All time', hours: null }
+];
+
+/** Which counts each layer option draws, and in what colour */
+const LAYERS: { id: Layer; label: string; color: string }[] = [
+  { id: 'both', label: 'Everything', color: '#ff4b4b' },
+  { id: 'unlocks', label: 'Unlocks', color: '#58cc02' },
+  { id: 'pings', label: 'Players', color: '#1cb0f6' }
+];
+
+/** Cell sizes the admin can choose, in meters */
+const CELL_SIZES = [25, 50, 100, 250];
+
+/**
+ * Renders the activity heatmap for a chosen hunt and time window.
+ * @param {HuntFromAPI[]} hunts       - Every hunt, for the hunt picker
+ * @param {Function}      showMessage - Show an error banner in the admin panel
+ */
+export const AdminHeatmapTab: React.FC<AdminHeatmapTabProps> = ({ hunts, showMessage }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const leafletMap = useRef<any>(null);
+  const tileLayerRef = useRef<any>(null);
+  const cellLayerRef = useRef<any>(null);
+  const treasureLayerRef = useRef<any>(null);
+
+  const [huntId, setHuntId] = useState('');
+  const [hours, setHours] = useState<number | null>(24);
+  const [cell, setCell] = useState(50);
+  const [layer, setLayer] = useState<Layer>('both');
+  const [mapStyle, setMapStyle] = useState<MapStyle>('streets');
+  const [heatmap, setHeatmap] = useState<ActivityHeatmap | null>(null);
+  const [treasures, setTreasures] = useState<AdminTreasureFromAPI[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  /** Create the map once, with layer groups for the cells and the treasure dots */
+  useEffect(() => {
+    if (!mapRef.current) return;
+    leafletMap.current = L.map(mapRef.current, { attributionControl: false }).setView([51.5074, -0.1278], 14);
+    tileLayerRef.current = L.tileLayer(MAP_TILES[mapStyle].url, { maxZoom: 20 }).addTo(leafletMap.current);
+    cellLayerRef.current = L.layerGroup().addTo(leafletMap.current);
+    treasureLayerRef.current = L.layerGroup().addTo(leafletMap.current);
+    return () => leafletMap.current.remove();
+  }, []);
+
+  /** Swap the tile layer when switching between streets and satellite view */
+  useEffect(() => {
+    if (!leafletMap.current) return;
+    tileLayerRef.current.remove();
+    tileLayerRef.current = L.tileLayer(MAP_TILES[mapStyle].url, { maxZoom: 20 }).addTo(leafletMap.current);
+    tileLayerRef.current.bringToBack();
+  }, [mapStyle]);
+
+  /** Reload the grid whenever the hunt, time window or cell size changes */
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    adminAPI.getActivityHeatmap({
+      hunt: huntId || undefined,
+      from: hours ? new Date(Date.now() - hours * 60 * 60 * 1000).toISOString() : undefined,
+      cell
+    })
+      .then(response => !cancelled && setHeatmap(response.data))
+      .catch(err => !cancelled && showMessage(err.message || 'Failed to load heatmap', true))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [huntId, hours, cell]);
+
+  /** Load the hunt's treasures and fit the map around them */
+  useEffect(() => {
+    const id = huntId || heatmap?.hunt._id;
+    if (!id) return;
+    let cancelled = false;
+    adminAPI.getTreasures(id)
+      .then(response => {
+        if (cancelled) return;
+        setTreasures(response.data);
+        if (response.data.length > 0 && leafletMap.current) {
+          const bounds = L.latLngBounds(response.data.map(t => [t.latitude, t.longitude]));
+          leafletMap.current.fitBounds(bounds, { padding: [40, 40], maxZoom: 17 });
+        }
+      })
+      .catch(() => { /* the heatmap is still useful without the treasure dots */ });
+    return () => { cancelled = true; };
+  }, [huntId, heatmap?.hunt._id]);
+
+  /** Redraw the cells — opacity scales with how busy each cell is compared to the busiest */
+  useEffect(() => {
+    if (!cellLayerRef.current) return;
+    cellLayerRef.current.clearLayers();
+    if (!heatmap) return;
+
+    const { color } = LAYERS.find(l => l.id === layer)!;
+    const max = layer === 'both' ? heatmap.max.combined : heatmap.max[layer];
+    heatmap.cells.forEach(c => {
+      const count = layer === 'both' ? c.unlocks + c.pings : c[layer];
+      if (count === 0 || max === 0) return;
+      L.rectangle([[c.south, c.west], [c.north, c.east]], {
+        stroke: false,
+        fillColor: color,
+        fillOpacity: 0.15 + 0.6 * (count / max)
+      })
+        .bindTooltip(`${c.unlocks} unlock${c.unlocks === 1 ? '' : 's'} · ${c.pings} player ping${c.pings === 1 ? '' : 's'}`)
+        .addTo(cellLayerRef.current);
+    });
+  }, [heatmap, layer]);
+
+  /** Redraw the treasure dots */
+  useEffect(() => {
+    if (!treasureLayerRef.current) return;
+    treasureLayerRef.current.clearLayers();
+    treasures.forEach(t => {
+      L.circleMarker([t.latitude, t.longitude], {
+        radius: 5,
+        color: '#4b4b4b',
+        weight: 2,
+        fillColor: '#ffffff',
+        fillOpacity: 1
+      })
+        .bindTooltip(t.name)
+        .addTo(treasureLayerRef.current);
+    });
+  }, [treasures]);
+
+  return (
+    <div className="space-y-4">
+      <div className="card p-4 grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Hunt</label>
+          <select value={huntId} onChange={e => setHuntId(e.target.value)} className="input">
+            <option value="">Current hunt</option>
+            {hunts.map(hunt => <option key={hunt._id} value={hunt._id}>{hunt.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">When</label>
+          <select value={hours ?? ''} onChange={e => setHours(e.target.value ? Number(e.target.value) : null)} className="input">
+            {TIME_RANGES.map(range => <option key={range.label} value={range.hours ?? ''}>{range.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Show</label>
+          <select value={layer} onChange={e => setLayer(e.target.value as Layer)} className="input">
+            {LAYERS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Cell size</label>
+          <select value={cell} onChange={e => setCell(Number(e.target.value))} className="input">
+            {CELL_SIZES.map(size => <option key={size} value={size}>{size} m</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="p-3 flex items-center justify-between gap-3 border-b-2 border-[var(--duo-swan)]">
+          <p className="text-xs font-bold text-[var(--duo-wolf)] flex items-center gap-2">
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-[var(--duo-blue)]" />}
+            {heatmap && `${heatmap.hunt.name} · ${heatmap.totals.unlocks} unlock${heatmap.totals.unlocks === 1 ? '' : 's'} · ${heatmap.totals.pings} player ping${heatmap.totals.pings === 1 ? '' : 's'}`}
+          </p>
+          <div className="flex gap-1">
+            {(['streets', 'satellite'] as MapStyle[]).map(style => (
+              <button
+                key={style}
+                onClick={() => setMapStyle(style)}
+                title={style === 'streets' ? 'Streets' : 'Satellite'}
+                className={`p-2 rounded-lg ${mapStyle === style ? 'bg-[var(--duo-blue)] text-white' : 'text-[var(--duo-wolf)] hover:bg-[var(--duo-polar)]'}`}
+              >
+                {style === 'streets' ? <Map className="w-4 h-4" /> : <Satellite className="w-4 h-4" />}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div ref={mapRef} className="h-[480px] w-full isolate" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,266 @@
+/**
+ * Admin Hunts Tab — create and manage treasure hunts (freshers week, open days, etc.).
+ * Each hunt has its own start/end window, treasures, progress and leaderboard.
+ * Hunts can only be deleted once all their treasures have been removed.
+ */
+
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, X, Save, Loader2, Flag } from 'lucide-react';
+import { adminAPI, HuntFromAPI, HuntInput } from '../services/api';
+
+/** Props for the AdminHuntsTab component */
+interface AdminHuntsTabProps {
+  hunts: HuntFromAPI[];
+  onHuntsChanged: () => void;
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+/** Form data shape for creating/editing a hunt (dates as datetime-local strings) */
+interface HuntFormData {
+  name: string;
+  description: string;
+  startsAt: string;
+  endsAt: string;
+  manualCodeEnabled: boolean;
+}
+
+/** Badge colours for each hunt status */
+const STATUS_BADGES: Record<HuntFromAPI['status'], string> = {
+  upcoming: 'badge-blue',
+  active: 'badge-green',
+  ended: 'badge-gray'
+};
+
+/**
+ * Convert an ISO date into the "YYYY-MM-DDTHH:mm" local format a datetime-local input expects.
+ * @param {string} iso - The date from the API
+ */
+export const toLocalInput = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+/**
+ * Renders the hunt list with create/edit/delete controls.
+ * @param {HuntFromAPI[]} hunts          - Every hunt, newest first
+ * @param {Function}      onHuntsChanged - Reload the hunt list after a change
+ * @param {Function}      showMessage    - Show a success or error banner in the admin panel
+ */
+export const AdminHuntsTab: React.FC<AdminHuntsTabProps> = ({ hunts, onHuntsChanged, showMessage }) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingHunt, setEditingHunt] = useState<string | null>(null);
+  const [form, setForm] = useState<HuntFormData>({ name: '', description: '', startsAt: '', endsAt: '', manualCodeEnabled: true });
+  const [saving, setSaving] = useState(false);
+
+  /** Open the form in "create new" mode with empty fields */
+  const handleCreate = () => {
+    setForm({ name: '', description: '', startsAt: '', endsAt: '', manualCodeEnabled: true });
+    setEditingHunt(null);
+    setShowForm(true);
+  };
+
+  /** Open the form in "edit" mode, pre-populated with the hunt's details */
+  const handleEdit = (hunt: HuntFromAPI) => {
+    setForm({
+      name: hunt.name,
+      description: hunt.description || '',
+      startsAt: toLocalInput(hunt.startsAt),
+      endsAt: toLocalInput(hunt.endsAt),
+      manualCodeEnabled: hunt.manualCodeEnabled
+    });
+    setEditingHunt(hunt._id);
+    setShowForm(true);
+  };
+
+  /** Save the form — creates a new hunt or updates an existing one */
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const huntData: HuntInput = {
+        name: form.name,
+        description: form.description,
+        startsAt: new Date(form.startsAt).toISOString(),
+        endsAt: new Date(form.endsAt).toISOString(),
+        manualCodeEnabled: form.manualCodeEnabled
+      };
+
+      if (editingHunt) {
+        await adminAPI.updateHunt(editingHunt, huntData);
+        showMessage('Hunt updated successfully!');
+      } else {
+        await adminAPI.createHunt(huntData);
+        showMessage('Hunt created successfully!');
+      }
+
+      setShowForm(false);
+      onHuntsChanged();
+    } catch (err: any) {
+      showMessage(err.message || 'Failed to save hunt', true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /** Delete an empty hunt after confirmation prompt */
+  const handleDelete = async (hunt: HuntFromAPI) => {
+    if (!confirm(`Delete "${hunt.name}" and everyone's progress in it? This cannot be undone.`)) return;
+    try {
+      await adminAPI.deleteHunt(hunt._id);
+      showMessage('Hunt deleted');
+      onHuntsChanged();
+    } catch (err: any) {
+      showMessage(err.message, true);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button onClick={handleCreate} className="btn-primary px-4 py-2 text-sm flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Hunt
+        </button>
+      </div>
+
+      {hunts.length === 0 ? (
+        <div className="card p-8 text-center">
+          <Flag className="w-10 h-10 mx-auto text-[var(--duo-hare)] mb-3" />
+          <p className="text-[var(--duo-hare)] font-bold text-sm">No hunts yet — add one before creating treasures</p>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b-2 border-[var(--duo-swan)] text-[var(--duo-hare)] text-[10px] uppercase tracking-widest">
+                <th className="p-3 font-bold">Name</th>
+                <th className="p-3 font-bold">Status</th>
+                <th className="p-3 font-bold">Window</th>
+                <th className="p-3 font-bold">Manual Codes</th>
+                <th className="p-3 font-bold">Treasures</th>
+                <th className="p-3 font-bold text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hunts.map(hunt => (
+                <tr key={hunt._id} className="border-b border-[var(--duo-swan)] last:border-0 hover:bg-[var(--duo-polar)]">
+                  <td className="p-3">
+                    <p className="font-bold text-[var(--duo-eel)]">{hunt.name}</p>
+                    {hunt.description && <p className="text-xs text-[var(--duo-hare)] truncate max-w-xs">{hunt.description}</p>}
+                  </td>
+                  <td className="p-3"><span className={`badge text-[8px] ${STATUS_BADGES[hunt.status]}`}>{hunt.status}</span></td>
+                  <td className="p-3 text-xs text-[var(--duo-hare)]">
+                    {new Date(hunt.startsAt).toLocaleDateString()} – {new Date(hunt.endsAt).toLocaleDateString()}
+                  </td>
+                  <td className="p-3">
+                    <span className={`badge text-[8px] ${hunt.manualCodeEnabled ? 'badge-green' : 'badge-gray'}`}>{hunt.manualCodeEnabled ? 'On' : 'Off'}</span>
+                  </td>
+                  <td className="p-3 font-black text-[var(--duo-blue)]">{hunt.treasureCount}</td>
+                  <td className="p-3 text-right">
+                    <button onClick={() => handleEdit(hunt)} className="p-2 text-[var(--duo-hare)] hover:text-[var(--duo-blue)]">
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(hunt)}
+                      disabled={hunt.treasureCount > 0}
+                      className="p-2 text-[var(--duo-hare)] hover:text-red-500 disabled:opacity-30 disabled:hover:text-[var(--duo-hare)]"
+                      title={hunt.treasureCount > 0 ? 'Remove its treasures first' : 'Delete hunt'}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Hunt Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-[9990] bg-black/50 flex items-center justify-center p-0 sm:p-4" onClick={(e) => e.target === e.currentTarget && setShowForm(false)}>
+          <div className="card w-full h-full sm:h-auto sm:max-w-lg sm:max-h-[90vh] overflow-y-auto sm:rounded-2xl rounded-none">
+            <div className="sticky top-0 bg-white border-b-2 border-[var(--duo-swan)] p-4 flex items-center justify-between">
+              <h3 className="text-lg font-black text-[var(--duo-eel)]">
+                {editingHunt ? 'Edit Hunt' : 'Add New Hunt'}
+              </h3>
+              <button onClick={() => setShowForm(false)} className="p-2 hover:bg-[var(--duo-polar)] rounded-lg">
+                <X className="w-5 h-5 text-[var(--duo-hare)]" />
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={e => setForm({...form, name: e.target.value})}
+                  className="input"
+                  placeholder="e.g., Freshers Week 2026"
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={e => setForm({...form, description: e.target.value})}
+                  className="input min-h-[80px]"
+                  placeholder="Who the hunt is for and what to expect"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Starts</label>
+                  <input
+                    type="datetime-local"
+                    value={form.startsAt}
+                    onChange={e => setForm({...form, startsAt: e.target.value})}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Ends</label>
+                  <input
+                    type="datetime-local"
+                    value={form.endsAt}
+                    onChange={e => setForm({...form, endsAt: e.target.value})}
+                    className="input"
+                  />
+                </div>
+              </div>
+              <p className="text-[10px] text-[var(--duo-hare)]">Players can only unlock treasures between these times</p>
+
+              <label className="flex items-center gap-2 text-sm font-bold text-[var(--duo-eel)] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={form.manualCodeEnabled}
+                  onChange={e => setForm({...form, manualCodeEnabled: e.target.checked})}
+                />
+                Manual codes — players can type the code under a sticker when their camera can't scan
+              </label>
+            </div>
+
+            <div className="p-4 border-t-2 border-[var(--duo-swan)] flex gap-3">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 btn-outline py-3"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !form.name || !form.startsAt || !form.endsAt}
+                className="flex-1 btn-primary py-3 flex items-center justify-center gap-2"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                {editingHunt ? 'Update' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,67 +1,190 @@
 /**
  * Admin Panel — dashboard for managing the GeoHunt game.
- * Provides three tabs:
+ * Provides these tabs:
  *   - Stats: overview of players, treasures, and game activity
- *   - Treasures: CRUD management with QR code printing
- *   - Users: role management, progress reset, and user deletion
+ *   - Analytics: per-treasure discovery rate, search time, drop-off and hint usage
+ *   - Heatmap: where players are and where unlocks happen, over a chosen time window
+ *   - Hunts: create and schedule hunts (each with its own treasures and leaderboard)
+ *   - Treasures: CRUD management with trail prerequisites and quizzes, filterable by hunt and by status
+ *     (draft, scheduled, live, archived — only live treasures reach players), and QR codes drawn
+ *     locally and printed as PDF label sheets, posters or stickers,
+ *     plus bulk GeoJSON import (checked with a dry run first) and export, and GPX/KML export for GPS apps.
+ *     A map view places treasures by clicking and dragging, with each unlock radius drawn
+ *   - Photos: moderation queue for photo challenge uploads
+ *   - Badges: badge designer with rule builder, qualifying-player preview and backfill
+ *   - Users: role management, progress reset, rebuilding progress from the unlock log, user deletion,
+ *     and CSV/JSON exports of players with progress and of the unlock log
+ *   - Feedback: everything players have sent in, with a CSV/JSON export
+ *   - Audit Log: who changed what and when, filterable by admin, action and date
  * Only accessible to users with the 'admin' role.
  */
 
 import React, { useState, useEffect } from 'react';
 import { 
   Settings, Plus, MapPin, Users, BarChart3, Trash2, Edit2, 
-  Crown, RefreshCw, X, Save, AlertCircle, CheckCircle2, Loader2, Printer, QrCode, MessageSquare, Star, Bug, Lightbulb, MessageCircle
+  Crown, RefreshCw, X, Save, AlertCircle, CheckCircle2, Loader2, Printer, QrCode, MessageSquare, Star, Bug, Lightbulb, MessageCircle,
+  RotateCcw, Flag, Link2, Camera, Award, History, ScrollText, TrendingDown, Flame, Download, Upload,
+  List as ListIcon, Map as MapIcon, LocateFixed
 } from 'lucide-react';
-import { adminAPI, treasuresAPI, feedbackAPI, TreasureFromAPI, AdminStats, UserFromAPI, TreasureInput, FeedbackFromAPI } from '../services/api';
+import { adminAPI, feedbackAPI, huntsAPI, saveDownload, convertTreasure, AdminTreasureFromAPI, AdminStats, UserFromAPI, TreasureInput, TreasureStatus, FeedbackFromAPI, HuntFromAPI } from '../services/api';
+import { AdminHuntsTab, toLocalInput } from './AdminHuntsTab';
+import { AdminPhotosTab } from './AdminPhotosTab';
+import { AdminBadgesTab } from './AdminBadgesTab';
+import { AdminAuditTab } from './AdminAuditTab';
+import { AdminAnalyticsTab } from './AdminAnalyticsTab';
+import { AdminHeatmapTab } from './AdminHeatmapTab';
+import { AdminExportButton } from './AdminExportButton';
+import { AdminTreasureImport } from './AdminTreasureImport';
+import { AdminPlacementMap } from './AdminPlacementMap';
+import { AdminQrSheets } from './AdminQrSheets';
+import { buildGpsFile, GpsFormat } from '../services/gpsExport';
+import { qrDataUrl } from '../services/qrSheets';
 
 /** Available admin dashboard tabs */
-type Tab = 'stats' | 'treasures' | 'users' | 'feedback';
+type Tab = 'stats' | 'analytics' | 'heatmap' | 'hunts' | 'treasures' | 'photos' | 'badges' | 'users' | 'feedback' | 'audit';
 
 /** Form data shape for creating/editing a treasure (values are strings for form inputs) */
 interface TreasureFormData {
+  hunt: string;
   name: string;
   description: string;
   clue: string;
   latitude: string;
   longitude: string;
   points: string;
+  unlockRadius: string;
   category: 'academic' | 'social' | 'sports' | 'history';
+  prerequisites: string[];
+  prerequisiteMode: 'locked' | 'hidden';
+  unlockType: 'qr' | 'photo';
+  photoPrompt: string;
+  quizQuestion: string;
+  /** One option per line — empty for a free-text quiz */
+  quizOptions: string;
+  /** One accepted answer per line */
+  quizAnswers: string;
+  quizRetryPercent: string;
+  status: TreasureStatus;
+  /** When a scheduled treasure goes live, as a datetime-local string */
+  publishAt: string;
 }
 
+/** Label and badge colour for each treasure status */
+const STATUS_BADGES: Record<TreasureStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'badge-gold' },
+  scheduled: { label: 'Scheduled', className: 'badge-blue' },
+  live: { label: 'Live', className: 'badge-green' },
+  archived: { label: 'Archived', className: 'badge-gray' }
+};
+
+/**
+ * Where a treasure is in its lifecycle right now — a scheduled treasure is live once its publish time passes.
+ * @param {AdminTreasureFromAPI} treasure
+ */
+const currentStatus = (treasure: AdminTreasureFromAPI): TreasureStatus =>
+  treasure.status === 'scheduled' && treasure.publishAt && new Date(treasure.publishAt) <= new Date()
+    ? 'live'
+    : treasure.status || 'live';
+
+/** Split a textarea into its non-empty, trimmed lines */
+const toLines = (value: string): string[] => value.split('\n').map(line => line.trim()).filter(Boolean);
+
 /** Blank form state for the "New Treasure" form */
 const emptyTreasure: TreasureFormData = {
+  hunt: '',
   name: '',
   description: '',
   clue: '',
   latitude: '',
   longitude: '',
   points: '',
-  category: 'academic'
+  unlockRadius: '50',
+  category: 'academic',
+  prerequisites: [],
+  prerequisiteMode: 'locked',
+  unlockType: 'qr',
+  photoPrompt: '',
+  quizQuestion: '',
+  quizOptions: '',
+  quizAnswers: '',
+  quizRetryPercent: '50',
+  // New treasures start as drafts so nothing reaches players before it's ready
+  status: 'draft',
+  publishAt: ''
 };
 
 export const AdminPanel: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('stats');
   const [stats, setStats] = useState<AdminStats | null>(null);
-  const [treasures, setTreasures] = useState<TreasureFromAPI[]>([]);
+  const [treasures, setTreasures] = useState<AdminTreasureFromAPI[]>([]);
   const [users, setUsers] = useState<UserFromAPI[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<FeedbackFromAPI[]>([]);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [hunts, setHunts] = useState<HuntFromAPI[]>([]);
+  const [huntFilter, setHuntFilter] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<TreasureStatus | ''>('');
   
   // Treasure form state
   const [showTreasureForm, setShowTreasureForm] = useState(false);
   const [editingTreasure, setEditingTreasure] = useState<string | null>(null);
   const [treasureForm, setTreasureForm] = useState<TreasureFormData>(emptyTreasure);
   const [formLoading, setFormLoading] = useState(false);
+  const [chainOptions, setChainOptions] = useState<AdminTreasureFromAPI[]>([]);
+  const [locating, setLocating] = useState(false);
+
+  // Treasure list as a table or as the placement map
+  const [treasureView, setTreasureView] = useState<'list' | 'map'>('list');
 
   // Print QR modal state
-  const [printTreasure, setPrintTreasure] = useState<TreasureFromAPI | null>(null);
+  const [printTreasure, setPrintTreasure] = useState<AdminTreasureFromAPI | null>(null);
+  const [printQr, setPrintQr] = useState<string | null>(null);
+  const [showQrSheets, setShowQrSheets] = useState(false);
+
+  // Bulk import/export state
+  const [showImport, setShowImport] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+
+  // Draw the print modal's QR code locally whenever a treasure is opened for printing
+  useEffect(() => {
+    setPrintQr(null);
+    if (!printTreasure) return;
+    let cancelled = false;
+    qrDataUrl(printTreasure.qrPayload)
+      .then(url => !cancelled && setPrintQr(url))
+      .catch(() => !cancelled && showMessage('Could not draw the QR code', true));
+    return () => { cancelled = true; };
+  }, [printTreasure]);
 
-  // Load data based on active tab
+  // Load data based on active tab (and the hunt and status filters on the treasures tab)
   useEffect(() => {
     loadData();
-  }, [activeTab]);
+  }, [activeTab, huntFilter, statusFilter]);
+
+  // The prerequisite picker lists the other treasures in the hunt the form is set to
+  useEffect(() => {
+    if (!showTreasureForm || !treasureForm.hunt) return;
+    adminAPI.getTreasures(treasureForm.hunt)
+      .then(response => setChainOptions(response.data.filter(t => t._id !== editingTreasure)))
+      .catch(err => console.error('Failed to load treasures for prerequisites:', err));
+  }, [showTreasureForm, treasureForm.hunt, editingTreasure]);
+
+  // Hunts are needed on several tabs (filter, treasure form), so load them once up front
+  useEffect(() => {
+    loadHunts();
+  }, []);
+
+  /** Reload the hunt list — after hunts are added/edited or treasures move between them */
+  const loadHunts = async () => {
+    try {
+      const response = await huntsAPI.getAll();
+      setHunts(response.data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load hunts');
+    }
+  };
 
   /**
    * Load data for the currently active tab from the API.
@@ -74,8 +197,10 @@ export const AdminPanel: React.FC = () => {
       if (activeTab === 'stats') {
         const response = await adminAPI.getStats();
         setStats(response.data);
+      } else if (activeTab === 'hunts') {
+        await loadHunts();
       } else if (activeTab === 'treasures') {
-        const response = await treasuresAPI.getAll();
+        const response = await adminAPI.getTreasures(huntFilter || undefined, statusFilter || undefined);
         setTreasures(response.data);
       } else if (activeTab === 'users') {
         const response = await adminAPI.getUsers();
@@ -107,23 +232,61 @@ export const AdminPanel: React.FC = () => {
     setTimeout(() => { setError(null); setSuccess(null); }, 3000);
   };
 
-  /** Open the treasure form in "create new" mode with empty fields */
-  const handleCreateTreasure = () => {
-    setTreasureForm(emptyTreasure);
+  /** Download the filtered hunt's treasures (or the current hunt's) as GeoJSON */
+  const handleExportGeoJson = async () => {
+    setShowExportMenu(false);
+    try {
+      saveDownload(await adminAPI.exportTreasuresGeoJson(huntFilter || undefined));
+    } catch (err: any) {
+      showMessage(err.message || 'Export failed', true);
+    }
+  };
+
+  /** Save the listed treasures as GPX waypoints or KML placemarks for offline GPS apps */
+  const handleExportGps = (format: GpsFormat) => {
+    setShowExportMenu(false);
+    const title = `GeoHunt ${hunts.find(h => h._id === huntFilter)?.name || 'all hunts'}`;
+    saveDownload(buildGpsFile(treasures.map(t => convertTreasure(t, [])), format, title));
+  };
+
+  /**
+   * Open the treasure form in "create new" mode with empty fields.
+   * @param {number} [latitude]  - Where the admin clicked on the placement map
+   * @param {number} [longitude]
+   */
+  const handleCreateTreasure = (latitude?: number, longitude?: number) => {
+    setTreasureForm({
+      ...emptyTreasure,
+      hunt: huntFilter || hunts[0]?._id || '',
+      latitude: latitude !== undefined ? latitude.toFixed(6) : '',
+      longitude: longitude !== undefined ? longitude.toFixed(6) : ''
+    });
     setEditingTreasure(null);
     setShowTreasureForm(true);
   };
 
   /** Open the treasure form in "edit" mode, pre-populated with existing data */
-  const handleEditTreasure = (treasure: TreasureFromAPI) => {
+  const handleEditTreasure = (treasure: AdminTreasureFromAPI) => {
     setTreasureForm({
+      hunt: treasure.hunt,
       name: treasure.name,
       description: treasure.description,
       clue: treasure.clue,
       latitude: treasure.latitude.toString(),
       longitude: treasure.longitude.toString(),
       points: treasure.points.toString(),
-      category: treasure.category
+      unlockRadius: (treasure.unlockRadius ?? 50).toString(),
+      category: treasure.category,
+      prerequisites: treasure.prerequisites || [],
+      prerequisiteMode: treasure.prerequisiteMode || 'locked',
+      unlockType: treasure.unlockType || 'qr',
+      photoPrompt: treasure.photoPrompt || '',
+      quizQuestion: treasure.quiz?.question || '',
+      quizOptions: (treasure.quiz?.options || []).join('\n'),
+      quizAnswers: (treasure.quiz?.answers || []).join('\n'),
+      quizRetryPercent: (treasure.quiz?.retryPercent ?? 50).toString(),
+      status: treasure.status || 'live',
+      publishAt: treasure.publishAt ? toLocalInput(treasure.publishAt) : ''
     });
     setEditingTreasure(treasure._id);
     setShowTreasureForm(true);
@@ -134,13 +297,28 @@ export const AdminPanel: React.FC = () => {
     setFormLoading(true);
     try {
       const treasureData: TreasureInput = {
+        hunt: treasureForm.hunt,
         name: treasureForm.name,
         description: treasureForm.description,
         clue: treasureForm.clue,
         latitude: parseFloat(treasureForm.latitude),
         longitude: parseFloat(treasureForm.longitude),
         points: parseInt(treasureForm.points),
-        category: treasureForm.category
+        unlockRadius: parseInt(treasureForm.unlockRadius) || 50,
+        category: treasureForm.category,
+        prerequisites: treasureForm.prerequisites,
+        prerequisiteMode: treasureForm.prerequisiteMode,
+        unlockType: treasureForm.unlockType,
+        photoPrompt: treasureForm.photoPrompt.trim(),
+        quiz: {
+          // Quizzes follow a scan, so photo challenges never have one
+          question: treasureForm.unlockType === 'qr' ? treasureForm.quizQuestion.trim() : '',
+          options: toLines(treasureForm.quizOptions),
+          answers: toLines(treasureForm.quizAnswers),
+          retryPercent: parseInt(treasureForm.quizRetryPercent) || 0
+        },
+        status: treasureForm.status,
+        publishAt: treasureForm.status === 'scheduled' && treasureForm.publishAt ? new Date(treasureForm.publishAt).toISOString() : null
       };
 
       if (editingTreasure) {
@@ -153,6 +331,7 @@ export const AdminPanel: React.FC = () => {
       
       setShowTreasureForm(false);
       loadData();
+      loadHunts();
     } catch (err: any) {
       showMessage(err.message || 'Failed to save treasure', true);
     } finally {
@@ -160,6 +339,49 @@ export const AdminPanel: React.FC = () => {
     }
   };
 
+  /** Move a treasure that was dragged on the placement map, after confirmation */
+  const handleMoveTreasure = async (id: string, latitude: number, longitude: number) => {
+    const treasure = treasures.find(t => t._id === id);
+    if (!treasure || !confirm(`Move "${treasure.name}" here? Players will need to find it at the new spot.`)) {
+      // Redraw so the marker snaps back to where the treasure still is
+      setTreasures([...treasures]);
+      return;
+    }
+    try {
+      await adminAPI.updateTreasure(id, { latitude: Number(latitude.toFixed(6)), longitude: Number(longitude.toFixed(6)) });
+      showMessage(`Moved "${treasure.name}"`);
+      loadData();
+    } catch (err: any) {
+      showMessage(err.message || 'Failed to move treasure', true);
+      setTreasures([...treasures]);
+    }
+  };
+
+  /** Fill the form's coordinates from the admin's GPS while they stand at the spot */
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      showMessage("This device can't share its location", true);
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        setTreasureForm(form => ({
+          ...form,
+          latitude: pos.coords.latitude.toFixed(6),
+          longitude: pos.coords.longitude.toFixed(6)
+        }));
+        showMessage(`Location set (accurate to about ${Math.round(pos.coords.accuracy)}m)`);
+        setLocating(false);
+      },
+      (err) => {
+        showMessage(err.code === 1 ? 'Allow location access to use your current position' : "Couldn't get a GPS fix — try again outside", true);
+        setLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+    );
+  };
+
   /** Delete a treasure after confirmation prompt */
   const handleDeleteTreasure = async (id: string, name: string) => {
     if (!confirm(`Delete "${name}"? This cannot be undone.`)) return;
@@ -167,6 +389,23 @@ export const AdminPanel: React.FC = () => {
       await adminAPI.deleteTreasure(id);
       showMessage('Treasure deleted');
       loadData();
+      loadHunts();
+    } catch (err: any) {
+      showMessage(err.message, true);
+    }
+  };
+
+  /**
+   * Issue a fresh signed QR code for a treasure after confirmation.
+   * Old stickers stop working straight away, so the new code is opened for printing.
+   */
+  const handleRotateQr = async (treasure: AdminTreasureFromAPI) => {
+    if (!confirm(`Rotate the QR code for "${treasure.name}"? Every printed sticker for it will stop working.`)) return;
+    try {
+      const response = await adminAPI.rotateTreasureQr(treasure._id);
+      showMessage(response.message);
+      setTreasures(prev => prev.map(t => t._id === treasure._id ? response.data : t));
+      setPrintTreasure(response.data);
     } catch (err: any) {
       showMessage(err.message, true);
     }
@@ -196,9 +435,9 @@ export const AdminPanel: React.FC = () => {
     }
   };
 
-  /** Reset a player's progress back to zero (keeps their account) */
+  /** Reset a player's progress back to zero in every hunt (keeps their account) */
   const handleResetProgress = async (user: UserFromAPI) => {
-    if (!confirm(`Reset all progress for "${user.username}"?`)) return;
+    if (!confirm(`Reset all progress for "${user.username}" in every hunt?`)) return;
     try {
       await adminAPI.resetUserProgress(user._id);
       showMessage(`Progress reset for ${user.username}`);
@@ -207,11 +446,48 @@ export const AdminPanel: React.FC = () => {
     }
   };
 
+  /**
+   * Recount everyone's progress from the unlock event log.
+   * Runs a dry run first so the admin sees how much would change, and offers to bring
+   * unlocks from before the log existed into it rather than skipping those players.
+   */
+  const handleRebuildProgress = async () => {
+    setRebuilding(true);
+    try {
+      const preview = await adminAPI.rebuildProgress({ dryRun: true });
+      const { changed, created, skipped } = preview.data;
+
+      const importLegacy = skipped.length > 0 && confirm(
+        `${skipped.length} player record(s) have unlocks from before the event log existed. ` +
+        'Add those unlocks to the log (at each treasure\'s current points) so they can be rebuilt too? ' +
+        'Cancel leaves them untouched.'
+      );
+      if (changed + created === 0 && !importLegacy) {
+        showMessage('Everyone\'s progress already matches the unlock log');
+        return;
+      }
+      if (!confirm(`Rebuild progress from the unlock log? ${changed + created} record(s) will change${importLegacy ? `, plus ${skipped.length} with older unlocks` : ''}.`)) return;
+
+      const response = await adminAPI.rebuildProgress({ importLegacy });
+      showMessage(response.message);
+    } catch (err: any) {
+      showMessage(err.message, true);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
   const tabs = [
     { id: 'stats' as Tab, label: 'Dashboard', icon: BarChart3 },
+    { id: 'analytics' as Tab, label: 'Analytics', icon: TrendingDown },
+    { id: 'heatmap' as Tab, label: 'Heatmap', icon: Flame },
+    { id: 'hunts' as Tab, label: 'Hunts', icon: Flag },
     { id: 'treasures' as Tab, label: 'Treasures', icon: MapPin },
+    { id: 'photos' as Tab, label: 'Photos', icon: Camera },
+    { id: 'badges' as Tab, label: 'Badges', icon: Award },
     { id: 'users' as Tab, label: 'Users', icon: Users },
     { id: 'feedback' as Tab, label: 'Feedback', icon: MessageSquare },
+    { id: 'audit' as Tab, label: 'Audit Log', icon: ScrollText },
   ];
 
   return (
@@ -235,12 +511,12 @@ export const AdminPanel: React.FC = () => {
         </div>
 
         {/* Tab Navigation */}
-        <div className="flex gap-2 border-b-2 border-[var(--duo-swan)]">
+        <div className="flex gap-2 border-b-2 border-[var(--duo-swan)] overflow-x-auto">
           {tabs.map(tab => (
             <button
               key={tab.id}
               onClick={() => setActiveTab(tab.id)}
-              className={`flex items-center gap-2 px-4 py-2 text-sm font-bold transition-all border-b-2 -mb-[2px] ${
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-bold whitespace-nowrap transition-all border-b-2 -mb-[2px] ${
                 activeTab === tab.id 
                   ? 'text-[var(--duo-blue)] border-[var(--duo-blue)]' 
                   : 'text-[var(--duo-hare)] border-transparent hover:text-[var(--duo-wolf)]'
@@ -330,90 +606,262 @@ export const AdminPanel: React.FC = () => {
             </div>
           )}
 
+          {/* Analytics Tab */}
+          {activeTab === 'analytics' && (
+            <AdminAnalyticsTab hunts={hunts} showMessage={showMessage} />
+          )}
+
+          {/* Heatmap Tab */}
+          {activeTab === 'heatmap' && (
+            <AdminHeatmapTab hunts={hunts} showMessage={showMessage} />
+          )}
+
+          {/* Hunts Tab */}
+          {activeTab === 'hunts' && (
+            <AdminHuntsTab hunts={hunts} onHuntsChanged={loadHunts} showMessage={showMessage} />
+          )}
+
+          {/* Photos Tab */}
+          {activeTab === 'photos' && (
+            <AdminPhotosTab showMessage={showMessage} />
+          )}
+
+          {/* Audit Log Tab */}
+          {activeTab === 'audit' && (
+            <AdminAuditTab showMessage={showMessage} />
+          )}
+
+          {/* Badges Tab */}
+          {activeTab === 'badges' && (
+            <AdminBadgesTab hunts={hunts} showMessage={showMessage} />
+          )}
+
           {/* Treasures Tab */}
           {activeTab === 'treasures' && (
             <div className="space-y-4">
-              <div className="flex justify-end gap-2">
-                <button 
-                  onClick={() => {
-                    const printWindow = window.open('', '_blank');
-                    if (printWindow) {
-                      const qrCards = treasures.map(t => `
-                        <div class="card">
-                          <img class="qr" src="https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(`geohunt:${t._id}`)}" alt="QR Code" />
-                          <h1 class="title">${t.name}</h1>
-                          <p class="meta">${t.category} • ${t.points} pts</p>
-                          <div class="footer">
-                            <p class="footer-title">Scan to unlock!</p>
-                            <p class="footer-sub">GeoHunt Campus Treasure</p>
-                          </div>
-                        </div>
-                      `).join('');
-                      
-                      printWindow.document.write(`
-                        <html>
-                          <head>
-                            <title>GeoHunt - All QR Codes</title>
-                            <style>
-                              body { font-family: system-ui, -apple-system, sans-serif; margin: 0; padding: 20px; }
-                              .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 20px; }
-                              .card { border: 4px dashed #e5e5e5; border-radius: 16px; padding: 24px; text-align: center; break-inside: avoid; }
-                              .qr { width: 160px; height: 160px; margin: 0 auto 12px; }
-                              .title { font-size: 18px; font-weight: 900; color: #4b4b4b; margin: 0 0 4px; }
-                              .meta { font-size: 10px; font-weight: 700; color: #afafaf; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 12px; }
-                              .footer { background: #f7f7f7; border-radius: 8px; padding: 8px; }
-                              .footer-title { font-size: 9px; font-weight: 700; color: #777; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 2px; }
-                              .footer-sub { font-size: 10px; color: #afafaf; margin: 0; }
-                              @media print { body { padding: 10px; } .card { page-break-inside: avoid; } }
-                            </style>
-                          </head>
-                          <body>
-                            <h1 style="text-align:center;margin:0 0 20px;font-size:24px;">GeoHunt Location QR Codes</h1>
-                            <div class="grid">${qrCards}</div>
-                            <script>window.onload = function() { setTimeout(() => window.print(), 500); }</script>
-                          </body>
-                        </html>
-                      `);
-                      printWindow.document.close();
-                    }
-                  }}
+              <div className="flex flex-wrap justify-end gap-2">
+                <select
+                  value={huntFilter}
+                  onChange={e => setHuntFilter(e.target.value)}
+                  className="input w-auto py-2 text-sm"
+                  aria-label="Filter by hunt"
+                >
+                  <option value="">All hunts</option>
+                  {hunts.map(h => <option key={h._id} value={h._id}>{h.name}</option>)}
+                </select>
+                <select
+                  value={statusFilter}
+                  onChange={e => setStatusFilter(e.target.value as TreasureStatus | '')}
+                  className="input w-auto py-2 text-sm mr-auto"
+                  aria-label="Filter by status"
+                >
+                  <option value="">All statuses</option>
+                  {(Object.keys(STATUS_BADGES) as TreasureStatus[]).map(status => (
+                    <option key={status} value={status}>{STATUS_BADGES[status].label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setShowQrSheets(true)}
+                  disabled={treasures.length === 0}
                   className="btn-outline px-4 py-2 text-sm flex items-center gap-2"
                 >
                   <Printer className="w-4 h-4" />
                   Print All QR Codes
                 </button>
-                <button onClick={handleCreateTreasure} className="btn-primary px-4 py-2 text-sm flex items-center gap-2">
+                <div className="relative">
+                  <button onClick={() => setShowExportMenu(!showExportMenu)} disabled={hunts.length === 0} className="btn-outline px-4 py-2 text-sm flex items-center gap-2">
+                    <Download className="w-4 h-4" />
+                    Export
+                  </button>
+                  {showExportMenu && (
+                    <div className="absolute right-0 top-full mt-2 z-20 card py-1 w-60 text-left">
+                      <button onClick={handleExportGeoJson} className="w-full px-4 py-2 hover:bg-[var(--duo-polar)] text-left">
+                        <p className="text-sm font-bold text-[var(--duo-eel)]">GeoJSON</p>
+                        <p className="text-[10px] text-[var(--duo-hare)]">Every field — edit and import it again</p>
+                      </button>
+                      <button onClick={() => handleExportGps('gpx')} disabled={treasures.length === 0} className="w-full px-4 py-2 hover:bg-[var(--duo-polar)] text-left">
+                        <p className="text-sm font-bold text-[var(--duo-eel)]">GPX waypoints</p>
+                        <p className="text-[10px] text-[var(--duo-hare)]">For GPS apps and handheld units</p>
+                      </button>
+                      <button onClick={() => handleExportGps('kml')} disabled={treasures.length === 0} className="w-full px-4 py-2 hover:bg-[var(--duo-polar)] text-left">
+                        <p className="text-sm font-bold text-[var(--duo-eel)]">KML placemarks</p>
+                        <p className="text-[10px] text-[var(--duo-hare)]">For Google Earth and Google My Maps</p>
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <button onClick={() => setShowImport(true)} disabled={hunts.length === 0} className="btn-outline px-4 py-2 text-sm flex items-center gap-2" title="Add or update treasures from a GeoJSON file">
+                  <Upload className="w-4 h-4" />
+                  Import GeoJSON
+                </button>
+                <div className="flex rounded-xl border-2 border-[var(--duo-swan)] overflow-hidden">
+                  {(['list', 'map'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setTreasureView(view)}
+                      className={`px-3 py-2 text-sm font-bold flex items-center gap-1 ${treasureView === view ? 'bg-[var(--duo-blue)] text-white' : 'text-[var(--duo-wolf)] hover:bg-[var(--duo-polar)]'}`}
+                    >
+                      {view === 'list' ? <ListIcon className="w-4 h-4" /> : <MapIcon className="w-4 h-4" />}
+                      {view === 'list' ? 'List' : 'Map'}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => handleCreateTreasure()} disabled={hunts.length === 0} className="btn-primary px-4 py-2 text-sm flex items-center gap-2" title={hunts.length === 0 ? 'Create a hunt first' : undefined}>
                   <Plus className="w-4 h-4" />
                   Add Treasure
                 </button>
               </div>
 
+              {treasureView === 'map' ? (
+                <div className="card p-3 space-y-2">
+                  <p className="text-xs text-[var(--duo-wolf)]">
+                    Click an empty spot to add a treasure there, drag a marker to move it, or click one to edit it.
+                    Dashed circles show how close players must be to unlock.
+                  </p>
+                  <AdminPlacementMap
+                    treasures={treasures.map(t => ({ id: t._id, name: t.name, latitude: t.latitude, longitude: t.longitude, unlockRadius: t.unlockRadius ?? 50 }))}
+                    onMapClick={(latitude, longitude) => hunts.length > 0 && handleCreateTreasure(latitude, longitude)}
+                    onTreasureMove={handleMoveTreasure}
+                    onTreasureClick={id => {
+                      const treasure = treasures.find(t => t._id === id);
+                      if (treasure) handleEditTreasure(treasure);
+                    }}
+                    className="h-[520px]"
+                  />
+                </div>
+              ) : (
+                <div className="card overflow-hidden">
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="border-b-2 border-[var(--duo-swan)] text-[var(--duo-hare)] text-[10px] uppercase tracking-widest">
+                        <th className="p-3 font-bold">Name</th>
+                        <th className="p-3 font-bold">Hunt</th>
+                        <th className="p-3 font-bold">Status</th>
+                        <th className="p-3 font-bold">Category</th>
+                        <th className="p-3 font-bold">Points</th>
+                        <th className="p-3 font-bold">Coordinates</th>
+                        <th className="p-3 font-bold text-right">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {treasures.map(t => (
+                        <tr key={t._id} className="border-b border-[var(--duo-swan)] last:border-0 hover:bg-[var(--duo-polar)]">
+                          <td className="p-3 font-bold text-[var(--duo-eel)]">
+                            {t.name}
+                            {t.prerequisites?.length > 0 && (
+                              <span className="ml-2 inline-flex items-center gap-1 text-[10px] text-[var(--duo-hare)]" title={t.prerequisiteMode === 'hidden' ? 'Hidden until its prerequisites are found' : 'Locked until its prerequisites are found'}>
+                                <Link2 className="w-3 h-3" />{t.prerequisites.length}
+                              </span>
+                            )}
+                          </td>
+                          <td className="p-3 text-xs text-[var(--duo-hare)]">{hunts.find(h => h._id === t.hunt)?.name || '—'}</td>
+                          <td className="p-3">
+                            <span
+                              className={`badge ${STATUS_BADGES[currentStatus(t)].className} text-[8px]`}
+                              title={t.status === 'scheduled' && t.publishAt ? `Goes live ${new Date(t.publishAt).toLocaleString()}` : undefined}
+                            >
+                              {STATUS_BADGES[currentStatus(t)].label}
+                            </span>
+                          </td>
+                          <td className="p-3"><span className="badge badge-gray text-[8px]">{t.category}</span></td>
+                          <td className="p-3 font-black text-[var(--duo-blue)]">{t.points}</td>
+                          <td className="p-3 text-xs text-[var(--duo-hare)] font-mono">{t.latitude.toFixed(4)}, {t.longitude.toFixed(4)} <span className="text-[var(--duo-wolf)]">± {t.unlockRadius ?? 50}m</span></td>
+                          <td className="p-3 text-right">
+                            {t.unlockType === 'photo' ? (
+                              <span className="p-2 inline-flex text-[var(--duo-hare)]" title="Photo challenge — no QR sticker">
+                                <Camera className="w-4 h-4" />
+                              </span>
+                            ) : (
+                              <>
+                                <button onClick={() => setPrintTreasure(t)} className="p-2 text-[var(--duo-hare)] hover:text-purple-600" title="Print QR Code">
+                                  <QrCode className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleRotateQr(t)} className="p-2 text-[var(--duo-hare)] hover:text-orange-500" title={`Rotate QR Code (v${t.qrVersion})`}>
+                                  <RotateCcw className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
+                            <button onClick={() => handleEditTreasure(t)} className="p-2 text-[var(--duo-hare)] hover:text-[var(--duo-blue)]">
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => handleDeleteTreasure(t._id, t.name)} className="p-2 text-[var(--duo-hare)] hover:text-red-500">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Users Tab */}
+          {activeTab === 'users' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap justify-end gap-2">
+                <AdminExportButton dataset="users" label="Export Players" hunts={hunts} showMessage={showMessage} />
+                <AdminExportButton dataset="unlocks" label="Export Unlocks" hunts={hunts} showMessage={showMessage} />
+                <button
+                  onClick={handleRebuildProgress}
+                  disabled={rebuilding}
+                  className="btn-outline px-4 py-2 text-sm flex items-center gap-2"
+                  title="Recount treasures, points, levels and badges from the unlock event log"
+                >
+                  {rebuilding ? <Loader2 className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+                  Rebuild from Unlock Log
+                </button>
+              </div>
               <div className="card overflow-hidden">
                 <table className="w-full text-left">
                   <thead>
                     <tr className="border-b-2 border-[var(--duo-swan)] text-[var(--duo-hare)] text-[10px] uppercase tracking-widest">
-                      <th className="p-3 font-bold">Name</th>
-                      <th className="p-3 font-bold">Category</th>
-                      <th className="p-3 font-bold">Points</th>
-                      <th className="p-3 font-bold">Coordinates</th>
+                      <th className="p-3 font-bold">Username</th>
+                      <th className="p-3 font-bold">Email</th>
+                      <th className="p-3 font-bold">Role</th>
+                      <th className="p-3 font-bold">Joined</th>
                       <th className="p-3 font-bold text-right">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {treasures.map(t => (
-                      <tr key={t._id} className="border-b border-[var(--duo-swan)] last:border-0 hover:bg-[var(--duo-polar)]">
-                        <td className="p-3 font-bold text-[var(--duo-eel)]">{t.name}</td>
-                        <td className="p-3"><span className="badge badge-gray text-[8px]">{t.category}</span></td>
-                        <td className="p-3 font-black text-[var(--duo-blue)]">{t.points}</td>
-                        <td className="p-3 text-xs text-[var(--duo-hare)] font-mono">{t.latitude.toFixed(4)}, {t.longitude.toFixed(4)}</td>
+                    {users.map(u => (
+                      <tr key={u._id} className="border-b border-[var(--duo-swan)] last:border-0 hover:bg-[var(--duo-polar)]">
+                        <td className="p-3">
+                          <div className="flex items-center gap-2">
+                            <span className="font-bold text-[var(--duo-eel)]">{u.username}</span>
+                            {u.role === 'admin' && <Crown className="w-4 h-4 text-[var(--duo-gold)]" />}
+                          </div>
+                        </td>
+                        <td className="p-3 text-sm text-[var(--duo-hare)]">{u.email}</td>
+                        <td className="p-3">
+                          <span className={`badge text-[8px] ${u.role === 'admin' ? 'badge-gold' : 'badge-gray'}`}>
+                            {u.role}
+                          </span>
+                        </td>
+                        <td className="p-3 text-xs text-[var(--duo-hare)]">
+                          {new Date(u.createdAt).toLocaleDateString()}
+                        </td>
                         <td className="p-3 text-right">
-                          <button onClick={() => setPrintTreasure(t)} className="p-2 text-[var(--duo-hare)] hover:text-purple-600" title="Print QR Code">
-                            <QrCode className="w-4 h-4" />
+                          <button 
+                            onClick={() => handleToggleRole(u)} 
+                            className="p-2 text-[var(--duo-hare)] hover:text-purple-600"
+                            title={u.role === 'admin' ? 'Demote to user' : 'Promote to admin'}
+                          >
+                            <Crown className="w-4 h-4" />
                           </button>
-                          <button onClick={() => handleEditTreasure(t)} className="p-2 text-[var(--duo-hare)] hover:text-[var(--duo-blue)]">
-                            <Edit2 className="w-4 h-4" />
+                          <button 
+                            onClick={() => handleResetProgress(u)} 
+                            className="p-2 text-[var(--duo-hare)] hover:text-orange-500"
+                            title="Reset progress"
+                          >
+                            <RefreshCw className="w-4 h-4" />
                           </button>
-                          <button onClick={() => handleDeleteTreasure(t._id, t.name)} className="p-2 text-[var(--duo-hare)] hover:text-red-500">
+                          <button 
+                            onClick={() => handleDeleteUser(u)} 
+                            className="p-2 text-[var(--duo-hare)] hover:text-red-500"
+                            title="Delete user"
+                          >
                             <Trash2 className="w-4 h-4" />
                           </button>
                         </td>
@@ -424,67 +872,6 @@ export const AdminPanel: React.FC = () => {
               </div>
             </div>
           )}
-
-          {/* Users Tab */}
-          {activeTab === 'users' && (
-            <div className="card overflow-hidden">
-              <table className="w-full text-left">
-                <thead>
-                  <tr className="border-b-2 border-[var(--duo-swan)] text-[var(--duo-hare)] text-[10px] uppercase tracking-widest">
-                    <th className="p-3 font-bold">Username</th>
-                    <th className="p-3 font-bold">Email</th>
-                    <th className="p-3 font-bold">Role</th>
-                    <th className="p-3 font-bold">Joined</th>
-                    <th className="p-3 font-bold text-right">Actions</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {users.map(u => (
-                    <tr key={u._id} className="border-b border-[var(--duo-swan)] last:border-0 hover:bg-[var(--duo-polar)]">
-                      <td className="p-3">
-                        <div className="flex items-center gap-2">
-                          <span className="font-bold text-[var(--duo-eel)]">{u.username}</span>
-                          {u.role === 'admin' && <Crown className="w-4 h-4 text-[var(--duo-gold)]" />}
-                        </div>
-                      </td>
-                      <td className="p-3 text-sm text-[var(--duo-hare)]">{u.email}</td>
-                      <td className="p-3">
-                        <span className={`badge text-[8px] ${u.role === 'admin' ? 'badge-gold' : 'badge-gray'}`}>
-                          {u.role}
-                        </span>
-                      </td>
-                      <td className="p-3 text-xs text-[var(--duo-hare)]">
-                        {new Date(u.createdAt).toLocaleDateString()}
-                      </td>
-                      <td className="p-3 text-right">
-                        <button 
-                          onClick={() => handleToggleRole(u)} 
-                          className="p-2 text-[var(--duo-hare)] hover:text-purple-600"
-                          title={u.role === 'admin' ? 'Demote to user' : 'Promote to admin'}
-                        >
-                          <Crown className="w-4 h-4" />
-                        </button>
-                        <button 
-                          onClick={() => handleResetProgress(u)} 
-                          className="p-2 text-[var(--duo-hare)] hover:text-orange-500"
-                          title="Reset progress"
-                        >
-                          <RefreshCw className="w-4 h-4" />
-                        </button>
-                        <button 
-                          onClick={() => handleDeleteUser(u)} 
-                          className="p-2 text-[var(--duo-hare)] hover:text-red-500"
-                          title="Delete user"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          )}
         </>
       )}
 
@@ -502,6 +889,70 @@ export const AdminPanel: React.FC = () => {
             </div>
             
             <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Hunt</label>
+                <select
+                  value={treasureForm.hunt}
+                  onChange={e => setTreasureForm({...treasureForm, hunt: e.target.value, prerequisites: []})}
+                  className="input"
+                >
+                  {hunts.map(h => <option key={h._id} value={h._id}>{h.name}</option>)}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className={treasureForm.status === 'scheduled' ? '' : 'col-span-2'}>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Status</label>
+                  <select
+                    value={treasureForm.status}
+                    onChange={e => setTreasureForm({...treasureForm, status: e.target.value as TreasureStatus})}
+                    className="input"
+                  >
+                    <option value="draft">Draft — only admins can see it</option>
+                    <option value="scheduled">Scheduled — goes live at a set time</option>
+                    <option value="live">Live — on the map now</option>
+                    <option value="archived">Archived — retired, finds still count</option>
+                  </select>
+                </div>
+                {treasureForm.status === 'scheduled' && (
+                  <div>
+                    <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Goes Live At</label>
+                    <input
+                      type="datetime-local"
+                      value={treasureForm.publishAt}
+                      onChange={e => setTreasureForm({...treasureForm, publishAt: e.target.value})}
+                      className="input"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Players Prove It By</label>
+                <select
+                  value={treasureForm.unlockType}
+                  onChange={e => setTreasureForm({...treasureForm, unlockType: e.target.value as 'qr' | 'photo'})}
+                  className="input"
+                >
+                  <option value="qr">Scanning a QR sticker</option>
+                  <option value="photo">Uploading a photo (reviewed in the Photos tab)</option>
+                </select>
+              </div>
+
+              {treasureForm.unlockType === 'photo' && (
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Photo Task</label>
+                  <input
+                    type="text"
+                    value={treasureForm.photoPrompt}
+                    onChange={e => setTreasureForm({...treasureForm, photoPrompt: e.target.value})}
+                    className="input"
+                    placeholder="e.g., Take a selfie with the clock tower behind you"
+                  />
+                  <p className="text-[10px] text-[var(--duo-hare)] mt-1">Points are awarded once an admin approves the photo</p>
+                </div>
+              )}
+
               <div>
                 <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Name</label>
                 <input
@@ -557,6 +1008,31 @@ export const AdminPanel: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <AdminPlacementMap
+                  treasures={chainOptions.map(t => ({ id: t._id, name: t.name, latitude: t.latitude, longitude: t.longitude, unlockRadius: t.unlockRadius ?? 50 }))}
+                  draft={isNaN(parseFloat(treasureForm.latitude)) || isNaN(parseFloat(treasureForm.longitude)) ? null : {
+                    latitude: parseFloat(treasureForm.latitude),
+                    longitude: parseFloat(treasureForm.longitude),
+                    unlockRadius: parseInt(treasureForm.unlockRadius) || 50
+                  }}
+                  onDraftMove={(latitude, longitude) => setTreasureForm(form => ({ ...form, latitude: latitude.toFixed(6), longitude: longitude.toFixed(6) }))}
+                  className="h-56"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-[10px] text-[var(--duo-hare)]">Click the map or drag the blue pin to place it</p>
+                  <button
+                    type="button"
+                    onClick={handleUseMyLocation}
+                    disabled={locating}
+                    className="btn-outline px-3 py-1.5 text-xs flex items-center gap-1 shrink-0"
+                  >
+                    {locating ? <Loader2 className="w-3 h-3 animate-spin" /> : <LocateFixed className="w-3 h-3" />}
+                    Use my current location
+                  </button>
+                </div>
+              </div>
               
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -583,6 +1059,111 @@ export const AdminPanel: React.FC = () => {
                   </select>
                 </div>
               </div>
+
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Unlock Radius (meters)</label>
+                <input
+                  type="number"
+                  min="10"
+                  max="1000"
+                  value={treasureForm.unlockRadius}
+                  onChange={e => setTreasureForm({...treasureForm, unlockRadius: e.target.value})}
+                  className="input"
+                  placeholder="50"
+                />
+                <p className="text-[10px] text-[var(--duo-hare)] mt-1">Players must be this close before the server accepts their scan</p>
+              </div>
+
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Find These First</label>
+                {chainOptions.length === 0 ? (
+                  <p className="text-[10px] text-[var(--duo-hare)]">No other treasures in this hunt yet</p>
+                ) : (
+                  <div className="max-h-40 overflow-y-auto rounded-xl border-2 border-[var(--duo-swan)] divide-y divide-[var(--duo-swan)]">
+                    {chainOptions.map(option => (
+                      <label key={option._id} className="flex items-center gap-2 px-3 py-2 text-sm font-bold text-[var(--duo-eel)] cursor-pointer hover:bg-[var(--duo-polar)]">
+                        <input
+                          type="checkbox"
+                          checked={treasureForm.prerequisites.includes(option._id)}
+                          onChange={e => setTreasureForm({
+                            ...treasureForm,
+                            prerequisites: e.target.checked
+                              ? [...treasureForm.prerequisites, option._id]
+                              : treasureForm.prerequisites.filter(id => id !== option._id)
+                          })}
+                        />
+                        {option.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {treasureForm.prerequisites.length > 0 && (
+                <div>
+                  <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Until Then</label>
+                  <select
+                    value={treasureForm.prerequisiteMode}
+                    onChange={e => setTreasureForm({...treasureForm, prerequisiteMode: e.target.value as 'locked' | 'hidden'})}
+                    className="input"
+                  >
+                    <option value="locked">Show it on the map, locked</option>
+                    <option value="hidden">Hide it from the map</option>
+                  </select>
+                  <p className="text-[10px] text-[var(--duo-hare)] mt-1">Players must find every treasure ticked above before this one unlocks</p>
+                </div>
+              )}
+
+              {treasureForm.unlockType === 'qr' && (
+              <div>
+                <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Quiz Question (optional)</label>
+                <input
+                  type="text"
+                  value={treasureForm.quizQuestion}
+                  onChange={e => setTreasureForm({...treasureForm, quizQuestion: e.target.value})}
+                  className="input"
+                  placeholder="e.g., In which year did the library open?"
+                />
+                <p className="text-[10px] text-[var(--duo-hare)] mt-1">Asked after the scan — points are only awarded for a correct answer</p>
+              </div>
+              )}
+
+              {treasureForm.unlockType === 'qr' && treasureForm.quizQuestion.trim() && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Options</label>
+                      <textarea
+                        value={treasureForm.quizOptions}
+                        onChange={e => setTreasureForm({...treasureForm, quizOptions: e.target.value})}
+                        className="input min-h-[80px]"
+                        placeholder={'One per line\nLeave empty for free text'}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Accepted Answers</label>
+                      <textarea
+                        value={treasureForm.quizAnswers}
+                        onChange={e => setTreasureForm({...treasureForm, quizAnswers: e.target.value})}
+                        className="input min-h-[80px]"
+                        placeholder="One per line"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Points After a Wrong Answer (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={treasureForm.quizRetryPercent}
+                      onChange={e => setTreasureForm({...treasureForm, quizRetryPercent: e.target.value})}
+                      className="input"
+                    />
+                    <p className="text-[10px] text-[var(--duo-hare)] mt-1">For multiple choice, the accepted answer must match one of the options. Case and punctuation are ignored</p>
+                  </div>
+                </>
+              )}
             </div>
             
             <div className="p-4 border-t-2 border-[var(--duo-swan)] flex gap-3">
@@ -594,7 +1175,7 @@ export const AdminPanel: React.FC = () => {
               </button>
               <button 
                 onClick={handleSaveTreasure}
-                disabled={formLoading || !treasureForm.name || !treasureForm.clue}
+                disabled={formLoading || !treasureForm.hunt || !treasureForm.name || !treasureForm.clue || (treasureForm.status === 'scheduled' && !treasureForm.publishAt)}
                 className="flex-1 btn-primary py-3 flex items-center justify-center gap-2"
               >
                 {formLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
@@ -605,6 +1186,27 @@ export const AdminPanel: React.FC = () => {
         </div>
       )}
 
+      {/* GeoJSON Import Modal */}
+      {showImport && (
+        <AdminTreasureImport
+          hunts={hunts}
+          initialHunt={huntFilter}
+          onClose={() => setShowImport(false)}
+          onImported={loadData}
+          showMessage={showMessage}
+        />
+      )}
+
+      {/* QR Sheets Modal */}
+      {showQrSheets && (
+        <AdminQrSheets
+          treasures={treasures}
+          title={hunts.find(h => h._id === huntFilter)?.name || 'All hunts'}
+          onClose={() => setShowQrSheets(false)}
+          showMessage={showMessage}
+        />
+      )}
+
       {/* QR Code Print Modal */}
       {printTreasure && (
         <div className="fixed inset-0 z-[9990] bg-black/50 flex items-center justify-center p-0 sm:p-4" onClick={(e) => e.target === e.currentTarget && setPrintTreasure(null)}>
@@ -619,16 +1221,22 @@ export const AdminPanel: React.FC = () => {
             {/* Printable Card */}
             <div id="qr-print-area" className="p-6 text-center bg-white">
               <div className="border-4 border-dashed border-[var(--duo-swan)] p-6 rounded-2xl">
-                {/* QR Code using QR Server API */}
-                <img 
-                  src={`https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(`geohunt:${printTreasure._id}`)}`}
-                  alt={`QR Code for ${printTreasure.name}`}
-                  className="mx-auto mb-4"
-                  style={{ imageRendering: 'pixelated' }}
-                />
+                {printQr ? (
+                  <img
+                    src={printQr}
+                    alt={`QR Code for ${printTreasure.name}`}
+                    className="mx-auto mb-4 w-[200px] h-[200px]"
+                    style={{ imageRendering: 'pixelated' }}
+                  />
+                ) : (
+                  <div className="w-[200px] h-[200px] mx-auto mb-4 flex items-center justify-center">
+                    <Loader2 className="w-8 h-8 animate-spin text-[var(--duo-hare)]" />
+                  </div>
+                )}
                 
                 <h4 className="text-xl font-black text-[var(--duo-eel)] mb-1">{printTreasure.name}</h4>
-                <p className="text-xs font-bold text-[var(--duo-hare)] uppercase tracking-wide mb-3">{printTreasure.category} • {printTreasure.points} pts</p>
+                <p className="text-xs font-bold text-[var(--duo-hare)] uppercase tracking-wide mb-3">{printTreasure.category} • {printTreasure.points} pts • v{printTreasure.qrVersion}</p>
+                <p className="font-mono text-lg font-black tracking-[0.2em] text-[var(--duo-eel)]">{printTreasure.manualCode}</p>
                 
                 <div className="bg-[var(--duo-polar)] rounded-lg p-3 mt-4">
                   <p className="text-[10px] font-bold text-[var(--duo-wolf)] uppercase tracking-wide mb-1">Scan to unlock!</p>
@@ -647,7 +1255,7 @@ export const AdminPanel: React.FC = () => {
               <button 
                 onClick={() => {
                   const printArea = document.getElementById('qr-print-area');
-                  if (printArea) {
+                  if (printArea && printQr) {
                     const printWindow = window.open('', '_blank');
                     if (printWindow) {
                       printWindow.document.write(`
@@ -660,6 +1268,7 @@ export const AdminPanel: React.FC = () => {
                               .qr { width: 200px; height: 200px; margin: 0 auto 16px; image-rendering: pixelated; }
                               .title { font-size: 24px; font-weight: 900; color: #4b4b4b; margin: 0 0 4px; }
                               .meta { font-size: 11px; font-weight: 700; color: #afafaf; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 16px; }
+                              .code { font-family: monospace; font-size: 22px; font-weight: 900; color: #4b4b4b; letter-spacing: 0.2em; margin: 0; }
                               .footer { background: #f7f7f7; border-radius: 8px; padding: 12px; margin-top: 16px; }
                               .footer-title { font-size: 10px; font-weight: 700; color: #777; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 4px; }
                               .footer-sub { font-size: 12px; color: #afafaf; margin: 0; }
@@ -668,9 +1277,10 @@ export const AdminPanel: React.FC = () => {
                           </head>
                           <body>
                             <div class="card">
-                              <img class="qr" src="https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(`geohunt:${printTreasure._id}`)}" alt="QR Code" />
+                              <img class="qr" src="${printQr}" alt="QR Code" />
                               <h1 class="title">${printTreasure.name}</h1>
                               <p class="meta">${printTreasure.category} • ${printTreasure.points} pts</p>
+                              <p class="code">${printTreasure.manualCode}</p>
                               <div class="footer">
                                 <p class="footer-title">Scan to unlock!</p>
                                 <p class="footer-sub">GeoHunt Campus Treasure</p>
@@ -684,6 +1294,7 @@ export const AdminPanel: React.FC = () => {
                     }
                   }
                 }}
+                disabled={!printQr}
                 className="flex-1 btn-primary py-3 flex items-center justify-center gap-2"
               >
                 <Printer className="w-4 h-4" />
@@ -701,6 +1312,7 @@ export const AdminPanel: React.FC = () => {
             <h3 className="text-sm font-black uppercase tracking-wide text-[var(--duo-wolf)]">
               All Player Feedback ({feedback.length})
             </h3>
+            <AdminExportButton dataset="feedback" label="Export Feedback" showMessage={showMessage} />
           </div>
 
           {loading ? (
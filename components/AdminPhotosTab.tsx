@@ -0,0 +1,200 @@
+/**
+ * Admin Photos Tab — the moderation queue for photo challenge treasures.
+ * Pending uploads are listed oldest first; approving one awards the treasure
+ * and its points to the player, rejecting it lets them try again.
+ * Images are fetched with the admin's token, so they're shown via object URLs.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Check, X, Loader2, Camera, ImageOff } from 'lucide-react';
+import { adminAPI, AdminPhotoSubmissionFromAPI } from '../services/api';
+
+/** Props for the AdminPhotosTab component */
+interface AdminPhotosTabProps {
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+type PhotoStatus = AdminPhotoSubmissionFromAPI['status'];
+
+/** Badge colours for each review status */
+const STATUS_BADGES: Record<PhotoStatus, string> = {
+  pending: 'badge-blue',
+  approved: 'badge-green',
+  rejected: 'badge-gray'
+};
+
+/**
+ * Loads one submission's image and cleans up its object URL when it's no longer shown.
+ * @param {string} id - The submission's MongoDB ObjectId
+ */
+const SubmissionImage: React.FC<{ id: string }> = ({ id }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    adminAPI.getPhotoImage(id)
+      .then(url => {
+        objectUrl = url;
+        if (cancelled) URL.revokeObjectURL(url);
+        else setSrc(url);
+      })
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  return (
+    <div className="aspect-square bg-[var(--duo-polar)] flex items-center justify-center overflow-hidden">
+      {src ? (
+        <a href={src} target="_blank" rel="noreferrer" className="w-full h-full">
+          <img src={src} alt="Player submission" className="w-full h-full object-cover" />
+        </a>
+      ) : failed ? (
+        <ImageOff className="w-8 h-8 text-[var(--duo-hare)]" />
+      ) : (
+        <Loader2 className="w-6 h-6 animate-spin text-[var(--duo-hare)]" />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Renders the moderation queue with a status filter and approve/reject controls.
+ * @param {Function} showMessage - Show a success or error banner in the admin panel
+ */
+export const AdminPhotosTab: React.FC<AdminPhotosTabProps> = ({ showMessage }) => {
+  const [status, setStatus] = useState<PhotoStatus>('pending');
+  const [submissions, setSubmissions] = useState<AdminPhotoSubmissionFromAPI[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /** Reload the list whenever the status filter changes */
+  useEffect(() => {
+    loadSubmissions();
+  }, [status]);
+
+  const loadSubmissions = async () => {
+    setLoading(true);
+    try {
+      const response = await adminAPI.getPhotos(status);
+      setSubmissions(response.data);
+    } catch (err: any) {
+      showMessage(err.message || 'Failed to load photos', true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** Approve a photo and drop it from the pending list */
+  const handleApprove = async (submission: AdminPhotoSubmissionFromAPI) => {
+    setBusyId(submission._id);
+    try {
+      const response = await adminAPI.approvePhoto(submission._id);
+      showMessage(response.message);
+      setSubmissions(prev => prev.filter(s => s._id !== submission._id));
+    } catch (err: any) {
+      showMessage(err.message, true);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /** Reject a photo, optionally telling the player why */
+  const handleReject = async (submission: AdminPhotoSubmissionFromAPI) => {
+    const reason = prompt('Why is this photo being rejected? (shown to the player, optional)');
+    if (reason === null) return;
+
+    setBusyId(submission._id);
+    try {
+      await adminAPI.rejectPhoto(submission._id, reason.trim() || undefined);
+      showMessage('Photo rejected');
+      setSubmissions(prev => prev.filter(s => s._id !== submission._id));
+    } catch (err: any) {
+      showMessage(err.message, true);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(['pending', 'approved', 'rejected'] as PhotoStatus[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setStatus(option)}
+            className={`px-4 py-2 text-sm capitalize ${status === option ? 'btn-primary' : 'btn-outline'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="card p-8 flex justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-[var(--duo-hare)]" />
+        </div>
+      ) : submissions.length === 0 ? (
+        <div className="card p-8 text-center">
+          <Camera className="w-10 h-10 mx-auto text-[var(--duo-hare)] mb-3" />
+          <p className="text-[var(--duo-hare)] font-bold text-sm">
+            {status === 'pending' ? 'No photos waiting for review' : `No ${status} photos`}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {submissions.map(submission => (
+            <div key={submission._id} className="card overflow-hidden">
+              <SubmissionImage id={submission._id} />
+              <div className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-bold text-[var(--duo-eel)] truncate">{submission.treasure?.name || 'Deleted treasure'}</p>
+                    <p className="text-xs text-[var(--duo-hare)]">
+                      by {submission.user?.username || 'deleted user'} · {new Date(submission.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span className={`badge text-[8px] shrink-0 ${STATUS_BADGES[submission.status]}`}>{submission.status}</span>
+                </div>
+
+                {submission.treasure?.photoPrompt && (
+                  <p className="text-xs text-[var(--duo-wolf)]">📸 {submission.treasure.photoPrompt}</p>
+                )}
+                {submission.rejectionReason && (
+                  <p className="text-xs text-[var(--duo-wolf)]">Reason: {submission.rejectionReason}</p>
+                )}
+                {submission.reviewedBy && (
+                  <p className="text-[10px] text-[var(--duo-hare)]">Reviewed by {submission.reviewedBy.username}</p>
+                )}
+
+                {submission.status === 'pending' && (
+                  <div className="flex gap-2 pt-1">
+                    <button
+                      onClick={() => handleReject(submission)}
+                      disabled={busyId === submission._id}
+                      className="flex-1 btn-outline py-2 text-sm flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4" /> Reject
+                    </button>
+                    <button
+                      onClick={() => handleApprove(submission)}
+                      disabled={busyId === submission._id}
+                      className="flex-1 btn-primary py-2 text-sm flex items-center justify-center gap-1 disabled:opacity-50"
+                    >
+                      {busyId === submission._id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                      Approve{submission.treasure ? ` +${submission.treasure.points}` : ''}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
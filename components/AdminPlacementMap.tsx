@@ -0,0 +1,205 @@
+/**
+ * Admin Placement Map — places treasures on the same Leaflet map the players use,
+ * instead of typing coordinates. Every treasure is drawn with its unlock radius.
+ *
+ * Two ways to use it:
+ *   - Overview (Treasures tab): click the map to drop a new treasure, drag a marker
+ *     to move that treasure, click a marker to edit it
+ *   - Picker (treasure form): pass `draft` — clicking or dragging moves the treasure
+ *     being edited, and the rest of the hunt is shown faintly for reference
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Map, Satellite } from 'lucide-react';
+import { MapStyle, MAP_TILES } from './MapComponent';
+
+declare const L: any;
+
+/** A treasure as the map needs it */
+export interface PlacedTreasure {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  unlockRadius: number;
+}
+
+/** Props for the AdminPlacementMap component */
+interface AdminPlacementMapProps {
+  treasures: PlacedTreasure[];
+  /** The treasure being placed in the form (picker mode) — null until it has coordinates */
+  draft?: { latitude: number; longitude: number; unlockRadius: number } | null;
+  /** Picker mode: the admin clicked or dragged the draft to a new spot */
+  onDraftMove?: (latitude: number, longitude: number) => void;
+  /** Overview mode: the admin clicked an empty spot */
+  onMapClick?: (latitude: number, longitude: number) => void;
+  /** Overview mode: the admin dragged a treasure to a new spot */
+  onTreasureMove?: (id: string, latitude: number, longitude: number) => void;
+  /** Overview mode: the admin clicked a treasure */
+  onTreasureClick?: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * Build a square map pin like the player map's markers.
+ * @param {string}  color  - Fill colour
+ * @param {boolean} [faint] - Draw it smaller and see-through (context treasures in picker mode)
+ */
+const pinIcon = (color: string, faint = false) => {
+  const size = faint ? 24 : 34;
+  return L.divIcon({
+    html: `<div style="background:${color};width:${size}px;height:${size}px;border-radius:10px;border:3px solid white;box-shadow:0 3px 0 rgba(0,0,0,0.2);opacity:${faint ? 0.6 : 1};display:flex;align-items:center;justify-content:center;">
+      <svg xmlns="http://www.w3.org/2000/svg" width="${size / 2}" height="${size / 2}" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z"/><circle cx="12" cy="10" r="3"/></svg>
+    </div>`,
+    className: 'treasure-marker-icon',
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
+/**
+ * Renders the placement map.
+ * @param {PlacedTreasure[]} treasures       - Treasures to show
+ * @param {Object}           [draft]         - Picker mode: the treasure being placed
+ * @param {Function}         [onDraftMove]   - Picker mode: called with the new spot
+ * @param {Function}         [onMapClick]    - Overview mode: called with the clicked spot
+ * @param {Function}         [onTreasureMove] - Overview mode: called when a marker is dragged
+ * @param {Function}         [onTreasureClick] - Overview mode: called when a marker is clicked
+ */
+export const AdminPlacementMap: React.FC<AdminPlacementMapProps> = ({
+  treasures, draft, onDraftMove, onMapClick, onTreasureMove, onTreasureClick, className = 'h-[420px]'
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const leafletMap = useRef<any>(null);
+  const tileLayerRef = useRef<any>(null);
+  const treasureLayerRef = useRef<any>(null);
+  const draftLayerRef = useRef<any>(null);
+  const hasFitted = useRef(false);
+  const [mapStyle, setMapStyle] = useState<MapStyle>('streets');
+
+  const pickerMode = draft !== undefined;
+
+  // Keep the latest callbacks for the Leaflet handlers, which are bound once
+  const handlers = useRef({ onDraftMove, onMapClick, onTreasureMove, onTreasureClick });
+  handlers.current = { onDraftMove, onMapClick, onTreasureMove, onTreasureClick };
+
+  /** Create the map once; a click drops the draft (picker) or a new treasure (overview) */
+  useEffect(() => {
+    if (!mapRef.current) return;
+    leafletMap.current = L.map(mapRef.current, { attributionControl: false }).setView([51.5074, -0.1278], 14);
+    tileLayerRef.current = L.tileLayer(MAP_TILES[mapStyle].url, { maxZoom: 20 }).addTo(leafletMap.current);
+    treasureLayerRef.current = L.layerGroup().addTo(leafletMap.current);
+    draftLayerRef.current = L.layerGroup().addTo(leafletMap.current);
+
+    leafletMap.current.on('click', (e: any) => {
+      const { lat, lng } = e.latlng;
+      if (handlers.current.onDraftMove) handlers.current.onDraftMove(lat, lng);
+      else handlers.current.onMapClick?.(lat, lng);
+    });
+
+    // The form opens in a modal, so the map may have been measured before it was visible
+    setTimeout(() => leafletMap.current?.invalidateSize(), 100);
+    return () => leafletMap.current.remove();
+  }, []);
+
+  /** Swap the tile layer when switching between streets and satellite view */
+  useEffect(() => {
+    if (!leafletMap.current) return;
+    tileLayerRef.current.remove();
+    tileLayerRef.current = L.tileLayer(MAP_TILES[mapStyle].url, { maxZoom: 20 }).addTo(leafletMap.current);
+    tileLayerRef.current.bringToBack();
+  }, [mapStyle]);
+
+  /** Draw the treasures with their unlock radius, fitting the view to them the first time */
+  useEffect(() => {
+    if (!treasureLayerRef.current) return;
+    treasureLayerRef.current.clearLayers();
+
+    treasures.forEach(t => {
+      const circle = L.circle([t.latitude, t.longitude], {
+        radius: t.unlockRadius,
+        color: '#ff9600',
+        fillColor: '#ff9600',
+        fillOpacity: pickerMode ? 0.04 : 0.08,
+        weight: pickerMode ? 1 : 2,
+        dashArray: '6 6',
+        interactive: false
+      }).addTo(treasureLayerRef.current);
+
+      const marker = L.marker([t.latitude, t.longitude], {
+        icon: pinIcon('#ff9600', pickerMode),
+        draggable: !pickerMode && !!handlers.current.onTreasureMove,
+        interactive: !pickerMode
+      }).addTo(treasureLayerRef.current);
+      marker.bindTooltip(t.name, { direction: 'top', offset: [0, -18] });
+
+      if (!pickerMode) {
+        marker.on('click', () => handlers.current.onTreasureClick?.(t.id));
+        // Move the radius with the marker so the admin sees the new catchment while dragging
+        marker.on('drag', (e: any) => circle.setLatLng(e.target.getLatLng()));
+        marker.on('dragend', (e: any) => {
+          const { lat, lng } = e.target.getLatLng();
+          handlers.current.onTreasureMove?.(t.id, lat, lng);
+        });
+      }
+    });
+
+    if (!hasFitted.current && treasures.length > 0 && !(pickerMode && draft)) {
+      hasFitted.current = true;
+      leafletMap.current.fitBounds(L.latLngBounds(treasures.map(t => [t.latitude, t.longitude])), { padding: [40, 40], maxZoom: 17 });
+    }
+  }, [treasures, pickerMode]);
+
+  /** Draw the treasure being placed, draggable, with its radius */
+  useEffect(() => {
+    if (!draftLayerRef.current) return;
+    draftLayerRef.current.clearLayers();
+    if (!draft) return;
+
+    const circle = L.circle([draft.latitude, draft.longitude], {
+      radius: draft.unlockRadius,
+      color: '#1cb0f6',
+      fillColor: '#1cb0f6',
+      fillOpacity: 0.12,
+      weight: 2,
+      dashArray: '6 6',
+      interactive: false
+    }).addTo(draftLayerRef.current);
+
+    const marker = L.marker([draft.latitude, draft.longitude], {
+      icon: pinIcon('#1cb0f6'),
+      draggable: true,
+      zIndexOffset: 1000
+    }).addTo(draftLayerRef.current);
+    marker.on('drag', (e: any) => circle.setLatLng(e.target.getLatLng()));
+    marker.on('dragend', (e: any) => {
+      const { lat, lng } = e.target.getLatLng();
+      handlers.current.onDraftMove?.(lat, lng);
+    });
+
+    // Centre on the draft the first time it appears, or when it's moved off screen (e.g. by typing)
+    if (!hasFitted.current || !leafletMap.current.getBounds().contains([draft.latitude, draft.longitude])) {
+      hasFitted.current = true;
+      leafletMap.current.setView([draft.latitude, draft.longitude], Math.max(leafletMap.current.getZoom(), 17));
+    }
+  }, [draft?.latitude, draft?.longitude, draft?.unlockRadius]);
+
+  return (
+    <div className={`relative isolate rounded-xl overflow-hidden border-2 border-[var(--duo-swan)] ${className}`}>
+      <div ref={mapRef} className="absolute inset-0" />
+      <div className="absolute top-2 right-2 z-[1000] flex gap-1 bg-white rounded-lg p-1 shadow">
+        {(['streets', 'satellite'] as MapStyle[]).map(style => (
+          <button
+            key={style}
+            type="button"
+            onClick={() => setMapStyle(style)}
+            title={style === 'streets' ? 'Streets' : 'Satellite'}
+            className={`p-1.5 rounded-md ${mapStyle === style ? 'bg-[var(--duo-blue)] text-white' : 'text-[var(--duo-wolf)] hover:bg-[var(--duo-polar)]'}`}
+          >
+            {style === 'streets' ? <Map className="w-4 h-4" /> : <Satellite className="w-4 h-4" />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * Admin QR Sheets — prints every scannable treasure in the list as a PDF laid out for
+ * a chosen sheet: Avery labels, A4 posters with the clue, or small cut-out stickers.
+ * QR codes are drawn in the browser, so no treasure payload is sent anywhere.
+ */
+
+import React, { useState } from 'react';
+import { Download, Loader2, Printer, X } from 'lucide-react';
+import { saveDownload, AdminTreasureFromAPI } from '../services/api';
+import { buildQrSheetPdf, hasQrCode, sheetPageCount, SheetLayout, SHEET_LAYOUTS } from '../services/qrSheets';
+
+/** Props for the AdminQrSheets component */
+interface AdminQrSheetsProps {
+  /** The treasures currently listed (photo treasures are left out) */
+  treasures: AdminTreasureFromAPI[];
+  /** What the set is called, for the PDF title and filename */
+  title: string;
+  onClose: () => void;
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+/**
+ * Renders the QR sheet dialog.
+ * @param {AdminTreasureFromAPI[]} treasures   - Treasures to print
+ * @param {string}                 title       - Name of the set (usually the hunt)
+ * @param {Function}               onClose     - Close the dialog
+ * @param {Function}               showMessage - Show a success/error banner in the admin panel
+ */
+export const AdminQrSheets: React.FC<AdminQrSheetsProps> = ({ treasures, title, onClose, showMessage }) => {
+  const [layout, setLayout] = useState<SheetLayout>('avery-l7163');
+  const [building, setBuilding] = useState<'print' | 'download' | null>(null);
+
+  const printable = treasures.filter(hasQrCode);
+  const skipped = treasures.length - printable.length;
+  const pages = sheetPageCount(layout, printable.length);
+
+  /** Build the PDF, then either open it to print or save it */
+  const handleBuild = async (action: 'print' | 'download') => {
+    // Open the tab straight away — browsers block popups opened after an await
+    const printWindow = action === 'print' ? window.open('', '_blank') : null;
+    setBuilding(action);
+    try {
+      const file = await buildQrSheetPdf(printable, layout, title);
+      if (printWindow) {
+        printWindow.location.href = URL.createObjectURL(file.blob);
+      } else {
+        saveDownload(file);
+        showMessage(`Downloaded ${file.filename}`);
+      }
+    } catch (err: any) {
+      printWindow?.close();
+      showMessage(err.message || 'Could not build the PDF', true);
+    } finally {
+      setBuilding(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9990] bg-black/50 flex items-center justify-center p-0 sm:p-4" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="card w-full h-full sm:h-auto sm:max-w-lg sm:max-h-[90vh] overflow-y-auto sm:rounded-2xl rounded-none">
+        <div className="sticky top-0 z-10 bg-white border-b-2 border-[var(--duo-swan)] p-4 flex items-center justify-between">
+          <h3 className="text-lg font-black text-[var(--duo-eel)]">Print QR Codes</h3>
+          <button onClick={onClose} className="p-2 hover:bg-[var(--duo-polar)] rounded-lg">
+            <X className="w-5 h-5 text-[var(--duo-hare)]" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-[var(--duo-wolf)]">
+            {printable.length} treasure{printable.length === 1 ? '' : 's'} from {title}
+            {skipped > 0 && ` (${skipped} photo challenge${skipped === 1 ? '' : 's'} left out — they don't use a QR code)`}.
+            Print at 100% scale so the labels line up.
+          </p>
+
+          {(Object.keys(SHEET_LAYOUTS) as SheetLayout[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setLayout(id)}
+              className={`w-full p-3 rounded-xl border-2 text-left ${layout === id ? 'border-[var(--duo-blue)] bg-blue-50' : 'border-[var(--duo-swan)] hover:bg-[var(--duo-polar)]'}`}
+            >
+              <p className="text-sm font-bold text-[var(--duo-eel)]">{SHEET_LAYOUTS[id].label}</p>
+              <p className="text-[10px] text-[var(--duo-hare)]">{SHEET_LAYOUTS[id].description}</p>
+            </button>
+          ))}
+
+          <p className="text-[10px] font-bold text-[var(--duo-hare)] uppercase text-center">
+            {pages} page{pages === 1 ? '' : 's'}
+          </p>
+        </div>
+
+        <div className="p-4 border-t-2 border-[var(--duo-swan)] flex gap-3">
+          <button
+            onClick={() => handleBuild('download')}
+            disabled={printable.length === 0 || building !== null}
+            className="flex-1 btn-outline py-3 flex items-center justify-center gap-2"
+          >
+            {building === 'download' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download PDF
+          </button>
+          <button
+            onClick={() => handleBuild('print')}
+            disabled={printable.length === 0 || building !== null}
+            className="flex-1 btn-primary py-3 flex items-center justify-center gap-2"
+          >
+            {building === 'print' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+            Open to Print
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+/**
+ * Admin Treasure Import — bulk-loads a hunt's treasures from a GeoJSON file.
+ * The file is checked with a dry run as soon as it's picked (and again if the hunt
+ * changes), so every feature's problems are listed before anything is written.
+ * Importing is only possible once the whole file is clean.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Loader2, Upload, X, CheckCircle2, AlertCircle, Plus, Edit2 } from 'lucide-react';
+import { adminAPI, ApiError, HuntFromAPI, TreasureImportReport } from '../services/api';
+
+/** Props for the AdminTreasureImport component */
+interface AdminTreasureImportProps {
+  hunts: HuntFromAPI[];
+  /** Hunt picked to start with (the treasure list's hunt filter) */
+  initialHunt: string;
+  onClose: () => void;
+  /** Called after a successful import so the treasure list can reload */
+  onImported: () => void;
+  showMessage: (msg: string, isError?: boolean) => void;
+}
+
+/**
+ * Renders the import dialog.
+ * @param {HuntFromAPI[]} hunts       - Hunts to import into
+ * @param {string}        initialHunt - Hunt selected when the dialog opens
+ * @param {Function}      onClose     - Close the dialog
+ * @param {Function}      onImported  - Reload treasures after an import
+ * @param {Function}      showMessage - Show a success/error banner in the admin panel
+ */
+export const AdminTreasureImport: React.FC<AdminTreasureImportProps> = ({ hunts, initialHunt, onClose, onImported, showMessage }) => {
+  const [huntId, setHuntId] = useState(initialHunt || hunts[0]?._id || '');
+  const [fileName, setFileName] = useState('');
+  const [collection, setCollection] = useState<unknown>(null);
+  const [report, setReport] = useState<TreasureImportReport | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  /** Dry-run the file whenever it or the target hunt changes */
+  useEffect(() => {
+    if (!collection) return;
+    let cancelled = false;
+    setChecking(true);
+    setReport(null);
+    setFileError(null);
+    adminAPI.importTreasuresGeoJson(collection, huntId, true)
+      .then(response => !cancelled && setReport(response.data))
+      .catch(err => !cancelled && setFileError(err.message || 'Could not check the file'))
+      .finally(() => !cancelled && setChecking(false));
+    return () => { cancelled = true; };
+  }, [collection, huntId]);
+
+  /** Read and parse the picked file */
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCollection(null);
+    setReport(null);
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setCollection(JSON.parse(String(reader.result)));
+      } catch {
+        setFileError("That file isn't valid JSON");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  /** Write the treasures for real */
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const response = await adminAPI.importTreasuresGeoJson(collection, huntId);
+      showMessage(response.message || 'Treasures imported');
+      onImported();
+      onClose();
+    } catch (err: any) {
+      // Something changed since the dry run — show the fresh report
+      if (err instanceof ApiError && err.code === 'INVALID_FEATURES') setReport(err.details.data);
+      showMessage(err.message || 'Import failed', true);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const problems = report ? report.features.filter(feature => feature.errors.length > 0) : [];
+
+  return (
+    <div className="fixed inset-0 z-[9990] bg-black/50 flex items-center justify-center p-0 sm:p-4" onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className="card w-full h-full sm:h-auto sm:max-w-lg sm:max-h-[90vh] overflow-y-auto sm:rounded-2xl rounded-none">
+        <div className="sticky top-0 z-10 bg-white border-b-2 border-[var(--duo-swan)] p-4 flex items-center justify-between">
+          <h3 className="text-lg font-black text-[var(--duo-eel)]">Import Treasures</h3>
+          <button onClick={onClose} className="p-2 hover:bg-[var(--duo-polar)] rounded-lg">
+            <X className="w-5 h-5 text-[var(--duo-hare)]" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-[var(--duo-wolf)]">
+            Upload a GeoJSON FeatureCollection with one Point per treasure and its fields as properties —
+            the Export GeoJSON file is a good starting point. Features with a treasure's id or name update it; the rest are added.
+          </p>
+
+          <div>
+            <label className="block text-xs font-bold text-[var(--duo-wolf)] uppercase mb-1">Hunt</label>
+            <select value={huntId} onChange={e => setHuntId(e.target.value)} className="input">
+              {hunts.map(hunt => <option key={hunt._id} value={hunt._id}>{hunt.name}</option>)}
+            </select>
+          </div>
+
+          <label className="btn-outline py-3 flex items-center justify-center gap-2 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            {fileName || 'Choose a .geojson file'}
+            <input type="file" accept=".geojson,.json,application/geo+json,application/json" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+          </label>
+
+          {checking && (
+            <div className="flex items-center justify-center gap-2 text-sm text-[var(--duo-wolf)]">
+              <Loader2 className="w-4 h-4 animate-spin" /> Checking the file...
+            </div>
+          )}
+
+          {fileError && (
+            <div className="p-3 rounded-xl bg-red-50 text-[var(--duo-red)] text-sm font-bold flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {fileError}
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <div className={`p-3 rounded-xl text-sm font-bold flex items-center gap-2 ${report.invalid > 0 ? 'bg-red-50 text-[var(--duo-red)]' : 'bg-green-50 text-[var(--duo-green)]'}`}>
+                {report.invalid > 0 ? <AlertCircle className="w-4 h-4 shrink-0" /> : <CheckCircle2 className="w-4 h-4 shrink-0" />}
+                {report.invalid > 0
+                  ? `${report.invalid} of ${report.features.length} features need fixing before anything can be imported`
+                  : `Ready: ${report.created} new and ${report.updated} updated in ${report.hunt.name}`}
+              </div>
+
+              <div className="border-2 border-[var(--duo-swan)] rounded-xl overflow-hidden max-h-72 overflow-y-auto">
+                {(problems.length > 0 ? problems : report.features).map(feature => (
+                  <div key={feature.index} className="p-3 border-b border-[var(--duo-swan)] last:border-0">
+                    <div className="flex items-center gap-2">
+                      {feature.action === 'create'
+                        ? <Plus className="w-3 h-3 text-[var(--duo-green)] shrink-0" />
+                        : <Edit2 className="w-3 h-3 text-[var(--duo-blue)] shrink-0" />}
+                      <span className="text-[10px] text-[var(--duo-hare)] font-mono">#{feature.index + 1}</span>
+                      <span className="text-sm font-bold text-[var(--duo-eel)] truncate">{feature.name || 'Unnamed feature'}</span>
+                    </div>
+                    {feature.errors.map(error => (
+                      <p key={error} className="text-xs text-[var(--duo-red)] ml-5 mt-1">{error}</p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t-2 border-[var(--duo-swan)] flex gap-3">
+          <button onClick={onClose} className="flex-1 btn-outline py-3">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!report || report.invalid > 0 || checking || importing}
+            className="flex-1 btn-primary py-3 flex items-center justify-center gap-2"
+          >
+            {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import Treasures
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+/**
+ * Badge Icon — draws a badge's icon from the name stored on the badge.
+ * Badges are defined on the server, so the icon travels as a string; this is the
+ * one list of icons a badge can use (the admin icon picker offers the same set).
+ */
+
+import React from 'react';
+import {
+  Award, Compass, GraduationCap, Star, Trophy, Medal, Crown, Flame, Footprints, Landmark,
+  Dumbbell, Rocket, Moon, Sun, Heart, Clock, CalendarCheck, BookOpen, Map as MapIcon, Target,
+  Sparkles, Zap, Camera, Music, Gem, Shield, Flag, Mountain, Coffee
+} from 'lucide-react';
+import { BadgeFromAPI } from '../services/api';
+
+/** Icons a badge can use, keyed by the name saved on the badge */
+export const BADGE_ICONS: Record<string, React.FC<{ className?: string }>> = {
+  Award, Compass, GraduationCap, Star, Trophy, Medal, Crown, Flame, Footprints, Landmark,
+  Dumbbell, Rocket, Moon, Sun, Heart, Clock, CalendarCheck, BookOpen, Map: MapIcon, Target,
+  Sparkles, Zap, Camera, Music, Gem, Shield, Flag, Mountain, Coffee
+};
+
+/** Label colour for each rarity tier */
+export const RARITY_STYLES: Record<BadgeFromAPI['rarity'], string> = {
+  common: 'text-[var(--duo-hare)]',
+  rare: 'text-[var(--duo-blue)]',
+  epic: 'text-[#a560e8]',
+  legendary: 'text-[var(--duo-gold)]'
+};
+
+/**
+ * Renders a badge's icon, falling back to a plain award if the name isn't one we know.
+ * @param {string} icon        - The icon name saved on the badge
+ * @param {string} [className] - Size and colour classes
+ */
+export const BadgeIcon: React.FC<{ icon: string; className?: string }> = ({ icon, className }) => {
+  const IconComponent = BADGE_ICONS[icon] || Award;
+  return <IconComponent className={className} />;
+};
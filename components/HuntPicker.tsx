@@ -0,0 +1,61 @@
+/**
+ * Hunt Picker — lets the player switch between treasure hunts (freshers week, open day, etc.).
+ * Each hunt has its own treasures, progress and leaderboard, so switching reloads the map.
+ * Shows when the selected hunt opens or closes if it isn't running right now.
+ */
+
+import React from 'react';
+import { CalendarClock } from 'lucide-react';
+import { HuntFromAPI } from '../services/api';
+
+/** Props for the HuntPicker component */
+interface HuntPickerProps {
+  hunts: HuntFromAPI[];
+  selectedHuntId: string;
+  onSelect: (huntId: string) => void;
+}
+
+/** Short label shown next to hunts that aren't currently running */
+const STATUS_LABELS: Record<HuntFromAPI['status'], string> = {
+  upcoming: 'Upcoming',
+  active: '',
+  ended: 'Finished'
+};
+
+/**
+ * Renders a hunt dropdown plus a notice for hunts outside their play window.
+ * @param {HuntFromAPI[]} hunts          - Every hunt the player can choose from
+ * @param {string}        selectedHuntId - The hunt currently being played
+ * @param {Function}      onSelect       - Callback when the player picks a different hunt
+ */
+export const HuntPicker: React.FC<HuntPickerProps> = ({ hunts, selectedHuntId, onSelect }) => {
+  const selected = hunts.find(h => h._id === selectedHuntId);
+
+  if (hunts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={selectedHuntId}
+        onChange={e => onSelect(e.target.value)}
+        className="input py-2 text-sm font-bold"
+        aria-label="Choose a hunt"
+      >
+        {hunts.map(hunt => (
+          <option key={hunt._id} value={hunt._id}>
+            {hunt.name}{STATUS_LABELS[hunt.status] ? ` (${STATUS_LABELS[hunt.status]})` : ''}
+          </option>
+        ))}
+      </select>
+
+      {selected && selected.status !== 'active' && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 text-xs font-bold p-3 rounded-xl flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 shrink-0" />
+          {selected.status === 'upcoming'
+            ? `Opens ${new Date(selected.startsAt).toLocaleString()} — you can look around, but treasures can't be unlocked yet.`
+            : `Finished ${new Date(selected.endsAt).toLocaleString()} — the final leaderboard is shown, but treasures can no longer be unlocked.`}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,17 @@
 /**
  * Leaderboard Tab — displays the top explorers ranked by total XP.
  * Shows a medal-style ranking list with gold/silver/bronze for the top 3,
- * highlights the current user, and shows their personal ranking position.
+ * highlights the current user, and shows their exact ranking position (even outside the top 10).
+ * A Players/Teams toggle switches to the team rankings, which are loaded on demand.
+ * Player rankings update live; rows slide to their new place and show how far they moved.
+ * Period tabs rank players over the last day, the last week, the whole hunt, or all time.
  * Falls back to demo data if no real leaderboard data is available yet.
  */
 
-import React from 'react';
-import { Trophy } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { Trophy, Users, Loader2 } from 'lucide-react';
+import { leaderboardAPI, teamAPI, TeamLeaderboardEntry, LeaderboardPeriod } from '../services/api';
+import { RankCard } from './RankCard';
 
 /** Shape of a leaderboard entry */
 interface LeaderboardEntry {
@@ -18,20 +23,111 @@ interface LeaderboardEntry {
   badges?: string[];
 }
 
+/** How long (in ms) a row takes to slide to its new position */
+const ROW_MOVE_MS = 500;
+
+/** How long (in ms) the ▲/▼ rank change stays next to a player's name */
+const RANK_CHANGE_MS = 4000;
+
+/** Period tabs, in display order, with what each one ranks */
+const PERIODS: { id: LeaderboardPeriod; label: string; empty: string }[] = [
+  { id: 'day', label: '24 Hours', empty: 'No treasures found in the last 24 hours — be the first!' },
+  { id: 'week', label: '7 Days', empty: 'No treasures found this week yet — be the first!' },
+  { id: 'hunt', label: 'This Hunt', empty: '' },
+  { id: 'all', label: 'All Time', empty: 'Nobody has found a treasure yet' }
+];
+
 /** Props for the LeaderboardTab component */
 interface LeaderboardTabProps {
   leaderboard: LeaderboardEntry[];
   currentUsername: string;
+  huntId: string;
+  period: LeaderboardPeriod;
+  onPeriodChange: (period: LeaderboardPeriod) => void;
 }
 
 /**
  * Renders the full leaderboard view with ranked player list.
  * @param {LeaderboardEntry[]} leaderboard     - Array of ranked players from the API
  * @param {string}             currentUsername  - The logged-in player's name (to highlight "You")
+ * @param {string}             huntId           - The hunt being ranked
+ * @param {LeaderboardPeriod}  period           - The time window the players are ranked over
+ * @param {Function}           onPeriodChange   - Switch to a different time window
  */
-export const LeaderboardTab: React.FC<LeaderboardTabProps> = ({ leaderboard, currentUsername }) => {
-  // Fall back to demo data if no real entries exist yet
-  const entries = leaderboard.length > 0 ? leaderboard : [
+export const LeaderboardTab: React.FC<LeaderboardTabProps> = ({ leaderboard, currentUsername, huntId, period, onPeriodChange }) => {
+  const [mode, setMode] = useState<'players' | 'teams'>('players');
+  const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[]>([]);
+  const [myTeamId, setMyTeamId] = useState<string | null>(null);
+  const [loadingTeams, setLoadingTeams] = useState(false);
+  const [rankChanges, setRankChanges] = useState<Record<string, number>>({});
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const rowTops = useRef(new Map<string, number>());
+  const previousRanks = useRef(new Map<string, number>());
+  const rankedPeriod = useRef(period);
+
+  /** Load the team rankings (and which team is ours) whenever the Teams view is opened */
+  useEffect(() => {
+    if (mode !== 'teams') return;
+
+    const loadTeams = async () => {
+      setLoadingTeams(true);
+      try {
+        const [rankings, mine] = await Promise.all([leaderboardAPI.getTeams(10, huntId), teamAPI.getMine(huntId)]);
+        setTeamLeaderboard(rankings.data);
+        setMyTeamId(mine.data?._id || null);
+      } catch (error) {
+        console.error('Failed to fetch team leaderboard:', error);
+      } finally {
+        setLoadingTeams(false);
+      }
+    };
+    loadTeams();
+  }, [mode, huntId]);
+
+  /**
+   * Animate player rows when the rankings change: each row starts where it used to be
+   * and slides to its new spot, and anyone who changed rank gets a ▲/▼ marker.
+   */
+  useLayoutEffect(() => {
+    const tops = new Map<string, number>();
+    rowRefs.current.forEach((row, name) => {
+      const top = row.offsetTop;
+      const previousTop = rowTops.current.get(name);
+      if (previousTop !== undefined && previousTop !== top) {
+        row.animate(
+          [{ transform: `translateY(${previousTop - top}px)` }, { transform: 'translateY(0)' }],
+          { duration: ROW_MOVE_MS, easing: 'ease-out' }
+        );
+      }
+      tops.set(name, top);
+    });
+    rowTops.current = tops;
+
+    const ranks = new Map<string, number>(leaderboard.map((entry, idx) => [entry.username, idx + 1]));
+    const changes: Record<string, number> = {};
+    // A different period is a different ranking, not players moving
+    const samePeriod = rankedPeriod.current === period;
+    rankedPeriod.current = period;
+    if (samePeriod && previousRanks.current.size > 0) {
+      ranks.forEach((rank, name) => {
+        const previousRank = previousRanks.current.get(name);
+        // Newcomers to the list count as moving up from just below it
+        const moved = (previousRank ?? previousRanks.current.size + 1) - rank;
+        if (moved !== 0) changes[name] = moved;
+      });
+    }
+    previousRanks.current = ranks;
+
+    if (Object.keys(changes).length === 0) return;
+    setRankChanges(changes);
+    const timer = setTimeout(() => setRankChanges({}), RANK_CHANGE_MS);
+    return () => clearTimeout(timer);
+  }, [leaderboard, mode]);
+
+  const periodInfo = PERIODS.find(p => p.id === period)!;
+
+  // Fall back to demo data if nobody has played the hunt yet (other periods just say they're empty)
+  const entries = leaderboard.length > 0 || period !== 'hunt' ? leaderboard : [
     { rank: 1, username: 'DaisyQuest', points: 650, treasuresFound: 5, level: 3, badges: [] },
     { rank: 2, username: 'RiverGuide', points: 480, treasuresFound: 4, level: 2, badges: [] },
     { rank: 3, username: 'SunnyHunter', points: 310, treasuresFound: 2, level: 2, badges: [] }
@@ -44,67 +140,191 @@ export const LeaderboardTab: React.FC<LeaderboardTabProps> = ({ leaderboard, cur
         <div className="icon-box icon-box-gold w-14 h-14 sm:w-16 sm:h-16 mx-auto mb-3 sm:mb-4">
           <Trophy className="w-7 h-7 sm:w-8 sm:h-8 text-white" />
         </div>
-        <h2 className="text-xl sm:text-2xl font-black text-[var(--duo-eel)] mb-1">Top Explorers</h2>
+        <h2 className="text-xl sm:text-2xl font-black text-[var(--duo-eel)] mb-1">{mode === 'players' ? 'Top Explorers' : 'Top Teams'}</h2>
         <p className="text-[var(--duo-hare)] font-bold text-[10px] sm:text-xs uppercase tracking-wide">Campus treasure hunters</p>
       </div>
-      
-      {/* Rankings List */}
-      <div className="card overflow-hidden">
-        {entries.map((entry, idx) => {
-          const isMe = entry.username === currentUsername;
-          return (
-            <div 
-              key={idx} 
-              className={`flex items-center gap-3 sm:gap-4 p-3 sm:p-4 border-b-2 border-[var(--duo-polar)] last:border-0 ${
-                isMe ? 'bg-[rgba(28,176,246,0.08)]' : ''
+
+      {/* Players / Teams toggle */}
+      <div className="grid grid-cols-2 gap-2">
+        {(['players', 'teams'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`py-2 rounded-xl text-xs font-black uppercase tracking-wide transition-colors ${
+              mode === option
+                ? 'bg-[var(--duo-blue)] text-white'
+                : 'bg-[var(--duo-polar)] text-[var(--duo-wolf)]'
+            }`}
+          >
+            {option === 'players' ? 'Players' : 'Teams'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'teams' ? (
+        <>
+          {/* Team Rankings List */}
+          <div className="card overflow-hidden">
+            {loadingTeams ? (
+              <div className="p-6 flex justify-center">
+                <Loader2 className="w-5 h-5 animate-spin text-[var(--duo-hare)]" />
+              </div>
+            ) : teamLeaderboard.length === 0 ? (
+              <div className="p-6 text-center">
+                <Users className="w-8 h-8 mx-auto mb-2 text-[var(--duo-hare)]" />
+                <p className="text-sm font-bold text-[var(--duo-hare)]">No teams yet — create one from your profile!</p>
+              </div>
+            ) : teamLeaderboard.map((entry, idx) => {
+              const isMine = entry.teamId === myTeamId;
+              return (
+                <div
+                  key={entry.teamId}
+                  className={`flex items-center gap-3 sm:gap-4 p-3 sm:p-4 border-b-2 border-[var(--duo-polar)] last:border-0 ${
+                    isMine ? 'bg-[rgba(28,176,246,0.08)]' : ''
+                  }`}
+                >
+                  <div className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-black text-sm sm:text-base shrink-0 ${
+                    idx === 0
+                      ? 'bg-[var(--duo-gold)] text-white'
+                      : idx === 1
+                        ? 'bg-[#C0C0C0] text-white'
+                        : idx === 2
+                          ? 'bg-[#CD7F32] text-white'
+                          : 'bg-[var(--duo-swan)] text-[var(--duo-hare)]'
+                  }`} style={{ boxShadow: idx < 3 ? '0 3px 0 rgba(0,0,0,0.2)' : 'none' }}>
+                    {idx === 0 ? '👑' : `#${idx + 1}`}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-black text-[var(--duo-eel)] text-sm sm:text-base truncate">{entry.name}</h4>
+                      {isMine && (
+                        <span className="badge badge-blue text-[8px] shrink-0">Your Team</span>
+                      )}
+                    </div>
+                    <p className="text-[10px] sm:text-xs font-bold text-[var(--duo-hare)]">
+                      {entry.members} {entry.members === 1 ? 'member' : 'members'} · {entry.treasuresFound} secrets found
+                    </p>
+                  </div>
+
+                  <div className="text-right shrink-0">
+                    <span className={`font-black text-lg sm:text-xl ${idx === 0 ? 'text-[var(--duo-gold)]' : 'text-[var(--duo-blue)]'}`}>
+                      {entry.points}
+                    </span>
+                    <p className="text-[9px] sm:text-[10px] font-bold text-[var(--duo-hare)] uppercase">XP</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Your Team's Position */}
+          <div className="card p-4 text-center">
+            <p className="text-xs font-bold text-[var(--duo-wolf)] uppercase tracking-wide mb-1">Your Team's Ranking</p>
+            <p className="text-2xl font-black text-[var(--duo-blue)]">
+              #{(myTeamId && teamLeaderboard.findIndex(e => e.teamId === myTeamId) + 1) || '-'}
+              <span className="text-sm text-[var(--duo-hare)] ml-1">of {teamLeaderboard.length || '-'}</span>
+            </p>
+          </div>
+        </>
+      ) : (
+        <>
+        {/* Period tabs */}
+        <div className="flex gap-1 p-1 rounded-xl bg-[var(--duo-polar)]">
+          {PERIODS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => onPeriodChange(option.id)}
+              className={`flex-1 py-1.5 rounded-lg text-[10px] sm:text-xs font-black uppercase tracking-wide transition-colors ${
+                period === option.id
+                  ? 'bg-white text-[var(--duo-blue)] shadow-sm'
+                  : 'text-[var(--duo-hare)]'
               }`}
             >
-              {/* Rank badge — gold, silver, bronze for top 3 */}
-              <div className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-black text-sm sm:text-base shrink-0 ${
-                idx === 0 
-                  ? 'bg-[var(--duo-gold)] text-white' 
-                  : idx === 1 
-                    ? 'bg-[#C0C0C0] text-white' 
-                    : idx === 2 
-                      ? 'bg-[#CD7F32] text-white' 
-                      : 'bg-[var(--duo-swan)] text-[var(--duo-hare)]'
-              }`} style={{ boxShadow: idx < 3 ? '0 3px 0 rgba(0,0,0,0.2)' : 'none' }}>
-                {idx === 0 ? '👑' : `#${idx + 1}`}
-              </div>
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Rankings List */}
+        <div className="card overflow-hidden">
+          {entries.length === 0 && (
+            <div className="p-6 text-center">
+              <Trophy className="w-8 h-8 mx-auto mb-2 text-[var(--duo-hare)]" />
+              <p className="text-sm font-bold text-[var(--duo-hare)]">{periodInfo.empty}</p>
+            </div>
+          )}
+          {entries.map((entry, idx) => {
+            const isMe = entry.username === currentUsername;
+            const rankChange = rankChanges[entry.username];
+            return (
+              <div 
+                key={entry.username} 
+                ref={row => {
+                  if (row) rowRefs.current.set(entry.username, row);
+                  else rowRefs.current.delete(entry.username);
+                }}
+                className={`flex items-center gap-3 sm:gap-4 p-3 sm:p-4 border-b-2 border-[var(--duo-polar)] last:border-0 ${
+                  isMe ? 'bg-[rgba(28,176,246,0.08)]' : ''
+                }`}
+              >
+                {/* Rank badge — gold, silver, bronze for top 3 */}
+                <div className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center font-black text-sm sm:text-base shrink-0 ${
+                  idx === 0 
+                    ? 'bg-[var(--duo-gold)] text-white' 
+                    : idx === 1 
+                      ? 'bg-[#C0C0C0] text-white' 
+                      : idx === 2 
+                        ? 'bg-[#CD7F32] text-white' 
+                        : 'bg-[var(--duo-swan)] text-[var(--duo-hare)]'
+                }`} style={{ boxShadow: idx < 3 ? '0 3px 0 rgba(0,0,0,0.2)' : 'none' }}>
+                  {idx === 0 ? '👑' : `#${idx + 1}`}
+                </div>
               
-              {/* Player name and treasure count */}
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2">
-                  <h4 className="font-black text-[var(--duo-eel)] text-sm sm:text-base truncate">{entry.username}</h4>
-                  {isMe && (
-                    <span className="badge badge-blue text-[8px] shrink-0">You</span>
-                  )}
+                {/* Player name and treasure count */}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-black text-[var(--duo-eel)] text-sm sm:text-base truncate">{entry.username}</h4>
+                    {isMe && (
+                      <span className="badge badge-blue text-[8px] shrink-0">You</span>
+                    )}
+                    {rankChange !== undefined && (
+                      <span className={`text-[10px] font-black shrink-0 ${rankChange > 0 ? 'text-[var(--duo-green)]' : 'text-[var(--duo-red)]'}`}>
+                        {rankChange > 0 ? `▲${rankChange}` : `▼${-rankChange}`}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-[10px] sm:text-xs font-bold text-[var(--duo-hare)]">{entry.treasuresFound} secrets found</p>
                 </div>
-                <p className="text-[10px] sm:text-xs font-bold text-[var(--duo-hare)]">{entry.treasuresFound} secrets found</p>
-              </div>
               
-              {/* XP score */}
-              <div className="text-right shrink-0">
-                <span className={`font-black text-lg sm:text-xl ${idx === 0 ? 'text-[var(--duo-gold)]' : 'text-[var(--duo-blue)]'}`}>
-                  {entry.points}
-                </span>
-                <p className="text-[9px] sm:text-[10px] font-bold text-[var(--duo-hare)] uppercase">XP</p>
+                {/* XP score */}
+                <div className="text-right shrink-0">
+                  <span className={`font-black text-lg sm:text-xl ${idx === 0 ? 'text-[var(--duo-gold)]' : 'text-[var(--duo-blue)]'}`}>
+                    {entry.points}
+                  </span>
+                  <p className="text-[9px] sm:text-[10px] font-bold text-[var(--duo-hare)] uppercase">XP</p>
+                </div>
               </div>
-            </div>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
 
-      {/* Your Position — shows where the current player ranks */}
-      <div className="card p-4 text-center">
-        <p className="text-xs font-bold text-[var(--duo-wolf)] uppercase tracking-wide mb-1">Your Ranking</p>
-        <p className="text-2xl font-black text-[var(--duo-blue)]">
-          #{leaderboard.length > 0 
-            ? (leaderboard.findIndex(e => e.username === currentUsername) + 1) || '-'
-            : '-'}
-          <span className="text-sm text-[var(--duo-hare)] ml-1">of {leaderboard.length || '-'}</span>
-        </p>
-      </div>
+        {/* Your Position — the exact rank for the hunt standings, otherwise where they are in this list */}
+        {period === 'hunt' && currentUsername ? (
+          <RankCard huntId={huntId} refreshKey={leaderboard} />
+        ) : (
+        <div className="card p-4 text-center">
+          <p className="text-xs font-bold text-[var(--duo-wolf)] uppercase tracking-wide mb-1">Your Ranking</p>
+          <p className="text-2xl font-black text-[var(--duo-blue)]">
+            #{leaderboard.length > 0 
+              ? (leaderboard.findIndex(e => e.username === currentUsername) + 1) || '-'
+              : '-'}
+            <span className="text-sm text-[var(--duo-hare)] ml-1">of {leaderboard.length || '-'}</span>
+          </p>
+        </div>
+        )}
+        </>
+      )}
     </div>
   );
 };
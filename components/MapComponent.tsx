@@ -3,7 +3,9 @@
  * and the user's live GPS location.
  * 
  * Features:
- *   - Treasure markers: green (unlocked), blue (nearby), grey (locked)
+ *   - Treasure markers: green (unlocked), blue (nearby), amber (locked),
+ *     grey with a chain link (waiting on an earlier treasure in its trail)
+ *   - Unlock radius: dashed circle around the nearest unlockable treasure
  *   - User location: blue pulsing dot with accuracy circle
  *   - Auto-follow mode: keeps the map centered on the user
  *   - Map style picker: streets vs satellite tiles
@@ -25,10 +27,10 @@ interface MapComponentProps {
 declare const L: any;
 
 /** Available map tile styles */
-type MapStyle = 'streets' | 'satellite';
+export type MapStyle = 'streets' | 'satellite';
 
 /** Tile provider URLs for each map style */
-const MAP_TILES: Record<MapStyle, { url: string; attribution?: string }> = {
+export const MAP_TILES: Record<MapStyle, { url: string; attribution?: string }> = {
   streets: {
     url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png'
   },
@@ -49,6 +51,7 @@ export const MapComponent: React.FC<MapComponentProps> = ({
   const markersRef = useRef<any[]>([]);
   const userMarker = useRef<any>(null);
   const userAccuracyCircle = useRef<any>(null);
+  const unlockRadiusCircle = useRef<any>(null);
   const [mapStyle, setMapStyle] = useState<MapStyle>('streets');
   const [showStylePicker, setShowStylePicker] = useState(false);
   const [autoFollow, setAutoFollow] = useState(true);
@@ -82,10 +85,13 @@ export const MapComponent: React.FC<MapComponentProps> = ({
     return R * c;
   };
 
-  /** Find the nearest locked treasure and its distance from the user */
+  /** Whether a treasure is still waiting on prerequisites the player hasn't found */
+  const isChainLocked = (t: Treasure) => t.prerequisites.some(id => !unlockedIds.includes(id));
+
+  /** Find the nearest locked treasure the player can actually unlock, and its distance from the user */
   const nearestTreasure = useMemo(() => {
     if (!userPos) return null;
-    const unlockedTreasures = treasures.filter(t => !unlockedIds.includes(t.id));
+    const unlockedTreasures = treasures.filter(t => !unlockedIds.includes(t.id) && !isChainLocked(t));
     if (unlockedTreasures.length === 0) return null;
     
     let nearest = unlockedTreasures[0];
@@ -102,6 +108,9 @@ export const MapComponent: React.FC<MapComponentProps> = ({
     return { treasure: nearest, distance: minDist };
   }, [userPos, treasures, unlockedIds]);
 
+  /** Whether the player is inside the nearest treasure's unlock radius */
+  const inNearestRange = !!nearestTreasure && nearestTreasure.distance < nearestTreasure.treasure.unlockRadius;
+
   /**
    * Format a distance in meters to a human-friendly string.
    * @param {number} meters - Distance in meters
@@ -220,6 +229,28 @@ export const MapComponent: React.FC<MapComponentProps> = ({
     updateMarkers();
   }, [treasures, unlockedIds, userPos]);
 
+  /** Outline the unlock radius of the nearest locked treasure so players know where to stand */
+  useEffect(() => {
+    if (!leafletMap.current) return;
+    if (unlockRadiusCircle.current) {
+      unlockRadiusCircle.current.remove();
+      unlockRadiusCircle.current = null;
+    }
+    if (!nearestTreasure || nearestTreasure.distance > 250) return;
+
+    const { treasure } = nearestTreasure;
+    const color = inNearestRange ? '#58cc02' : '#ff9600';
+    unlockRadiusCircle.current = L.circle([treasure.latitude, treasure.longitude], {
+      radius: treasure.unlockRadius,
+      color,
+      fillColor: color,
+      fillOpacity: 0.08,
+      weight: 2,
+      dashArray: '6 6',
+      interactive: false
+    }).addTo(leafletMap.current);
+  }, [nearestTreasure, inNearestRange, isMapReady]);
+
   /** Clear and re-render all treasure markers with current state (unlocked/nearby/locked) */
   const updateMarkers = () => {
     if (!leafletMap.current) return;
@@ -229,19 +260,21 @@ export const MapComponent: React.FC<MapComponentProps> = ({
 
     treasures.forEach(t => {
       const isUnlocked = unlockedIds.includes(t.id);
+      const chainLocked = !isUnlocked && isChainLocked(t);
       let nearby = false;
-      if (userPos && userPos.length >= 2) {
-        nearby = calculateDistance(userPos[0], userPos[1], t.latitude, t.longitude) < 50;
+      if (!chainLocked && userPos && userPos.length >= 2) {
+        nearby = calculateDistance(userPos[0], userPos[1], t.latitude, t.longitude) < t.unlockRadius;
       }
 
-      // Color: green = unlocked, blue = nearby, amber = locked
-      const bgColor = isUnlocked ? '#58cc02' : nearby ? '#1cb0f6' : '#ff9600';
-      const shadowColor = isUnlocked ? '#46a302' : nearby ? '#1899d6' : '#e08600';
+      // Color: green = unlocked, blue = nearby, amber = locked, grey = waiting on an earlier treasure
+      const bgColor = isUnlocked ? '#58cc02' : chainLocked ? '#afafaf' : nearby ? '#1cb0f6' : '#ff9600';
+      const shadowColor = isUnlocked ? '#46a302' : chainLocked ? '#8f8f8f' : nearby ? '#1899d6' : '#e08600';
       const pulseClass = (nearby && !isUnlocked) ? 'treasure-marker-pulse' : '';
 
-      // SVG icons — map pin for locked, checkmark for unlocked
+      // SVG icons — map pin for locked, checkmark for unlocked, chain link for trail-locked
       const pinSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z"/><circle cx="12" cy="10" r="3"/></svg>`;
       const checkSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 6 9 17 4 12"/></svg>`;
+      const chainSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><path d="M9 17H7A5 5 0 0 1 7 7h2"/><path d="M15 7h2a5 5 0 1 1 0 10h-2"/><line x1="8" x2="16" y1="12" y2="12"/></svg>`;
 
       const markerHtml = `
         <div class="treasure-marker ${pulseClass}" style="
@@ -258,7 +291,7 @@ export const MapComponent: React.FC<MapComponentProps> = ({
           transition: transform 0.2s;
           position: relative;
         ">
-          ${isUnlocked ? checkSvg : pinSvg}
+          ${isUnlocked ? checkSvg : chainLocked ? chainSvg : pinSvg}
           ${!isUnlocked ? `<div style="
             position: absolute;
             top: -6px;
@@ -291,7 +324,7 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       }).addTo(leafletMap.current);
 
       // Tooltip with treasure name on hover
-      marker.bindTooltip(t.name, {
+      marker.bindTooltip(chainLocked ? `🔗 ${t.name}` : t.name, {
         permanent: false,
         direction: 'top',
         offset: [0, -24],
@@ -388,18 +421,20 @@ export const MapComponent: React.FC<MapComponentProps> = ({
       </button>
 
       {/* Distance indicator when near a treasure */}
-      {nearestTreasure && nearestTreasure.distance < 100 && (
+      {nearestTreasure && nearestTreasure.distance < nearestTreasure.treasure.unlockRadius * 2 && (
         <div className="absolute bottom-8 left-4 right-24 z-[400]">
           <div className={`px-4 py-3 rounded-xl shadow-lg ${
-            nearestTreasure.distance < 50 
+            inNearestRange 
               ? 'bg-[#58cc02] text-white border-b-4 border-[#4caf00]' 
               : 'bg-white text-slate-800 border-2 border-slate-100'
           }`}>
             <p className="text-xs font-black uppercase tracking-wide">
-              {nearestTreasure.distance < 50 ? '🎯 Ready to scan!' : `Getting closer to ${nearestTreasure.treasure.name}...`}
+              {inNearestRange ? '🎯 Ready to scan!' : `Getting closer to ${nearestTreasure.treasure.name}...`}
             </p>
-            <p className={`text-[10px] font-bold ${nearestTreasure.distance < 50 ? 'text-white/80' : 'text-slate-500'}`}>
-              {formatDistance(nearestTreasure.distance)}
+            <p className={`text-[10px] font-bold ${inNearestRange ? 'text-white/80' : 'text-slate-500'}`}>
+              {inNearestRange
+                ? formatDistance(nearestTreasure.distance)
+                : `${Math.round(nearestTreasure.distance - nearestTreasure.treasure.unlockRadius)}m to the unlock zone`}
             </p>
           </div>
         </div>
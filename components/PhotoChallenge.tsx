@@ -0,0 +1,118 @@
+/**
+ * Photo Challenge — the action area of the treasure modal for photo treasures.
+ * Players take (or pick) a photo, which is shrunk in the browser before upload
+ * and then waits for an admin to approve it. Shows the state of the latest upload.
+ */
+
+import React, { useRef, useState } from 'react';
+import { Camera, Clock, XCircle, Loader2 } from 'lucide-react';
+import { PhotoSubmissionFromAPI } from '../services/api';
+
+/** Longest edge of an uploaded photo in pixels — plenty for moderation, small enough to send over mobile data */
+const MAX_PHOTO_EDGE = 1280;
+
+interface PhotoChallengeProps {
+  prompt?: string;
+  submission?: PhotoSubmissionFromAPI;
+  canSubmit: boolean;
+  onSubmit: (photo: string) => Promise<boolean>;
+}
+
+/**
+ * Resize an image file and re-encode it as a JPEG data URL.
+ * @param   {File} file - The photo from the camera or gallery
+ * @returns {Promise<string>} A "data:image/jpeg;base64,..." URL
+ */
+const shrinkPhoto = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, MAX_PHOTO_EDGE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/jpeg', 0.85));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("That file doesn't look like a photo"));
+  };
+  img.src = url;
+});
+
+/**
+ * Renders the photo prompt, the latest upload's status, and the take-photo button.
+ * @param {string}                 [prompt]     - What the photo should show
+ * @param {PhotoSubmissionFromAPI} [submission] - The player's latest upload for this treasure
+ * @param {boolean}                canSubmit    - Whether the player is close enough to upload
+ * @param {Function}               onSubmit     - Uploads the photo; resolves true if the server accepted it
+ */
+export const PhotoChallenge: React.FC<PhotoChallengeProps> = ({ prompt, submission, canSubmit, onSubmit }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const isPending = submission?.status === 'pending';
+
+  /** Shrink the chosen photo and hand it to the parent to upload */
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      await onSubmit(await shrinkPhoto(file));
+    } catch (err) {
+      console.error('Failed to prepare photo:', err);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="p-5 pt-0 space-y-3">
+      {prompt && (
+        <p className="text-sm font-bold text-[var(--duo-wolf)] text-center">📸 {prompt}</p>
+      )}
+
+      {isPending && (
+        <div className="flex items-center gap-2 p-3 rounded-xl bg-[rgba(28,176,246,0.1)] text-[var(--duo-blue)] text-xs font-bold">
+          <Clock className="w-4 h-4 shrink-0" />
+          Your photo is waiting for review — points arrive once it's approved
+        </div>
+      )}
+
+      {submission?.status === 'rejected' && (
+        <div className="flex items-center gap-2 p-3 rounded-xl bg-[rgba(255,75,75,0.1)] text-[var(--duo-red)] text-xs font-bold">
+          <XCircle className="w-4 h-4 shrink-0" />
+          Your last photo wasn't accepted{submission.rejectionReason ? `: ${submission.rejectionReason}` : ''}. Try another!
+        </div>
+      )}
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/*"
+        capture="user"
+        onChange={handleFile}
+        className="hidden"
+      />
+      {!isPending && (
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={!canSubmit || uploading}
+          className={`w-full py-4 rounded-xl font-black text-sm uppercase tracking-widest flex items-center justify-center gap-3 transition-all ${
+            canSubmit
+              ? 'btn-primary'
+              : 'bg-[var(--duo-swan)] text-[var(--duo-hare)] cursor-not-allowed'
+          }`}
+        >
+          {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Camera className="w-5 h-5" />}
+          {uploading ? 'Uploading...' : canSubmit ? 'Take Photo' : 'Get Closer for a Photo'}
+        </button>
+      )}
+    </div>
+  );
+};
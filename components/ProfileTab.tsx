@@ -1,37 +1,54 @@
 /**
  * Profile Tab — the player's personal dashboard.
- * Displays their avatar, XP stats, level progress bar, and trophy room.
+ * Displays their avatar, level title, XP stats, hunt ranking, level progress bar, and trophy room.
  * The trophy room shows all available badges and which ones the player has earned.
+ * Also shows the player's team (or lets them create/join one), and lets them download
+ * the hunt (or just their finds) as GPX/KML for offline GPS apps and Google Earth.
  * Also includes a "Sign Out & Reset" button at the bottom.
  */
 
-import React from 'react';
-import { User, Star, Zap, Award, Trophy, Compass, GraduationCap } from 'lucide-react';
-import { BADGES } from '../constants';
-import { UserProgress } from '../types';
-
-/** Maps badge icon names to their Lucide icon components */
-const BADGE_ICONS: Record<string, React.FC<{ className?: string }>> = {
-  Compass,
-  GraduationCap,
-  Star,
-  Trophy
-};
+import React, { useState } from 'react';
+import { User, Star, Zap, Award, Download } from 'lucide-react';
+import { Treasure, UserProgress } from '../types';
+import { BadgeFromAPI, saveDownload } from '../services/api';
+import { buildGpsFile, GpsFormat } from '../services/gpsExport';
+import { TeamSection } from './TeamSection';
+import { RankCard } from './RankCard';
+import { BadgeIcon, RARITY_STYLES } from './BadgeIcon';
 
 /** Props for the ProfileTab component */
 interface ProfileTabProps {
   username: string;
   userProgress: UserProgress;
+  badges: BadgeFromAPI[];
   onLogout: () => void;
+  addToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  huntId: string;
+  treasures: Treasure[];
+  huntName: string;
 }
 
 /**
  * Renders the player's profile with stats, level progress, and badge collection.
  * @param {string}       username     - The player's display name
  * @param {UserProgress} userProgress - Their game progress data (points, badges, level, etc.)
+ * @param {BadgeFromAPI[]} badges     - Every badge the hunt awards, for the trophy room
  * @param {Function}     onLogout     - Callback to sign out and reset local state
+ * @param {Function}     addToast     - Shows team join/leave feedback
+ * @param {string}       huntId       - The hunt being played (team totals are per hunt)
+ * @param {Treasure[]}   treasures    - The hunt's treasures, for the GPS download
+ * @param {string}       huntName     - The hunt's name, for naming the GPS download
  */
-export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress, onLogout }) => {
+export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress, badges, onLogout, addToast, huntId, treasures, huntName }) => {
+  const levelInfo = userProgress.levelInfo;
+  const [onlyFound, setOnlyFound] = useState(false);
+
+  /** Save the hunt (or just the player's finds) as a GPX or KML file */
+  const handleGpsDownload = (format: GpsFormat) => {
+    const route = onlyFound ? treasures.filter(t => t.isUnlocked) : treasures;
+    saveDownload(buildGpsFile(route, format, `${huntName} ${onlyFound ? `${username} finds` : 'treasures'}`));
+  };
+
   return (
     <div className="space-y-6 sm:space-y-8 animate-in fade-in duration-300">
       {/* Profile Header — avatar, username, and level badge */}
@@ -49,7 +66,7 @@ export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress,
           <div className="flex-1 min-w-0">
             <h2 className="text-xl sm:text-2xl font-black text-[var(--duo-eel)] truncate">{username}</h2>
             <p className="text-xs font-bold uppercase tracking-wide flex items-center gap-1 gradient-text">
-              <Star className="w-3 h-3" style={{ WebkitTextFillColor: 'initial', color: 'var(--game-blue)' }} /> Campus Adventurer
+              <Star className="w-3 h-3" style={{ WebkitTextFillColor: 'initial', color: 'var(--game-blue)' }} /> {levelInfo?.title || 'Campus Adventurer'}
             </p>
           </div>
         </div>
@@ -71,6 +88,9 @@ export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress,
         </div>
       </div>
 
+      {/* Where the player stands in the hunt */}
+      <RankCard huntId={huntId} refreshKey={userProgress.totalPoints} />
+
       {/* XP Progress Bar — shows progress toward the next level */}
       <div className="card p-4 sm:p-5">
         <div className="flex items-center justify-between mb-3">
@@ -78,13 +98,19 @@ export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress,
             <Zap className="w-4 h-4 text-[var(--duo-gold)]" />
             <span className="text-xs font-bold uppercase tracking-wide text-[var(--duo-wolf)]">Level {userProgress.level} Progress</span>
           </div>
-          <span className="text-xs font-bold text-[var(--duo-wolf)]">{userProgress.totalPoints % 250}/250 XP</span>
+          {levelInfo && <span className="text-xs font-bold text-[var(--duo-wolf)]">{levelInfo.xpIntoLevel}/{levelInfo.xpForLevel} XP</span>}
         </div>
         <div className="progress-bar">
-          <div className="progress-fill" style={{ width: `${(userProgress.totalPoints % 250) / 2.5}%` }} />
+          <div className="progress-fill" style={{ width: `${levelInfo ? (levelInfo.xpIntoLevel / levelInfo.xpForLevel) * 100 : 0}%` }} />
         </div>
+        {levelInfo && (
+          <p className="text-[10px] font-bold text-[var(--duo-hare)] mt-2">{levelInfo.xpToNextLevel} XP to Level {levelInfo.level + 1}</p>
+        )}
       </div>
 
+      {/* Team — combined stats and members, or create/join forms */}
+      <TeamSection addToast={addToast} huntId={huntId} />
+
       {/* Trophy Room — shows all badges and whether they've been earned */}
       <section>
         <div className="flex items-center gap-3 mb-4">
@@ -92,12 +118,11 @@ export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress,
           <h3 className="text-sm font-black uppercase tracking-wide text-[var(--duo-eel)]">Trophy Room</h3>
         </div>
         <div className="grid grid-cols-2 gap-3 stagger-in">
-          {BADGES.map(badge => {
-            const hasBadge = userProgress.badges.includes(badge.id);
-            const IconComponent = BADGE_ICONS[badge.icon];
+          {badges.map(badge => {
+            const hasBadge = userProgress.badges.includes(badge.key);
             return (
               <div 
-                key={badge.id} 
+                key={badge.key} 
                 className={`card p-4 text-center scale-press ${hasBadge ? 'card-success badge-glow' : ''}`}
               >
                 <div className={`w-12 h-12 mx-auto mb-3 rounded-xl flex items-center justify-center ${
@@ -105,9 +130,11 @@ export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress,
                     ? 'bg-[var(--duo-gold)]' 
                     : 'bg-[var(--duo-swan)]'
                 }`} style={{ boxShadow: hasBadge ? '0 3px 0 var(--duo-gold-dark, #cc8400)' : 'none' }}>
-                  {IconComponent && <IconComponent className={`w-6 h-6 ${hasBadge ? 'text-white' : 'text-[var(--duo-hare)]'}`} />}
+                  <BadgeIcon icon={badge.icon} className={`w-6 h-6 ${hasBadge ? 'text-white' : 'text-[var(--duo-hare)]'}`} />
                 </div>
                 <h4 className="text-xs font-black text-[var(--duo-eel)] mb-0.5">{badge.name}</h4>
+                <p className="text-[10px] text-[var(--duo-wolf)] mb-1">{badge.description}</p>
+                <p className={`text-[9px] font-black uppercase tracking-wide mb-1 ${RARITY_STYLES[badge.rarity]}`}>{badge.rarity}</p>
                 <p className={`text-[10px] font-bold ${hasBadge ? 'text-[var(--duo-green)] shimmer-text' : 'text-[var(--duo-hare)]'}`} style={hasBadge ? { WebkitTextFillColor: 'var(--duo-green)' } : {}}>
                   {hasBadge ? '✓ Collected' : 'Locked'}
                 </p>
@@ -117,6 +144,37 @@ export const ProfileTab: React.FC<ProfileTabProps> = ({ username, userProgress,
         </div>
       </section>
 
+      {/* Offline route — the treasures as a file for GPS apps and Google Earth */}
+      <div className="card p-4 sm:p-5 space-y-3">
+        <div className="flex items-center gap-2">
+          <Download className="w-4 h-4 text-[var(--duo-blue)]" />
+          <span className="text-xs font-bold uppercase tracking-wide text-[var(--duo-wolf)]">Take the route offline</span>
+        </div>
+        <p className="text-xs text-[var(--duo-wolf)]">
+          Download the treasures with their clues for a GPS app (GPX) or Google Earth (KML).
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => setOnlyFound(false)} className={`py-2 text-xs ${!onlyFound ? 'btn-primary' : 'btn-outline'}`}>
+            Whole hunt ({treasures.length})
+          </button>
+          <button onClick={() => setOnlyFound(true)} className={`py-2 text-xs ${onlyFound ? 'btn-primary' : 'btn-outline'}`}>
+            My finds ({treasures.filter(t => t.isUnlocked).length})
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {(['gpx', 'kml'] as GpsFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleGpsDownload(format)}
+              disabled={(onlyFound ? treasures.filter(t => t.isUnlocked) : treasures).length === 0}
+              className="btn-outline py-2 text-xs flex items-center justify-center gap-2"
+            >
+              <Download className="w-3 h-3" /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Sign Out Button */}
       <div className="pt-4 pb-8">
         <button 
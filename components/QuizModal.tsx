@@ -0,0 +1,113 @@
+/**
+ * Quiz Modal — the challenge question some treasures ask after a successful scan.
+ * Multiple-choice quizzes show their options as buttons; free-text quizzes get an input.
+ * The answer is checked on the server; a wrong answer can be retried for reduced points.
+ */
+
+import React, { useState } from 'react';
+import { HelpCircle, X, Loader2 } from 'lucide-react';
+import { QuizChallenge } from '../services/api';
+
+interface QuizModalProps {
+  treasureName: string;
+  points: number;
+  quiz: QuizChallenge;
+  wrongAnswers: number;
+  onSubmit: (answer: string) => Promise<unknown>;
+  onClose: () => void;
+}
+
+/**
+ * Renders the question and collects the player's answer.
+ * @param {string}        treasureName - The treasure being claimed
+ * @param {number}        points       - The treasure's full point value
+ * @param {QuizChallenge} quiz         - The question and (optional) options
+ * @param {number}        wrongAnswers - How many wrong answers the player has already given
+ * @param {Function}      onSubmit     - Sends the answer to the server along with the scan
+ * @param {Function}      onClose      - Dismiss without answering (the scan can be repeated later)
+ */
+export const QuizModal: React.FC<QuizModalProps> = ({ treasureName, points, quiz, wrongAnswers, onSubmit, onClose }) => {
+  const [answer, setAnswer] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isMultipleChoice = quiz.options.length > 0;
+  const pointsAvailable = wrongAnswers > 0 ? Math.round(points * quiz.retryPercent / 100) : points;
+
+  /** Submit an answer — options submit straight away, free text via the form */
+  const submit = async (value: string) => {
+    if (!value.trim() || submitting) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(value.trim());
+    } finally {
+      setSubmitting(false);
+      setAnswer('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] bg-black/50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="card w-full sm:max-w-md rounded-t-3xl rounded-b-none sm:rounded-2xl overflow-hidden">
+        <div className="p-4 flex items-center justify-between bg-[var(--duo-blue)] text-white">
+          <div className="flex items-center gap-2">
+            <HelpCircle className="w-5 h-5" />
+            <div>
+              <p className="text-[10px] font-black uppercase tracking-widest opacity-90">Challenge</p>
+              <h3 className="text-base font-black leading-tight">{treasureName}</h3>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-white/20">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <p className="text-base font-bold text-[var(--duo-eel)] leading-relaxed">{quiz.question}</p>
+
+          {wrongAnswers > 0 && (
+            <p className="text-xs font-bold text-[var(--duo-red)]">
+              Not quite! A correct answer now earns {pointsAvailable} XP.
+            </p>
+          )}
+
+          {isMultipleChoice ? (
+            <div className="grid gap-2">
+              {quiz.options.map(option => (
+                <button
+                  key={option}
+                  onClick={() => submit(option)}
+                  disabled={submitting}
+                  className="btn-outline py-3 px-4 text-sm font-bold text-left disabled:opacity-50"
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <form onSubmit={e => { e.preventDefault(); submit(answer); }} className="flex gap-2">
+              <input
+                type="text"
+                value={answer}
+                onChange={e => setAnswer(e.target.value)}
+                placeholder="Your answer"
+                autoFocus
+                className="input flex-1 min-w-0"
+              />
+              <button
+                type="submit"
+                disabled={submitting || !answer.trim()}
+                className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Answer'}
+              </button>
+            </form>
+          )}
+
+          <p className="text-[10px] font-bold uppercase tracking-wide text-[var(--duo-hare)] text-center">
+            Worth {pointsAvailable} XP
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
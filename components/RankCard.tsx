@@ -0,0 +1,91 @@
+/**
+ * Rank Card — "where do I stand": the player's exact rank in the hunt, however far down
+ * the rankings they are, with the players just above and below them.
+ * Shown on both the leaderboard and the profile.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { TrendingUp, Loader2 } from 'lucide-react';
+import { leaderboardAPI, PlayerStanding, LeaderboardEntry } from '../services/api';
+
+interface RankCardProps {
+  huntId: string;
+  /** Anything that changes when the rankings might have moved (e.g. the player's points) — triggers a reload */
+  refreshKey?: unknown;
+}
+
+/**
+ * Loads the player's standing in the hunt and renders their rank and neighbours.
+ * @param {string} huntId       - The hunt being ranked
+ * @param {any}    [refreshKey] - Reloads the standing whenever it changes
+ */
+export const RankCard: React.FC<RankCardProps> = ({ huntId, refreshKey }) => {
+  const [standing, setStanding] = useState<PlayerStanding | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  /** Reload whenever the hunt changes or the rankings may have moved */
+  useEffect(() => {
+    if (!huntId) return;
+    let cancelled = false;
+    leaderboardAPI.getMyRank(huntId)
+      .then(response => !cancelled && setStanding(response.data))
+      .catch(error => console.error('Failed to load rank:', error))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [huntId, refreshKey]);
+
+  /** One row of the neighbourhood list */
+  const renderRow = (entry: LeaderboardEntry, isMe: boolean) => (
+    <div
+      key={`${entry.rank}-${entry.username}`}
+      className={`flex items-center gap-3 px-3 py-2 rounded-lg ${isMe ? 'bg-[rgba(28,176,246,0.1)]' : ''}`}
+    >
+      <span className={`w-10 text-xs font-black ${isMe ? 'text-[var(--duo-blue)]' : 'text-[var(--duo-hare)]'}`}>#{entry.rank}</span>
+      <span className={`flex-1 min-w-0 truncate text-sm font-bold ${isMe ? 'text-[var(--duo-blue)]' : 'text-[var(--duo-eel)]'}`}>
+        {isMe ? 'You' : entry.username}
+      </span>
+      <span className="text-xs font-black text-[var(--duo-wolf)]">{entry.points} XP</span>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="card p-4 flex justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-[var(--duo-hare)]" />
+      </div>
+    );
+  }
+
+  if (!standing) {
+    return (
+      <div className="card p-4 text-center">
+        <p className="text-xs font-bold text-[var(--duo-wolf)] uppercase tracking-wide mb-1">Your Ranking</p>
+        <p className="text-sm font-bold text-[var(--duo-hare)]">Find a treasure in this hunt to get ranked</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-bold text-[var(--duo-wolf)] uppercase tracking-wide mb-1">Your Ranking</p>
+          <p className="text-2xl font-black text-[var(--duo-blue)]">
+            #{standing.rank}
+            <span className="text-sm text-[var(--duo-hare)] ml-1">of {standing.total}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-1 text-right text-xs font-black text-[var(--duo-green)]">
+          <TrendingUp className="w-4 h-4 shrink-0" />
+          {standing.rank === 1 ? 'Top of the hunt!' : `Ahead of ${standing.percentile}% of players`}
+        </div>
+      </div>
+
+      <div className="border-t-2 border-[var(--duo-polar)] pt-2 space-y-1">
+        {standing.above.map(entry => renderRow(entry, false))}
+        {renderRow(standing.you, true)}
+        {standing.below.map(entry => renderRow(entry, false))}
+      </div>
+    </div>
+  );
+};
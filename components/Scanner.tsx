@@ -6,37 +6,59 @@
  *   1. Player taps "Start Scanning" → camera opens
  *   2. Video frames are continuously drawn to a hidden canvas
  *   3. jsQR analyzes each frame looking for QR codes
- *   4. If a valid "geohunt:<treasureId>" code is found matching the target → success!
+ *   4. If a "geohunt:<treasureId>:<version>:<signature>" code is found matching the target → success!
+ *      The full payload is handed to onScan so the server can verify its signature.
  *   5. If the QR belongs to a different treasure → "Wrong QR Code!" with auto-retry
- *   6. Falls back to simulation mode if camera access is denied
+ *   6. If the camera is unavailable (or the player prefers), they can type the short
+ *      code printed under the sticker instead — when the admins have that fallback on
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Camera, X, CheckCircle, Zap, AlertTriangle } from 'lucide-react';
+import { Camera, X, CheckCircle, Zap, AlertTriangle, Keyboard, Loader2 } from 'lucide-react';
 
 // Declare jsQR as global (loaded via CDN in index.html)
 declare const jsQR: any;
 
+/**
+ * Pull the treasure ID out of a signed GeoHunt payload ("geohunt:<id>:<version>:<signature>").
+ * Only used to give instant "wrong marker" feedback — the signature itself is checked server-side.
+ * @param   {string} data - Raw text decoded from the QR code
+ * @returns {string | null} The treasure ID, or null if this isn't a GeoHunt code
+ */
+const getTreasureIdFromPayload = (data: string): string | null => {
+  const parts = data.trim().split(':');
+  if (parts.length !== 4 || parts[0] !== 'geohunt') return null;
+  return parts[1] || null;
+};
+
 /** Props for the Scanner component */
 interface ScannerProps {
-  onScan: (id: string) => void;
+  onScan: (qrPayload: string) => void;
+  onManualCode: (code: string) => Promise<boolean>;
   onClose: () => void;
   targetId: string;
+  manualCodeEnabled: boolean;
 }
 
 /**
  * Full-screen QR code scanner with camera feed and visual feedback.
- * @param {Function} onScan   - Called with the treasure ID when a valid QR is scanned
- * @param {Function} onClose  - Called when the user dismisses the scanner
- * @param {string}   targetId - The expected treasure ID (from the selected treasure)
+ * @param {Function} onScan            - Called with the full signed payload when the target's QR is scanned
+ * @param {Function} onManualCode      - Called with a typed sticker code; resolves true if the server accepted it
+ * @param {Function} onClose           - Called when the user dismisses the scanner
+ * @param {string}   targetId          - The expected treasure ID (from the selected treasure)
+ * @param {boolean}  manualCodeEnabled - Whether typing the sticker code is allowed
  */
-export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) => {
+export const Scanner: React.FC<ScannerProps> = ({ onScan, onManualCode, onClose, targetId, manualCodeEnabled }) => {
   const [scanning, setScanning] = useState(false);
   const [success, setSuccess] = useState(false);
   const [wrongCode, setWrongCode] = useState(false);
   const [scannedCode, setScannedCode] = useState<string | null>(null);
   const [cameraError, setCameraError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState('Initializing...');
+  const [showCodeEntry, setShowCodeEntry] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [submittingCode, setSubmittingCode] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -88,17 +110,17 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
       if (code && code.data) {
         setStatusMessage('QR Code detected!');
         
-        // Validate it's a GeoHunt QR code (format: "geohunt:<treasureId>")
-        if (code.data.startsWith('geohunt:')) {
-          const treasureId = code.data.replace('geohunt:', '');
-          
+        // Validate it's a GeoHunt QR code (format: "geohunt:<treasureId>:<version>:<signature>")
+        const treasureId = getTreasureIdFromPayload(code.data);
+        if (treasureId) {
           // Check if it matches the treasure the player selected
           if (treasureId === targetId) {
-            setScannedCode(treasureId);
+            const payload = code.data.trim();
+            setScannedCode(payload);
             setSuccess(true);
             setWrongCode(false);
             cleanup();
-            setTimeout(() => onScan(treasureId), 800);
+            setTimeout(() => onScan(payload), 800);
             return;
           } else {
             // Valid GeoHunt QR but for a different treasure
@@ -120,12 +142,12 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
     }
     
     animationRef.current = requestAnimationFrame(scanQRCode);
-  }, [success, cleanup, onScan]);
+  }, [success, cleanup, onScan, targetId]);
 
   /**
    * Initialize the camera and start the QR scanning loop.
    * Requests the rear camera (facingMode: 'environment') for best results.
-   * Falls back to simulation mode if camera access is denied.
+   * Offers manual code entry if camera access is denied and the fallback is enabled.
    */
   const startCamera = async () => {
     try {
@@ -153,17 +175,38 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
       }
     } catch (err) {
       console.error("Camera access error:", err);
-      setCameraError("Camera access denied. Using simulation mode.");
-      // Fallback: simulate a successful scan after 2 seconds
-      setScanning(true);
-      setStatusMessage('Simulating scan...');
-      setTimeout(() => {
-        setSuccess(true);
-        setTimeout(() => onScan(targetId), 800);
-      }, 2000);
+      setCameraError("Camera access denied.");
+      if (manualCodeEnabled) setShowCodeEntry(true);
     }
   };
 
+  /**
+   * Send the typed sticker code to the server.
+   * Stays open with an error if the code is rejected so the player can fix a typo.
+   */
+  const submitManualCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+
+    setSubmittingCode(true);
+    setCodeError(null);
+    const accepted = await onManualCode(manualCode.trim());
+    setSubmittingCode(false);
+
+    if (accepted) {
+      setSuccess(true);
+    } else {
+      setCodeError("That code didn't work — check the sticker and try again");
+    }
+  };
+
+  /** Switch from the camera to typing the sticker code */
+  const openCodeEntry = () => {
+    cleanup();
+    setScanning(false);
+    setShowCodeEntry(true);
+  };
+
   // Cleanup camera on component unmount
   useEffect(() => {
     return cleanup;
@@ -181,7 +224,7 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
       <div className="w-full max-w-sm aspect-square relative flex items-center justify-center overflow-hidden">
         {/* Camera Feed Background */}
         <div className="absolute inset-4 rounded-3xl overflow-hidden bg-slate-900 shadow-inner">
-          {scanning && !cameraError ? (
+          {scanning && !cameraError && !showCodeEntry ? (
             <video 
               ref={videoRef} 
               autoPlay 
@@ -193,7 +236,11 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
             <div className="w-full h-full flex flex-col items-center justify-center p-6 text-center text-white/60">
               <AlertTriangle className="w-12 h-12 mb-4" />
               <p className="text-xs font-bold uppercase tracking-widest leading-relaxed">{cameraError}</p>
-              <p className="text-[10px] mt-2 italic opacity-50">(Using simulation fallback...)</p>
+              <p className="text-[10px] mt-2 italic opacity-50">
+                {manualCodeEnabled
+                  ? 'Type the code printed under the QR sticker instead'
+                  : 'Allow camera access in your browser settings to scan'}
+              </p>
             </div>
           ) : (
             <div className="w-full h-full flex items-center justify-center">
@@ -234,6 +281,11 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
               <p className="text-lg font-black uppercase tracking-wide text-white drop-shadow-md">Wrong QR Code!</p>
               <p className="text-xs text-white/70 font-bold">Find the correct marker</p>
             </div>
+          ) : showCodeEntry ? (
+            <div className="flex flex-col items-center gap-4 text-white">
+               <Keyboard className="w-16 h-16 opacity-50" />
+               <p className="text-xs font-bold uppercase tracking-widest">Enter Sticker Code</p>
+            </div>
           ) : scanning ? (
             <div className="w-full px-8 flex flex-col items-center gap-4">
                <Camera className="w-12 h-12 text-white/60 animate-pulse" />
@@ -254,7 +306,33 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
           Scan the QR code on the treasure marker to unlock it!
         </p>
         
-        {!scanning && !success && (
+        {showCodeEntry && !success ? (
+          <form onSubmit={submitManualCode} className="space-y-3">
+            <input
+              type="text"
+              value={manualCode}
+              onChange={e => { setManualCode(e.target.value.toUpperCase()); setCodeError(null); }}
+              placeholder="ABC-123"
+              maxLength={9}
+              autoFocus
+              autoComplete="off"
+              autoCapitalize="characters"
+              disabled={submittingCode}
+              className="input text-center text-2xl font-black tracking-[0.3em] uppercase"
+            />
+            {codeError && (
+              <p className="text-xs font-bold text-white bg-red-500/80 rounded-lg py-2 px-3">{codeError}</p>
+            )}
+            <button
+              type="submit"
+              disabled={submittingCode || !manualCode.trim()}
+              className="btn-primary py-4 px-12 text-sm flex items-center justify-center gap-3 mx-auto shadow-2xl w-full"
+            >
+              {submittingCode ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle className="w-5 h-5" />}
+              Unlock With Code
+            </button>
+          </form>
+        ) : !scanning && !success && (
           <button 
             onClick={startCamera}
             className="btn-primary py-4 px-12 text-sm flex items-center gap-3 mx-auto group shadow-2xl"
@@ -262,6 +340,15 @@ export const Scanner: React.FC<ScannerProps> = ({ onScan, onClose, targetId }) =
             <Zap className="w-5 h-5 group-hover:animate-pulse" /> Start Scanning
           </button>
         )}
+
+        {manualCodeEnabled && !showCodeEntry && !success && (
+          <button
+            onClick={openCodeEntry}
+            className="mt-4 text-xs font-bold text-white/70 hover:text-white transition-colors flex items-center gap-2 mx-auto"
+          >
+            <Keyboard className="w-4 h-4" /> Can't scan? Type the code instead
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,203 @@
+/**
+ * Team Section — the team card on the player's profile.
+ * Solo players can create a team or join one with a code; team members see
+ * the join code to share, the team's combined stats, and each member's contribution.
+ * Stats are for the hunt the player currently has selected.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Users, Crown, Copy, LogOut, Loader2 } from 'lucide-react';
+import { teamAPI, TeamFromAPI } from '../services/api';
+
+interface TeamSectionProps {
+  addToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  huntId: string;
+}
+
+/**
+ * Loads the player's team and renders either the team overview or the create/join forms.
+ */
+export const TeamSection: React.FC<TeamSectionProps> = ({ addToast, huntId }) => {
+  const [team, setTeam] = useState<TeamFromAPI | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [mode, setMode] = useState<'join' | 'create'>('join');
+  const [input, setInput] = useState('');
+
+  /** Load the player's team (with totals for the selected hunt) */
+  useEffect(() => {
+    loadTeam();
+  }, [huntId]);
+
+  const loadTeam = async () => {
+    try {
+      const res = await teamAPI.getMine(huntId);
+      setTeam(res.data);
+    } catch (err) {
+      console.error('Failed to load team:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** Create or join a team depending on which form is showing */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    setBusy(true);
+    try {
+      if (mode === 'create') {
+        const res = await teamAPI.create(input.trim(), huntId);
+        setTeam(res.data);
+        addToast(`Team "${res.data.name}" created — share code ${res.data.joinCode} with your group`, 'success');
+      } else {
+        const res = await teamAPI.join(input.trim(), huntId);
+        setTeam(res.data);
+        addToast(res.message || `Joined "${res.data.name}"`, 'success');
+      }
+      setInput('');
+    } catch (err: any) {
+      addToast(err.message || 'Something went wrong', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Leave the current team after confirming */
+  const handleLeave = async () => {
+    if (!team || !confirm(`Leave "${team.name}"? Your own points stay with you.`)) return;
+
+    setBusy(true);
+    try {
+      await teamAPI.leave();
+      setTeam(null);
+      addToast(`You left "${team.name}"`, 'info');
+    } catch (err: any) {
+      addToast(err.message || 'Failed to leave team', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** Copy the join code so it can be pasted into a group chat */
+  const handleCopyCode = async () => {
+    if (!team) return;
+    try {
+      await navigator.clipboard.writeText(team.joinCode);
+      addToast('Join code copied!', 'success');
+    } catch {
+      addToast(`Your join code is ${team.joinCode}`, 'info');
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex items-center gap-3 mb-4">
+        <Users className="w-5 h-5 text-[var(--duo-blue)]" />
+        <h3 className="text-sm font-black uppercase tracking-wide text-[var(--duo-eel)]">Team</h3>
+      </div>
+
+      {loading ? (
+        <div className="card p-6 flex justify-center">
+          <Loader2 className="w-5 h-5 animate-spin text-[var(--duo-hare)]" />
+        </div>
+      ) : team ? (
+        <div className="card p-4 sm:p-5 space-y-4">
+          {/* Team name and shareable join code */}
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <h4 className="text-lg font-black text-[var(--duo-eel)] truncate">{team.name}</h4>
+              <p className="text-[10px] font-bold uppercase tracking-wide text-[var(--duo-hare)]">
+                {team.members.length}/{team.maxSize} members
+              </p>
+            </div>
+            <button
+              onClick={handleCopyCode}
+              className="btn-outline px-3 py-2 flex items-center gap-2 shrink-0"
+              title="Copy join code"
+            >
+              <span className="font-mono font-black tracking-widest text-[var(--duo-blue)]">{team.joinCode}</span>
+              <Copy className="w-4 h-4 text-[var(--duo-hare)]" />
+            </button>
+          </div>
+
+          {/* Combined team stats */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="rounded-xl p-3 text-center bg-[var(--duo-polar)]">
+              <p className="text-xl font-black gradient-text">{team.points}</p>
+              <p className="text-[10px] font-bold uppercase tracking-wide text-[var(--duo-wolf)]">Team XP</p>
+            </div>
+            <div className="rounded-xl p-3 text-center bg-[var(--duo-polar)]">
+              <p className="text-xl font-black text-[var(--duo-green)]">{team.treasuresFound}</p>
+              <p className="text-[10px] font-bold uppercase tracking-wide text-[var(--duo-wolf)]">Found</p>
+            </div>
+          </div>
+
+          {/* Member list with each player's contribution */}
+          <div className="divide-y-2 divide-[var(--duo-polar)]">
+            {team.members.map(member => (
+              <div key={member._id} className="flex items-center gap-2 py-2">
+                {member.isCaptain && <Crown className="w-4 h-4 text-[var(--duo-gold)] shrink-0" />}
+                <span className="flex-1 text-sm font-bold text-[var(--duo-eel)] truncate">{member.username}</span>
+                <span className="text-xs font-bold text-[var(--duo-hare)]">{member.treasuresFound} found</span>
+                <span className="text-sm font-black text-[var(--duo-blue)] w-14 text-right">{member.points} XP</span>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleLeave}
+            disabled={busy}
+            className="w-full btn-outline py-2 flex items-center justify-center gap-2 text-[var(--duo-red)] border-[var(--duo-red)] disabled:opacity-50"
+          >
+            <LogOut className="w-4 h-4" /> Leave Team
+          </button>
+        </div>
+      ) : (
+        <div className="card p-4 sm:p-5 space-y-3">
+          <p className="text-xs font-bold text-[var(--duo-wolf)]">
+            Hunt together! Your team's points are the sum of everyone's points.
+          </p>
+
+          {/* Join / Create switcher */}
+          <div className="grid grid-cols-2 gap-2">
+            {(['join', 'create'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => { setMode(option); setInput(''); }}
+                className={`py-2 rounded-xl text-xs font-black uppercase tracking-wide transition-colors ${
+                  mode === option
+                    ? 'bg-[var(--duo-blue)] text-white'
+                    : 'bg-[var(--duo-polar)] text-[var(--duo-wolf)]'
+                }`}
+              >
+                {option === 'join' ? 'Join a Team' : 'Create a Team'}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={input}
+              onChange={e => setInput(mode === 'join' ? e.target.value.toUpperCase() : e.target.value)}
+              placeholder={mode === 'join' ? 'Join code' : 'Team name'}
+              maxLength={mode === 'join' ? 8 : 40}
+              className={`flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-[var(--duo-swan)] font-bold text-sm focus:outline-none focus:border-[var(--duo-blue)] ${
+                mode === 'join' ? 'font-mono tracking-widest uppercase' : ''
+              }`}
+            />
+            <button
+              type="submit"
+              disabled={busy || !input.trim()}
+              className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'join' ? 'Join' : 'Create'}
+            </button>
+          </form>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -1,12 +1,27 @@
 /**
- * Game constants — badge definitions for the treasure hunt.
- * Badges are earned by completing specific achievements.
+ * Game constants — player-facing messages for the treasure hunt.
+ * Badge definitions live on the server (GET /api/badges).
  */
 
-/** Badge definitions — each badge has criteria checked in UserProgress.checkBadges() */
-export const BADGES = [
-  { id: 'explorer', name: 'Rookie Scout', icon: 'Compass', description: 'Acquired your first campus secret' },
-  { id: 'scholar', name: 'High IQ', icon: 'GraduationCap', description: 'Unlocked all Academic landmarks' },
-  { id: 'socialite', name: 'Social Star', icon: 'Star', description: 'Visited the Student Union' },
-  { id: 'master', name: 'Elite Hunter', icon: 'Trophy', description: 'Completed the entire campus hunt' }
-];
+/** Friendly explanations for the error codes the server returns when an unlock is rejected */
+export const UNLOCK_ERROR_MESSAGES: Record<string, string> = {
+  LOCATION_REQUIRED: "📍 We can't see your location yet — turn on GPS and try again",
+  LOCATION_INACCURATE: '📡 Your GPS signal is too weak — step outside or wait a moment',
+  OUT_OF_RANGE: "🚶 You're not close enough to this treasure yet",
+  QR_INVALID: "🚫 That QR code isn't a valid GeoHunt marker for this treasure",
+  QR_EXPIRED: '♻️ This sticker has been replaced — look for the newest one nearby',
+  MANUAL_CODE_DISABLED: '📷 Typed codes are turned off for this hunt — please scan the QR code',
+  TOO_MANY_ATTEMPTS: '⏳ Too many code attempts — take a break and try again later',
+  TREASURE_NOT_LIVE: "🙈 This treasure isn't in play right now — try another one",
+  HUNT_NOT_STARTED: "🗓️ This hunt hasn't started yet — come back when it opens",
+  HUNT_ENDED: '🏁 This hunt has finished — pick another hunt to keep exploring',
+  PREREQUISITES_NOT_MET: '🔗 This treasure is part of a trail — find the earlier treasures first',
+  PHOTO_REQUIRED: '📸 This one is a photo challenge — take a photo instead of scanning',
+  PHOTO_PENDING: '⏳ Your photo is already waiting for review',
+  PHOTO_INVALID: "🖼️ That photo couldn't be uploaded — try a smaller JPEG or PNG",
+  QUIZ_WRONG: '❓ Wrong answer — scan it again to retry for reduced points',
+  NETWORK_ERROR: "📶 You're offline and this scan couldn't be saved — try again when you have signal",
+  ALREADY_QUEUED: "☁️ This scan is already saved — it will sync when you're back online",
+  SCAN_TOO_OLD: '⌛ This scan was saved too long ago to count — scan the treasure again',
+  SCAN_TIME_INVALID: "🕒 This scan's time didn't look right — scan the treasure again"
+};
@@ -4,8 +4,12 @@
  * 
  * Note: Netlify automatically injects environment variables set in the dashboard
  * into process.env — no dotenv needed here.
+ * Responses are buffered, so Server-Sent Events can't stream from here — the app is
+ * flagged as serverless and its stream endpoints fall back to polling.
  */
 const serverless = require('serverless-http');
 const app = require('../../backend/src/app');
 
+app.set('serverless', true);
+
 module.exports.handler = serverless(app);
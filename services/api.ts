@@ -8,6 +8,9 @@
 /** Base URL for all API requests — relative path in production (proxied by Netlify), absolute in dev */
 const API_BASE = (import.meta as any).env?.VITE_API_URL || (window.location.hostname === 'localhost' ? 'http://localhost:5001/api' : '/api');
 
+/** How often (in ms) to poll the leaderboard when live updates can't be streamed */
+const LEADERBOARD_POLL_MS = 20000;
+
 // ─── Token Management ───────────────────────────────────────────────────────
 
 /** Retrieve the stored JWT token from local storage */
@@ -21,13 +24,33 @@ const clearToken = (): void => localStorage.removeItem('geohunt_token');
 
 // ─── Core Request Helper ────────────────────────────────────────────────────
 
+/**
+ * Error thrown by apiRequest when the server rejects a request.
+ * Carries the HTTP status, the backend's machine-readable `code` (when it sends one)
+ * and the rest of the error body so callers can react to specific failures.
+ */
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  details: Record<string, any>;
+
+  constructor(message: string, status: number, body: Record<string, any> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code;
+    this.details = body;
+  }
+}
+
 /**
  * Make an authenticated API request.
  * Automatically attaches the JWT token (if available) and handles error responses.
  * @param   {string}      endpoint - The API path (e.g., '/auth/register')
  * @param   {RequestInit}  options  - Fetch options (method, body, etc.)
  * @returns {Promise<T>}  The parsed JSON response
- * @throws  {Error}        If the server returns a non-OK status
+ * @throws  {ApiError}     If the server returns a non-OK status, or with code NETWORK_ERROR
+ *                         (status 0) if the server couldn't be reached at all
  */
 async function apiRequest<T>(
   endpoint: string, 
@@ -41,46 +64,194 @@ async function apiRequest<T>(
     ...options.headers,
   };
 
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers,
-  });
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${endpoint}`, {
+      ...options,
+      headers,
+    });
+  } catch {
+    // fetch only rejects when the request never reached the server (offline, DNS, dropped connection)
+    throw new ApiError("You're offline — check your connection", 0, { code: 'NETWORK_ERROR' });
+  }
 
   const data = await response.json();
   
   if (!response.ok) {
-    throw new Error(data.error || 'API request failed');
+    throw new ApiError(data.error || 'API request failed', response.status, data);
   }
 
   return data;
 }
 
+/**
+ * Add the selected hunt to an endpoint's query string.
+ * Leaving the hunt out lets the server pick its default (currently running) hunt.
+ * @param   {string} endpoint - The API path, with or without a query string
+ * @param   {string} [huntId] - The hunt's MongoDB ObjectId
+ * @returns {string} The endpoint scoped to the hunt
+ */
+const withHunt = (endpoint: string, huntId?: string): string => {
+  if (!huntId) return endpoint;
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}hunt=${encodeURIComponent(huntId)}`;
+};
+
+/**
+ * Fetch a file the server sends as a download (exports need the admin's token, so they
+ * can't be a plain link).
+ * @param   {string} endpoint     - The API path, including any query string
+ * @param   {string} fallbackName - Filename to use if the server doesn't send one
+ * @returns {Promise<{ blob: Blob; filename: string }>} The file and the name the server gave it
+ * @throws  {ApiError} With the server's error message if the download was refused
+ */
+async function downloadFile(endpoint: string, fallbackName: string): Promise<{ blob: Blob; filename: string }> {
+  const token = getToken();
+  const response = await fetch(`${API_BASE}${endpoint}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new ApiError(body.error || 'Download failed', response.status, body);
+  }
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || fallbackName;
+  return { blob: await response.blob(), filename };
+}
+
+/**
+ * Hand a downloaded (or generated) file to the browser to save.
+ * @param {Blob}   blob
+ * @param {string} filename
+ */
+export const saveDownload = ({ blob, filename }: { blob: Blob; filename: string }) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 // ─── Type Definitions ───────────────────────────────────────────────────────
 
+/** Shape of a hunt as returned by the API */
+export interface HuntFromAPI {
+  _id: string;
+  name: string;
+  description?: string;
+  startsAt: string;
+  endsAt: string;
+  status: 'upcoming' | 'active' | 'ended';
+  /** Whether players may type a sticker's code when their camera can't scan */
+  manualCodeEnabled: boolean;
+  treasureCount: number;
+}
+
+/** A badge players can earn, as listed by the API (the rule that awards it stays on the server) */
+export interface BadgeFromAPI {
+  _id: string;
+  key: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: 'common' | 'rare' | 'epic' | 'legendary';
+  hunt: string | null;
+}
+
+/**
+ * Where a treasure is in its lifecycle — players only see live ones (and archived ones they found).
+ * A scheduled treasure goes live by itself at its publishAt time.
+ */
+export type TreasureStatus = 'draft' | 'scheduled' | 'live' | 'archived';
+
 /** Shape of a treasure as returned by the API */
 export interface TreasureFromAPI {
   _id: string;
+  hunt: string;
   name: string;
   description: string;
   clue: string;
   latitude: number;
   longitude: number;
   points: number;
+  unlockRadius: number;
   trivia?: string;
   category: 'academic' | 'social' | 'sports' | 'history';
+  prerequisites: string[];
+  prerequisiteMode: 'locked' | 'hidden';
+  quiz?: QuizChallenge;
+  /** 'photo' treasures are claimed by uploading a photo for an admin to approve */
+  unlockType: 'qr' | 'photo';
+  photoPrompt?: string;
+  /** Missing on treasures saved before the lifecycle existed, which count as live */
+  status?: TreasureStatus;
+  /** When a scheduled treasure goes live (ISO date) */
+  publishAt?: string | null;
+}
+
+/** A player's photo challenge upload, as they see it */
+export interface PhotoSubmissionFromAPI {
+  _id: string;
+  treasure: string;
+  hunt: string;
+  status: 'pending' | 'approved' | 'rejected';
+  rejectionReason?: string;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+/** A treasure's challenge question, as players see it (the accepted answers stay on the server) */
+export interface QuizChallenge {
+  question?: string;
+  /** Multiple-choice options — empty for a free-text answer */
+  options: string[];
+  /** Share of the points still awarded after a wrong answer */
+  retryPercent: number;
+}
+
+/** Result of a successful unlock — the updated progress and what the treasure was worth this time */
+export interface UnlockResponse {
+  success: boolean;
+  data: ProgressFromAPI;
+  pointsAwarded: number;
+  message: string;
+}
+
+/** A player's GPS fix, sent along with unlock requests for server-side geofencing */
+export interface PlayerLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+/** Where a player sits on the level curve — worked out by the server, which owns the curve */
+export interface LevelInfo {
+  level: number;
+  title: string;
+  xpIntoLevel: number;
+  /** Total XP the current level takes */
+  xpForLevel: number;
+  xpToNextLevel: number;
 }
 
 /** Shape of a player's progress as returned by the API */
 export interface ProgressFromAPI {
   _id: string;
   user: string;
+  hunt: string;
   unlockedTreasures: TreasureFromAPI[];
   totalPoints: number;
   badges: string[];
   level: number;
+  levelInfo: LevelInfo;
   missionBriefing?: string;
 }
 
+/**
+ * Time window a player leaderboard is ranked over: the last 24 hours, the last 7 days,
+ * the whole hunt, or lifetime points across every hunt.
+ */
+export type LeaderboardPeriod = 'day' | 'week' | 'hunt' | 'all';
+
 /** A single entry in the leaderboard ranking */
 export interface LeaderboardEntry {
   rank: number;
@@ -91,6 +262,48 @@ export interface LeaderboardEntry {
   badges: string[];
 }
 
+/** Where the current player stands in a hunt, with the players ranked just above and below them */
+export interface PlayerStanding {
+  rank: number;
+  total: number;
+  /** Share of the other players in the hunt they're ahead of (0–100) */
+  percentile: number;
+  you: LeaderboardEntry;
+  above: LeaderboardEntry[];
+  below: LeaderboardEntry[];
+}
+
+/** A single entry in the team leaderboard ranking */
+export interface TeamLeaderboardEntry {
+  rank: number;
+  teamId: string;
+  name: string;
+  members: number;
+  points: number;
+  treasuresFound: number;
+}
+
+/** A team member and what they've contributed */
+export interface TeamMember {
+  _id: string;
+  username: string;
+  points: number;
+  treasuresFound: number;
+  isCaptain: boolean;
+}
+
+/** The current player's team, as returned by the teams API */
+export interface TeamFromAPI {
+  _id: string;
+  name: string;
+  joinCode: string;
+  captain: string;
+  maxSize: number;
+  points: number;
+  treasuresFound: number;
+  members: TeamMember[];
+}
+
 /** Response from the register and login endpoints */
 export interface AuthResponse {
   success: boolean;
@@ -153,9 +366,13 @@ export const authAPI = {
     return response;
   },
 
-  /** Fetch the currently authenticated user's profile and progress */
-  getMe: async (): Promise<{ success: boolean; data: { user: any; progress: ProgressFromAPI } }> => {
-    return apiRequest('/auth/me');
+  /**
+   * Fetch the currently authenticated user's profile and their progress in a hunt.
+   * Progress is null if they haven't played that hunt yet.
+   * @param {string} [huntId] - The hunt to load progress for (defaults to the current hunt)
+   */
+  getMe: async (huntId?: string): Promise<{ success: boolean; data: { user: any; progress: ProgressFromAPI | null } }> => {
+    return apiRequest(withHunt('/auth/me', huntId));
   },
 
   /** Clear all stored auth data and log the user out */
@@ -171,13 +388,39 @@ export const authAPI = {
   }
 };
 
+// ─── Hunts API ──────────────────────────────────────────────────────────────
+
+/** Public hunt endpoints — which hunts a player can choose from */
+export const huntsAPI = {
+  /** Get every hunt (newest first) plus the ID of the one the server treats as current */
+  getAll: async (): Promise<{ success: boolean; count: number; defaultHunt: string | null; data: HuntFromAPI[] }> => {
+    return apiRequest('/hunts');
+  }
+};
+
+// ─── Badges API ─────────────────────────────────────────────────────────────
+
+/** Public badge endpoints — what can be earned in a hunt */
+export const badgesAPI = {
+  /**
+   * Get the badges a hunt awards (its own plus the ones every hunt shares), in trophy room order.
+   * @param {string} [huntId] - The hunt (defaults to the current hunt)
+   */
+  getAll: async (huntId?: string): Promise<{ success: boolean; count: number; data: BadgeFromAPI[] }> => {
+    return apiRequest(withHunt('/badges', huntId));
+  }
+};
+
 // ─── Treasures API ──────────────────────────────────────────────────────────
 
 /** Public treasure endpoints — fetching map data */
 export const treasuresAPI = {
-  /** Get all treasures for rendering on the map */
-  getAll: async (): Promise<{ success: boolean; count: number; data: TreasureFromAPI[] }> => {
-    return apiRequest('/treasures');
+  /**
+   * Get all treasures in a hunt for rendering on the map.
+   * @param {string} [huntId] - The hunt to load (defaults to the current hunt)
+   */
+  getAll: async (huntId?: string): Promise<{ success: boolean; count: number; data: TreasureFromAPI[] }> => {
+    return apiRequest(withHunt('/treasures', huntId));
   },
 
   /**
@@ -193,34 +436,111 @@ export const treasuresAPI = {
 
 /** Player progress endpoints — tracking and unlocking */
 export const progressAPI = {
-  /** Get the current player's full game progress */
-  get: async (): Promise<{ success: boolean; data: ProgressFromAPI }> => {
-    return apiRequest('/progress');
+  /**
+   * Get the current player's full game progress in a hunt.
+   * @param {string} [huntId] - The hunt to load (defaults to the current hunt)
+   */
+  get: async (huntId?: string): Promise<{ success: boolean; data: ProgressFromAPI }> => {
+    return apiRequest(withHunt('/progress', huntId));
   },
 
   /**
    * Unlock a treasure after scanning its QR code.
-   * Awards points and may trigger badge achievements.
-   * @param {string} treasureId - The ID embedded in the QR code
+   * Awards points (in the treasure's hunt) and may trigger badge achievements.
+   * The server rejects the unlock with an ApiError code — TREASURE_NOT_LIVE for drafts,
+   * scheduled and archived treasures, HUNT_NOT_STARTED or HUNT_ENDED
+   * outside the hunt's window, QR_INVALID or QR_EXPIRED if the
+   * signed payload doesn't check out, OUT_OF_RANGE, LOCATION_REQUIRED or LOCATION_INACCURATE
+   * unless the location is inside the treasure's unlock radius. Quiz treasures reply
+   * QUIZ_ANSWER_REQUIRED (with the question in `details.quiz`) until an answer is sent,
+   * and QUIZ_WRONG for a wrong one. Scans synced late from the offline queue send their
+   * original time and may be rejected with SCAN_TOO_OLD.
+   * @param {string}         treasureId  - The ID embedded in the QR code
+   * @param {string}         qrPayload   - The full signed text read from the QR code
+   * @param {PlayerLocation} location    - The player's GPS fix when they scanned
+   * @param {string}         [answer]    - The player's answer to the treasure's quiz
+   * @param {string}         [scannedAt] - When an offline scan happened (ISO date); omit for live scans
    */
-  unlockTreasure: async (treasureId: string): Promise<{ 
-    success: boolean; 
-    data: ProgressFromAPI; 
-    message: string;
-  }> => {
+  unlockTreasure: async (treasureId: string, qrPayload: string, location: PlayerLocation, answer?: string, scannedAt?: string): Promise<UnlockResponse> => {
     return apiRequest(`/progress/unlock/${treasureId}`, {
       method: 'POST',
+      body: JSON.stringify({ qrPayload, ...location, answer, scannedAt }),
+    });
+  },
+
+  /**
+   * Unlock a treasure by typing the short code printed under its QR sticker.
+   * The fallback when the camera can't scan — rejected with MANUAL_CODE_DISABLED
+   * or CODE_INVALID, plus the same location and quiz codes as a QR unlock.
+   * @param {string}         treasureId  - The treasure being unlocked
+   * @param {string}         code        - The code the player typed (e.g. "K7Q-XM2")
+   * @param {PlayerLocation} location    - The player's GPS fix when they typed it
+   * @param {string}         [answer]    - The player's answer to the treasure's quiz
+   * @param {string}         [scannedAt] - When an offline entry happened (ISO date); omit for live entries
+   */
+  unlockWithCode: async (treasureId: string, code: string, location: PlayerLocation, answer?: string, scannedAt?: string): Promise<UnlockResponse> => {
+    return apiRequest(`/progress/unlock/${treasureId}/code`, {
+      method: 'POST',
+      body: JSON.stringify({ code, ...location, answer, scannedAt }),
+    });
+  },
+
+  /**
+   * Upload a photo for a photo challenge treasure. It waits for an admin to approve
+   * it before any points are awarded. Rejected with PHOTO_PENDING, ALREADY_UNLOCKED or
+   * PHOTO_INVALID, plus the same hunt, prerequisite and location codes as a QR unlock.
+   * @param {string}         treasureId - The photo challenge treasure
+   * @param {string}         photo      - The photo as a base64 data URL
+   * @param {PlayerLocation} location   - The player's current GPS fix
+   */
+  submitPhoto: async (treasureId: string, photo: string, location: PlayerLocation): Promise<{ success: boolean; data: PhotoSubmissionFromAPI; message: string }> => {
+    return apiRequest(`/progress/photo/${treasureId}`, {
+      method: 'POST',
+      body: JSON.stringify({ photo, ...location }),
+    });
+  },
+
+  /**
+   * Get the player's photo challenge uploads in a hunt, newest first.
+   * @param {string} [huntId] - The hunt to load (defaults to the current hunt)
+   */
+  getPhotos: async (huntId?: string): Promise<{ success: boolean; count: number; data: PhotoSubmissionFromAPI[] }> => {
+    return apiRequest(withHunt('/progress/photos', huntId));
+  },
+
+  /**
+   * Note that the player opened a treasure's clue (or asked for a hint), for the admin analytics.
+   * @param {string}  treasureId - The treasure's MongoDB ObjectId
+   * @param {boolean} [hint]     - Count a hint request rather than a view
+   */
+  recordView: async (treasureId: string, hint = false): Promise<{ success: boolean }> => {
+    return apiRequest(`/progress/view/${treasureId}`, {
+      method: 'POST',
+      body: JSON.stringify({ hint }),
+    });
+  },
+
+  /**
+   * Report where the player is, for the admin activity heatmap. Rough GPS fixes are ignored by the server.
+   * @param {Object} location - The player's latitude, longitude and accuracy
+   * @param {string} [huntId] - The hunt being played (defaults to the current hunt)
+   */
+  ping: async (location: { latitude: number; longitude: number; accuracy: number }, huntId?: string): Promise<{ success: boolean; data: { recorded: boolean } }> => {
+    return apiRequest('/progress/ping', {
+      method: 'POST',
+      body: JSON.stringify({ ...location, hunt: huntId || undefined }),
     });
   },
 
   /**
    * Save the AI-generated mission briefing for the player.
    * @param {string} missionBriefing - The Gemini-generated welcome text
+   * @param {string} [huntId]        - The hunt it's for (defaults to the current hunt)
    */
-  updateBriefing: async (missionBriefing: string): Promise<{ success: boolean; data: ProgressFromAPI }> => {
+  updateBriefing: async (missionBriefing: string, huntId?: string): Promise<{ success: boolean; data: ProgressFromAPI }> => {
     return apiRequest('/progress/briefing', {
       method: 'PUT',
-      body: JSON.stringify({ missionBriefing }),
+      body: JSON.stringify({ missionBriefing, hunt: huntId }),
     });
   }
 };
@@ -230,11 +550,123 @@ export const progressAPI = {
 /** Leaderboard endpoint — player rankings */
 export const leaderboardAPI = {
   /**
-   * Fetch the top players ranked by total points.
-   * @param {number} [limit=10] - Number of players to return
+   * Fetch the top players in a hunt ranked by the points they earned in a period.
+   * @param {number}            [limit=10]     - Number of players to return
+   * @param {string}            [huntId]       - The hunt to rank (defaults to the current hunt)
+   * @param {LeaderboardPeriod} [period='hunt'] - Time window to rank over
+   */
+  get: async (limit: number = 10, huntId?: string, period: LeaderboardPeriod = 'hunt'): Promise<{ success: boolean; count: number; period: LeaderboardPeriod; data: LeaderboardEntry[] }> => {
+    return apiRequest(withHunt(`/leaderboard?limit=${limit}&period=${period}`, huntId));
+  },
+
+  /**
+   * Look up the current player's exact rank in a hunt, even if they're outside the top players.
+   * Data is null until they've started the hunt.
+   * @param {string} [huntId]   - The hunt to rank (defaults to the current hunt)
+   * @param {number} [around=2] - Neighbours to include above and below them
+   */
+  getMyRank: async (huntId?: string, around: number = 2): Promise<{ success: boolean; data: PlayerStanding | null; message?: string }> => {
+    return apiRequest(withHunt(`/leaderboard/me?around=${around}`, huntId));
+  },
+
+  /**
+   * Fetch the top teams in a hunt ranked by combined member points.
+   * @param {number} [limit=10] - Number of teams to return
+   * @param {string} [huntId]   - The hunt to rank (defaults to the current hunt)
    */
-  get: async (limit: number = 10): Promise<{ success: boolean; count: number; data: LeaderboardEntry[] }> => {
-    return apiRequest(`/leaderboard?limit=${limit}`);
+  getTeams: async (limit: number = 10, huntId?: string): Promise<{ success: boolean; count: number; data: TeamLeaderboardEntry[] }> => {
+    return apiRequest(withHunt(`/leaderboard/teams?limit=${limit}`, huntId));
+  },
+
+  /**
+   * Follow a hunt's top players live. Uses the Server-Sent Events stream where it's available
+   * and falls back to polling when the server asks for it (serverless hosting), when the
+   * stream can't be opened, or when the browser has no EventSource.
+   * @param   {Function}          onUpdate        - Called with the ranked players on every change
+   * @param   {number}            [limit=10]      - Number of players to follow
+   * @param   {string}            [huntId]        - The hunt to rank (defaults to the current hunt)
+   * @param   {LeaderboardPeriod} [period='hunt'] - Time window to rank over
+   * @returns {Function} Call to stop following
+   */
+  subscribe: (onUpdate: (entries: LeaderboardEntry[]) => void, limit: number = 10, huntId?: string, period: LeaderboardPeriod = 'hunt'): (() => void) => {
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const poll = () => {
+      leaderboardAPI.get(limit, huntId, period)
+        .then(response => !stopped && onUpdate(response.data))
+        .catch(error => console.error('Failed to poll leaderboard:', error));
+    };
+
+    const startPolling = (interval: number) => {
+      source?.close();
+      source = null;
+      if (stopped || pollTimer) return;
+      poll();
+      pollTimer = setInterval(poll, interval);
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling(LEADERBOARD_POLL_MS);
+    } else {
+      let opened = false;
+      source = new EventSource(`${API_BASE}${withHunt(`/leaderboard/stream?limit=${limit}&period=${period}`, huntId)}`);
+      source.onopen = () => { opened = true; };
+      source.addEventListener('leaderboard', (e) => onUpdate(JSON.parse((e as MessageEvent).data)));
+      source.addEventListener('polling', (e) => startPolling(JSON.parse((e as MessageEvent).data).interval || LEADERBOARD_POLL_MS));
+      // Dropped streams reconnect on their own; one that never opened isn't going to
+      source.onerror = () => { if (!opened) startPolling(LEADERBOARD_POLL_MS); };
+    }
+
+    return () => {
+      stopped = true;
+      source?.close();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }
+};
+
+// ─── Teams API ──────────────────────────────────────────────────────────────
+
+/** Team endpoints — create, join and leave a team */
+export const teamAPI = {
+  /**
+   * Get the current player's team (data is null when they're playing solo).
+   * @param {string} [huntId] - The hunt to total the team's points for
+   */
+  getMine: async (huntId?: string): Promise<{ success: boolean; data: TeamFromAPI | null }> => {
+    return apiRequest(withHunt('/teams/mine', huntId));
+  },
+
+  /**
+   * Create a new team with the current player as captain.
+   * @param {string} name     - The team name (must be unique)
+   * @param {string} [huntId] - The hunt to total the team's points for
+   */
+  create: async (name: string, huntId?: string): Promise<{ success: boolean; data: TeamFromAPI }> => {
+    return apiRequest('/teams', {
+      method: 'POST',
+      body: JSON.stringify({ name, hunt: huntId }),
+    });
+  },
+
+  /**
+   * Join a team using the code its captain shared.
+   * Rejects with TEAM_NOT_FOUND, TEAM_FULL or ALREADY_IN_TEAM.
+   * @param {string} joinCode - The team's 6-character join code
+   * @param {string} [huntId] - The hunt to total the team's points for
+   */
+  join: async (joinCode: string, huntId?: string): Promise<{ success: boolean; data: TeamFromAPI; message?: string }> => {
+    return apiRequest('/teams/join', {
+      method: 'POST',
+      body: JSON.stringify({ joinCode, hunt: huntId }),
+    });
+  },
+
+  /** Leave the current team (the player keeps their own points) */
+  leave: async (): Promise<{ success: boolean; data: null }> => {
+    return apiRequest('/teams/leave', { method: 'POST' });
   }
 };
 
@@ -255,9 +687,14 @@ export const convertTreasure = (apiTreasure: TreasureFromAPI, unlockedIds: strin
   latitude: apiTreasure.latitude,
   longitude: apiTreasure.longitude,
   points: apiTreasure.points,
+  unlockRadius: apiTreasure.unlockRadius ?? 50,
   trivia: apiTreasure.trivia,
   category: apiTreasure.category,
   isUnlocked: unlockedIds.includes(apiTreasure._id),
+  prerequisites: apiTreasure.prerequisites || [],
+  unlockType: apiTreasure.unlockType || 'qr',
+  photoPrompt: apiTreasure.photoPrompt,
+  quiz: apiTreasure.quiz?.question ? apiTreasure.quiz : undefined,
 });
 
 // ─── Admin Types ────────────────────────────────────────────────────────────
@@ -293,6 +730,85 @@ export interface AdminStats {
   }[];
 }
 
+/** How one treasure is performing — from the per-treasure analytics */
+export interface TreasureAnalyticsRow {
+  _id: string;
+  name: string;
+  category: TreasureFromAPI['category'];
+  points: number;
+  unlockType: 'qr' | 'photo';
+  found: number;
+  /** Percentage of the hunt's players who found it */
+  discoveryRate: number;
+  viewers: number;
+  viewedNotFound: number;
+  /** Percentage of players who opened its clue but never found it */
+  dropOffRate: number;
+  /** Median time from first opening the clue to finding it (null until someone has) */
+  medianTimeToFindMs: number | null;
+  hintsUsed: number;
+  hintUsers: number;
+}
+
+/** Per-treasure analytics for a hunt, hardest treasures first */
+export interface TreasureAnalytics {
+  hunt: { _id: string; name: string };
+  players: number;
+  treasures: TreasureAnalyticsRow[];
+}
+
+/** One grid cell of the activity heatmap, with its bounds in degrees */
+export interface HeatmapCell {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  unlocks: number;
+  pings: number;
+}
+
+/** Unlocks and player positions bucketed into a grid for a hunt */
+export interface ActivityHeatmap {
+  hunt: { _id: string; name: string };
+  cellMeters: number;
+  cells: HeatmapCell[];
+  totals: { unlocks: number; pings: number };
+  /** Busiest cell for each layer, for scaling the colours */
+  max: { unlocks: number; pings: number; combined: number };
+}
+
+/** Filters for the activity heatmap */
+export interface HeatmapFilters {
+  hunt?: string;
+  /** ISO moment — only activity on or after it */
+  from?: string;
+  /** ISO moment — only activity before it */
+  to?: string;
+  /** Cell size in meters (10–500) */
+  cell?: number;
+}
+
+/** A treasure as seen from the admin panel — includes what gets printed on its sticker */
+export interface AdminTreasureFromAPI extends TreasureFromAPI {
+  qrVersion: number;
+  qrPayload: string;
+  manualCode: string;
+  quiz?: QuizInput;
+}
+
+/** A photo challenge upload in the admin moderation queue */
+export interface AdminPhotoSubmissionFromAPI {
+  _id: string;
+  user: { _id: string; username: string } | null;
+  treasure: { _id: string; name: string; points: number; photoPrompt?: string } | null;
+  hunt: string;
+  status: 'pending' | 'approved' | 'rejected';
+  rejectionReason?: string;
+  reviewedBy?: { _id: string; username: string } | null;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
 /** A user as seen from the admin panel */
 export interface UserFromAPI {
   _id: string;
@@ -302,16 +818,154 @@ export interface UserFromAPI {
   createdAt: string;
 }
 
+/** A player's progress in one hunt, as seen from the admin panel */
+export interface AdminProgressFromAPI extends Omit<ProgressFromAPI, 'hunt'> {
+  hunt: { _id: string; name: string; startsAt: string; endsAt: string } | null;
+}
+
+/** One admin change in the audit trail */
+export interface AuditEntryFromAPI {
+  _id: string;
+  actor: string;
+  actorName: string;
+  /** What kind of change it was, as `<target>.<verb>` (e.g. 'treasure.delete') */
+  action: string;
+  targetType: 'user' | 'hunt' | 'treasure' | 'badge' | 'photo' | 'settings' | 'progress';
+  targetId?: string;
+  targetLabel?: string;
+  /** Only the fields that changed — before is missing on create, after on delete */
+  changes: { field: string; before?: unknown; after?: unknown }[];
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+/** Filters for the audit trail (dates are ISO strings) */
+export interface AuditFilters {
+  actor?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  /** Only entries older than this — pass the last entry's createdAt to load the next page */
+  before?: string;
+}
+
+/** What can be downloaded from /admin/export */
+export type ExportDataset = 'users' | 'unlocks' | 'feedback';
+
+/** Options for an admin export (dates are ISO strings) */
+export interface ExportOptions {
+  format?: 'csv' | 'json';
+  from?: string;
+  to?: string;
+  hunt?: string;
+}
+
+/** What a GeoJSON treasure import did (or, on a dry run, would do) */
+export interface TreasureImportReport {
+  dryRun: boolean;
+  hunt: { _id: string; name: string };
+  created: number;
+  updated: number;
+  /** Features with at least one problem — the import only goes ahead when this is 0 */
+  invalid: number;
+  features: {
+    index: number;
+    name: string | null;
+    action: 'create' | 'update';
+    errors: string[];
+  }[];
+}
+
+/** Options for rebuilding progress from the unlock event log */
+export interface RebuildProgressOptions {
+  hunt?: string;
+  user?: string;
+  /** Report what would change without saving anything */
+  dryRun?: boolean;
+  /** Write unlocks made before the log existed into it, rather than skipping those players */
+  importLegacy?: boolean;
+}
+
+/** What a progress rebuild changed (or would change, for a dry run) */
+export interface RebuildProgressReport {
+  checked: number;
+  changed: number;
+  created: number;
+  legacyImported: number;
+  /** Progress left alone because it has unlocks the log doesn't know about */
+  skipped: { user: string; hunt: string; missing: number }[];
+}
+
+/** Input shape for creating or updating a hunt from the admin panel */
+export interface HuntInput {
+  name: string;
+  description?: string;
+  startsAt: string;
+  endsAt: string;
+  manualCodeEnabled: boolean;
+}
+
 /** Input shape for creating or updating a treasure from the admin panel */
 export interface TreasureInput {
+  hunt: string;
   name: string;
   description: string;
   clue: string;
   latitude: number;
   longitude: number;
   points: number;
+  unlockRadius?: number;
   category: 'academic' | 'social' | 'sports' | 'history';
   trivia?: string;
+  /** Treasures (same hunt) that must be found first */
+  prerequisites?: string[];
+  /** 'locked' shows the treasure greyed out until its prerequisites are found; 'hidden' keeps it off the map */
+  prerequisiteMode?: 'locked' | 'hidden';
+  /** Optional question asked after the scan; send an empty question to remove it */
+  quiz?: QuizInput;
+  unlockType?: 'qr' | 'photo';
+  photoPrompt?: string;
+  /** Defaults to 'live' — drafts and scheduled treasures stay off the player map */
+  status?: TreasureStatus;
+  /** Required when scheduling; send null to clear it */
+  publishAt?: string | null;
+}
+
+/** A treasure's quiz as admins edit it, including the accepted answers */
+export interface QuizInput extends QuizChallenge {
+  answers: string[];
+}
+
+/** The rule that awards a badge — which fields apply depends on the type */
+export interface BadgeRule {
+  type: 'count' | 'category' | 'complete' | 'treasures' | 'time' | 'streak';
+  threshold?: number;
+  category?: 'academic' | 'social' | 'sports' | 'history';
+  treasures?: string[];
+  windowMinutes?: number;
+  days?: number;
+}
+
+/** A badge as seen from the badge designer — includes its rule and whether it's still awarded */
+export interface AdminBadgeFromAPI extends Omit<BadgeFromAPI, 'hunt'> {
+  hunt: { _id: string; name: string } | null;
+  rule: BadgeRule;
+  active: boolean;
+  order: number;
+}
+
+/** Input shape for creating or updating a badge (the key can only be set on create) */
+export interface BadgeInput {
+  key?: string;
+  name: string;
+  description: string;
+  icon: string;
+  rarity: BadgeFromAPI['rarity'];
+  /** Leave empty for a badge every hunt awards */
+  hunt: string | null;
+  active: boolean;
+  order: number;
+  rule: BadgeRule;
 }
 
 // ─── Admin API ──────────────────────────────────────────────────────────────
@@ -323,16 +977,33 @@ export const adminAPI = {
     return apiRequest('/admin/stats');
   },
 
+  /**
+   * Get per-treasure analytics (discovery rate, time to find, drop-off, hints), hardest first.
+   * @param {string} [huntId] - The hunt to analyse (defaults to the current hunt)
+   */
+  getTreasureAnalytics: async (huntId?: string): Promise<{ success: boolean; data: TreasureAnalytics }> => {
+    return apiRequest(withHunt('/admin/analytics/treasures', huntId));
+  },
+
+  /**
+   * Get unlocks and player positions bucketed into grid cells for the heatmap.
+   * @param {HeatmapFilters} [filters] - Hunt, time range and cell size
+   */
+  getActivityHeatmap: async (filters: HeatmapFilters = {}): Promise<{ success: boolean; data: ActivityHeatmap }> => {
+    const query = new URLSearchParams(Object.entries(filters).filter(([, value]) => !!value).map(([key, value]) => [key, String(value)]));
+    return apiRequest(`/admin/analytics/heatmap${query.toString() ? `?${query}` : ''}`);
+  },
+
   /** Get all registered users (passwords excluded) */
   getUsers: async (): Promise<{ success: boolean; count: number; data: UserFromAPI[] }> => {
     return apiRequest('/admin/users');
   },
 
   /**
-   * Get a specific user's profile and game progress.
+   * Get a specific user's profile and their progress in every hunt they've played.
    * @param {string} id - The user's MongoDB ObjectId
    */
-  getUser: async (id: string): Promise<{ success: boolean; data: { user: UserFromAPI; progress: ProgressFromAPI } }> => {
+  getUser: async (id: string): Promise<{ success: boolean; data: { user: UserFromAPI; progress: AdminProgressFromAPI[] } }> => {
     return apiRequest(`/admin/users/${id}`);
   },
 
@@ -360,19 +1031,152 @@ export const adminAPI = {
 
   /**
    * Reset a player's progress back to zero (keeps their account).
-   * @param {string} id - The user's MongoDB ObjectId
+   * @param {string} id       - The user's MongoDB ObjectId
+   * @param {string} [huntId] - Only reset this hunt (default: every hunt they've played)
    */
-  resetUserProgress: async (id: string): Promise<{ success: boolean; message: string }> => {
+  resetUserProgress: async (id: string, huntId?: string): Promise<{ success: boolean; message: string }> => {
     return apiRequest(`/admin/users/${id}/reset`, {
       method: 'POST',
+      body: JSON.stringify({ hunt: huntId }),
+    });
+  },
+
+  /**
+   * Page through the admin audit trail, newest first.
+   * Also returns the admins and actions available to filter by.
+   * @param {AuditFilters} [filters] - Actor, action, date range and paging cursor
+   */
+  getAuditLog: async (filters: AuditFilters = {}): Promise<{
+    success: boolean;
+    count: number;
+    hasMore: boolean;
+    data: AuditEntryFromAPI[];
+    actors: { _id: string; username: string }[];
+    actions: string[];
+  }> => {
+    const query = new URLSearchParams(Object.entries(filters).filter(([, value]) => !!value) as [string, string][]);
+    return apiRequest(`/admin/audit${query.toString() ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Recount players' progress (treasures, points, level, badges) from the unlock event log.
+   * @param {RebuildProgressOptions} [options] - Narrow it to a hunt or player, preview it, or import pre-log unlocks
+   */
+  rebuildProgress: async (options: RebuildProgressOptions = {}): Promise<{ success: boolean; data: RebuildProgressReport; message: string }> => {
+    return apiRequest('/admin/progress/rebuild', {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  },
+
+  /**
+   * Create a new hunt.
+   * @param {HuntInput} hunt - The hunt's name, description and start/end window
+   */
+  createHunt: async (hunt: HuntInput): Promise<{ success: boolean; data: HuntFromAPI }> => {
+    return apiRequest('/admin/hunts', {
+      method: 'POST',
+      body: JSON.stringify(hunt),
+    });
+  },
+
+  /**
+   * Update a hunt's details or window.
+   * @param {string}             id   - The hunt's MongoDB ObjectId
+   * @param {Partial<HuntInput>} hunt - The fields to update
+   */
+  updateHunt: async (id: string, hunt: Partial<HuntInput>): Promise<{ success: boolean; data: HuntFromAPI }> => {
+    return apiRequest(`/admin/hunts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(hunt),
+    });
+  },
+
+  /**
+   * Delete an empty hunt and everyone's progress in it.
+   * Rejected with HUNT_NOT_EMPTY while it still has treasures.
+   * @param {string} id - The hunt's MongoDB ObjectId
+   */
+  deleteHunt: async (id: string): Promise<{ success: boolean }> => {
+    return apiRequest(`/admin/hunts/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /** List every badge for the badge designer, including inactive ones */
+  getBadges: async (): Promise<{ success: boolean; count: number; data: AdminBadgeFromAPI[] }> => {
+    return apiRequest('/admin/badges');
+  },
+
+  /**
+   * Create a badge. Rejected with INVALID_BADGE_RULE if the rule doesn't make sense.
+   * @param {BadgeInput} badge - The new badge's details and rule
+   */
+  createBadge: async (badge: BadgeInput): Promise<{ success: boolean; data: AdminBadgeFromAPI }> => {
+    return apiRequest('/admin/badges', {
+      method: 'POST',
+      body: JSON.stringify(badge),
+    });
+  },
+
+  /**
+   * Update a badge. Players who already earned it keep it.
+   * @param {string}              id    - The badge's MongoDB ObjectId
+   * @param {Partial<BadgeInput>} badge - The fields to update
+   */
+  updateBadge: async (id: string, badge: Partial<BadgeInput>): Promise<{ success: boolean; data: AdminBadgeFromAPI }> => {
+    return apiRequest(`/admin/badges/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(badge),
     });
   },
 
+  /**
+   * Delete a badge and take it back from everyone who earned it.
+   * @param {string} id - The badge's MongoDB ObjectId
+   */
+  deleteBadge: async (id: string): Promise<{ success: boolean }> => {
+    return apiRequest(`/admin/badges/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Count how many current players would qualify for a rule, without saving anything.
+   * @param {BadgeRule}     rule - The rule to check
+   * @param {string | null} hunt - Only count players in this hunt (null counts every hunt)
+   */
+  previewBadge: async (rule: BadgeRule, hunt: string | null): Promise<{ success: boolean; data: { qualifying: number; total: number } }> => {
+    return apiRequest('/admin/badges/preview', {
+      method: 'POST',
+      body: JSON.stringify({ rule, hunt }),
+    });
+  },
+
+  /**
+   * Award a badge to every existing player who already meets its rule.
+   * @param {string} id - The badge's MongoDB ObjectId
+   */
+  backfillBadge: async (id: string): Promise<{ success: boolean; data: { awarded: number }; message: string }> => {
+    return apiRequest(`/admin/badges/${id}/backfill`, {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Get every treasure (in any state) along with its signed QR payload and manual code.
+   * @param {string}         [huntId] - Only list treasures in this hunt
+   * @param {TreasureStatus} [status] - Only list treasures in this state right now
+   */
+  getTreasures: async (huntId?: string, status?: TreasureStatus): Promise<{ success: boolean; count: number; data: AdminTreasureFromAPI[] }> => {
+    return apiRequest(withHunt(status ? `/admin/treasures?status=${status}` : '/admin/treasures', huntId));
+  },
+
   /**
    * Add a new treasure location to the map.
    * @param {TreasureInput} treasure - The treasure data to create
    */
-  createTreasure: async (treasure: TreasureInput): Promise<{ success: boolean; data: TreasureFromAPI }> => {
+  createTreasure: async (treasure: TreasureInput): Promise<{ success: boolean; data: AdminTreasureFromAPI }> => {
     return apiRequest('/admin/treasures', {
       method: 'POST',
       body: JSON.stringify(treasure),
@@ -384,13 +1188,23 @@ export const adminAPI = {
    * @param {string}                id       - The treasure's MongoDB ObjectId
    * @param {Partial<TreasureInput>} treasure - The fields to update
    */
-  updateTreasure: async (id: string, treasure: Partial<TreasureInput>): Promise<{ success: boolean; data: TreasureFromAPI }> => {
+  updateTreasure: async (id: string, treasure: Partial<TreasureInput>): Promise<{ success: boolean; data: AdminTreasureFromAPI }> => {
     return apiRequest(`/admin/treasures/${id}`, {
       method: 'PUT',
       body: JSON.stringify(treasure),
     });
   },
 
+  /**
+   * Issue a new signed QR code (and manual code) for a treasure — previously printed stickers stop working.
+   * @param {string} id - The treasure's MongoDB ObjectId
+   */
+  rotateTreasureQr: async (id: string): Promise<{ success: boolean; data: AdminTreasureFromAPI; message: string }> => {
+    return apiRequest(`/admin/treasures/${id}/rotate-qr`, {
+      method: 'POST',
+    });
+  },
+
   /**
    * Remove a treasure from the game.
    * @param {string} id - The treasure's MongoDB ObjectId
@@ -400,6 +1214,86 @@ export const adminAPI = {
       method: 'DELETE',
     });
   },
+
+  /**
+   * List photo challenge uploads for moderation (pending ones oldest first).
+   * @param {string} [status] - 'pending' (default), 'approved' or 'rejected'
+   */
+  getPhotos: async (status: AdminPhotoSubmissionFromAPI['status'] = 'pending'): Promise<{ success: boolean; count: number; data: AdminPhotoSubmissionFromAPI[] }> => {
+    return apiRequest(`/admin/photos?status=${status}`);
+  },
+
+  /**
+   * Load a submission's image. Images need the admin's token, so they can't be a plain
+   * <img src> — this fetches the file and returns an object URL to show instead.
+   * Revoke it with URL.revokeObjectURL when it's no longer shown.
+   * @param {string} id - The submission's MongoDB ObjectId
+   */
+  getPhotoImage: async (id: string): Promise<string> => {
+    const token = getToken();
+    const response = await fetch(`${API_BASE}/admin/photos/${id}/image`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+    if (!response.ok) {
+      throw new ApiError('Failed to load photo', response.status);
+    }
+    return URL.createObjectURL(await response.blob());
+  },
+
+  /**
+   * Download an export as a file, with the name the server gave it.
+   * @param {ExportDataset} dataset - 'users' (with progress), 'unlocks' or 'feedback'
+   * @param {ExportOptions} [options] - Format, date range and hunt
+   */
+  downloadExport: async (dataset: ExportDataset, options: ExportOptions = {}): Promise<{ blob: Blob; filename: string }> => {
+    const query = new URLSearchParams(Object.entries(options).filter(([, value]) => !!value) as [string, string][]);
+    return downloadFile(`/admin/export/${dataset}${query.toString() ? `?${query}` : ''}`, `geohunt-${dataset}.${options.format || 'csv'}`);
+  },
+
+  /**
+   * Download a hunt's treasures as a GeoJSON FeatureCollection (one Point per treasure).
+   * @param {string} [huntId] - The hunt to export (defaults to the current hunt)
+   */
+  exportTreasuresGeoJson: async (huntId?: string): Promise<{ blob: Blob; filename: string }> => {
+    return downloadFile(withHunt('/admin/treasures/export', huntId), 'geohunt-treasures.geojson');
+  },
+
+  /**
+   * Import treasures from a GeoJSON FeatureCollection. Features carrying a treasure's id or
+   * name update it; the rest are created. Nothing is written if any feature has a problem.
+   * @param {Object}  collection - The parsed FeatureCollection
+   * @param {string}  [huntId]   - The hunt to import into (defaults to the current hunt)
+   * @param {boolean} [dryRun]   - Only check the file and report what would happen
+   * @throws {ApiError} With code INVALID_FEATURES and the report in `details.data` if features have problems
+   */
+  importTreasuresGeoJson: async (collection: unknown, huntId?: string, dryRun = false): Promise<{ success: boolean; data: TreasureImportReport; message?: string }> => {
+    return apiRequest(withHunt(`/admin/treasures/import${dryRun ? '?dryRun=true' : ''}`, huntId), {
+      method: 'POST',
+      body: JSON.stringify(collection),
+    });
+  },
+
+  /**
+   * Approve a photo — the player is awarded the treasure and its points.
+   * @param {string} id - The submission's MongoDB ObjectId
+   */
+  approvePhoto: async (id: string): Promise<{ success: boolean; data: AdminPhotoSubmissionFromAPI; message: string }> => {
+    return apiRequest(`/admin/photos/${id}/approve`, {
+      method: 'PUT',
+    });
+  },
+
+  /**
+   * Reject a photo — the player can upload another one.
+   * @param {string} id       - The submission's MongoDB ObjectId
+   * @param {string} [reason] - Shown to the player
+   */
+  rejectPhoto: async (id: string, reason?: string): Promise<{ success: boolean; data: AdminPhotoSubmissionFromAPI }> => {
+    return apiRequest(`/admin/photos/${id}/reject`, {
+      method: 'PUT',
+      body: JSON.stringify({ reason }),
+    });
+  },
 };
 
 // ─── Feedback Types ─────────────────────────────────────────────────────────
@@ -0,0 +1,128 @@
+/**
+ * GPS Export — turns treasures into files for dedicated GPS apps and Google Earth,
+ * so routes can be walked and checked before (or without) the GeoHunt app.
+ *   - GPX: one waypoint per treasure
+ *   - KML: one placemark per treasure, coloured by category
+ * Both carry the treasure's name, category, points and clue, built from the same
+ * Treasure fields convertTreasure maps, so they match what players see on the map.
+ */
+
+import { Treasure } from '../types';
+
+export type GpsFormat = 'gpx' | 'kml';
+
+/** KML icon colours per category (aabbggrr, as KML wants them) */
+const KML_CATEGORY_COLORS: Record<Treasure['category'], string> = {
+  academic: 'fff6b01c',
+  social: 'ff02cc58',
+  sports: 'ff4b4bff',
+  history: 'ff00c8ff'
+};
+
+/**
+ * Escape text for use inside XML elements and attributes.
+ * @param {string} text
+ */
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+/**
+ * The lines describing a treasure — the same for both formats.
+ * @param {Treasure} treasure
+ */
+const describeTreasure = (treasure: Treasure): string[] => {
+  const lines = [
+    `${treasure.category.charAt(0).toUpperCase()}${treasure.category.slice(1)} · ${treasure.points} pts${treasure.isUnlocked ? ' · Found ✓' : ''}`,
+    `Clue: ${treasure.clue}`
+  ];
+  if (treasure.unlockType === 'photo' && treasure.photoPrompt) lines.push(`Photo challenge: ${treasure.photoPrompt}`);
+  if (treasure.description) lines.push(treasure.description);
+  return lines;
+};
+
+/**
+ * Build a GPX 1.1 file with a waypoint per treasure.
+ * @param {Treasure[]} treasures
+ * @param {string}     title - Shown as the file's name in GPS apps
+ */
+export const buildGpx = (treasures: Treasure[], title: string): string => {
+  const waypoints = treasures.map(treasure => [
+    `  <wpt lat="${treasure.latitude}" lon="${treasure.longitude}">`,
+    `    <name>${escapeXml(treasure.name)}</name>`,
+    `    <desc>${escapeXml(describeTreasure(treasure).join('\n'))}</desc>`,
+    `    <type>${escapeXml(treasure.category)}</type>`,
+    '  </wpt>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="GeoHunt" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(title)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Build a KML 2.2 file with a placemark per treasure, grouped into a folder per category.
+ * @param {Treasure[]} treasures
+ * @param {string}     title - Shown as the document's name in Google Earth
+ */
+export const buildKml = (treasures: Treasure[], title: string): string => {
+  const categories = (Object.keys(KML_CATEGORY_COLORS) as Treasure['category'][])
+    .filter(category => treasures.some(t => t.category === category));
+
+  const styles = categories.map(category =>
+    `    <Style id="${category}"><IconStyle><color>${KML_CATEGORY_COLORS[category]}</color></IconStyle></Style>`
+  );
+
+  const folders = categories.map(category => [
+    '    <Folder>',
+    `      <name>${escapeXml(category)}</name>`,
+    ...treasures.filter(t => t.category === category).map(treasure => [
+      '      <Placemark>',
+      `        <name>${escapeXml(treasure.name)}</name>`,
+      // The description is HTML, so the text is escaped once for HTML and again for the XML around it
+      `        <description>${escapeXml(describeTreasure(treasure).map(escapeXml).join('<br/>'))}</description>`,
+      `        <styleUrl>#${category}</styleUrl>`,
+      `        <Point><coordinates>${treasure.longitude},${treasure.latitude},0</coordinates></Point>`,
+      '      </Placemark>'
+    ].join('\n')),
+    '    </Folder>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...styles,
+    ...folders,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Build a GPX or KML file ready to download.
+ * @param {Treasure[]} treasures - The treasures to include
+ * @param {GpsFormat}  format    - 'gpx' or 'kml'
+ * @param {string}     title     - What the route is called (also used for the filename)
+ */
+export const buildGpsFile = (treasures: Treasure[], format: GpsFormat, title: string): { blob: Blob; filename: string } => {
+  const content = format === 'gpx' ? buildGpx(treasures, title) : buildKml(treasures, title);
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'geohunt';
+  return {
+    blob: new Blob([content], { type: format === 'gpx' ? 'application/gpx+xml' : 'application/vnd.google-earth.kml+xml' }),
+    filename: `${slug}.${format}`
+  };
+};
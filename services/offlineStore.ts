@@ -0,0 +1,157 @@
+/**
+ * Offline Store — keeps the game playable when the signal drops.
+ * Caches the last treasure list and progress the player saw, and queues scans made
+ * offline (with when and where they happened) in IndexedDB until they can be synced.
+ * The server accepts these late unlocks within its offline grace window.
+ */
+
+import { PlayerLocation } from './api';
+
+const DB_NAME = 'geohunt-offline';
+const DB_VERSION = 1;
+
+/** Object store for cached API responses, keyed by a string like "treasures:<huntId>" */
+const CACHE_STORE = 'cache';
+
+/** Object store for scans waiting to be sent, in the order they were made */
+const QUEUE_STORE = 'unlockQueue';
+
+/** How the player proved they found a treasure — a scanned QR payload or the typed sticker code */
+export type UnlockProof = { method: 'qr'; qrPayload: string } | { method: 'code'; code: string };
+
+/** A scan made offline, waiting to be replayed to the server */
+export interface QueuedUnlock {
+  /** Assigned by IndexedDB when the scan is queued */
+  id?: number;
+  treasureId: string;
+  treasureName: string;
+  huntId: string;
+  proof: UnlockProof;
+  /** The player's quiz answer, if the treasure has a quiz */
+  answer?: string;
+  /** Where the player was when they scanned — the server checks the geofence against this */
+  location: PlayerLocation;
+  /** When the scan happened (ISO date) */
+  scannedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Open (and on first use, create) the offline database */
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Run a single request against one object store.
+ * @param   {string}   storeName - The object store to use
+ * @param   {string}   mode      - 'readonly' or 'readwrite'
+ * @param   {Function} action    - Builds the request from the store
+ * @returns {Promise<T>} The request's result
+ */
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// ─── Response Cache ─────────────────────────────────────────────────────────
+
+/** Last-known API data, shown when the network is unavailable */
+export const offlineCache = {
+  /**
+   * Read a cached value.
+   * @param   {string} key - e.g. "treasures:<huntId>"
+   * @returns {Promise<T | undefined>} The cached value, or undefined if nothing's been saved
+   */
+  get: async <T>(key: string): Promise<T | undefined> => {
+    try {
+      return await withStore<T>(CACHE_STORE, 'readonly', store => store.get(key));
+    } catch (err) {
+      console.error('Offline cache read failed:', err);
+      return undefined;
+    }
+  },
+
+  /**
+   * Save a value for later. Failures are logged, never thrown — caching is best-effort.
+   * @param {string} key   - e.g. "treasures:<huntId>"
+   * @param {any}    value - Anything structured-cloneable (plain API JSON)
+   */
+  set: async (key: string, value: unknown): Promise<void> => {
+    try {
+      await withStore(CACHE_STORE, 'readwrite', store => store.put(value, key));
+    } catch (err) {
+      console.error('Offline cache write failed:', err);
+    }
+  },
+
+  /** Forget everything cached (e.g. on logout, so the next player doesn't see it) */
+  clear: async (): Promise<void> => {
+    try {
+      await withStore(CACHE_STORE, 'readwrite', store => store.clear());
+    } catch (err) {
+      console.error('Offline cache clear failed:', err);
+    }
+  }
+};
+
+// ─── Unlock Queue ───────────────────────────────────────────────────────────
+
+/** Scans waiting for a connection */
+export const unlockQueue = {
+  /**
+   * Queue a scan made offline.
+   * @param   {QueuedUnlock} entry - The scan, without an id
+   * @returns {Promise<QueuedUnlock>} The entry with its assigned id
+   */
+  add: async (entry: QueuedUnlock): Promise<QueuedUnlock> => {
+    const id = await withStore<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.add(entry));
+    return { ...entry, id: id as number };
+  },
+
+  /** Every queued scan, oldest first */
+  getAll: async (): Promise<QueuedUnlock[]> => {
+    try {
+      return await withStore<QueuedUnlock[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+    } catch (err) {
+      console.error('Failed to read unlock queue:', err);
+      return [];
+    }
+  },
+
+  /**
+   * Drop a scan once the server has answered for it (accepted or rejected).
+   * @param {number} id - The queued entry's id
+   */
+  remove: async (id: number): Promise<void> => {
+    await withStore(QUEUE_STORE, 'readwrite', store => store.delete(id));
+  },
+
+  /** Drop every queued scan (e.g. on logout) */
+  clear: async (): Promise<void> => {
+    await withStore(QUEUE_STORE, 'readwrite', store => store.clear());
+  }
+};
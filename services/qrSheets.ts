@@ -0,0 +1,221 @@
+/**
+ * QR Sheets — QR codes and print-ready PDFs for treasure stickers, generated in the
+ * browser so treasure payloads never leave the admin's machine and printing works offline.
+ *   - qrDataUrl: a QR code image for one payload
+ *   - buildQrSheetPdf: a PDF of every QR treasure laid out for a chosen sheet
+ * Photo treasures are unlocked by a photo, not a scan, so they never get a sticker.
+ */
+
+import QRCode from 'qrcode';
+import { jsPDF } from 'jspdf';
+import { AdminTreasureFromAPI } from './api';
+
+export type SheetLayout = 'avery-l7163' | 'avery-5163' | 'poster' | 'stickers';
+
+/** How a layout places treasures on the page — all sizes in millimetres */
+interface SheetLayoutSpec {
+  label: string;
+  description: string;
+  format: 'a4' | 'letter';
+  /** How each treasure is drawn */
+  style: 'label' | 'poster' | 'sticker';
+  columns: number;
+  rows: number;
+  /** Size of one cell, and where the first one starts */
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  /** Distance from one cell to the start of the next */
+  columnPitch: number;
+  rowPitch: number;
+}
+
+/** The sheets admins can print on (Avery sizes are from the label packs' templates) */
+export const SHEET_LAYOUTS: Record<SheetLayout, SheetLayoutSpec> = {
+  'avery-l7163': {
+    label: 'Avery L7163 (A4)',
+    description: '14 labels per sheet, 99.1 × 38.1 mm',
+    format: 'a4', style: 'label', columns: 2, rows: 7,
+    width: 99.1, height: 38.1, left: 4.65, top: 15.15, columnPitch: 101.6, rowPitch: 38.1
+  },
+  'avery-5163': {
+    label: 'Avery 5163 (US Letter)',
+    description: '10 labels per sheet, 4 × 2 in',
+    format: 'letter', style: 'label', columns: 2, rows: 5,
+    width: 101.6, height: 50.8, left: 3.96, top: 12.7, columnPitch: 106.38, rowPitch: 50.8
+  },
+  poster: {
+    label: 'A4 poster',
+    description: 'One treasure per page, with its clue',
+    format: 'a4', style: 'poster', columns: 1, rows: 1,
+    width: 210, height: 297, left: 0, top: 0, columnPitch: 0, rowPitch: 0
+  },
+  stickers: {
+    label: 'Small stickers (A4)',
+    description: '20 per sheet with cut lines, QR and manual code only',
+    format: 'a4', style: 'sticker', columns: 4, rows: 5,
+    width: 45, height: 55, left: 15, top: 11, columnPitch: 45, rowPitch: 55
+  }
+};
+
+// Theme colours as RGB, to match the on-screen print cards
+const EEL: [number, number, number] = [75, 75, 75];
+const WOLF: [number, number, number] = [119, 119, 119];
+const HARE: [number, number, number] = [175, 175, 175];
+const SWAN: [number, number, number] = [229, 229, 229];
+
+/**
+ * Whether a treasure is unlocked by scanning (and so needs a printed QR code).
+ * @param {AdminTreasureFromAPI} treasure
+ */
+export const hasQrCode = (treasure: AdminTreasureFromAPI): boolean => treasure.unlockType !== 'photo';
+
+/**
+ * Render a QR code as a PNG data URL.
+ * @param {string} payload - What the code should contain (a treasure's qrPayload)
+ * @param {number} [size]  - Width of the image in pixels
+ */
+export const qrDataUrl = (payload: string, size = 512): Promise<string> =>
+  QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 2, width: size });
+
+/** Category and points, as printed under a treasure's name */
+const metaLine = (treasure: AdminTreasureFromAPI): string =>
+  `${treasure.category.toUpperCase()} · ${treasure.points} PTS · V${treasure.qrVersion}`;
+
+/**
+ * Cut text to one line that fits the width, adding "..." if anything was dropped.
+ * @param {jsPDF}  doc
+ * @param {string} text
+ * @param {number} width - Available width in mm (at the current font size)
+ */
+const fitLine = (doc: jsPDF, text: string, width: number): string => {
+  if (doc.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && doc.getTextWidth(`${cut}...`) > width) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}...`;
+};
+
+/** Avery label: QR on the left, name, meta and manual code beside it */
+const drawLabel = (doc: jsPDF, treasure: AdminTreasureFromAPI, qr: string, x: number, y: number, w: number, h: number) => {
+  const pad = 3;
+  const qrSize = h - pad * 2;
+  doc.addImage(qr, 'PNG', x + pad, y + pad, qrSize, qrSize);
+
+  const textX = x + qrSize + pad * 2;
+  const textWidth = w - qrSize - pad * 3;
+
+  doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(...EEL);
+  const name = doc.splitTextToSize(treasure.name, textWidth) as string[];
+  const nameLines = name.length > 2 ? [name[0], fitLine(doc, name.slice(1).join(' '), textWidth)] : name;
+  doc.text(nameLines, textX, y + pad + 4);
+
+  const metaY = y + pad + 4 + nameLines.length * 4.6;
+  doc.setFont('helvetica', 'bold').setFontSize(6.5).setTextColor(...HARE);
+  doc.text(fitLine(doc, metaLine(treasure), textWidth), textX, metaY);
+
+  doc.setFont('courier', 'bold').setFontSize(13).setTextColor(...EEL);
+  doc.text(treasure.manualCode, textX, metaY + 6);
+
+  doc.setFont('helvetica', 'bold').setFontSize(6.5).setTextColor(...WOLF);
+  doc.text('SCAN TO UNLOCK! · GEOHUNT', textX, y + h - pad - 1);
+};
+
+/** Small sticker: a dashed cut line, the QR code and the manual code under it */
+const drawSticker = (doc: jsPDF, treasure: AdminTreasureFromAPI, qr: string, x: number, y: number, w: number, h: number) => {
+  doc.setDrawColor(...SWAN).setLineWidth(0.3).setLineDashPattern([1.5, 1.5], 0);
+  doc.rect(x, y, w, h);
+  doc.setLineDashPattern([], 0);
+
+  const qrSize = w - 8;
+  doc.addImage(qr, 'PNG', x + 4, y + 3, qrSize, qrSize);
+
+  doc.setFont('courier', 'bold').setFontSize(11).setTextColor(...EEL);
+  doc.text(treasure.manualCode, x + w / 2, y + qrSize + 8, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal').setFontSize(6).setTextColor(...HARE);
+  doc.text(fitLine(doc, treasure.name, w - 6), x + w / 2, y + h - 3.5, { align: 'center' });
+};
+
+/** A4 poster: big QR, name, the clue, and the manual code as a fallback */
+const drawPoster = (doc: jsPDF, treasure: AdminTreasureFromAPI, qr: string) => {
+  const centre = 105;
+  const textWidth = 160;
+
+  doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(...HARE);
+  doc.text('GEOHUNT CAMPUS TREASURE', centre, 22, { align: 'center' });
+
+  doc.addImage(qr, 'PNG', centre - 55, 30, 110, 110);
+
+  doc.setFont('helvetica', 'bold').setFontSize(28).setTextColor(...EEL);
+  const name = (doc.splitTextToSize(treasure.name, textWidth) as string[]).slice(0, 2);
+  doc.text(name, centre, 156, { align: 'center' });
+  let y = 156 + name.length * 11;
+
+  doc.setFontSize(10).setTextColor(...HARE);
+  doc.text(metaLine(treasure), centre, y, { align: 'center' });
+  y += 12;
+
+  doc.setFillColor(247, 247, 247).roundedRect(centre - textWidth / 2 - 5, y, textWidth + 10, 60, 4, 4, 'F');
+  doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(...WOLF);
+  doc.text('CLUE', centre, y + 9, { align: 'center' });
+  doc.setFont('helvetica', 'normal').setFontSize(14).setTextColor(...EEL);
+  const clue = (doc.splitTextToSize(treasure.clue, textWidth) as string[]).slice(0, 7);
+  doc.text(clue, centre, y + 17, { align: 'center' });
+  y += 72;
+
+  doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(...WOLF);
+  doc.text('CAMERA NOT WORKING? ENTER THIS CODE IN THE APP', centre, y, { align: 'center' });
+  doc.setFont('courier', 'bold').setFontSize(24).setTextColor(...EEL);
+  doc.text(treasure.manualCode, centre, y + 11, { align: 'center' });
+
+  doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(88, 204, 2);
+  doc.text('Scan to unlock!', centre, 282, { align: 'center' });
+};
+
+/**
+ * Number of pages a layout needs for a number of treasures.
+ * @param {SheetLayout} layout
+ * @param {number}      count
+ */
+export const sheetPageCount = (layout: SheetLayout, count: number): number => {
+  const { columns, rows } = SHEET_LAYOUTS[layout];
+  return Math.ceil(count / (columns * rows));
+};
+
+/**
+ * Build a PDF with a QR code for every scannable treasure, ready to print.
+ * @param {AdminTreasureFromAPI[]} treasures - Treasures to print (photo treasures are skipped)
+ * @param {SheetLayout}            layout    - Which sheet to lay them out for
+ * @param {string}                 title     - What the set is called (also used for the filename)
+ */
+export const buildQrSheetPdf = async (
+  treasures: AdminTreasureFromAPI[],
+  layout: SheetLayout,
+  title: string
+): Promise<{ blob: Blob; filename: string }> => {
+  const spec = SHEET_LAYOUTS[layout];
+  const printable = treasures.filter(hasQrCode);
+  const codes = await Promise.all(printable.map(t => qrDataUrl(t.qrPayload)));
+
+  const doc = new jsPDF({ unit: 'mm', format: spec.format, compress: true });
+  doc.setProperties({ title: `${title} - QR codes`, creator: 'GeoHunt' });
+
+  const perPage = spec.columns * spec.rows;
+  printable.forEach((treasure, i) => {
+    if (i > 0 && i % perPage === 0) doc.addPage();
+    const slot = i % perPage;
+    const x = spec.left + (slot % spec.columns) * spec.columnPitch;
+    const y = spec.top + Math.floor(slot / spec.columns) * spec.rowPitch;
+
+    if (spec.style === 'poster') drawPoster(doc, treasure, codes[i]);
+    else if (spec.style === 'sticker') drawSticker(doc, treasure, codes[i], x, y, spec.width, spec.height);
+    else drawLabel(doc, treasure, codes[i], x, y, spec.width, spec.height);
+  });
+
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'geohunt';
+  return {
+    blob: doc.output('blob'),
+    filename: `${slug}-qr-${layout}.pdf`
+  };
+};
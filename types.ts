@@ -12,9 +12,19 @@ export interface Treasure {
   latitude: number;
   longitude: number;
   points: number;
+  /** Distance in meters within which the server accepts an unlock */
+  unlockRadius: number;
   trivia?: string;
   isUnlocked: boolean;
   category: 'academic' | 'social' | 'sports' | 'history';
+  /** IDs of treasures that must be found before this one can be unlocked */
+  prerequisites: string[];
+  /** 'qr' treasures are scanned; 'photo' treasures are claimed with a photo an admin approves */
+  unlockType: 'qr' | 'photo';
+  /** What the photo should show, for photo challenges */
+  photoPrompt?: string;
+  /** The treasure's quiz question, if it has one (kept so it can be asked offline) */
+  quiz?: import('./services/api').QuizChallenge;
 }
 
 /** Tracks a player's overall game progress */
@@ -24,6 +34,8 @@ export interface UserProgress {
   totalPoints: number;
   badges: string[];
   level: number;
+  /** XP into and to the next level, from the server — missing until progress has loaded */
+  levelInfo?: import('./services/api').LevelInfo;
   missionBriefing?: string;
 }
 